@@ -66,6 +66,14 @@ class MockFirestore {
     return new MockBatch();
   }
 
+  // Transactions: reads see committed data, writes apply only if the update succeeds
+  async runTransaction<T>(updateFunction: (transaction: MockTransaction) => Promise<T>): Promise<T> {
+    const transaction = new MockTransaction();
+    const result = await updateFunction(transaction);
+    await transaction.commit();
+    return result;
+  }
+
   // Test utilities
   setMockData(path: string, docId: string, data: any) {
     if (!this.collections[path]) {
@@ -118,6 +126,41 @@ class MockBatch {
   }
 }
 
+interface MockDocumentRef {
+  id: string;
+  path: string;
+  collectionPath: string;
+}
+
+class MockTransaction {
+  private operations: Array<{ type: string; docRef: MockDocumentRef; data?: unknown }> = [];
+
+  async get(docRef: MockDocumentRef): Promise<MockDocument> {
+    return MockFirestore.getInstance().getDoc(docRef);
+  }
+
+  set(docRef: MockDocumentRef, data: unknown): MockTransaction {
+    this.operations.push({ type: 'set', docRef, data });
+    return this;
+  }
+
+  delete(docRef: MockDocumentRef): MockTransaction {
+    this.operations.push({ type: 'delete', docRef });
+    return this;
+  }
+
+  async commit(): Promise<void> {
+    const firestore = MockFirestore.getInstance();
+    for (const op of this.operations) {
+      if (op.type === 'set') {
+        await firestore.setDoc(op.docRef, op.data);
+      } else if (op.type === 'delete') {
+        await firestore.deleteDoc(op.docRef);
+      }
+    }
+  }
+}
+
 export const mockFirestore = MockFirestore.getInstance();
 
 // Mock functions
@@ -139,4 +182,7 @@ export const getDocs = jest.fn().mockImplementation((collectionRef) =>
   mockFirestore.getDocs(collectionRef)
 );
 export const writeBatch = jest.fn().mockImplementation(() => mockFirestore.createBatch());
+export const runTransaction = jest.fn().mockImplementation((_db, updateFunction) =>
+  mockFirestore.runTransaction(updateFunction)
+);
 export const enableIndexedDbPersistence = jest.fn().mockResolvedValue(undefined);
\ No newline at end of file
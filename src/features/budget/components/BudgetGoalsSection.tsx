@@ -0,0 +1,76 @@
+import { usePortfolioStore } from '@/features/core/stores/hooks';
+import { Budget } from '@/features/budget/stores/Budget';
+import { CollapsibleSection } from '@/features/shared/components/CollapsibleSection';
+import { ValidatedCurrencyInput, ValidatedTextInput, ValidatedYearInput } from '@/features/shared/components/forms';
+import { observer } from 'mobx-react-lite';
+import React from 'react';
+
+interface BudgetGoalsSectionProps {
+  asset: Budget;
+}
+
+export const BudgetGoalsSection: React.FC<BudgetGoalsSectionProps> = observer(({ asset }) => {
+  const portfolioStore = usePortfolioStore();
+  const projectionYears = parseInt(portfolioStore.years) || 10;
+
+  const icon = (
+    <svg className="w-6 h-6 text-primary-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 21v-4m0 0V5a2 2 0 012-2h6.5l1 1H21l-3 6 3 6h-8.5l-1-1H5a2 2 0 00-2 2zm9-13.5V9" />
+    </svg>
+  );
+
+  return (
+    <CollapsibleSection title="One-Off Goals" icon={icon} defaultExpanded={false}>
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Large purchases paid from the budget in a single year, in today's dollars.
+          </p>
+          <button
+            type="button"
+            onClick={asset.addGoal}
+            className="text-sm font-medium text-primary-600 dark:text-primary-400 hover:text-primary-700"
+          >
+            + Add goal
+          </button>
+        </div>
+
+        {asset.inputs.goals.map((goal) => (
+          <div key={goal.id} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 grid grid-cols-1 md:grid-cols-4 gap-4 items-start">
+            <ValidatedTextInput
+              label="Goal"
+              value={goal.name}
+              onChange={(value) => asset.updateGoal(goal.id, 'name', value)}
+              fieldName={`goalName-${goal.id}`}
+              maxLength={40}
+            />
+
+            <ValidatedYearInput
+              label="Projection Year"
+              value={goal.year}
+              onChange={(value) => asset.updateGoal(goal.id, 'year', value)}
+              fieldName={`goalYear-${goal.id}`}
+              minYear={1}
+              maxYear={projectionYears}
+            />
+
+            <ValidatedCurrencyInput
+              label="Amount"
+              value={goal.amount}
+              onChange={(value) => asset.updateGoal(goal.id, 'amount', value)}
+              fieldName={`goalAmount-${goal.id}`}
+            />
+
+            <button
+              type="button"
+              onClick={() => asset.removeGoal(goal.id)}
+              className="text-sm text-red-600 dark:text-red-400 hover:text-red-700 md:mt-7"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+    </CollapsibleSection>
+  );
+});
@@ -0,0 +1,89 @@
+import { usePortfolioStore } from '@/features/core/stores/hooks';
+import { Budget } from '@/features/budget/stores/Budget';
+import { LifeEventSelect } from '@/features/household/components/LifeEventSelect';
+import { CollapsibleSection } from '@/features/shared/components/CollapsibleSection';
+import { ValidatedCurrencyInput, ValidatedPercentageInput, ValidatedSelectInput } from '@/features/shared/components/forms';
+import { observer } from 'mobx-react-lite';
+import React from 'react';
+
+interface BudgetInputFormProps {
+  asset: Budget;
+}
+
+export const BudgetInputForm: React.FC<BudgetInputFormProps> = observer(({ asset }) => {
+  const portfolioStore = usePortfolioStore();
+
+  const investmentOptions = [
+    { value: '', label: 'Keep surpluses as cash' },
+    ...portfolioStore.investments.map(investment => ({
+      value: investment.id,
+      label: `Invest in "${investment.name}"`
+    }))
+  ];
+
+  const icon = (
+    <svg className="w-6 h-6 text-primary-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
+    </svg>
+  );
+
+  return (
+    <CollapsibleSection title="Income & Expenses" icon={icon} className="animate-slide-up">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+        <ValidatedCurrencyInput
+          label="Annual Salary"
+          value={asset.inputs.annualSalary}
+          onChange={(value) => asset.updateInput('annualSalary', value)}
+          fieldName="annualSalary"
+          helpText="Gross household salary in the starting year"
+        />
+
+        <ValidatedPercentageInput
+          label="Yearly Raise"
+          value={asset.inputs.salaryGrowthRate}
+          onChange={(value) => asset.updateInput('salaryGrowthRate', value)}
+          allowNegative={true}
+          fieldName="salaryGrowthRate"
+          highValueWarning={{ threshold: 10, message: 'Raises above 10% a year are unusual' }}
+        />
+
+        <ValidatedPercentageInput
+          label="Income Tax Rate"
+          value={asset.inputs.incomeTaxRate}
+          onChange={(value) => asset.updateInput('incomeTaxRate', value)}
+          fieldName="incomeTaxRate"
+          maxValue={100}
+          helpText="Effective rate on salary"
+        />
+
+        <ValidatedCurrencyInput
+          label="Annual Living Expenses"
+          value={asset.inputs.annualExpenses}
+          onChange={(value) => asset.updateInput('annualExpenses', value)}
+          fieldName="annualExpenses"
+          helpText="In today's dollars, grown with inflation"
+        />
+
+        <ValidatedSelectInput
+          label="Surplus Goes To"
+          value={asset.inputs.linkedInvestmentId || ''}
+          onChange={(value) => asset.updateInput('linkedInvestmentId', value || null)}
+          options={investmentOptions}
+          fieldName="budgetLinkedInvestment"
+          helpText={asset.inputs.linkedInvestmentId
+            ? 'Surpluses are contributed to this investment and deficits are withdrawn from it'
+            : 'Surpluses accumulate as cash and deficits reduce it'}
+        />
+
+        <LifeEventSelect
+          label="Salary Ends At"
+          value={asset.inputs.incomeEndEvent}
+          onChange={(value) => asset.updateInput('incomeEndEvent', value)}
+          fieldName="incomeEndEvent"
+          noneLabel="Salary continues"
+          helpText="Stop the salary at a household life event, such as retirement"
+        />
+      </div>
+    </CollapsibleSection>
+  );
+});
@@ -0,0 +1,122 @@
+import { observer } from 'mobx-react-lite';
+import React from 'react';
+import { Budget } from '@/features/budget/stores/Budget';
+import { usePortfolioStore } from '@/features/core/stores/hooks';
+import { FinancialTable } from '@/features/shared/components/tables';
+import { type ColumnDefinition, type DualValueColumn } from '@/features/shared/components/tables/types';
+import { formatCurrency } from '@/features/shared/utils/formatCurrency';
+
+interface BudgetResultsTableProps {
+  asset: Budget;
+}
+
+export const BudgetResultsTable: React.FC<BudgetResultsTableProps> = observer(({ asset }) => {
+  const { household } = usePortfolioStore();
+
+  if (!asset.hasResults) {
+    return null;
+  }
+
+  const results = asset.results.slice(1);
+  const hasGoals = results.some(result => result.goalSpending > 0);
+
+  const columns: ColumnDefinition[] = [
+    {
+      key: 'actualYear',
+      label: 'Year',
+      type: 'year',
+      alignment: 'left',
+      sticky: true
+    }
+  ];
+
+  if (household.hasAges) {
+    columns.push({
+      key: 'age',
+      label: household.ageLabelHeading,
+      type: 'text',
+      alignment: 'left',
+      formatter: (_value, row) => household.getAgeLabel(row.actualYear)
+    });
+  }
+
+  columns.push({
+    key: 'incomeTax',
+    label: 'Income Tax',
+    type: 'currency',
+    alignment: 'right',
+    colorize: () => 'text-red-600 dark:text-red-400'
+  });
+
+  const dualValueColumns: DualValueColumn[] = [
+    {
+      key: 'income',
+      label: 'Income',
+      nominalKey: 'income',
+      realKey: 'realIncome',
+      type: 'currency',
+      alignment: 'right'
+    },
+    {
+      key: 'expenses',
+      label: 'Expenses',
+      nominalKey: 'expenses',
+      realKey: 'realExpenses',
+      type: 'currency',
+      alignment: 'right',
+      colorize: () => 'text-red-600 dark:text-red-400'
+    },
+    {
+      key: 'surplus',
+      label: 'Surplus',
+      nominalKey: 'surplus',
+      realKey: 'realSurplus',
+      type: 'currency',
+      alignment: 'right',
+      formatter: (value) => formatCurrency(value, { showPositiveSign: true }),
+      colorize: (value) => value >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+    },
+    {
+      key: 'cash',
+      label: 'Cash Held',
+      nominalKey: 'balance',
+      realKey: 'realBalance',
+      type: 'currency',
+      alignment: 'right'
+    }
+  ];
+
+  if (hasGoals) {
+    dualValueColumns.splice(2, 0, {
+      key: 'goalSpending',
+      label: 'Goals',
+      nominalKey: 'goalSpending',
+      realKey: 'realGoalSpending',
+      type: 'currency',
+      alignment: 'right',
+      colorize: () => 'text-red-600 dark:text-red-400'
+    });
+  }
+
+  const icon = (
+    <svg className="w-6 h-6 text-primary-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+    </svg>
+  );
+
+  return (
+    <div className="mt-6 animate-slide-up animation-delay-200">
+      <FinancialTable
+        data={results}
+        columns={columns}
+        dualValueColumns={dualValueColumns}
+        title="Budget Results"
+        icon={icon}
+        defaultExpanded={false}
+        className="rounded-xl border border-gray-200 dark:border-gray-700"
+        alternatingRows={true}
+        hover={true}
+      />
+    </div>
+  );
+});
@@ -0,0 +1,89 @@
+import { Budget } from '@/features/budget/stores/Budget';
+import { CollapsibleSection } from '@/features/shared/components/CollapsibleSection';
+import { CurrencyDisplay } from '@/features/shared/components/CurrencyDisplay';
+import { observer } from 'mobx-react-lite';
+import React from 'react';
+
+interface BudgetSummaryProps {
+  asset: Budget;
+}
+
+export const BudgetSummary: React.FC<BudgetSummaryProps> = observer(({ asset }) => {
+  const summary = asset.summaryData;
+  const finalResult = asset.finalResult;
+
+  if (!summary || !finalResult) {
+    return null;
+  }
+
+  const linkedInvestment = asset.linkedInvestment;
+
+  const icon = (
+    <svg className="w-6 h-6 text-primary-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+    </svg>
+  );
+
+  return (
+    <CollapsibleSection title="Budget Summary" icon={icon} defaultExpanded={true}>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 md:gap-4">
+        <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+          <h3 className="text-sm font-semibold text-gray-600 dark:text-gray-400 mb-2">
+            Total Income
+          </h3>
+          <CurrencyDisplay
+            amount={Math.round(summary.totalIncome)}
+            className="text-2xl font-bold text-gray-900 dark:text-white"
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            Income tax: <CurrencyDisplay amount={Math.round(summary.totalIncomeTax)} className="inline" />
+          </p>
+        </div>
+
+        <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+          <h3 className="text-sm font-semibold text-gray-600 dark:text-gray-400 mb-2">
+            Total Spending
+          </h3>
+          <CurrencyDisplay
+            amount={Math.round(summary.totalExpenses + summary.totalGoalSpending)}
+            className="text-2xl font-bold text-gray-900 dark:text-white"
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            Goals: <CurrencyDisplay amount={Math.round(summary.totalGoalSpending)} className="inline" />
+          </p>
+        </div>
+
+        <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+          <h3 className="text-sm font-semibold text-gray-600 dark:text-gray-400 mb-2">
+            Net Surplus
+          </h3>
+          <CurrencyDisplay
+            amount={Math.round(summary.totalSurplus)}
+            options={{ showPositiveSign: true }}
+            className={`text-2xl font-bold ${summary.totalSurplus >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            {summary.deficitYears > 0
+              ? `${summary.deficitYears} deficit year${summary.deficitYears === 1 ? '' : 's'}`
+              : 'No deficit years'}
+          </p>
+        </div>
+
+        <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+          <h3 className="text-sm font-semibold text-gray-600 dark:text-gray-400 mb-2">
+            {linkedInvestment ? 'Invested' : 'Cash Held'}
+          </h3>
+          <CurrencyDisplay
+            amount={Math.round(linkedInvestment ? summary.totalInvested : finalResult.balance)}
+            className="text-2xl font-bold text-gray-900 dark:text-white"
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            {linkedInvestment
+              ? <span className="text-purple-600 dark:text-purple-400">Net paid into {linkedInvestment.name}</span>
+              : 'Surpluses kept outside any investment'}
+          </p>
+        </div>
+      </div>
+    </CollapsibleSection>
+  );
+});
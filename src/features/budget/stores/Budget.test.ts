@@ -0,0 +1,107 @@
+import { Budget } from './Budget';
+import { Household } from '@/features/household/stores/Household';
+import { createAsset, createAssetFromJSON, isBudget } from '@/features/portfolio/factories/AssetFactory';
+
+describe('Budget', () => {
+  let budget: Budget;
+
+  beforeEach(() => {
+    budget = new Budget('Household', {
+      annualSalary: '100000',
+      salaryGrowthRate: '0',
+      incomeTaxRate: '20',
+      annualExpenses: '50000',
+      inflationRate: '0'
+    });
+    budget.portfolioStore = { startingYear: '2024', years: '5' };
+  });
+
+  describe('results', () => {
+    it('starts with an empty year 0', () => {
+      expect(budget.results[0]).toMatchObject({ year: 0, actualYear: 2024, balance: 0, surplus: 0 });
+      expect(budget.results).toHaveLength(6);
+    });
+
+    it('keeps surpluses as cash without a linked investment', () => {
+      const year1 = budget.results[1];
+      expect(year1.income).toBe(100000);
+      expect(year1.incomeTax).toBe(20000);
+      expect(year1.expenses).toBe(50000);
+      expect(year1.surplus).toBe(30000);
+      expect(year1.investedSurplus).toBe(0);
+      expect(budget.finalResult?.balance).toBe(150000);
+    });
+
+    it('grows the salary with raises and expenses with inflation', () => {
+      budget.updateInput('salaryGrowthRate', '10');
+      budget.updateInput('inflationRate', '10');
+
+      const year2 = budget.results[2];
+      expect(year2.income).toBe(121000);
+      expect(year2.expenses).toBe(60500);
+      expect(year2.realExpenses).toBe(50000);
+    });
+
+    it('spends one-off goals in their projection year', () => {
+      budget.addGoal();
+      const goal = budget.inputs.goals[0];
+      budget.updateGoal(goal.id, 'year', '2');
+      budget.updateGoal(goal.id, 'amount', '40000');
+
+      expect(budget.results[2].goalSpending).toBe(40000);
+      expect(budget.results[2].surplus).toBe(-10000);
+      expect(budget.results[3].goalSpending).toBe(0);
+      expect(budget.summaryData?.deficitYears).toBe(1);
+      expect(budget.warnings).toEqual([
+        'Spending exceeds income in 1 year starting 2026 and no investment covers the deficit'
+      ]);
+
+      budget.removeGoal(goal.id);
+      expect(budget.inputs.goals).toHaveLength(0);
+    });
+
+    it('stops the salary at a household life event', () => {
+      const household = new Household();
+      const alexId = household.addMember('Alex', { birthYear: '1962', retirementAge: '65' });
+      budget.portfolioStore = { startingYear: '2024', years: '5', household };
+      budget.updateInput('incomeEndEvent', { memberId: alexId, event: 'retirement', age: '' });
+
+      expect(budget.incomeEndYear).toBe(2027);
+      expect(budget.results.map(result => result.income)).toEqual([0, 100000, 100000, 0, 0, 0]);
+
+      household.removeMember(alexId);
+      expect(budget.incomeEndYear).toBeNull();
+      expect(budget.warnings).toContain(
+        'The salary end life event has no year (missing household member or birth year); the salary continues'
+      );
+    });
+
+    it('warns when the linked investment is missing', () => {
+      budget.updateInput('linkedInvestmentId', 'missing');
+      expect(budget.linkedInvestment).toBeNull();
+      expect(budget.warnings).toContain(
+        'The linked investment is missing or excluded from the portfolio; surpluses are kept as cash'
+      );
+    });
+  });
+
+  describe('serialization', () => {
+    it('round-trips through the asset factory', () => {
+      budget.addGoal();
+      budget.setEnabled(false);
+
+      const restored = createAssetFromJSON(JSON.parse(JSON.stringify(budget.toJSON())));
+      expect(isBudget(restored)).toBe(true);
+      expect(restored.id).toBe(budget.id);
+      expect(restored.enabled).toBe(false);
+      expect((restored as Budget).inputs).toEqual(budget.inputs);
+    });
+
+    it('creates budgets with default inputs', () => {
+      const created = createAsset('budget', 'New');
+      expect(created.type).toBe('budget');
+      expect(created.inputs.goals).toEqual([]);
+      expect(created.inputs.linkedInvestmentId).toBeNull();
+    });
+  });
+});
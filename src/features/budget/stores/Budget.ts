@@ -0,0 +1,300 @@
+import { makeAutoObservable, computed } from 'mobx';
+import { v4 as uuidv4 } from 'uuid';
+import { type BaseAsset, type BaseCalculationResult } from '@/features/shared/types/BaseAsset';
+import { type Household, type LifeEventReference } from '@/features/household/stores/Household';
+import type { Investment } from '@/features/investment/stores/Investment';
+
+export interface BudgetGoal {
+  id: string;
+  name: string;
+  year: string;  // Projection year (1 = first projected year)
+  amount: string;  // In starting-year dollars, grown with inflation
+}
+
+export interface BudgetInputs {
+  annualSalary: string;  // Gross salary in the starting year
+  salaryGrowthRate: string;  // Yearly raise (%)
+  incomeTaxRate: string;  // Effective tax on salary (%)
+  annualExpenses: string;  // Living expenses in starting-year dollars
+  inflationRate: string;  // Expenses and goals grow with inflation
+  goals: BudgetGoal[];  // One-off spending such as a car or a wedding
+  linkedInvestmentId: string | null;  // Investment funded by surpluses and drawn on for deficits
+  incomeEndEvent: LifeEventReference | null;  // Household life event after which the salary stops
+}
+
+export interface BudgetResult extends BaseCalculationResult {
+  income: number; // Salary before tax
+  realIncome: number;
+  incomeTax: number;
+  expenses: number; // Living expenses
+  realExpenses: number;
+  goalSpending: number; // One-off goals due this year
+  realGoalSpending: number;
+  surplus: number; // Income after tax, expenses and goals (negative = deficit)
+  realSurplus: number;
+  investedSurplus: number; // Part of the surplus paid into (or deficit drawn from) the linked investment
+}
+
+export class Budget implements BaseAsset {
+  id: string;
+  name: string;
+  enabled: boolean;
+  inputs: BudgetInputs;
+  portfolioStore?: {
+    startingYear?: string;
+    years?: string;
+    investments?: Investment[];
+    household?: Household;
+  }; // Will be injected by PortfolioStore
+
+  // UI state
+  showBalance = true;
+  showContributions = true;
+  showNetGain = true;
+
+  // Loading state for heavy computations
+  isCalculating = false;
+
+  constructor(name: string = 'New Budget', initialInputs?: Partial<BudgetInputs>) {
+    this.id = uuidv4();
+    this.name = name;
+    this.enabled = true;
+
+    // Default inputs
+    this.inputs = {
+      annualSalary: '80000',
+      salaryGrowthRate: '3',
+      incomeTaxRate: '25',
+      annualExpenses: '45000',
+      inflationRate: '2.5',
+      goals: [],
+      linkedInvestmentId: null,
+      incomeEndEvent: null,
+      ...initialInputs
+    };
+
+    makeAutoObservable(this, {
+      results: computed,
+      startingYear: computed,
+      linkedInvestment: computed,
+      incomeEndYear: computed,
+      summaryData: computed
+    });
+  }
+
+  // Actions
+  setName = (name: string) => {
+    this.name = name;
+  }
+
+  setEnabled = (enabled: boolean) => {
+    this.enabled = enabled;
+  }
+
+  updateInput = <K extends keyof BudgetInputs>(key: K, value: BudgetInputs[K]) => {
+    this.inputs[key] = value;
+  }
+
+  // One-off goal actions
+  addGoal = () => {
+    const year = this.inputs.goals.length > 0
+      ? String((parseInt(this.inputs.goals[this.inputs.goals.length - 1].year) || 0) + 1)
+      : '1';
+    this.inputs.goals.push({
+      id: uuidv4(),
+      name: `Goal ${this.inputs.goals.length + 1}`,
+      year,
+      amount: '10000'
+    });
+  }
+
+  updateGoal = <K extends keyof BudgetGoal>(id: string, key: K, value: BudgetGoal[K]) => {
+    const goal = this.inputs.goals.find(g => g.id === id);
+    if (goal) {
+      goal[key] = value;
+    }
+  }
+
+  removeGoal = (id: string) => {
+    this.inputs.goals = this.inputs.goals.filter(g => g.id !== id);
+  }
+
+  setShowBalance = (value: boolean) => {
+    this.showBalance = value;
+  }
+
+  setShowContributions = (value: boolean) => {
+    this.showContributions = value;
+  }
+
+  setShowNetGain = (value: boolean) => {
+    this.showNetGain = value;
+  }
+
+  // Computed properties
+  get startingYear(): number {
+    return this.portfolioStore?.startingYear ? parseInt(this.portfolioStore.startingYear) : new Date().getFullYear();
+  }
+
+  // Investment receiving surpluses, if it exists and is included in the portfolio
+  get linkedInvestment(): Investment | null {
+    const targetId = this.inputs.linkedInvestmentId;
+    if (!targetId) return null;
+
+    const target = this.portfolioStore?.investments?.find(investment => investment.id === targetId);
+    return target && target.enabled ? target : null;
+  }
+
+  // First calendar year without salary, null when the salary continues throughout
+  get incomeEndYear(): number | null {
+    const endEvent = this.inputs.incomeEndEvent;
+    return endEvent ? this.portfolioStore?.household?.resolveLifeEvent(endEvent) ?? null : null;
+  }
+
+  /**
+   * Yearly household cash flow. Surpluses and deficits move into or out of
+   * the linked investment; without one they accumulate as cash, which is
+   * the budget's balance.
+   */
+  get results(): BudgetResult[] {
+    const yearsNum = parseInt(this.portfolioStore?.years || '10') || 1;
+    const salaryNum = parseFloat(this.inputs.annualSalary || '0') || 0;
+    const salaryGrowthNum = parseFloat(this.inputs.salaryGrowthRate || '0') || 0;
+    const incomeTaxRateNum = Math.min(Math.max(parseFloat(this.inputs.incomeTaxRate || '0') || 0, 0), 100);
+    const expensesNum = parseFloat(this.inputs.annualExpenses || '0') || 0;
+    const inflationRateNum = parseFloat(this.inputs.inflationRate || '0') || 0;
+    const hasLinkedInvestment = this.linkedInvestment !== null;
+    const incomeEndYear = this.incomeEndYear;
+
+    const projections: BudgetResult[] = [{
+      year: 0,
+      actualYear: this.startingYear,
+      balance: 0,
+      realBalance: 0,
+      income: 0,
+      realIncome: 0,
+      incomeTax: 0,
+      expenses: 0,
+      realExpenses: 0,
+      goalSpending: 0,
+      realGoalSpending: 0,
+      surplus: 0,
+      realSurplus: 0,
+      investedSurplus: 0
+    }];
+
+    let cash = 0;
+    for (let year = 1; year <= yearsNum; year++) {
+      const actualYear = this.startingYear + year;
+      const inflationFactor = Math.pow(1 + inflationRateNum / 100, year);
+
+      const isEarning = incomeEndYear === null || actualYear < incomeEndYear;
+      const income = isEarning ? salaryNum * Math.pow(1 + salaryGrowthNum / 100, year) : 0;
+      const incomeTax = income * incomeTaxRateNum / 100;
+      const expenses = expensesNum * inflationFactor;
+      const goalSpending = this.inputs.goals
+        .filter(goal => parseInt(goal.year) === year)
+        .reduce((sum, goal) => sum + (parseFloat(goal.amount || '0') || 0), 0) * inflationFactor;
+
+      const surplus = income - incomeTax - expenses - goalSpending;
+      const investedSurplus = hasLinkedInvestment ? surplus : 0;
+      cash += surplus - investedSurplus;
+
+      projections.push({
+        year,
+        actualYear,
+        balance: Math.round(cash * 100) / 100,
+        realBalance: Math.round((cash / inflationFactor) * 100) / 100,
+        income: Math.round(income * 100) / 100,
+        realIncome: Math.round((income / inflationFactor) * 100) / 100,
+        incomeTax: Math.round(incomeTax * 100) / 100,
+        expenses: Math.round(expenses * 100) / 100,
+        realExpenses: Math.round((expenses / inflationFactor) * 100) / 100,
+        goalSpending: Math.round(goalSpending * 100) / 100,
+        realGoalSpending: Math.round((goalSpending / inflationFactor) * 100) / 100,
+        surplus: Math.round(surplus * 100) / 100,
+        realSurplus: Math.round((surplus / inflationFactor) * 100) / 100,
+        investedSurplus: Math.round(investedSurplus * 100) / 100
+      });
+    }
+
+    return projections;
+  }
+
+  // Other computed values
+  get type() {
+    return 'budget' as const;
+  }
+
+  get hasResults() {
+    return this.results.length > 0;
+  }
+
+  get finalResult() {
+    return this.results[this.results.length - 1] || null;
+  }
+
+  get warnings(): string[] {
+    const warnings: string[] = [];
+
+    if (this.inputs.linkedInvestmentId && !this.linkedInvestment) {
+      warnings.push('The linked investment is missing or excluded from the portfolio; surpluses are kept as cash');
+    }
+
+    const deficitYears = this.results.filter(result => result.surplus < 0);
+    if (deficitYears.length > 0 && !this.linkedInvestment) {
+      warnings.push(`Spending exceeds income in ${deficitYears.length} year${deficitYears.length === 1 ? '' : 's'} starting ${deficitYears[0].actualYear} and no investment covers the deficit`);
+    }
+
+    if (this.inputs.incomeEndEvent && this.incomeEndYear === null) {
+      warnings.push('The salary end life event has no year (missing household member or birth year); the salary continues');
+    }
+
+    return warnings;
+  }
+
+  // Summary calculations for UI
+  get summaryData() {
+    const results = this.results.slice(1);
+    if (results.length === 0) return null;
+
+    const sum = (pick: (result: BudgetResult) => number) => results.reduce((total, result) => total + pick(result), 0);
+
+    return {
+      totalIncome: sum(result => result.income),
+      totalIncomeTax: sum(result => result.incomeTax),
+      totalExpenses: sum(result => result.expenses),
+      totalGoalSpending: sum(result => result.goalSpending),
+      totalSurplus: sum(result => result.surplus),
+      totalInvested: sum(result => result.investedSurplus),
+      deficitYears: results.filter(result => result.surplus < 0).length
+    };
+  }
+
+  // Serialization for localStorage
+  toJSON() {
+    return {
+      id: this.id,
+      name: this.name,
+      type: 'budget' as const,
+      enabled: this.enabled,
+      inputs: this.inputs,
+      showBalance: this.showBalance,
+      showContributions: this.showContributions,
+      showNetGain: this.showNetGain
+    };
+  }
+
+  static fromJSON(data: ReturnType<Budget['toJSON']>): Budget {
+    const budget = new Budget(data.name, {
+      ...data.inputs,
+      goals: (data.inputs.goals || []).map(goal => ({ ...goal }))
+    });
+    budget.id = data.id;
+    budget.enabled = data.enabled;
+    budget.showBalance = data.showBalance ?? true;
+    budget.showContributions = data.showContributions ?? true;
+    budget.showNetGain = data.showNetGain ?? true;
+    return budget;
+  }
+}
@@ -1,5 +1,8 @@
 import { useRootStore } from '@/features/core/stores/hooks';
 import { ResetPortfolioButton } from '@/features/portfolio/components/ResetPortfolioButton';
+import { LoadIssuesNotice } from '@/features/portfolio/components/LoadIssuesNotice';
+import { ScenarioSwitcher } from '@/features/scenarios/components/ScenarioSwitcher';
+import { SyncConflictDialog } from '@/features/sync/components/SyncConflictDialog';
 import { observer } from 'mobx-react-lite';
 import React, { useState } from 'react';
 import { AuthModal } from './AuthModal';
@@ -35,9 +38,10 @@ export const Layout: React.FC<LayoutProps> = observer(({ children }) => {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 3v3h-3" />
                 </svg>
               </div>
-              <h1 className="text-lg sm:text-xl font-bold text-gray-900 dark:text-white">
+              <h1 className="hidden sm:block text-lg sm:text-xl font-bold text-gray-900 dark:text-white">
                 Investisizer
               </h1>
+              <ScenarioSwitcher />
             </div>
             <div className="flex items-center space-x-1 sm:space-x-2 md:space-x-4">
               <div className="hidden sm:block">
@@ -97,12 +101,14 @@ export const Layout: React.FC<LayoutProps> = observer(({ children }) => {
 
       {/* Main content */}
       <main className="relative z-10 py-8 pb-8">
+        <LoadIssuesNotice />
         {children}
       </main>
 
       <Footer />
 
       <AuthModal isOpen={showAuthModal} onClose={() => setShowAuthModal(false)} />
+      <SyncConflictDialog />
     </div>
   );
 });
\ No newline at end of file
@@ -47,7 +47,7 @@ const ErrorModal: React.FC<{
 );
 
 export const SaveStatus: React.FC = observer(() => {
-  const { authStore, portfolioStore, storageStore } = useRootStore();
+  const { authStore, portfolioStore, storageStore, syncOutboxStore } = useRootStore();
   const [showErrorModal, setShowErrorModal] = useState(false);
 
   if (!authStore.isSignedIn) return null;
@@ -83,6 +83,17 @@ export const SaveStatus: React.FC = observer(() => {
     );
   }
 
+  if (storageStore.conflict) {
+    return (
+      <div className="flex items-center text-sm text-amber-600 dark:text-amber-400" title="Choose which changes to keep">
+        <svg className="w-3 h-3 mr-2" fill="currentColor" viewBox="0 0 20 20">
+          <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+        </svg>
+        Sync conflict
+      </div>
+    );
+  }
+
   if (storageStore.saveError) {
     return (
       <>
@@ -108,6 +119,41 @@ export const SaveStatus: React.FC = observer(() => {
     );
   }
 
+  if (syncOutboxStore.failedCount > 0) {
+    return (
+      <div className="flex items-center space-x-2">
+        <div
+          className="flex items-center text-sm text-red-500 dark:text-red-400"
+          title={`Saved on this device but not in the cloud: ${syncOutboxStore.lastError ?? 'unknown error'}`}
+        >
+          <svg className="w-3 h-3 mr-2" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+          </svg>
+          Cloud sync failed
+        </div>
+        <button
+          onClick={syncOutboxStore.retryAll}
+          disabled={syncOutboxStore.isFlushing}
+          className="text-xs text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 disabled:opacity-50 transition-colors"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  if (syncOutboxStore.pendingCount > 0) {
+    return (
+      <div
+        className="flex items-center text-sm text-amber-600 dark:text-amber-400"
+        title={`Saved on this device; the cloud copy will update when the connection is back${syncOutboxStore.lastError ? ` (${syncOutboxStore.lastError})` : ''}`}
+      >
+        <div className={`rounded-full h-3 w-3 border-b-2 border-amber-500 mr-2 ${syncOutboxStore.isFlushing ? 'animate-spin' : ''}`}></div>
+        Sync pending
+      </div>
+    );
+  }
+
   if (storageStore.lastSaveTime) {
     const timeAgo = new Date().getTime() - storageStore.lastSaveTime.getTime();
     const minutesAgo = Math.floor(timeAgo / (1000 * 60));
@@ -6,7 +6,7 @@ import { useClickOutsideMultiple, useEscapeKey } from '@/features/shared/hooks';
 
 export const AddAssetDropdown: React.FC = observer(() => {
   const portfolioStore = usePortfolioStore();
-  const { addInvestment, addProperty } = portfolioStore;
+  const { addInvestment, addProperty, addBudget, addDebt } = portfolioStore;
   const [showDropdown, setShowDropdown] = useState(false);
   
   const { createRef } = useClickOutsideMultiple<HTMLElement>(() => {
@@ -23,6 +23,10 @@ export const AddAssetDropdown: React.FC = observer(() => {
   const handleAddAsset = (type: AssetType) => {
     if (type === 'investment') {
       addInvestment();
+    } else if (type === 'budget') {
+      addBudget();
+    } else if (type === 'debt') {
+      addDebt();
     } else {
       addProperty();
     }
@@ -85,6 +89,30 @@ export const AddAssetDropdown: React.FC = observer(() => {
                 Property Asset
               </div>
             </button>
+            <button
+              onClick={() => handleAddAsset('budget')}
+              className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors focus:bg-gray-100 dark:focus:bg-gray-700 focus:outline-none"
+              role="menuitem"
+            >
+              <div className="flex items-center">
+                <svg className="w-4 h-4 mr-2 text-amber-600 dark:text-amber-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 9V7a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2m2 4h10a2 2 0 002-2v-6a2 2 0 00-2-2H9a2 2 0 00-2 2v6a2 2 0 002 2zm7-5a2 2 0 11-4 0 2 2 0 014 0z" />
+                </svg>
+                Household Budget
+              </div>
+            </button>
+            <button
+              onClick={() => handleAddAsset('debt')}
+              className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors focus:bg-gray-100 dark:focus:bg-gray-700 focus:outline-none"
+              role="menuitem"
+            >
+              <div className="flex items-center">
+                <svg className="w-4 h-4 mr-2 text-red-600 dark:text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
+                </svg>
+                Debt / Loan
+              </div>
+            </button>
           </div>
         </div>
       )}
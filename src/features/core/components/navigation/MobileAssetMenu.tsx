@@ -7,7 +7,7 @@ import React, { useState } from 'react';
 
 export const MobileAssetMenu: React.FC = observer(() => {
   const portfolioStore = usePortfolioStore();
-  const { addInvestment, addProperty } = portfolioStore;
+  const { addInvestment, addProperty, addBudget, addDebt } = portfolioStore;
   const [showAssetMenu, setShowAssetMenu] = useState(false);
 
   // Show on mobile and tablet, hide on desktop
@@ -29,6 +29,10 @@ export const MobileAssetMenu: React.FC = observer(() => {
     console.log(`Adding new ${type} asset`);
     if (type === 'investment') {
       addInvestment();
+    } else if (type === 'budget') {
+      addBudget();
+    } else if (type === 'debt') {
+      addDebt();
     } else {
       addProperty();
     }
@@ -61,6 +65,28 @@ export const MobileAssetMenu: React.FC = observer(() => {
       {/* Floating menu options */}
       {showAssetMenu && (
         <div className="fixed bottom-20 right-4 mb-2 space-y-2 z-50">
+          <button
+            onClick={() => handleAddAsset('debt')}
+            className="relative z-50 block w-full bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 px-4 py-2 rounded-lg shadow-lg hover:shadow-xl hover:-translate-y-0.5 transition-all duration-200"
+          >
+            <div className="flex items-center whitespace-nowrap">
+              <svg className="w-4 h-4 mr-2 text-red-600 dark:text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
+              </svg>
+              Debt
+            </div>
+          </button>
+          <button
+            onClick={() => handleAddAsset('budget')}
+            className="relative z-50 block w-full bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 px-4 py-2 rounded-lg shadow-lg hover:shadow-xl hover:-translate-y-0.5 transition-all duration-200"
+          >
+            <div className="flex items-center whitespace-nowrap">
+              <svg className="w-4 h-4 mr-2 text-amber-600 dark:text-amber-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 9V7a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2m2 4h10a2 2 0 002-2v-6a2 2 0 00-2-2H9a2 2 0 00-2 2v6a2 2 0 002 2zm7-5a2 2 0 11-4 0 2 2 0 014 0z" />
+              </svg>
+              Budget
+            </div>
+          </button>
           <button
             onClick={() => handleAddAsset('property')}
             className="relative z-50 block w-full bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 px-4 py-2 rounded-lg shadow-lg hover:shadow-xl hover:-translate-y-0.5 transition-all duration-200"
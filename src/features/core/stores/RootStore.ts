@@ -1,5 +1,7 @@
 import { reaction } from 'mobx';
 import { PortfolioStore } from '@/features/portfolio/stores/PortfolioStore';
+import { ScenarioStore } from '@/features/scenarios/stores/ScenarioStore';
+import { SyncOutboxStore } from '@/features/sync/stores/SyncOutboxStore';
 import { ThemeStore } from '../theme/ThemeStore';
 import { AuthStore } from './AuthStore';
 import { StorageStore } from './StorageStore';
@@ -8,12 +10,16 @@ export class RootStore {
   authStore: AuthStore;
   themeStore: ThemeStore;
   storageStore: StorageStore;
+  syncOutboxStore: SyncOutboxStore;
+  scenarioStore: ScenarioStore;
   portfolioStore: PortfolioStore;
 
   constructor(auth?: any) {
     this.authStore = new AuthStore(auth);
     this.themeStore = new ThemeStore();
+    this.scenarioStore = new ScenarioStore(this);
     this.storageStore = new StorageStore(this);
+    this.syncOutboxStore = new SyncOutboxStore(this);
     this.portfolioStore = new PortfolioStore(this);
 
     // Set up data sync reactions
@@ -39,7 +45,9 @@ export class RootStore {
         // Load data when user signs in
         if (authState.isSignedIn && authState.userId) {
           console.log('User signed in, loading data for user:', authState.userId);
-          this.portfolioStore.loadFromStorage();
+          this.scenarioStore.loadFromCloud()
+            .then(() => this.portfolioStore.loadFromStorage())
+            .then(() => this.syncOutboxStore.flush(true));
         }
         
         // Note: We don't need to handle sign-out explicitly since PortfolioStore
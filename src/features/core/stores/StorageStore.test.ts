@@ -0,0 +1,169 @@
+import { RootStore } from '@/features/core/stores/RootStore';
+import { FirestoreService } from '@/services/firestore';
+import { createSimpleMockAuth } from '@/test-utils/mockAuthFactory';
+
+const localDoc = () => JSON.parse(localStorage.getItem('portfolioData')!);
+
+describe('StorageStore - Sync conflicts', () => {
+  let rootStore: RootStore;
+  let mockAuth: ReturnType<typeof createSimpleMockAuth>;
+  let userCount = 0;
+  // Cloud data persists across tests, so each test gets its own user
+  let userId: string;
+
+  const cloudDoc = () => FirestoreService.loadPortfolio(userId);
+
+  // Another device saving on top of the current cloud document
+  const saveFromOtherDevice = async (changes: Record<string, unknown>) => {
+    const current = await cloudDoc();
+    await FirestoreService.savePortfolio(userId, {
+      ...current,
+      ...changes,
+      revision: current!.revision + 1,
+      updatedAt: new Date().toISOString()
+    });
+  };
+
+  beforeEach(async () => {
+    localStorage.clear();
+    userId = `sync-user-${++userCount}`;
+    mockAuth = createSimpleMockAuth();
+    rootStore = new RootStore(mockAuth);
+    rootStore.portfolioStore.addInvestment('Shared Investment');
+
+    mockAuth.setCurrentUser({ uid: userId, email: 'sync@example.com', displayName: 'Sync User' });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    await rootStore.portfolioStore.save();
+  });
+
+  afterEach(() => {
+    mockAuth.reset();
+  });
+
+  it('stamps each save with a growing revision and update time', async () => {
+    expect(await cloudDoc()).toMatchObject({ revision: 1, updatedAt: expect.any(String) });
+    expect(localDoc()).toMatchObject({ revision: 1, baseRevision: 1 });
+
+    rootStore.portfolioStore.setYears('25');
+    await rootStore.portfolioStore.save();
+
+    expect(await cloudDoc()).toMatchObject({ revision: 2, years: '25' });
+    expect(await cloudDoc()).not.toHaveProperty('baseRevision');
+    expect(localDoc()).toMatchObject({ revision: 2, baseRevision: 2 });
+  });
+
+  it('does not overwrite cloud changes made since the last sync', async () => {
+    await saveFromOtherDevice({ years: '40' });
+
+    rootStore.portfolioStore.setYears('25');
+    await rootStore.portfolioStore.save();
+
+    expect(await cloudDoc()).toMatchObject({ revision: 2, years: '40' });
+    expect(localDoc()).toMatchObject({ years: '25', baseRevision: 1 });
+    expect(rootStore.storageStore.conflict).toMatchObject({
+      scenarioId: 'default',
+      local: { years: '25' },
+      cloud: { years: '40', revision: 2 }
+    });
+    expect(rootStore.storageStore.statusMessage).toBe('Sync conflict');
+  });
+
+  it('keeps saving locally only while a conflict is pending', async () => {
+    await saveFromOtherDevice({ years: '40' });
+    await rootStore.portfolioStore.save();
+
+    rootStore.portfolioStore.setYears('30');
+    await rootStore.portfolioStore.save();
+
+    expect((await cloudDoc())!.years).toBe('40');
+    expect(rootStore.storageStore.conflict?.local.years).toBe('30');
+  });
+
+  it('keeps offline changes when the cloud has not changed since', async () => {
+    await rootStore.authStore.signOut();
+    rootStore.portfolioStore.setYears('25');
+    await rootStore.portfolioStore.save();
+
+    const data = await rootStore.storageStore.load('portfolioData');
+    expect(data.years).toBe('25');
+
+    mockAuth.setCurrentUser({ uid: userId, email: 'sync@example.com', displayName: 'Sync User' });
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(rootStore.portfolioStore.years).toBe('25');
+    expect(rootStore.storageStore.conflict).toBeNull();
+
+    await rootStore.portfolioStore.save();
+    expect(await cloudDoc()).toMatchObject({ years: '25', revision: 3 });
+  });
+
+  it('detects changes made both offline and on another device when loading', async () => {
+    await rootStore.authStore.signOut();
+    rootStore.portfolioStore.setYears('25');
+    await rootStore.portfolioStore.save();
+    await saveFromOtherDevice({ inflationRate: '4' });
+
+    mockAuth.setCurrentUser({ uid: userId, email: 'sync@example.com', displayName: 'Sync User' });
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    // The local copy stays on screen until the user decides
+    expect(rootStore.portfolioStore.years).toBe('25');
+    expect(rootStore.storageStore.conflict).toMatchObject({
+      local: { years: '25' },
+      cloud: { inflationRate: '4' }
+    });
+  });
+
+  it('loads cloud data without a conflict when both copies match', async () => {
+    await rootStore.authStore.signOut();
+    rootStore.portfolioStore.setYears('25');
+    await rootStore.portfolioStore.save();
+    await saveFromOtherDevice({ years: '25' });
+
+    mockAuth.setCurrentUser({ uid: userId, email: 'sync@example.com', displayName: 'Sync User' });
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(rootStore.storageStore.conflict).toBeNull();
+    expect(localDoc()).toMatchObject({ revision: 2, baseRevision: 2 });
+  });
+
+  it('saves the chosen version on top of the cloud revision', async () => {
+    await saveFromOtherDevice({ years: '40' });
+    rootStore.portfolioStore.setYears('25');
+    await rootStore.portfolioStore.save();
+
+    const { local } = rootStore.storageStore.conflict!;
+    await rootStore.storageStore.resolveConflict({ ...local, inflationRate: '1.5' });
+
+    expect(rootStore.storageStore.conflict).toBeNull();
+    expect(rootStore.portfolioStore.years).toBe('25');
+    expect(rootStore.portfolioStore.inflationRate).toBe('1.5');
+    expect(rootStore.portfolioStore.hasUnsavedChanges).toBe(false);
+    expect(await cloudDoc()).toMatchObject({ revision: 3, years: '25', inflationRate: '1.5' });
+    expect(localDoc()).toMatchObject({ revision: 3, baseRevision: 3 });
+  });
+
+  it('saves the chosen version after a save that is still running', async () => {
+    await saveFromOtherDevice({ years: '40' });
+    rootStore.portfolioStore.setYears('25');
+    await rootStore.portfolioStore.save();
+
+    const savePortfolio = FirestoreService.savePortfolio.bind(FirestoreService);
+    let finishSave = () => {};
+    jest.spyOn(FirestoreService, 'savePortfolio').mockImplementationOnce(async (...args) => {
+      await new Promise<void>(resolve => { finishSave = resolve; });
+      await savePortfolio(...args);
+    });
+    const otherSave = rootStore.storageStore.save('portfolioData', { years: '15' }, 'other-scenario');
+
+    const resolved = rootStore.storageStore.resolveConflict(rootStore.storageStore.conflict!.local);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(rootStore.storageStore.isSaving).toBe(true);
+    finishSave();
+    await Promise.all([otherSave, resolved]);
+
+    expect(await cloudDoc()).toMatchObject({ revision: 3, years: '25' });
+    expect(localDoc()).toMatchObject({ revision: 3, baseRevision: 3 });
+    jest.restoreAllMocks();
+  });
+});
@@ -1,5 +1,7 @@
 import { makeAutoObservable, runInAction } from 'mobx';
-import { FirestoreService } from '@/services/firestore';
+import { FirestoreService, PortfolioConflictError } from '@/services/firestore';
+import { DEFAULT_SCENARIO_ID, SCENARIO_DATA_KEY } from '@/features/scenarios/stores/ScenarioStore';
+import { PortfolioMergeCalculator } from '@/features/sync/calculators/PortfolioMergeCalculator';
 import type { RootStore } from './RootStore';
 
 export interface StorageState {
@@ -8,49 +10,161 @@ export interface StorageState {
   saveError: string | null;
 }
 
+// Local and cloud copies of a portfolio that were both changed since they last matched
+export interface PortfolioConflict {
+  scenarioId: string;
+  local: SyncedDocument;
+  cloud: SyncedDocument | null;
+}
+
+// Saved portfolios carry a revision that grows with every save and an updatedAt time.
+// The local cache also keeps baseRevision: the cloud revision it was last synced with,
+// so a revision ahead of it means there are changes the cloud hasn't seen.
+export interface SyncedDocument {
+  revision?: number;
+  updatedAt?: string;
+  baseRevision?: number;
+  [key: string]: unknown;
+}
+
+const getRevision = (data: SyncedDocument | null): number => data?.revision ?? 0;
+
+const hasUnsyncedChanges = (local: SyncedDocument | null): local is SyncedDocument =>
+  local?.revision !== undefined && local.revision !== local.baseRevision;
+
+const withoutBaseRevision = (data: SyncedDocument): SyncedDocument => {
+  const document = { ...data };
+  delete document.baseRevision;
+  return document;
+};
+
 export class StorageStore {
   // Storage state
   isSaving = false;
   lastSaveTime: Date | null = null;
   saveError: string | null = null;
+  conflict: PortfolioConflict | null = null;
 
   private rootStore: RootStore;
+  private pendingSave: Promise<void> | null = null;
 
   constructor(rootStore: RootStore) {
     this.rootStore = rootStore;
-    makeAutoObservable(this);
+    makeAutoObservable<this, 'pendingSave'>(this, { pendingSave: false });
+  }
+
+  // Keys and cloud documents belong to a scenario, the active one unless given
+  private resolveScenarioId(scenarioId?: string): string {
+    return scenarioId ?? this.rootStore.scenarioStore.activeScenarioId;
+  }
+
+  // Only portfolio data is kept per scenario; other keys (display settings) are shared.
+  // The default scenario keeps the original key so existing saves load unchanged.
+  private getScopedKey(key: string, scenarioId?: string): string {
+    const id = this.resolveScenarioId(scenarioId);
+    return key !== SCENARIO_DATA_KEY || id === DEFAULT_SCENARIO_ID ? key : `${key}:${id}`;
+  }
+
+  private getCloudScenarioId(scenarioId?: string): string | undefined {
+    const id = this.resolveScenarioId(scenarioId);
+    return id === DEFAULT_SCENARIO_ID ? undefined : id;
+  }
+
+  private readLocal(scopedKey: string): SyncedDocument | null {
+    try {
+      const dataStr = localStorage.getItem(scopedKey);
+      return dataStr ? JSON.parse(dataStr) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private hasConflict(scenarioId?: string): boolean {
+    return this.conflict?.scenarioId === this.resolveScenarioId(scenarioId);
+  }
+
+  private setConflict(scenarioId: string | undefined, local: SyncedDocument, cloud: SyncedDocument | null): void {
+    console.warn('Local and cloud portfolios have both changed');
+    runInAction(() => {
+      this.conflict = {
+        scenarioId: this.resolveScenarioId(scenarioId),
+        local: withoutBaseRevision(local),
+        cloud: cloud ? withoutBaseRevision(cloud) : null
+      };
+    });
   }
 
   // Unified save method - saves to appropriate storage based on auth state
-  async save(key: string, data: any): Promise<void> {
+  async save(key: string, data: any, scenarioId?: string): Promise<void> {
     if (this.isSaving) {
       console.warn('Save already in progress, skipping');
       return;
     }
 
+    const save = this.writeData(key, data, scenarioId);
+    this.pendingSave = save;
+    try {
+      await save;
+    } finally {
+      if (this.pendingSave === save) this.pendingSave = null;
+    }
+  }
+
+  // For data that must not be dropped: waits for the save in progress instead of skipping
+  async saveWhenIdle(key: string, data: unknown, scenarioId?: string): Promise<void> {
+    while (this.pendingSave) {
+      await this.pendingSave.catch(() => undefined);
+    }
+    await this.save(key, data, scenarioId);
+  }
+
+  private async writeData(key: string, data: SyncedDocument, scenarioId?: string): Promise<void> {
     try {
       runInAction(() => {
         this.isSaving = true;
         this.saveError = null;
       });
 
+      // Portfolio saves get the next revision, based on the cloud revision last synced
+      const scopedKey = this.getScopedKey(key, scenarioId);
+      const isPortfolio = key === SCENARIO_DATA_KEY;
+      const previous = isPortfolio ? this.readLocal(scopedKey) : null;
+      const baseRevision: number = previous?.baseRevision ?? 0;
+      const document = isPortfolio
+        ? { ...data, revision: getRevision(previous) + 1, updatedAt: new Date().toISOString() }
+        : data;
+
       // Always save to localStorage first (as cache/fallback)
-      const serializedData = JSON.stringify(data);
-      localStorage.setItem(key, serializedData);
+      const serializedData = JSON.stringify(isPortfolio ? { ...document, baseRevision } : document);
+      localStorage.setItem(scopedKey, serializedData);
 
       // If user is signed in, also save to cloud (if Firebase is enabled)
-      if (this.rootStore.authStore.isSignedIn && this.rootStore.authStore.user) {
+      if (isPortfolio && this.hasConflict(scenarioId)) {
+        // Don't overwrite the cloud until the user has chosen how to resolve the conflict
+        runInAction(() => {
+          this.conflict!.local = document;
+        });
+        console.log('Sync conflict pending, saved to localStorage only');
+      } else if (this.rootStore.authStore.isSignedIn && this.rootStore.authStore.user) {
+        const userId = this.rootStore.authStore.user.uid;
         try {
-          console.log('Saving to cloud for user:', this.rootStore.authStore.user.uid);
+          console.log('Saving to cloud for user:', userId);
           
-          await FirestoreService.savePortfolio(
-            this.rootStore.authStore.user.uid,
-            data
-          );
+          if (isPortfolio) {
+            await this.pushToCloud(userId, this.resolveScenarioId(scenarioId), document, baseRevision);
+            // Anything still queued for this scenario is older than what was just saved
+            this.rootStore.syncOutboxStore.remove(userId, this.resolveScenarioId(scenarioId));
+          } else {
+            await FirestoreService.savePortfolio(userId, document, this.getCloudScenarioId(scenarioId));
+          }
           
           console.log('Cloud save successful');
         } catch (error: any) {
           console.warn('Cloud save failed, data saved to localStorage only:', error.message);
+          if (isPortfolio) {
+            // Queue the snapshot so the cloud copy catches up once the connection is back
+            this.rootStore.syncOutboxStore.enqueue(userId, this.resolveScenarioId(scenarioId), document, baseRevision, error.message);
+          }
         }
       } else {
         console.log('User not signed in, saved to localStorage only');
@@ -78,20 +192,38 @@ export class StorageStore {
   }
 
   // Unified load method - loads from appropriate storage based on auth state
-  async load(key: string): Promise<any> {
+  async load(key: string, scenarioId?: string): Promise<any> {
     try {
       // If user is signed in, try to load from cloud first (if Firebase is enabled)
       if (this.rootStore.authStore.isSignedIn && this.rootStore.authStore.user) {
         console.log('Loading from cloud for user:', this.rootStore.authStore.user.uid);
         
         try {
-          const cloudData = await FirestoreService.loadPortfolio(this.rootStore.authStore.user.uid);
+          const cloudData = await FirestoreService.loadPortfolio(
+            this.rootStore.authStore.user.uid,
+            this.getCloudScenarioId(scenarioId)
+          );
           
           if (cloudData) {
             console.log('Cloud data loaded successfully');
+
+            // Keep local changes the cloud hasn't seen instead of overwriting them
+            const local = key === SCENARIO_DATA_KEY ? this.readLocal(this.getScopedKey(key, scenarioId)) : null;
+            if (hasUnsyncedChanges(local) && !PortfolioMergeCalculator.isSame(local, cloudData)) {
+              // Only this device changed since the last sync, so its copy is simply newer
+              if ((local.baseRevision ?? 0) > 0 && getRevision(cloudData) === local.baseRevision) {
+                console.log('Local data is newer than cloud data');
+              } else {
+                this.setConflict(scenarioId, local, cloudData);
+              }
+              return withoutBaseRevision(local);
+            }
             
             // Also update localStorage cache
-            localStorage.setItem(key, JSON.stringify(cloudData));
+            localStorage.setItem(
+              this.getScopedKey(key, scenarioId),
+              JSON.stringify(key === SCENARIO_DATA_KEY ? { ...cloudData, baseRevision: getRevision(cloudData) } : cloudData)
+            );
             
             runInAction(() => {
               this.lastSaveTime = new Date();
@@ -110,10 +242,10 @@ export class StorageStore {
       }
 
       // Fallback to localStorage (or primary storage when not signed in)
-      const localData = localStorage.getItem(key);
+      const localData = localStorage.getItem(this.getScopedKey(key, scenarioId));
       if (localData) {
         console.log('Loading from localStorage');
-        return JSON.parse(localData);
+        return withoutBaseRevision(JSON.parse(localData));
       }
 
       console.log('No data found in any storage');
@@ -134,7 +266,7 @@ export class StorageStore {
   async clear(key: string): Promise<void> {
     try {
       // Clear localStorage
-      localStorage.removeItem(key);
+      localStorage.removeItem(this.getScopedKey(key));
 
       // If signed in, also clear from cloud
       if (this.rootStore.authStore.isSignedIn && this.rootStore.authStore.user) {
@@ -157,6 +289,84 @@ export class StorageStore {
     }
   }
 
+  // Remove a deleted scenario's data locally and in the cloud
+  async deleteScenario(scenarioId: string): Promise<void> {
+    localStorage.removeItem(this.getScopedKey(SCENARIO_DATA_KEY, scenarioId));
+    if (this.conflict?.scenarioId === scenarioId) {
+      runInAction(() => {
+        this.conflict = null;
+      });
+    }
+
+    if (this.rootStore.authStore.isSignedIn && this.rootStore.authStore.user) {
+      // A queued write would otherwise bring the deleted document back
+      this.rootStore.syncOutboxStore.remove(this.rootStore.authStore.user.uid, scenarioId);
+      try {
+        await FirestoreService.deletePortfolio(
+          this.rootStore.authStore.user.uid,
+          this.getCloudScenarioId(scenarioId)
+        );
+      } catch (error) {
+        console.warn('Cloud delete failed, scenario removed locally only:', error);
+      }
+    }
+  }
+
+  // Write a portfolio snapshot to the cloud on top of the revision it was based on.
+  // Conflicts are recorded for the user to resolve; other failures are thrown.
+  pushToCloud = async (userId: string, scenarioId: string, document: SyncedDocument, baseRevision: number): Promise<void> => {
+    try {
+      await FirestoreService.savePortfolio(userId, document, this.getCloudScenarioId(scenarioId), baseRevision);
+    } catch (error) {
+      if (!(error instanceof PortfolioConflictError)) throw error;
+
+      // An earlier attempt can time out after its write went through; the cloud
+      // then already holds this exact snapshot and it is not a real conflict
+      const isOwnWrite = error.cloudData !== null
+        && getRevision(error.cloudData) === getRevision(document)
+        && PortfolioMergeCalculator.isSame(document, error.cloudData);
+      if (!isOwnWrite) {
+        this.setConflict(scenarioId, document, error.cloudData);
+        return;
+      }
+    }
+
+    // Local saves made since this snapshot build on it, so they are now based on its revision
+    const scopedKey = this.getScopedKey(SCENARIO_DATA_KEY, scenarioId);
+    const local = this.readLocal(scopedKey);
+    if (local && getRevision(local) >= getRevision(document)) {
+      localStorage.setItem(scopedKey, JSON.stringify({ ...local, baseRevision: getRevision(document) }));
+    }
+  }
+
+  // Settle a sync conflict with the chosen portfolio (local, cloud or merged).
+  // It is saved on top of the conflicting cloud revision and shown if its scenario is active.
+  resolveConflict = async (data: SyncedDocument): Promise<void> => {
+    const conflict = this.conflict;
+    if (!conflict) return;
+
+    const cloudRevision = getRevision(conflict.cloud);
+    localStorage.setItem(
+      this.getScopedKey(SCENARIO_DATA_KEY, conflict.scenarioId),
+      JSON.stringify({
+        ...data,
+        revision: Math.max(getRevision(conflict.local), cloudRevision),
+        baseRevision: cloudRevision
+      })
+    );
+    runInAction(() => {
+      this.conflict = null;
+    });
+
+    const portfolioStore = this.rootStore.portfolioStore;
+    if (conflict.scenarioId === this.rootStore.scenarioStore.activeScenarioId) {
+      portfolioStore.replacePortfolioData(data);
+      await portfolioStore.saveWhenIdle();
+    } else {
+      await this.saveWhenIdle(SCENARIO_DATA_KEY, data, conflict.scenarioId);
+    }
+  }
+
   // Clear any save errors
   clearError(): void {
     runInAction(() => {
@@ -208,7 +418,7 @@ export class StorageStore {
   saveSync(key: string, data: any): void {
     try {
       const serializedData = JSON.stringify(data);
-      localStorage.setItem(key, serializedData);
+      localStorage.setItem(this.getScopedKey(key), serializedData);
       
       runInAction(() => {
         this.lastSaveTime = new Date();
@@ -224,7 +434,7 @@ export class StorageStore {
 
   loadSync(key: string): any {
     try {
-      const dataStr = localStorage.getItem(key);
+      const dataStr = localStorage.getItem(this.getScopedKey(key));
       if (dataStr) {
         return JSON.parse(dataStr);
       }
@@ -249,6 +459,7 @@ export class StorageStore {
 
   get statusMessage(): string {
     if (this.isSaving) return 'Saving...';
+    if (this.conflict) return 'Sync conflict';
     if (this.saveError) return 'Save failed';
     if (this.lastSaveTime) {
       const timeAgo = new Date().getTime() - this.lastSaveTime.getTime();
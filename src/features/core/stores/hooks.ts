@@ -20,6 +20,11 @@ export const useStorageStore = () => {
   return rootStore.storageStore;
 };
 
+export const useScenarioStore = () => {
+  const rootStore = useRootStore();
+  return rootStore.scenarioStore;
+};
+
 export const useThemeStore = () => {
   return themeStore;
 };
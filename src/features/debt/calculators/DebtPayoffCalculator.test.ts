@@ -0,0 +1,107 @@
+import { DebtPayoffCalculator, type DebtTerms } from './DebtPayoffCalculator';
+
+describe('DebtPayoffCalculator', () => {
+  const creditCard: DebtTerms = { id: 'card', balance: 5000, apr: 24, minimumPayment: 150, extraPayment: 0 };
+  const carLoan: DebtTerms = { id: 'car', balance: 3000, apr: 6, minimumPayment: 200, extraPayment: 0 };
+  const studentLoan: DebtTerms = { id: 'student', balance: 20000, apr: 5, minimumPayment: 250, extraPayment: 0 };
+
+  const totalInterest = (schedules: ReturnType<typeof DebtPayoffCalculator.buildSchedules>) =>
+    schedules.reduce((sum, schedule) => sum + schedule.years.reduce((total, year) => total + year.interest, 0), 0);
+
+  describe('buildSchedules', () => {
+    it('should repay a zero-interest debt at the minimum payment', () => {
+      const [schedule] = DebtPayoffCalculator.buildSchedules(
+        [{ id: 'a', balance: 2400, apr: 0, minimumPayment: 100, extraPayment: 0 }], 'minimum', 0, 3
+      );
+
+      expect(schedule.years.map(year => year.balance)).toEqual([1200, 0, 0]);
+      expect(schedule.years.map(year => year.payment)).toEqual([1200, 1200, 0]);
+      expect(schedule.payoffMonth).toBe(24);
+    });
+
+    it('should accrue monthly interest before the payment', () => {
+      const [schedule] = DebtPayoffCalculator.buildSchedules(
+        [{ id: 'a', balance: 1200, apr: 12, minimumPayment: 1300, extraPayment: 0 }], 'minimum', 0, 1
+      );
+
+      expect(schedule.years[0].interest).toBeCloseTo(12, 6);
+      expect(schedule.years[0].payment).toBeCloseTo(1212, 6);
+      expect(schedule.payoffMonth).toBe(1);
+    });
+
+    it('should grow the balance when the minimum does not cover interest', () => {
+      const [schedule] = DebtPayoffCalculator.buildSchedules(
+        [{ id: 'a', balance: 10000, apr: 24, minimumPayment: 100, extraPayment: 0 }], 'minimum', 0, 2
+      );
+
+      expect(schedule.years[1].balance).toBeGreaterThan(10000);
+      expect(schedule.payoffMonth).toBeNull();
+    });
+
+    it('should keep each debt separate under the minimum strategy', () => {
+      const separate = DebtPayoffCalculator.buildSchedules([creditCard, carLoan], 'minimum', 500, 10);
+      const alone = DebtPayoffCalculator.buildSchedules([creditCard], 'minimum', 0, 10);
+
+      expect(separate[0]).toEqual(alone[0]);
+    });
+
+    it('should send extra payments to the highest APR first with avalanche', () => {
+      const [card, car] = DebtPayoffCalculator.buildSchedules([creditCard, carLoan], 'avalanche', 300, 10);
+      const [cardAlone] = DebtPayoffCalculator.buildSchedules([creditCard], 'minimum', 0, 10);
+
+      expect(card.payoffMonth!).toBeLessThan(cardAlone.payoffMonth!);
+      expect(card.payoffMonth!).toBeLessThan(car.payoffMonth!);
+    });
+
+    it('should send extra payments to the smallest balance first with snowball', () => {
+      const [card, car] = DebtPayoffCalculator.buildSchedules([creditCard, carLoan], 'snowball', 300, 10);
+
+      expect(car.payoffMonth!).toBeLessThan(card.payoffMonth!);
+    });
+
+    it('should roll the payment of a repaid debt into the next target', () => {
+      const [, student] = DebtPayoffCalculator.buildSchedules([carLoan, studentLoan], 'snowball', 0, 15);
+      const [studentAlone] = DebtPayoffCalculator.buildSchedules([studentLoan], 'minimum', 0, 15);
+
+      expect(student.payoffMonth!).toBeLessThan(studentAlone.payoffMonth!);
+    });
+
+    it('should pool the extra payments set on each debt', () => {
+      const withOwnExtra = { ...carLoan, extraPayment: 300 };
+      const [card] = DebtPayoffCalculator.buildSchedules([creditCard, withOwnExtra], 'avalanche', 0, 10);
+      const [cardWithPlannerExtra] = DebtPayoffCalculator.buildSchedules([creditCard, carLoan], 'avalanche', 300, 10);
+
+      expect(card.payoffMonth).toBe(cardWithPlannerExtra.payoffMonth);
+    });
+
+    it('should treat a zero balance as already repaid', () => {
+      const [schedule] = DebtPayoffCalculator.buildSchedules([{ ...carLoan, balance: 0 }], 'minimum', 0, 2);
+
+      expect(schedule.payoffMonth).toBe(0);
+      expect(schedule.years.every(year => year.payment === 0)).toBe(true);
+    });
+  });
+
+  describe('compareStrategies', () => {
+    it('should summarize every strategy', () => {
+      const comparison = DebtPayoffCalculator.compareStrategies([creditCard, carLoan, studentLoan], 300, 15);
+
+      expect(comparison.map(summary => summary.strategy)).toEqual(['minimum', 'avalanche', 'snowball']);
+      comparison.forEach(summary => expect(summary.debtFreeMonth).not.toBeNull());
+    });
+
+    it('should pay the least interest with avalanche', () => {
+      const debts = [creditCard, carLoan, studentLoan];
+      const [minimum, avalanche, snowball] = DebtPayoffCalculator.compareStrategies(debts, 300, 15);
+
+      expect(avalanche.totalInterest).toBeLessThanOrEqual(snowball.totalInterest);
+      expect(avalanche.totalInterest).toBeLessThan(minimum.totalInterest);
+      expect(avalanche.totalInterest).toBeCloseTo(totalInterest(DebtPayoffCalculator.buildSchedules(debts, 'avalanche', 300, 15)), 6);
+    });
+
+    it('should report no debt-free date when a debt outlasts the projection', () => {
+      const [minimum] = DebtPayoffCalculator.compareStrategies([studentLoan], 0, 2);
+      expect(minimum.debtFreeMonth).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,168 @@
+export type DebtPayoffStrategy = 'minimum' | 'avalanche' | 'snowball';
+
+export interface DebtTerms {
+  id: string;
+  /** Amount owed at the start of the projection */
+  balance: number;
+  /** Annual percentage rate (%), compounded monthly */
+  apr: number;
+  /** Required monthly payment */
+  minimumPayment: number;
+  /** Monthly payment above the minimum set on this debt */
+  extraPayment: number;
+}
+
+export interface DebtPayoffYear {
+  /** Projection year (1-based) */
+  year: number;
+  payment: number;
+  interest: number;
+  principal: number;
+  /** Balance owed at the end of the year */
+  balance: number;
+}
+
+export interface DebtPayoffSchedule {
+  id: string;
+  years: DebtPayoffYear[];
+  /** Months from the start until the debt is repaid, null when it outlasts the projection */
+  payoffMonth: number | null;
+}
+
+export interface DebtStrategySummary {
+  strategy: DebtPayoffStrategy;
+  totalInterest: number;
+  totalPaid: number;
+  /** Months until every debt is repaid, null when some debt outlasts the projection */
+  debtFreeMonth: number | null;
+}
+
+// Balances below half a cent count as repaid
+const PAID_OFF_THRESHOLD = 0.005;
+
+/**
+ * Debt Payoff Calculator
+ *
+ * Simulates monthly repayment of a set of debts. Interest accrues first,
+ * then every debt receives its minimum payment.
+ *
+ * Strategies:
+ * - minimum: each debt is paid on its own; its extra payment goes to itself
+ * - avalanche: every extra payment, plus the minimums of repaid debts, is
+ *   pooled and sent to the debt with the highest APR
+ * - snowball: the same pool goes to the debt with the smallest balance
+ *
+ * The portfolio-wide extra payment is only directed by avalanche and snowball.
+ */
+export class DebtPayoffCalculator {
+  static readonly STRATEGY_LABELS: Record<DebtPayoffStrategy, string> = {
+    minimum: 'Each debt on its own',
+    avalanche: 'Avalanche (highest APR first)',
+    snowball: 'Snowball (smallest balance first)',
+  };
+
+  /**
+   * Yearly payoff schedule of each debt over the projection
+   */
+  static buildSchedules(
+    debts: DebtTerms[],
+    strategy: DebtPayoffStrategy,
+    extraMonthlyPayment: number,
+    years: number
+  ): DebtPayoffSchedule[] {
+    const balances = debts.map(debt => Math.max(0, debt.balance));
+    const schedules: DebtPayoffSchedule[] = debts.map(debt => ({ id: debt.id, years: [], payoffMonth: null }));
+    const isPooled = strategy !== 'minimum';
+
+    for (let year = 1; year <= years; year++) {
+      const totals = debts.map(() => ({ payment: 0, interest: 0, principal: 0 }));
+
+      for (let monthOfYear = 1; monthOfYear <= 12; monthOfYear++) {
+        const month = (year - 1) * 12 + monthOfYear;
+        let pool = isPooled ? Math.max(0, extraMonthlyPayment) : 0;
+
+        debts.forEach((debt, index) => {
+          if (balances[index] <= PAID_OFF_THRESHOLD) {
+            // Repaid debts free up their payments for the pool
+            if (isPooled) pool += Math.max(0, debt.minimumPayment) + Math.max(0, debt.extraPayment);
+            return;
+          }
+
+          const interest = balances[index] * Math.max(0, debt.apr) / 1200;
+          balances[index] += interest;
+          totals[index].interest += interest;
+
+          const ownPayment = Math.max(0, debt.minimumPayment) + (isPooled ? 0 : Math.max(0, debt.extraPayment));
+          const payment = Math.min(ownPayment, balances[index]);
+          balances[index] -= payment;
+          totals[index].payment += payment;
+          if (isPooled) pool += Math.max(0, debt.extraPayment) + (ownPayment - payment);
+        });
+
+        // Send the pool down the strategy's order until it is spent
+        for (const index of this.getPayoffOrder(debts, balances, strategy)) {
+          if (pool <= 0) break;
+          const payment = Math.min(pool, balances[index]);
+          balances[index] -= payment;
+          totals[index].payment += payment;
+          pool -= payment;
+        }
+
+        debts.forEach((_debt, index) => {
+          if (balances[index] <= PAID_OFF_THRESHOLD) {
+            balances[index] = 0;
+            if (schedules[index].payoffMonth === null && debts[index].balance > 0) {
+              schedules[index].payoffMonth = month;
+            }
+          }
+        });
+      }
+
+      debts.forEach((_debt, index) => {
+        schedules[index].years.push({
+          year,
+          payment: totals[index].payment,
+          interest: totals[index].interest,
+          principal: totals[index].payment - totals[index].interest,
+          balance: balances[index]
+        });
+      });
+    }
+
+    debts.forEach((debt, index) => {
+      if (debt.balance <= 0) schedules[index].payoffMonth = 0;
+    });
+
+    return schedules;
+  }
+
+  /**
+   * Total interest and debt-free date of every strategy, for comparison
+   */
+  static compareStrategies(debts: DebtTerms[], extraMonthlyPayment: number, years: number): DebtStrategySummary[] {
+    return (Object.keys(this.STRATEGY_LABELS) as DebtPayoffStrategy[]).map(strategy => {
+      const schedules = this.buildSchedules(debts, strategy, extraMonthlyPayment, years);
+      const payoffMonths = schedules.map(schedule => schedule.payoffMonth);
+
+      return {
+        strategy,
+        totalInterest: schedules.reduce((sum, schedule) => sum + schedule.years.reduce((total, year) => total + year.interest, 0), 0),
+        totalPaid: schedules.reduce((sum, schedule) => sum + schedule.years.reduce((total, year) => total + year.payment, 0), 0),
+        debtFreeMonth: payoffMonths.some(month => month === null)
+          ? null
+          : Math.max(0, ...payoffMonths.map(month => month ?? 0))
+      };
+    });
+  }
+
+  /**
+   * Indexes of unpaid debts in the order the strategy targets them
+   */
+  private static getPayoffOrder(debts: DebtTerms[], balances: number[], strategy: DebtPayoffStrategy): number[] {
+    const unpaid = debts.map((_debt, index) => index).filter(index => balances[index] > PAID_OFF_THRESHOLD);
+    if (strategy === 'avalanche') {
+      return unpaid.sort((a, b) => debts[b].apr - debts[a].apr || balances[a] - balances[b]);
+    }
+    return unpaid.sort((a, b) => balances[a] - balances[b] || debts[b].apr - debts[a].apr);
+  }
+}
@@ -0,0 +1,87 @@
+import { usePortfolioStore } from '@/features/core/stores/hooks';
+import { Debt, type DebtKind } from '@/features/debt/stores/Debt';
+import { CollapsibleSection } from '@/features/shared/components/CollapsibleSection';
+import { ValidatedCurrencyInput, ValidatedPercentageInput, ValidatedSelectInput } from '@/features/shared/components/forms';
+import { observer } from 'mobx-react-lite';
+import React from 'react';
+
+interface DebtInputFormProps {
+  asset: Debt;
+}
+
+const DEBT_KIND_OPTIONS = (Object.keys(Debt.DEBT_KIND_LABELS) as DebtKind[]).map(kind => ({
+  value: kind,
+  label: Debt.DEBT_KIND_LABELS[kind]
+}));
+
+export const DebtInputForm: React.FC<DebtInputFormProps> = observer(({ asset }) => {
+  const portfolioStore = usePortfolioStore();
+
+  const investmentOptions = [
+    { value: '', label: 'Pay from external source (not tracked)' },
+    ...portfolioStore.investments.map(investment => ({
+      value: investment.id,
+      label: `Withdraw from "${investment.name}"`
+    }))
+  ];
+
+  const icon = (
+    <svg className="w-6 h-6 text-primary-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
+    </svg>
+  );
+
+  return (
+    <CollapsibleSection title="Debt Details" icon={icon} className="animate-slide-up">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+        <ValidatedSelectInput
+          label="Debt Type"
+          value={asset.inputs.debtKind}
+          onChange={(value) => asset.updateInput('debtKind', value as DebtKind)}
+          options={DEBT_KIND_OPTIONS}
+          fieldName="debtKind"
+        />
+
+        <ValidatedCurrencyInput
+          label="Balance Owed"
+          value={asset.inputs.balance}
+          onChange={(value) => asset.updateInput('balance', value)}
+          fieldName="debtBalance"
+          required={true}
+        />
+
+        <ValidatedPercentageInput
+          label="APR"
+          value={asset.inputs.apr}
+          onChange={(value) => asset.updateInput('apr', value)}
+          fieldName="debtApr"
+          highValueWarning={{ threshold: 25, message: 'APR above 25% is very expensive debt' }}
+        />
+
+        <ValidatedCurrencyInput
+          label="Minimum Monthly Payment"
+          value={asset.inputs.minimumPayment}
+          onChange={(value) => asset.updateInput('minimumPayment', value)}
+          fieldName="debtMinimumPayment"
+        />
+
+        <ValidatedCurrencyInput
+          label="Extra Monthly Payment"
+          value={asset.inputs.extraPayment}
+          onChange={(value) => asset.updateInput('extraPayment', value)}
+          fieldName="debtExtraPayment"
+          helpText="Goes to this debt, or to the payoff planner's target debt under avalanche or snowball"
+        />
+
+        <ValidatedSelectInput
+          label="Payment Source"
+          value={asset.inputs.linkedInvestmentId || ''}
+          onChange={(value) => asset.updateInput('linkedInvestmentId', value || null)}
+          options={investmentOptions}
+          fieldName="debtLinkedInvestment"
+          helpText="Payments are withdrawn from the chosen investment, reducing its balance"
+        />
+      </div>
+    </CollapsibleSection>
+  );
+});
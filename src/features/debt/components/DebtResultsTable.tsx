@@ -0,0 +1,103 @@
+import { observer } from 'mobx-react-lite';
+import React from 'react';
+import { Debt } from '@/features/debt/stores/Debt';
+import { usePortfolioStore } from '@/features/core/stores/hooks';
+import { FinancialTable } from '@/features/shared/components/tables';
+import { type ColumnDefinition, type DualValueColumn } from '@/features/shared/components/tables/types';
+import { formatCurrency } from '@/features/shared/utils/formatCurrency';
+
+interface DebtResultsTableProps {
+  asset: Debt;
+}
+
+export const DebtResultsTable: React.FC<DebtResultsTableProps> = observer(({ asset }) => {
+  const { household } = usePortfolioStore();
+
+  if (!asset.hasResults) {
+    return null;
+  }
+
+  const results = asset.results.slice(1);
+
+  const columns: ColumnDefinition[] = [
+    {
+      key: 'actualYear',
+      label: 'Year',
+      type: 'year',
+      alignment: 'left',
+      sticky: true
+    }
+  ];
+
+  if (household.hasAges) {
+    columns.push({
+      key: 'age',
+      label: household.ageLabelHeading,
+      type: 'text',
+      alignment: 'left',
+      formatter: (_value, row) => household.getAgeLabel(row.actualYear)
+    });
+  }
+
+  columns.push(
+    {
+      key: 'principalPaid',
+      label: 'Principal',
+      type: 'currency',
+      alignment: 'right'
+    },
+    {
+      key: 'interestPaid',
+      label: 'Interest',
+      type: 'currency',
+      alignment: 'right',
+      colorize: () => 'text-red-600 dark:text-red-400'
+    }
+  );
+
+  const dualValueColumns: DualValueColumn[] = [
+    {
+      key: 'payment',
+      label: 'Payments',
+      nominalKey: 'payment',
+      realKey: 'realPayment',
+      type: 'currency',
+      alignment: 'right'
+    },
+    {
+      key: 'balance',
+      label: 'Balance Owed',
+      nominalKey: 'balance',
+      realKey: 'realBalance',
+      type: 'currency',
+      alignment: 'right',
+      formatter: (value, row) => {
+        const formatted = formatCurrency(value);
+        return row.isPaidOff ? `${formatted} PAID OFF` : formatted;
+      },
+      colorize: (value) => value === 0 ? 'text-green-600 dark:text-green-400' : 'text-gray-900 dark:text-white'
+    }
+  ];
+
+  const icon = (
+    <svg className="w-6 h-6 text-primary-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+    </svg>
+  );
+
+  return (
+    <div className="mt-6 animate-slide-up animation-delay-200">
+      <FinancialTable
+        data={results}
+        columns={columns}
+        dualValueColumns={dualValueColumns}
+        title="Repayment Schedule"
+        icon={icon}
+        defaultExpanded={false}
+        className="rounded-xl border border-gray-200 dark:border-gray-700"
+        alternatingRows={true}
+        hover={true}
+      />
+    </div>
+  );
+});
@@ -0,0 +1,77 @@
+import { Debt } from '@/features/debt/stores/Debt';
+import { CollapsibleSection } from '@/features/shared/components/CollapsibleSection';
+import { CurrencyDisplay } from '@/features/shared/components/CurrencyDisplay';
+import { observer } from 'mobx-react-lite';
+import React from 'react';
+
+interface DebtSummaryProps {
+  asset: Debt;
+}
+
+export const DebtSummary: React.FC<DebtSummaryProps> = observer(({ asset }) => {
+  const summary = asset.summaryData;
+  const finalResult = asset.finalResult;
+
+  if (!summary || !finalResult) {
+    return null;
+  }
+
+  const icon = (
+    <svg className="w-6 h-6 text-primary-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+    </svg>
+  );
+
+  return (
+    <CollapsibleSection title="Debt Summary" icon={icon} defaultExpanded={true}>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 md:gap-4">
+        <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+          <h3 className="text-sm font-semibold text-gray-600 dark:text-gray-400 mb-2">
+            Debt-Free
+          </h3>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white">
+            {summary.payoffYear ?? 'Not in projection'}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            Remaining at end: <CurrencyDisplay amount={Math.round(finalResult.balance)} className="inline" />
+          </p>
+        </div>
+
+        <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+          <h3 className="text-sm font-semibold text-gray-600 dark:text-gray-400 mb-2">
+            Starting Balance
+          </h3>
+          <CurrencyDisplay
+            amount={Math.round(summary.startingBalance)}
+            className="text-2xl font-bold text-gray-900 dark:text-white"
+          />
+        </div>
+
+        <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+          <h3 className="text-sm font-semibold text-gray-600 dark:text-gray-400 mb-2">
+            Total Paid
+          </h3>
+          <CurrencyDisplay
+            amount={Math.round(summary.totalPaid)}
+            className="text-2xl font-bold text-gray-900 dark:text-white"
+          />
+          {asset.linkedInvestment && (
+            <p className="text-xs text-purple-600 dark:text-purple-400 mt-1">
+              From {asset.linkedInvestment.name}
+            </p>
+          )}
+        </div>
+
+        <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+          <h3 className="text-sm font-semibold text-gray-600 dark:text-gray-400 mb-2">
+            Total Interest
+          </h3>
+          <CurrencyDisplay
+            amount={Math.round(summary.totalInterest)}
+            className="text-2xl font-bold text-red-600 dark:text-red-400"
+          />
+        </div>
+      </div>
+    </CollapsibleSection>
+  );
+});
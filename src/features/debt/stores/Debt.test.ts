@@ -0,0 +1,57 @@
+import { Debt } from './Debt';
+import { createAsset, createAssetFromJSON, isDebt } from '@/features/portfolio/factories/AssetFactory';
+
+describe('Debt', () => {
+  let debt: Debt;
+
+  beforeEach(() => {
+    debt = new Debt('Car', {
+      debtKind: 'autoLoan',
+      balance: '2400',
+      apr: '0',
+      minimumPayment: '100',
+      extraPayment: '0',
+      inflationRate: '0'
+    });
+    debt.portfolioStore = { startingYear: '2024', years: '3' };
+  });
+
+  it('projects the balance owed from year 0', () => {
+    expect(debt.results.map(result => result.balance)).toEqual([2400, 1200, 0, 0]);
+    expect(debt.results.map(result => result.isPaidOff)).toEqual([false, false, true, true]);
+    expect(debt.payoffYear).toBe(2026);
+  });
+
+  it('pays its own extra payment when it is not part of a plan', () => {
+    debt.updateInput('extraPayment', '100');
+    expect(debt.payoffYear).toBe(2025);
+    expect(debt.summaryData?.totalPaid).toBe(2400);
+  });
+
+  it('warns when the minimum payment does not cover interest', () => {
+    debt.updateInput('apr', '60');
+    expect(debt.warnings).toEqual([
+      'The minimum payment does not cover the monthly interest, so the balance grows without extra payments'
+    ]);
+  });
+
+  it('warns when the debt outlasts the projection', () => {
+    debt.updateInput('balance', '10000');
+    expect(debt.warnings).toEqual(['The debt is not repaid within the projection period']);
+  });
+
+  it('round-trips through the asset factory', () => {
+    debt.updateInput('linkedInvestmentId', 'brokerage');
+    const restored = createAssetFromJSON(JSON.parse(JSON.stringify(debt.toJSON())));
+
+    expect(isDebt(restored)).toBe(true);
+    expect(restored.id).toBe(debt.id);
+    expect((restored as Debt).inputs).toEqual(debt.inputs);
+  });
+
+  it('creates debts with default inputs', () => {
+    const created = createAsset('debt');
+    expect(created.type).toBe('debt');
+    expect(created.inputs.linkedInvestmentId).toBeNull();
+  });
+});
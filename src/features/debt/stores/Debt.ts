@@ -0,0 +1,249 @@
+import { makeAutoObservable, computed } from 'mobx';
+import { v4 as uuidv4 } from 'uuid';
+import { type BaseAsset, type BaseCalculationResult } from '@/features/shared/types/BaseAsset';
+import { DebtPayoffCalculator, type DebtPayoffSchedule, type DebtTerms } from '@/features/debt/calculators/DebtPayoffCalculator';
+import type { Investment } from '@/features/investment/stores/Investment';
+
+export type DebtKind = 'studentLoan' | 'autoLoan' | 'creditCard' | 'personalLoan' | 'other';
+
+export interface DebtInputs {
+  debtKind: DebtKind;
+  balance: string;  // Amount owed in the starting year
+  apr: string;  // Annual percentage rate (%)
+  minimumPayment: string;  // Required monthly payment
+  extraPayment: string;  // Monthly payment above the minimum
+  inflationRate: string;  // Used for real values only
+  linkedInvestmentId: string | null;  // Investment the payments are withdrawn from
+}
+
+export interface DebtResult extends BaseCalculationResult {
+  // balance is the amount still owed
+  payment: number; // Payments made this year
+  realPayment: number;
+  interestPaid: number;
+  principalPaid: number;
+  isPaidOff: boolean;
+}
+
+export class Debt implements BaseAsset {
+  static readonly DEBT_KIND_LABELS: Record<DebtKind, string> = {
+    studentLoan: 'Student loan',
+    autoLoan: 'Auto loan',
+    creditCard: 'Credit card',
+    personalLoan: 'Personal loan',
+    other: 'Other debt'
+  };
+
+  id: string;
+  name: string;
+  enabled: boolean;
+  inputs: DebtInputs;
+  portfolioStore?: {
+    startingYear?: string;
+    years?: string;
+    investments?: Investment[];
+    getDebtPayoffSchedule?: (id: string) => DebtPayoffSchedule | null;
+  }; // Will be injected by PortfolioStore
+
+  // UI state
+  showBalance = true;
+  showContributions = true;
+  showNetGain = true;
+
+  // Loading state for heavy computations
+  isCalculating = false;
+
+  constructor(name: string = 'New Debt', initialInputs?: Partial<DebtInputs>) {
+    this.id = uuidv4();
+    this.name = name;
+    this.enabled = true;
+
+    // Default inputs
+    this.inputs = {
+      debtKind: 'studentLoan',
+      balance: '30000',
+      apr: '5.5',
+      minimumPayment: '350',
+      extraPayment: '0',
+      inflationRate: '2.5',
+      linkedInvestmentId: null,
+      ...initialInputs
+    };
+
+    makeAutoObservable(this, {
+      results: computed,
+      startingYear: computed,
+      terms: computed,
+      payoffSchedule: computed,
+      linkedInvestment: computed,
+      summaryData: computed
+    });
+  }
+
+  // Actions
+  setName = (name: string) => {
+    this.name = name;
+  }
+
+  setEnabled = (enabled: boolean) => {
+    this.enabled = enabled;
+  }
+
+  updateInput = <K extends keyof DebtInputs>(key: K, value: DebtInputs[K]) => {
+    this.inputs[key] = value;
+  }
+
+  setShowBalance = (value: boolean) => {
+    this.showBalance = value;
+  }
+
+  setShowContributions = (value: boolean) => {
+    this.showContributions = value;
+  }
+
+  setShowNetGain = (value: boolean) => {
+    this.showNetGain = value;
+  }
+
+  // Computed properties
+  get startingYear(): number {
+    return this.portfolioStore?.startingYear ? parseInt(this.portfolioStore.startingYear) : new Date().getFullYear();
+  }
+
+  get terms(): DebtTerms {
+    return {
+      id: this.id,
+      balance: parseFloat(this.inputs.balance || '0') || 0,
+      apr: parseFloat(this.inputs.apr || '0') || 0,
+      minimumPayment: parseFloat(this.inputs.minimumPayment || '0') || 0,
+      extraPayment: parseFloat(this.inputs.extraPayment || '0') || 0
+    };
+  }
+
+  // Schedule from the portfolio payoff plan, or this debt on its own when it is not part of one
+  get payoffSchedule(): DebtPayoffSchedule {
+    const planned = this.portfolioStore?.getDebtPayoffSchedule?.(this.id);
+    if (planned) return planned;
+
+    const yearsNum = parseInt(this.portfolioStore?.years || '10') || 1;
+    return DebtPayoffCalculator.buildSchedules([this.terms], 'minimum', 0, yearsNum)[0];
+  }
+
+  // Investment the payments come from, if it exists and is included in the portfolio
+  get linkedInvestment(): Investment | null {
+    const targetId = this.inputs.linkedInvestmentId;
+    if (!targetId) return null;
+
+    const target = this.portfolioStore?.investments?.find(investment => investment.id === targetId);
+    return target && target.enabled ? target : null;
+  }
+
+  get results(): DebtResult[] {
+    const inflationRateNum = parseFloat(this.inputs.inflationRate || '0') || 0;
+    const startingBalance = Math.max(0, this.terms.balance);
+
+    const projections: DebtResult[] = [{
+      year: 0,
+      actualYear: this.startingYear,
+      balance: Math.round(startingBalance * 100) / 100,
+      realBalance: Math.round(startingBalance * 100) / 100,
+      payment: 0,
+      realPayment: 0,
+      interestPaid: 0,
+      principalPaid: 0,
+      isPaidOff: startingBalance === 0
+    }];
+
+    for (const scheduled of this.payoffSchedule.years) {
+      const inflationFactor = Math.pow(1 + inflationRateNum / 100, scheduled.year);
+
+      projections.push({
+        year: scheduled.year,
+        actualYear: this.startingYear + scheduled.year,
+        balance: Math.round(scheduled.balance * 100) / 100,
+        realBalance: Math.round((scheduled.balance / inflationFactor) * 100) / 100,
+        payment: Math.round(scheduled.payment * 100) / 100,
+        realPayment: Math.round((scheduled.payment / inflationFactor) * 100) / 100,
+        interestPaid: Math.round(scheduled.interest * 100) / 100,
+        principalPaid: Math.round(scheduled.principal * 100) / 100,
+        isPaidOff: scheduled.balance === 0
+      });
+    }
+
+    return projections;
+  }
+
+  // Calendar year the debt is repaid, null when it outlasts the projection
+  get payoffYear(): number | null {
+    const payoffMonth = this.payoffSchedule.payoffMonth;
+    if (payoffMonth === null) return null;
+    return this.startingYear + Math.ceil(payoffMonth / 12);
+  }
+
+  // Other computed values
+  get type() {
+    return 'debt' as const;
+  }
+
+  get hasResults() {
+    return this.results.length > 0;
+  }
+
+  get finalResult() {
+    return this.results[this.results.length - 1] || null;
+  }
+
+  get warnings(): string[] {
+    const warnings: string[] = [];
+    const { balance, apr, minimumPayment } = this.terms;
+
+    if (balance > 0 && minimumPayment <= balance * apr / 1200) {
+      warnings.push('The minimum payment does not cover the monthly interest, so the balance grows without extra payments');
+    } else if (balance > 0 && this.payoffYear === null) {
+      warnings.push('The debt is not repaid within the projection period');
+    }
+
+    if (this.inputs.linkedInvestmentId && !this.linkedInvestment) {
+      warnings.push('The linked investment is missing or excluded from the portfolio; payments are not tracked');
+    }
+
+    return warnings;
+  }
+
+  // Summary calculations for UI
+  get summaryData() {
+    const results = this.results.slice(1);
+    if (results.length === 0) return null;
+
+    return {
+      startingBalance: this.results[0].balance,
+      totalPaid: results.reduce((sum, result) => sum + result.payment, 0),
+      totalInterest: results.reduce((sum, result) => sum + result.interestPaid, 0),
+      payoffYear: this.payoffYear
+    };
+  }
+
+  // Serialization for localStorage
+  toJSON() {
+    return {
+      id: this.id,
+      name: this.name,
+      type: 'debt' as const,
+      enabled: this.enabled,
+      inputs: this.inputs,
+      showBalance: this.showBalance,
+      showContributions: this.showContributions,
+      showNetGain: this.showNetGain
+    };
+  }
+
+  static fromJSON(data: ReturnType<Debt['toJSON']>): Debt {
+    const debt = new Debt(data.name, data.inputs);
+    debt.id = data.id;
+    debt.enabled = data.enabled;
+    debt.showBalance = data.showBalance ?? true;
+    debt.showContributions = data.showContributions ?? true;
+    debt.showNetGain = data.showNetGain ?? true;
+    return debt;
+  }
+}
@@ -0,0 +1,91 @@
+import { observer } from 'mobx-react-lite';
+import React from 'react';
+import { usePortfolioStore } from '@/features/core/stores/hooks';
+import { CollapsibleSection } from '@/features/shared/components/CollapsibleSection';
+import { ValidatedNumberInput, ValidatedTextInput, ValidatedYearInput } from '@/features/shared/components/forms';
+
+export const HouseholdSettings: React.FC = observer(() => {
+  const { household } = usePortfolioStore();
+  const currentYear = new Date().getFullYear();
+
+  const icon = (
+    <svg className="w-6 h-6 text-primary-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+    </svg>
+  );
+
+  return (
+    <CollapsibleSection title="Household" icon={icon} defaultExpanded={false}>
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Ages are shown next to each year, and assets can use retirement or age milestones instead of fixed years.
+          </p>
+          <button
+            type="button"
+            onClick={() => household.addMember()}
+            className="text-sm font-medium text-primary-600 dark:text-primary-400 hover:text-primary-700"
+          >
+            + Add person
+          </button>
+        </div>
+
+        {household.members.map((member) => {
+          const retirementYear = household.getRetirementYear(member.id);
+          const lifeExpectancyYear = household.getLifeExpectancyYear(member.id);
+
+          return (
+            <div key={member.id} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 items-start">
+              <ValidatedTextInput
+                label="Name"
+                value={member.name}
+                onChange={(value) => household.updateMember(member.id, 'name', value)}
+                fieldName={`householdName-${member.id}`}
+                maxLength={40}
+              />
+
+              <ValidatedYearInput
+                label="Birth Year"
+                value={member.birthYear}
+                onChange={(value) => household.updateMember(member.id, 'birthYear', value)}
+                fieldName={`householdBirthYear-${member.id}`}
+                minYear={1900}
+                maxYear={currentYear}
+              />
+
+              <ValidatedNumberInput
+                label="Retirement Age"
+                value={member.retirementAge}
+                onChange={(value) => household.updateMember(member.id, 'retirementAge', value)}
+                integerOnly={true}
+                fieldName={`householdRetirementAge-${member.id}`}
+                minValue={0}
+                maxValue={120}
+                helpText={retirementYear !== null ? `Retires in ${retirementYear}` : undefined}
+              />
+
+              <ValidatedNumberInput
+                label="Life Expectancy"
+                value={member.lifeExpectancy}
+                onChange={(value) => household.updateMember(member.id, 'lifeExpectancy', value)}
+                integerOnly={true}
+                fieldName={`householdLifeExpectancy-${member.id}`}
+                minValue={0}
+                maxValue={120}
+                helpText={lifeExpectancyYear !== null ? `Through ${lifeExpectancyYear}` : undefined}
+              />
+
+              <button
+                type="button"
+                onClick={() => household.removeMember(member.id)}
+                className="text-sm text-red-600 dark:text-red-400 hover:text-red-700 md:mt-7"
+              >
+                Remove
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </CollapsibleSection>
+  );
+});
@@ -0,0 +1,79 @@
+import { observer } from 'mobx-react-lite';
+import React from 'react';
+import { usePortfolioStore } from '@/features/core/stores/hooks';
+import { Household, type LifeEventReference, type LifeEventType } from '@/features/household/stores/Household';
+import { ValidatedNumberInput, ValidatedSelectInput } from '@/features/shared/components/forms';
+
+interface LifeEventSelectProps {
+  label: string;
+  value: LifeEventReference | null | undefined;
+  onChange: (value: LifeEventReference | null) => void;
+  fieldName: string;
+  noneLabel: string;  // Option shown when no life event is used, e.g. "Fixed year"
+  helpText?: string;
+}
+
+const EVENT_TYPES = Object.keys(Household.LIFE_EVENT_LABELS) as LifeEventType[];
+
+/**
+ * Picks a household life event (a member's retirement, reaching an age or
+ * life expectancy) for assets that would otherwise use a fixed year
+ */
+export const LifeEventSelect: React.FC<LifeEventSelectProps> = observer(({
+  label,
+  value,
+  onChange,
+  fieldName,
+  noneLabel,
+  helpText
+}) => {
+  const { household } = usePortfolioStore();
+
+  const options = [
+    { value: '', label: noneLabel },
+    ...household.members.flatMap(member => EVENT_TYPES.map(event => ({
+      value: `${event}:${member.id}`,
+      label: `${member.name}: ${Household.LIFE_EVENT_LABELS[event]}`
+    })))
+  ];
+
+  const handleSelect = (selected: string) => {
+    if (!selected) {
+      onChange(null);
+      return;
+    }
+    const [event, memberId] = selected.split(':') as [LifeEventType, string];
+    onChange({ memberId, event, age: value?.age || '60' });
+  };
+
+  const eventYear = value ? household.resolveLifeEvent(value) : null;
+  const eventHelp = value
+    ? `${household.describeLifeEvent(value)}${eventYear !== null ? ` in ${eventYear}` : ' (set a birth year to place it)'}`
+    : helpText;
+
+  return (
+    <>
+      <ValidatedSelectInput
+        label={label}
+        value={value ? `${value.event}:${value.memberId}` : ''}
+        onChange={handleSelect}
+        options={options}
+        fieldName={fieldName}
+        helpText={household.members.length === 0 ? 'Add household members in Global Settings to use life events' : eventHelp}
+      />
+
+      {value?.event === 'age' && (
+        <ValidatedNumberInput
+          label="At Age"
+          value={value.age}
+          onChange={(age) => onChange({ ...value, age })}
+          integerOnly={true}
+          allowNegative={false}
+          fieldName={`${fieldName}Age`}
+          minValue={0}
+          maxValue={120}
+        />
+      )}
+    </>
+  );
+});
@@ -0,0 +1,129 @@
+import { Household, type LifeEventReference } from './Household';
+
+describe('Household', () => {
+  let household: Household;
+  let alexId: string;
+  let samId: string;
+
+  beforeEach(() => {
+    household = new Household();
+    alexId = household.addMember('Alex', { birthYear: '1980', retirementAge: '62', lifeExpectancy: '92' });
+    samId = household.addMember('Sam', { birthYear: '1983' });
+  });
+
+  describe('members', () => {
+    it('adds members with default retirement age and life expectancy', () => {
+      const sam = household.getMember(samId)!;
+      expect(sam.retirementAge).toBe('65');
+      expect(sam.lifeExpectancy).toBe('90');
+    });
+
+    it('names unnamed members by position', () => {
+      const id = household.addMember();
+      expect(household.getMember(id)?.name).toBe('Person 3');
+    });
+
+    it('updates and removes members', () => {
+      household.updateMember(alexId, 'birthYear', '1981');
+      expect(household.getBirthYear(alexId)).toBe(1981);
+
+      household.removeMember(alexId);
+      expect(household.getMember(alexId)).toBeUndefined();
+      expect(household.members).toHaveLength(1);
+    });
+  });
+
+  describe('ages', () => {
+    it('returns the age reached during a calendar year', () => {
+      expect(household.getAge(alexId, 2025)).toBe(45);
+      expect(household.getAge(samId, 2025)).toBe(42);
+    });
+
+    it('returns null ages without a birth year', () => {
+      household.updateMember(samId, 'birthYear', '');
+      expect(household.getAge(samId, 2025)).toBeNull();
+      expect(household.getAge('missing', 2025)).toBeNull();
+    });
+
+    it('labels the ages of every member with a birth year', () => {
+      expect(household.hasAges).toBe(true);
+      expect(household.getAgeLabel(2030)).toBe('50 / 47');
+      expect(household.ageLabelHeading).toBe('Ages (Alex / Sam)');
+
+      household.updateMember(samId, 'birthYear', '');
+      expect(household.getAgeLabel(2030)).toBe('50');
+      expect(household.ageLabelHeading).toBe('Age');
+    });
+
+    it('has no ages when no member has a birth year', () => {
+      const empty = new Household();
+      empty.addMember('Alex');
+      expect(empty.hasAges).toBe(false);
+      expect(empty.getAgeLabel(2030)).toBe('');
+    });
+  });
+
+  describe('life events', () => {
+    it('resolves retirement and life expectancy years', () => {
+      expect(household.getRetirementYear(alexId)).toBe(2042);
+      expect(household.getLifeExpectancyYear(alexId)).toBe(2072);
+      expect(household.getRetirementYear(samId)).toBe(2048);
+    });
+
+    it('resolves each event type to a calendar year', () => {
+      const retirement: LifeEventReference = { memberId: alexId, event: 'retirement', age: '' };
+      const age60: LifeEventReference = { memberId: samId, event: 'age', age: '60' };
+      const lifeExpectancy: LifeEventReference = { memberId: samId, event: 'lifeExpectancy', age: '' };
+
+      expect(household.resolveLifeEvent(retirement)).toBe(2042);
+      expect(household.resolveLifeEvent(age60)).toBe(2043);
+      expect(household.resolveLifeEvent(lifeExpectancy)).toBe(2073);
+    });
+
+    it('follows changes to the member', () => {
+      const retirement: LifeEventReference = { memberId: alexId, event: 'retirement', age: '' };
+      household.updateMember(alexId, 'retirementAge', '67');
+      expect(household.resolveLifeEvent(retirement)).toBe(2047);
+    });
+
+    it('cannot resolve events of removed members or without a birth year or age', () => {
+      household.updateMember(samId, 'birthYear', '');
+      expect(household.resolveLifeEvent({ memberId: samId, event: 'retirement', age: '' })).toBeNull();
+      expect(household.resolveLifeEvent({ memberId: alexId, event: 'age', age: '' })).toBeNull();
+      expect(household.resolveLifeEvent({ memberId: 'missing', event: 'retirement', age: '' })).toBeNull();
+    });
+
+    it('describes events', () => {
+      expect(household.describeLifeEvent({ memberId: alexId, event: 'retirement', age: '' })).toBe('Alex retires');
+      expect(household.describeLifeEvent({ memberId: samId, event: 'age', age: '60' })).toBe('Sam turns 60');
+      expect(household.describeLifeEvent({ memberId: 'missing', event: 'lifeExpectancy', age: '' }))
+        .toBe('Removed member reaches life expectancy');
+    });
+  });
+
+  describe('serialization', () => {
+    it('round-trips members', () => {
+      const restored = Household.fromJSON(JSON.parse(JSON.stringify(household.toJSON())));
+      expect(restored.members).toEqual(household.members);
+      expect(restored.getRetirementYear(alexId)).toBe(2042);
+    });
+
+    it('loads an empty household from older saves', () => {
+      expect(Household.fromJSON(undefined).members).toEqual([]);
+      expect(Household.fromJSON({}).members).toEqual([]);
+    });
+
+    it('fills defaults for missing member fields', () => {
+      const restored = Household.fromJSON({
+        members: [{ id: 'a', name: 'Alex', birthYear: '1980' }]
+      });
+      expect(restored.getMember('a')).toEqual({
+        id: 'a',
+        name: 'Alex',
+        birthYear: '1980',
+        retirementAge: '65',
+        lifeExpectancy: '90'
+      });
+    });
+  });
+});
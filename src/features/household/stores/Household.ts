@@ -0,0 +1,191 @@
+import { makeAutoObservable, computed } from 'mobx';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface HouseholdMember {
+  id: string;
+  name: string;
+  birthYear: string;  // Empty = ages and life events cannot be resolved
+  retirementAge: string;
+  lifeExpectancy: string;
+}
+
+export type LifeEventType = 'retirement' | 'age' | 'lifeExpectancy';
+
+/**
+ * A point in a member's life that assets can use instead of a fixed year,
+ * e.g. "sell at Alex's retirement" or "stop contributing when Sam turns 60"
+ */
+export interface LifeEventReference {
+  memberId: string;
+  event: LifeEventType;
+  age: string;  // 'age' events only
+}
+
+export interface HouseholdData {
+  members: HouseholdMember[];
+}
+
+/**
+ * Household
+ *
+ * The people a portfolio belongs to. Projections are keyed to calendar
+ * years; the household maps those years to member ages and resolves life
+ * events (retirement, reaching an age, life expectancy) to calendar years.
+ */
+export class Household {
+  static readonly DEFAULT_RETIREMENT_AGE = '65';
+  static readonly DEFAULT_LIFE_EXPECTANCY = '90';
+
+  static readonly LIFE_EVENT_LABELS: Record<LifeEventType, string> = {
+    retirement: 'Retirement',
+    age: 'Reaches age',
+    lifeExpectancy: 'Life expectancy',
+  };
+
+  members: HouseholdMember[] = [];
+
+  constructor(members: HouseholdMember[] = []) {
+    this.members = members.map(member => ({ ...member }));
+
+    makeAutoObservable(this, {
+      membersWithBirthYear: computed,
+      hasAges: computed,
+      ageLabelHeading: computed
+    });
+  }
+
+  // Actions
+  addMember = (name?: string, initialValues?: Partial<Omit<HouseholdMember, 'id'>>): string => {
+    const id = uuidv4();
+    this.members.push({
+      id,
+      name: name || `Person ${this.members.length + 1}`,
+      birthYear: '',
+      retirementAge: Household.DEFAULT_RETIREMENT_AGE,
+      lifeExpectancy: Household.DEFAULT_LIFE_EXPECTANCY,
+      ...initialValues
+    });
+    return id;
+  }
+
+  updateMember = <K extends keyof Omit<HouseholdMember, 'id'>>(id: string, key: K, value: HouseholdMember[K]) => {
+    const member = this.getMember(id);
+    if (member) {
+      member[key] = value;
+    }
+  }
+
+  removeMember = (id: string) => {
+    this.members = this.members.filter(member => member.id !== id);
+  }
+
+  // Queries
+  getMember(id: string): HouseholdMember | undefined {
+    return this.members.find(member => member.id === id);
+  }
+
+  get membersWithBirthYear(): HouseholdMember[] {
+    return this.members.filter(member => this.getBirthYear(member.id) !== null);
+  }
+
+  get hasAges(): boolean {
+    return this.membersWithBirthYear.length > 0;
+  }
+
+  getBirthYear(memberId: string): number | null {
+    const birthYear = parseInt(this.getMember(memberId)?.birthYear || '');
+    return isNaN(birthYear) ? null : birthYear;
+  }
+
+  /**
+   * Age a member reaches during a calendar year, null when the birth year is unknown
+   */
+  getAge(memberId: string, calendarYear: number): number | null {
+    const birthYear = this.getBirthYear(memberId);
+    return birthYear === null ? null : calendarYear - birthYear;
+  }
+
+  getRetirementYear(memberId: string): number | null {
+    return this.getYearAtAge(memberId, this.getMember(memberId)?.retirementAge);
+  }
+
+  getLifeExpectancyYear(memberId: string): number | null {
+    return this.getYearAtAge(memberId, this.getMember(memberId)?.lifeExpectancy);
+  }
+
+  /**
+   * Calendar year of a life event, null when the member is gone or the
+   * event is missing its birth year or age
+   */
+  resolveLifeEvent(reference: LifeEventReference): number | null {
+    switch (reference.event) {
+      case 'retirement':
+        return this.getRetirementYear(reference.memberId);
+      case 'age':
+        return this.getYearAtAge(reference.memberId, reference.age);
+      case 'lifeExpectancy':
+        return this.getLifeExpectancyYear(reference.memberId);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Short description of a life event, e.g. "Alex retires" or "Sam turns 60"
+   */
+  describeLifeEvent(reference: LifeEventReference): string {
+    const name = this.getMember(reference.memberId)?.name ?? 'Removed member';
+    switch (reference.event) {
+      case 'retirement':
+        return `${name} retires`;
+      case 'age':
+        return `${name} turns ${reference.age || '?'}`;
+      case 'lifeExpectancy':
+        return `${name} reaches life expectancy`;
+      default:
+        return name;
+    }
+  }
+
+  /**
+   * Ages of every member with a birth year, e.g. "45" or "45 / 43";
+   * empty when no ages are known
+   */
+  getAgeLabel(calendarYear: number): string {
+    return this.membersWithBirthYear
+      .map(member => String(calendarYear - this.getBirthYear(member.id)!))
+      .join(' / ');
+  }
+
+  // Column heading matching getAgeLabel, e.g. "Age" or "Ages (Alex / Sam)"
+  get ageLabelHeading(): string {
+    const members = this.membersWithBirthYear;
+    return members.length > 1 ? `Ages (${members.map(member => member.name).join(' / ')})` : 'Age';
+  }
+
+  private getYearAtAge(memberId: string, age: string | undefined): number | null {
+    const birthYear = this.getBirthYear(memberId);
+    const ageNum = parseInt(age || '');
+    if (birthYear === null || isNaN(ageNum)) return null;
+    return birthYear + ageNum;
+  }
+
+  // Serialization
+  toJSON(): HouseholdData {
+    return {
+      members: this.members.map(member => ({ ...member }))
+    };
+  }
+
+  static fromJSON(data?: { members?: Partial<HouseholdMember>[] } | null): Household {
+    // Older saves have no household
+    const members = (data?.members || []).map(member => ({
+      id: member.id || uuidv4(),
+      name: member.name || '',
+      birthYear: member.birthYear ?? '',
+      retirementAge: member.retirementAge ?? Household.DEFAULT_RETIREMENT_AGE,
+      lifeExpectancy: member.lifeExpectancy ?? Household.DEFAULT_LIFE_EXPECTANCY
+    }));
+    return new Household(members);
+  }
+}
@@ -0,0 +1,44 @@
+import { AccountTaxCalculator } from './AccountTaxCalculator';
+
+describe('AccountTaxCalculator', () => {
+  describe('getTaxDragRate', () => {
+    it('should tax distributions in taxable accounts only', () => {
+      expect(AccountTaxCalculator.getTaxDragRate('taxable', 2, 15)).toBeCloseTo(0.3, 10);
+      expect(AccountTaxCalculator.getTaxDragRate('traditional', 2, 15)).toBe(0);
+      expect(AccountTaxCalculator.getTaxDragRate('roth', 2, 15)).toBe(0);
+      expect(AccountTaxCalculator.getTaxDragRate('hsa', 2, 15)).toBe(0);
+    });
+  });
+
+  describe('getGrossCashFlow', () => {
+    it('should gross up Traditional withdrawals for tax', () => {
+      expect(AccountTaxCalculator.getGrossCashFlow(-7500, 'traditional', 25)).toBe(-10000);
+    });
+
+    it('should pass through contributions and other account types', () => {
+      expect(AccountTaxCalculator.getGrossCashFlow(5000, 'traditional', 25)).toBe(5000);
+      expect(AccountTaxCalculator.getGrossCashFlow(-5000, 'taxable', 25)).toBe(-5000);
+      expect(AccountTaxCalculator.getGrossCashFlow(-5000, 'roth', 25)).toBe(-5000);
+    });
+  });
+
+  describe('getAfterTaxValue', () => {
+    it('should tax only gains above cost basis in a taxable account', () => {
+      expect(AccountTaxCalculator.getAfterTaxValue(150000, 100000, 'taxable', 15, 22)).toBe(142500);
+      expect(AccountTaxCalculator.getAfterTaxValue(90000, 100000, 'taxable', 15, 22)).toBe(90000);
+    });
+
+    it('should tax the full Traditional balance as ordinary income', () => {
+      expect(AccountTaxCalculator.getAfterTaxValue(100000, 100000, 'traditional', 15, 22)).toBeCloseTo(78000, 6);
+    });
+
+    it('should leave Roth and HSA balances untaxed', () => {
+      expect(AccountTaxCalculator.getAfterTaxValue(150000, 50000, 'roth', 15, 22)).toBe(150000);
+      expect(AccountTaxCalculator.getAfterTaxValue(150000, 50000, 'hsa', 15, 22)).toBe(150000);
+    });
+
+    it('should not tax a negative balance', () => {
+      expect(AccountTaxCalculator.getAfterTaxValue(-5000, 0, 'traditional', 15, 22)).toBe(-5000);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+export type InvestmentAccountType = 'taxable' | 'traditional' | 'roth' | 'hsa';
+
+/**
+ * Account Tax Calculator
+ *
+ * Applies the tax treatment of an investment account's type to its
+ * projected balance.
+ *
+ * Key concepts:
+ * - Taxable: distributions are taxed every year (tax drag) and reinvested,
+ *   raising the cost basis; gains above basis are taxed on liquidation
+ * - Traditional 401k/IRA: growth is tax-deferred; every withdrawal is taxed
+ *   as ordinary income, so spending needs are grossed up
+ * - Roth and HSA: qualified withdrawals are tax-free
+ */
+export class AccountTaxCalculator {
+  static readonly ACCOUNT_TYPE_LABELS: Record<InvestmentAccountType, string> = {
+    taxable: 'Taxable Brokerage',
+    traditional: 'Traditional 401k/IRA',
+    roth: 'Roth 401k/IRA',
+    hsa: 'HSA',
+  };
+
+  static isTaxDeferred(accountType: InvestmentAccountType): boolean {
+    return accountType === 'traditional';
+  }
+
+  static isTaxFree(accountType: InvestmentAccountType): boolean {
+    return accountType === 'roth' || accountType === 'hsa';
+  }
+
+  /**
+   * Annual return lost to tax on distributions (percentage points).
+   * Only taxable accounts pay tax before withdrawal.
+   */
+  static getTaxDragRate(
+    accountType: InvestmentAccountType,
+    dividendYield: number,
+    capitalGainsTaxRate: number
+  ): number {
+    if (accountType !== 'taxable') return 0;
+    return Math.max(0, dividendYield) * this.clampRate(capitalGainsTaxRate) / 100;
+  }
+
+  /**
+   * Balance change needed to fund a cash flow after tax.
+   * Withdrawals from a Traditional account are grossed up so the net amount
+   * still covers the need; contributions and other account types pass through.
+   */
+  static getGrossCashFlow(
+    cashFlow: number,
+    accountType: InvestmentAccountType,
+    withdrawalTaxRate: number
+  ): number {
+    if (cashFlow >= 0 || !this.isTaxDeferred(accountType)) return cashFlow;
+    return cashFlow / (1 - this.clampRate(withdrawalTaxRate) / 100);
+  }
+
+  /**
+   * What the account would be worth if fully withdrawn, after tax
+   */
+  static getAfterTaxValue(
+    balance: number,
+    costBasis: number,
+    accountType: InvestmentAccountType,
+    capitalGainsTaxRate: number,
+    withdrawalTaxRate: number
+  ): number {
+    if (balance <= 0 || this.isTaxFree(accountType)) return balance;
+
+    if (this.isTaxDeferred(accountType)) {
+      return balance * (1 - this.clampRate(withdrawalTaxRate) / 100);
+    }
+
+    const unrealizedGain = Math.max(0, balance - costBasis);
+    return balance - unrealizedGain * this.clampRate(capitalGainsTaxRate) / 100;
+  }
+
+  // Keep rates within 0-99% so gross-ups stay finite
+  private static clampRate(rate: number): number {
+    return Math.min(Math.max(0, rate), 99);
+  }
+}
@@ -0,0 +1,68 @@
+import { ContributionLimitCalculator } from './ContributionLimitCalculator';
+
+describe('ContributionLimitCalculator', () => {
+  describe('getContributionLimit', () => {
+    it('should return the published limits without catch-up under 50', () => {
+      const limit = ContributionLimitCalculator.getContributionLimit('401k', 2025, 40);
+
+      expect(limit.baseLimit).toBe(23500);
+      expect(limit.catchUp).toBe(0);
+      expect(limit.totalLimit).toBe(23500);
+      expect(limit.isProjected).toBe(false);
+    });
+
+    it('should add the catch-up from age 50', () => {
+      expect(ContributionLimitCalculator.getContributionLimit('401k', 2024, 50).totalLimit).toBe(30500);
+      expect(ContributionLimitCalculator.getContributionLimit('ira', 2024, 55).totalLimit).toBe(8000);
+    });
+
+    it('should use the higher 401k catch-up for ages 60-63 where published', () => {
+      expect(ContributionLimitCalculator.getContributionLimit('401k', 2025, 61).catchUp).toBe(11250);
+      expect(ContributionLimitCalculator.getContributionLimit('401k', 2025, 64).catchUp).toBe(7500);
+      expect(ContributionLimitCalculator.getContributionLimit('401k', 2024, 61).catchUp).toBe(7500);
+    });
+
+    it('should skip the catch-up when the age is unknown', () => {
+      expect(ContributionLimitCalculator.getContributionLimit('ira', 2026, null).catchUp).toBe(0);
+    });
+
+    it('should index future limits with inflation and IRS rounding', () => {
+      const limit = ContributionLimitCalculator.getContributionLimit('401k', 2030, 52, 3);
+
+      // $24,500 and $8,000 grown 3% for four years, rounded down to $500
+      expect(limit.baseLimit).toBe(27500);
+      expect(limit.catchUp).toBe(9000);
+      expect(limit.isProjected).toBe(true);
+    });
+
+    it('should keep the latest published limits when inflation is zero', () => {
+      expect(ContributionLimitCalculator.getContributionLimit('ira', 2035, 30).baseLimit).toBe(7500);
+    });
+
+    it('should use the earliest published limits for earlier years', () => {
+      expect(ContributionLimitCalculator.getContributionLimit('401k', 2020, 30, 3).baseLimit).toBe(23000);
+    });
+  });
+
+  describe('applyLimit', () => {
+    it('should split a contribution into the allowed part and the excess', () => {
+      const limit = ContributionLimitCalculator.getContributionLimit('ira', 2024, 30);
+
+      expect(ContributionLimitCalculator.applyLimit(5000, limit)).toEqual({ contribution: 5000, excess: 0 });
+      expect(ContributionLimitCalculator.applyLimit(10000, limit)).toEqual({ contribution: 7000, excess: 3000 });
+    });
+  });
+
+  describe('calculateEmployerMatch', () => {
+    it('should match a share of contributions up to a percentage of salary', () => {
+      // 50% match on up to 6% of $100k
+      expect(ContributionLimitCalculator.calculateEmployerMatch(10000, 100000, 50, 6)).toBe(3000);
+      expect(ContributionLimitCalculator.calculateEmployerMatch(4000, 100000, 50, 6)).toBe(2000);
+    });
+
+    it('should not match without a salary or contribution', () => {
+      expect(ContributionLimitCalculator.calculateEmployerMatch(10000, 0, 50, 6)).toBe(0);
+      expect(ContributionLimitCalculator.calculateEmployerMatch(0, 100000, 50, 6)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { getInflationFactor } from '@/features/tax/data/TaxTables';
+import {
+  AGE_SIXTY_CATCH_UP_AGES,
+  CATCH_UP_AGE,
+  CONTRIBUTION_LIMITS,
+  EARLIEST_LIMIT_YEAR,
+  LATEST_LIMIT_YEAR,
+  LIMIT_ROUNDING,
+  type RetirementPlanType
+} from '../data/ContributionLimits';
+
+export interface ContributionLimit {
+  taxYear: number;
+  baseLimit: number;
+  /** Catch-up allowed for the owner's age this year (0 under 50 or when age is unknown) */
+  catchUp: number;
+  totalLimit: number;
+  /** True when the limit was indexed past the latest published year */
+  isProjected: boolean;
+}
+
+export interface LimitedContribution {
+  /** Contribution that fits within the limit */
+  contribution: number;
+  /** Amount above the limit */
+  excess: number;
+}
+
+/**
+ * Contribution Limit Calculator
+ *
+ * Enforces annual employee contribution limits on 401k and IRA accounts and
+ * models an employer match.
+ *
+ * Key concepts:
+ * - Catch-up contributions are allowed from the year the owner turns 50,
+ *   with a higher 401k catch-up for ages 60-63 where published
+ * - Limits past the latest published year are indexed with inflation
+ * - Each account is limited on its own; limits shared across several
+ *   accounts of the same owner are not aggregated
+ * - The employer match is a share of the employee's contribution, up to a
+ *   percentage of salary, and does not count toward the employee limit
+ */
+export class ContributionLimitCalculator {
+  static getContributionLimit(
+    plan: RetirementPlanType,
+    taxYear: number,
+    age: number | null,
+    inflationRate: number = 0
+  ): ContributionLimit {
+    const sourceYear = Math.min(Math.max(taxYear, EARLIEST_LIMIT_YEAR), LATEST_LIMIT_YEAR);
+    const published = CONTRIBUTION_LIMITS[sourceYear][plan];
+    const factor = getInflationFactor(sourceYear, taxYear, inflationRate);
+    const rounding = LIMIT_ROUNDING[plan];
+
+    const baseLimit = this.indexLimit(published.baseLimit, factor, rounding.baseLimit);
+    let catchUp = 0;
+    if (age !== null && age >= CATCH_UP_AGE) {
+      const isAgeSixtyCatchUp = published.ageSixtyCatchUp !== undefined &&
+        age >= AGE_SIXTY_CATCH_UP_AGES.min && age <= AGE_SIXTY_CATCH_UP_AGES.max;
+      catchUp = this.indexLimit(
+        isAgeSixtyCatchUp ? published.ageSixtyCatchUp! : published.catchUp,
+        factor,
+        rounding.catchUp
+      );
+    }
+
+    return {
+      taxYear,
+      baseLimit,
+      catchUp,
+      totalLimit: baseLimit + catchUp,
+      isProjected: taxYear > LATEST_LIMIT_YEAR,
+    };
+  }
+
+  /**
+   * Split a contribution into the part within the limit and the excess
+   */
+  static applyLimit(contribution: number, limit: ContributionLimit): LimitedContribution {
+    if (contribution <= limit.totalLimit) {
+      return { contribution, excess: 0 };
+    }
+    return { contribution: limit.totalLimit, excess: contribution - limit.totalLimit };
+  }
+
+  /**
+   * Employer match on an employee contribution.
+   * @param matchRate - Share of the employee contribution matched (%)
+   * @param matchCapPercent - Employee contributions above this % of salary are not matched
+   */
+  static calculateEmployerMatch(
+    employeeContribution: number,
+    salary: number,
+    matchRate: number,
+    matchCapPercent: number
+  ): number {
+    if (employeeContribution <= 0 || salary <= 0 || matchRate <= 0) return 0;
+
+    const matchableContribution = Math.min(employeeContribution, salary * Math.max(0, matchCapPercent) / 100);
+    return matchableContribution * matchRate / 100;
+  }
+
+  private static indexLimit(amount: number, factor: number, roundTo: number): number {
+    if (factor === 1) return amount;
+    return Math.floor((amount * factor) / roundTo) * roundTo;
+  }
+}
@@ -0,0 +1,74 @@
+import { DrawdownCalculator, type DrawdownParams, type DrawdownYear } from './DrawdownCalculator';
+
+const params = (overrides: Partial<DrawdownParams> = {}): DrawdownParams => ({
+  strategy: 'fourPercent',
+  annualWithdrawal: 40000,
+  withdrawalRate: 4,
+  inflationRate: 3,
+  guardrailBand: 20,
+  guardrailAdjustment: 10,
+  ...overrides,
+});
+
+const year = (overrides: Partial<DrawdownYear> = {}): DrawdownYear => ({
+  yearsRetired: 0,
+  balance: 1000000,
+  previousWithdrawal: 0,
+  previousReturn: 7,
+  inflationFactor: 1,
+  ...overrides,
+});
+
+describe('DrawdownCalculator', () => {
+  describe('fixedReal', () => {
+    it('should grow the fixed amount with inflation', () => {
+      const fixed = params({ strategy: 'fixedReal' });
+
+      expect(DrawdownCalculator.getWithdrawal(fixed, year())).toBe(40000);
+      expect(DrawdownCalculator.getWithdrawal(fixed, year({ yearsRetired: 5, inflationFactor: 1.5 }))).toBe(60000);
+    });
+  });
+
+  describe('fourPercent', () => {
+    it('should withdraw 4% of the starting balance, then raise it with inflation', () => {
+      expect(DrawdownCalculator.getWithdrawal(params(), year())).toBe(40000);
+      expect(DrawdownCalculator.getWithdrawal(params(), year({ yearsRetired: 1, previousWithdrawal: 40000, balance: 500000 })))
+        .toBeCloseTo(41200, 6);
+    });
+  });
+
+  describe('constantPercent', () => {
+    it('should withdraw a share of each year\'s balance', () => {
+      const constant = params({ strategy: 'constantPercent', withdrawalRate: 5 });
+
+      expect(DrawdownCalculator.getWithdrawal(constant, year({ yearsRetired: 3, balance: 800000 }))).toBe(40000);
+      expect(DrawdownCalculator.getWithdrawal(constant, year({ balance: -100 }))).toBe(0);
+    });
+  });
+
+  describe('guardrails', () => {
+    const guardrails = params({ strategy: 'guardrails' });
+
+    it('should raise with inflation while the rate stays within the band', () => {
+      expect(DrawdownCalculator.getWithdrawal(guardrails, year({ yearsRetired: 1, previousWithdrawal: 40000 })))
+        .toBeCloseTo(41200, 6);
+    });
+
+    it('should skip the inflation raise after a losing year', () => {
+      expect(DrawdownCalculator.getWithdrawal(guardrails, year({ yearsRetired: 1, previousWithdrawal: 40000, previousReturn: -5 })))
+        .toBe(40000);
+    });
+
+    it('should cut spending when the rate rises above the upper guardrail', () => {
+      // 41,200 / 800,000 = 5.15% > 4.8%
+      expect(DrawdownCalculator.getWithdrawal(guardrails, year({ yearsRetired: 1, previousWithdrawal: 40000, balance: 800000 })))
+        .toBeCloseTo(41200 * 0.9, 6);
+    });
+
+    it('should raise spending when the rate falls below the lower guardrail', () => {
+      // 41,200 / 1,500,000 = 2.75% < 3.2%
+      expect(DrawdownCalculator.getWithdrawal(guardrails, year({ yearsRetired: 1, previousWithdrawal: 40000, balance: 1500000 })))
+        .toBeCloseTo(41200 * 1.1, 6);
+    });
+  });
+});
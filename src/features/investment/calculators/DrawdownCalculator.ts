@@ -0,0 +1,106 @@
+export type DrawdownStrategy = 'fixedReal' | 'fourPercent' | 'constantPercent' | 'guardrails';
+
+export interface DrawdownParams {
+  strategy: DrawdownStrategy;
+  /** Fixed real strategy: annual spending in starting-year dollars */
+  annualWithdrawal: number;
+  /** Initial (4% rule, guardrails) or ongoing (constant %) withdrawal rate as a percentage */
+  withdrawalRate: number;
+  /** Inflation rate as a percentage */
+  inflationRate: number;
+  /** Guardrails: how far the current rate may drift from the initial rate before adjusting (%) */
+  guardrailBand: number;
+  /** Guardrails: size of each spending cut or raise (%) */
+  guardrailAdjustment: number;
+}
+
+export interface DrawdownYear {
+  /** Years since retirement started (0 = first retirement year) */
+  yearsRetired: number;
+  /** Balance available for withdrawal at the start of the year */
+  balance: number;
+  /** Planned withdrawal of the previous retirement year */
+  previousWithdrawal: number;
+  /** Portfolio return of the previous year as a percentage */
+  previousReturn: number;
+  /** Inflation factor from the starting year to this year */
+  inflationFactor: number;
+}
+
+/**
+ * Drawdown Calculator
+ *
+ * Plans annual retirement withdrawals for a safe-withdrawal strategy.
+ *
+ * Strategies:
+ * - fixedReal: a fixed amount of spending, grown with inflation
+ * - fourPercent: a percentage of the balance at retirement (4% by default),
+ *   then grown with inflation regardless of returns
+ * - constantPercent: a fixed percentage of each year's balance
+ * - guardrails: Guyton-Klinger style; starts like the 4% rule, skips the
+ *   inflation raise after a losing year, and cuts or raises spending when the
+ *   current withdrawal rate drifts outside a band around the initial rate
+ *
+ * The planned withdrawal may exceed the balance; callers cap it and treat
+ * the first unfunded year as the year the money runs out.
+ */
+export class DrawdownCalculator {
+  static readonly STRATEGY_LABELS: Record<DrawdownStrategy, string> = {
+    fixedReal: 'Fixed real amount',
+    fourPercent: '4% rule (inflation-adjusted)',
+    constantPercent: 'Constant percentage',
+    guardrails: 'Guardrails (Guyton-Klinger)',
+  };
+
+  static readonly DEFAULT_WITHDRAWAL_RATE = 4;
+
+  /**
+   * Planned withdrawal for one retirement year
+   */
+  static getWithdrawal(params: DrawdownParams, year: DrawdownYear): number {
+    const balance = Math.max(0, year.balance);
+    const rate = Math.max(0, params.withdrawalRate) / 100;
+    const inflationRaise = 1 + params.inflationRate / 100;
+
+    switch (params.strategy) {
+      case 'fixedReal':
+        return Math.max(0, params.annualWithdrawal) * year.inflationFactor;
+
+      case 'fourPercent':
+        return year.yearsRetired === 0 ? balance * rate : year.previousWithdrawal * inflationRaise;
+
+      case 'constantPercent':
+        return balance * rate;
+
+      case 'guardrails':
+        return year.yearsRetired === 0
+          ? balance * rate
+          : this.applyGuardrails(params, year, rate, inflationRaise);
+    }
+  }
+
+  private static applyGuardrails(
+    params: DrawdownParams,
+    year: DrawdownYear,
+    initialRate: number,
+    inflationRaise: number
+  ): number {
+    // Withdrawal rule: no inflation raise after a losing year
+    let withdrawal = year.previousReturn < 0 ? year.previousWithdrawal : year.previousWithdrawal * inflationRaise;
+    if (year.balance <= 0 || initialRate <= 0) return withdrawal;
+
+    const band = Math.max(0, params.guardrailBand) / 100;
+    const adjustment = Math.max(0, params.guardrailAdjustment) / 100;
+    const currentRate = withdrawal / year.balance;
+
+    if (currentRate > initialRate * (1 + band)) {
+      // Capital preservation rule
+      withdrawal *= 1 - adjustment;
+    } else if (currentRate < initialRate * (1 - band)) {
+      // Prosperity rule
+      withdrawal *= 1 + adjustment;
+    }
+
+    return withdrawal;
+  }
+}
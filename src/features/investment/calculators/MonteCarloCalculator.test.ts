@@ -0,0 +1,149 @@
+import { MonteCarloCalculator } from './MonteCarloCalculator';
+import { getHistoricalReturnSeries } from '../data/HistoricalReturns';
+
+// Simple compounding path: balance grows by each year's return, no cash flows
+const compound = (initial: number) => (annualReturns: number[]) => {
+  const balances = [initial];
+  let balance = initial;
+  for (const annualReturn of annualReturns) {
+    balance *= 1 + annualReturn / 100;
+    balances.push(balance);
+  }
+  return balances;
+};
+
+const baseParams = {
+  trials: 200,
+  years: 10,
+  seed: 42,
+  returnModel: 'normal' as const,
+  expectedReturn: 7,
+  volatility: 15,
+  inflationRate: 0,
+  targetBalance: 0,
+  simulatePath: compound(10000)
+};
+
+describe('MonteCarloCalculator', () => {
+  describe('createRandom', () => {
+    it('should produce the same sequence for the same seed', () => {
+      const a = MonteCarloCalculator.createRandom(123);
+      const b = MonteCarloCalculator.createRandom(123);
+
+      for (let i = 0; i < 5; i++) {
+        expect(a()).toBe(b());
+      }
+    });
+
+    it('should produce values in [0, 1)', () => {
+      const random = MonteCarloCalculator.createRandom(7);
+      for (let i = 0; i < 1000; i++) {
+        const value = random();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+  });
+
+  describe('percentile', () => {
+    it('should interpolate between sorted values', () => {
+      const sorted = [0, 10, 20, 30, 40];
+      expect(MonteCarloCalculator.percentile(sorted, 0)).toBe(0);
+      expect(MonteCarloCalculator.percentile(sorted, 50)).toBe(20);
+      expect(MonteCarloCalculator.percentile(sorted, 90)).toBe(36);
+      expect(MonteCarloCalculator.percentile(sorted, 100)).toBe(40);
+    });
+
+    it('should handle empty and single-value arrays', () => {
+      expect(MonteCarloCalculator.percentile([], 50)).toBe(0);
+      expect(MonteCarloCalculator.percentile([5], 90)).toBe(5);
+    });
+  });
+
+  describe('generateReturns', () => {
+    it('should return the expected return every year when volatility is zero', () => {
+      const random = MonteCarloCalculator.createRandom(1);
+      const returns = MonteCarloCalculator.generateReturns(random, 5, 'normal', 7, 0);
+      expect(returns).toEqual([7, 7, 7, 7, 7]);
+    });
+
+    it('should sample only from the historical series in historical mode', () => {
+      const series = getHistoricalReturnSeries();
+      const random = MonteCarloCalculator.createRandom(99);
+      const returns = MonteCarloCalculator.generateReturns(random, 50, 'historical', 0, 0);
+
+      expect(returns).toHaveLength(50);
+      returns.forEach(value => expect(series).toContain(value));
+    });
+
+    it('should approximate the expected mean over many draws', () => {
+      const random = MonteCarloCalculator.createRandom(5);
+      const returns = MonteCarloCalculator.generateReturns(random, 20000, 'normal', 7, 15);
+      const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+      expect(mean).toBeCloseTo(7, 0);
+    });
+  });
+
+  describe('run', () => {
+    it('should collapse to the deterministic path with zero volatility', () => {
+      const result = MonteCarloCalculator.run({ ...baseParams, volatility: 0 });
+      const expected = 10000 * Math.pow(1.07, 10);
+
+      const finalBand = result.bands[10];
+      expect(finalBand.p10).toBeCloseTo(expected, 0);
+      expect(finalBand.p50).toBeCloseTo(expected, 0);
+      expect(finalBand.p90).toBeCloseTo(expected, 0);
+    });
+
+    it('should return ordered percentile bands for every year including year 0', () => {
+      const result = MonteCarloCalculator.run(baseParams);
+
+      expect(result.trials).toBe(200);
+      expect(result.bands).toHaveLength(11);
+      expect(result.bands[0].p10).toBe(10000);
+      expect(result.bands[0].p90).toBe(10000);
+
+      result.bands.forEach(band => {
+        expect(band.p10).toBeLessThanOrEqual(band.p50);
+        expect(band.p50).toBeLessThanOrEqual(band.p90);
+      });
+      expect(result.bands[10].p90 - result.bands[10].p10).toBeGreaterThan(0);
+    });
+
+    it('should be reproducible for the same seed and differ for another seed', () => {
+      const first = MonteCarloCalculator.run(baseParams);
+      const second = MonteCarloCalculator.run(baseParams);
+      const other = MonteCarloCalculator.run({ ...baseParams, seed: 43 });
+
+      expect(second.bands).toEqual(first.bands);
+      expect(other.bands[10].p50).not.toBe(first.bands[10].p50);
+    });
+
+    it('should deflate real bands by inflation', () => {
+      const result = MonteCarloCalculator.run({ ...baseParams, inflationRate: 3 });
+      const band = result.bands[10];
+      expect(band.realP50).toBeCloseTo(band.p50 / Math.pow(1.03, 10), 0);
+    });
+
+    it('should compute the probability of reaching the target balance', () => {
+      const unreachable = MonteCarloCalculator.run({ ...baseParams, volatility: 0, targetBalance: 1000000 });
+      const reachable = MonteCarloCalculator.run({ ...baseParams, volatility: 0, targetBalance: 15000 });
+      const partial = MonteCarloCalculator.run({ ...baseParams, targetBalance: 10000 * Math.pow(1.07, 10) });
+
+      expect(unreachable.probabilityOfSuccess).toBe(0);
+      expect(reachable.probabilityOfSuccess).toBe(1);
+      expect(partial.probabilityOfSuccess).toBeGreaterThan(0);
+      expect(partial.probabilityOfSuccess).toBeLessThan(1);
+    });
+
+    it('should not report a probability without a target', () => {
+      const result = MonteCarloCalculator.run(baseParams);
+      expect(result.probabilityOfSuccess).toBeNull();
+    });
+
+    it('should clamp the number of trials', () => {
+      const result = MonteCarloCalculator.run({ ...baseParams, trials: 100000, years: 1 });
+      expect(result.trials).toBe(MonteCarloCalculator.MAX_TRIALS);
+    });
+  });
+});
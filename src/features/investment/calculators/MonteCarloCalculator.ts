@@ -0,0 +1,220 @@
+import { getHistoricalReturnSeries } from '../data/HistoricalReturns';
+
+export type MonteCarloReturnModel = 'normal' | 'historical';
+
+export interface MonteCarloParams {
+  /** Number of simulated trials */
+  trials: number;
+  /** Number of projection years (excluding year 0) */
+  years: number;
+  /** Seed for the pseudo-random generator so results are reproducible */
+  seed: number;
+  /** How annual returns are drawn */
+  returnModel: MonteCarloReturnModel;
+  /** Expected annual return as a percentage (normal model only) */
+  expectedReturn: number;
+  /** Annual standard deviation of returns as a percentage (normal model only) */
+  volatility: number;
+  /** Inflation rate as a percentage, used for real-value bands */
+  inflationRate: number;
+  /** Target ending balance; 0 disables the success probability */
+  targetBalance: number;
+  /** Projects nominal balances for years 0..N given one return (percentage) per year */
+  simulatePath: (annualReturns: number[]) => number[];
+}
+
+export interface MonteCarloBand {
+  year: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  realP10: number;
+  realP50: number;
+  realP90: number;
+}
+
+export interface MonteCarloResult {
+  trials: number;
+  bands: MonteCarloBand[];
+  /** Share of trials (0-1) ending at or above the target balance, null when no target is set */
+  probabilityOfSuccess: number | null;
+  targetBalance: number;
+  /** Nominal balances per trial for years 0..N, kept for portfolio-level aggregation */
+  trialBalances: number[][];
+}
+
+/**
+ * Monte Carlo Projection Calculator
+ *
+ * Runs seeded stochastic trials of an investment projection and summarizes
+ * them as percentile bands.
+ *
+ * Return models:
+ * - normal: returns drawn from a normal distribution (expected return, volatility)
+ * - historical: returns bootstrapped from the bundled S&P 500 annual series
+ *
+ * The same seed always produces the same trials, so results are stable
+ * across re-renders and comparable between input changes.
+ */
+export class MonteCarloCalculator {
+  static readonly DEFAULT_TRIALS = 500;
+  static readonly MAX_TRIALS = 5000;
+
+  /**
+   * Run the simulation and summarize the trials
+   */
+  static run(params: MonteCarloParams): MonteCarloResult {
+    const trials = Math.min(Math.max(1, Math.floor(params.trials)), this.MAX_TRIALS);
+    const years = Math.max(0, Math.floor(params.years));
+    const random = this.createRandom(params.seed);
+
+    const trialBalances: number[][] = [];
+    for (let trial = 0; trial < trials; trial++) {
+      const annualReturns = this.generateReturns(
+        random,
+        years,
+        params.returnModel,
+        params.expectedReturn,
+        params.volatility
+      );
+      trialBalances.push(params.simulatePath(annualReturns));
+    }
+
+    const summary = this.summarizeTrials(trialBalances, params.inflationRate, params.targetBalance);
+
+    return {
+      trials,
+      bands: summary.bands,
+      probabilityOfSuccess: summary.probabilityOfSuccess,
+      targetBalance: params.targetBalance,
+      trialBalances
+    };
+  }
+
+  /**
+   * Build percentile bands and target probability from per-trial balances
+   */
+  static summarizeTrials(
+    trialBalances: number[][],
+    inflationRate: number,
+    targetBalance: number
+  ): { bands: MonteCarloBand[]; probabilityOfSuccess: number | null } {
+    if (trialBalances.length === 0) {
+      return { bands: [], probabilityOfSuccess: null };
+    }
+
+    const yearCount = Math.min(...trialBalances.map(balances => balances.length));
+    const bands: MonteCarloBand[] = [];
+
+    for (let year = 0; year < yearCount; year++) {
+      const sorted = trialBalances.map(balances => balances[year]).sort((a, b) => a - b);
+      const inflationFactor = Math.pow(1 + inflationRate / 100, year);
+      const p10 = this.percentile(sorted, 10);
+      const p50 = this.percentile(sorted, 50);
+      const p90 = this.percentile(sorted, 90);
+
+      bands.push({
+        year,
+        p10: Math.round(p10 * 100) / 100,
+        p50: Math.round(p50 * 100) / 100,
+        p90: Math.round(p90 * 100) / 100,
+        realP10: Math.round((p10 / inflationFactor) * 100) / 100,
+        realP50: Math.round((p50 / inflationFactor) * 100) / 100,
+        realP90: Math.round((p90 / inflationFactor) * 100) / 100
+      });
+    }
+
+    let probabilityOfSuccess: number | null = null;
+    if (targetBalance > 0 && yearCount > 0) {
+      const successes = trialBalances.filter(balances => balances[yearCount - 1] >= targetBalance).length;
+      probabilityOfSuccess = successes / trialBalances.length;
+    }
+
+    return { bands, probabilityOfSuccess };
+  }
+
+  /**
+   * Draw one return (percentage) per year using the selected model
+   */
+  static generateReturns(
+    random: () => number,
+    years: number,
+    returnModel: MonteCarloReturnModel,
+    expectedReturn: number,
+    volatility: number
+  ): number[] {
+    const returns: number[] = [];
+
+    if (returnModel === 'historical') {
+      const series = getHistoricalReturnSeries();
+      for (let year = 0; year < years; year++) {
+        returns.push(series[Math.floor(random() * series.length)]);
+      }
+      return returns;
+    }
+
+    for (let year = 0; year < years; year++) {
+      // A return below -100% would mean losing more than the whole balance
+      returns.push(Math.max(-100, expectedReturn + volatility * this.standardNormal(random)));
+    }
+    return returns;
+  }
+
+  /**
+   * Linear-interpolated percentile of an ascending sorted array
+   */
+  static percentile(sortedValues: number[], percentile: number): number {
+    if (sortedValues.length === 0) return 0;
+    if (sortedValues.length === 1) return sortedValues[0];
+
+    const rank = (percentile / 100) * (sortedValues.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    const weight = rank - lower;
+
+    return sortedValues[lower] * (1 - weight) + sortedValues[upper] * weight;
+  }
+
+  /**
+   * Seed derived from text (FNV-1a hash), e.g. an investment id, so each
+   * investment gets its own reproducible sequence
+   */
+  static seedFromString(value: string): number {
+    let hash = 0x811C9DC5;
+    for (let i = 0; i < value.length; i++) {
+      hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193) >>> 0;
+    }
+    return hash;
+  }
+
+  /**
+   * Seeded pseudo-random generator (mulberry32) returning values in [0, 1)
+   */
+  static createRandom(seed: number): () => number {
+    let state = Math.floor(seed) >>> 0;
+    return () => {
+      state = (state + 0x6D2B79F5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  /**
+   * Standard normal sample using the Box-Muller transform
+   */
+  private static standardNormal(random: () => number): number {
+    let u = 0;
+    while (u === 0) u = random();
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+
+  /**
+   * Format a probability (0-1) as a percentage string
+   */
+  static formatProbability(probability: number): string {
+    return `${(probability * 100).toFixed(0)}%`;
+  }
+}
@@ -0,0 +1,35 @@
+import { RequiredMinimumDistributionCalculator } from './RequiredMinimumDistributionCalculator';
+
+describe('RequiredMinimumDistributionCalculator', () => {
+  describe('getStartAge', () => {
+    it('should follow the SECURE 2.0 starting ages', () => {
+      expect(RequiredMinimumDistributionCalculator.getStartAge(1950)).toBe(72);
+      expect(RequiredMinimumDistributionCalculator.getStartAge(1951)).toBe(73);
+      expect(RequiredMinimumDistributionCalculator.getStartAge(1959)).toBe(73);
+      expect(RequiredMinimumDistributionCalculator.getStartAge(1960)).toBe(75);
+    });
+  });
+
+  describe('getDistributionPeriod', () => {
+    it('should look up the Uniform Lifetime Table', () => {
+      expect(RequiredMinimumDistributionCalculator.getDistributionPeriod(73)).toBe(26.5);
+      expect(RequiredMinimumDistributionCalculator.getDistributionPeriod(90)).toBe(12.2);
+    });
+
+    it('should use the last period past the end of the table', () => {
+      expect(RequiredMinimumDistributionCalculator.getDistributionPeriod(125)).toBe(2.0);
+    });
+  });
+
+  describe('calculateRmd', () => {
+    it('should divide the prior year-end balance by the distribution period', () => {
+      // Born 1955: RMDs start at 73 in 2028
+      expect(RequiredMinimumDistributionCalculator.calculateRmd(530000, 1955, 2028)).toBeCloseTo(20000, 6);
+    });
+
+    it('should not require a distribution before the starting age', () => {
+      expect(RequiredMinimumDistributionCalculator.calculateRmd(530000, 1955, 2027)).toBe(0);
+      expect(RequiredMinimumDistributionCalculator.calculateRmd(530000, 1960, 2034)).toBe(0);
+    });
+  });
+});
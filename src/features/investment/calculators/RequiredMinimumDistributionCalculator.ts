@@ -0,0 +1,48 @@
+import {
+  RMD_START_AGES,
+  UNIFORM_LIFETIME_TABLE,
+  UNIFORM_LIFETIME_TABLE_MAX_AGE,
+  UNIFORM_LIFETIME_TABLE_MIN_AGE
+} from '../data/UniformLifetimeTable';
+
+/**
+ * Required Minimum Distribution Calculator
+ *
+ * Computes the yearly RMD from a pre-tax (Traditional 401k/IRA) account.
+ *
+ * Key concepts:
+ * - RMDs start in the year the owner reaches the statutory age: 72 if born
+ *   before 1951, 73 if born 1951-1959, 75 if born 1960 or later
+ * - The RMD is the prior year-end balance divided by the Uniform Lifetime
+ *   Table period for the owner's age that year
+ * - The first RMD is taken in its own year rather than deferred to April 1
+ *   of the following year
+ * - Roth accounts have no RMDs during the owner's lifetime
+ */
+export class RequiredMinimumDistributionCalculator {
+  static getStartAge(birthYear: number): number {
+    const matches = RMD_START_AGES.filter(entry => birthYear > entry.bornAfter);
+    return matches[matches.length - 1].age;
+  }
+
+  static getStartYear(birthYear: number): number {
+    return birthYear + this.getStartAge(birthYear);
+  }
+
+  /**
+   * Uniform Lifetime Table divisor for an age
+   */
+  static getDistributionPeriod(age: number): number {
+    const tableAge = Math.min(Math.max(Math.floor(age), UNIFORM_LIFETIME_TABLE_MIN_AGE), UNIFORM_LIFETIME_TABLE_MAX_AGE);
+    return UNIFORM_LIFETIME_TABLE[tableAge];
+  }
+
+  /**
+   * RMD for a tax year, 0 before the starting age
+   * @param priorYearEndBalance - Account balance on December 31 of the previous year
+   */
+  static calculateRmd(priorYearEndBalance: number, birthYear: number, taxYear: number): number {
+    if (priorYearEndBalance <= 0 || taxYear < this.getStartYear(birthYear)) return 0;
+    return priorYearEndBalance / this.getDistributionPeriod(taxYear - birthYear);
+  }
+}
@@ -0,0 +1,190 @@
+import { Investment } from '@/features/investment/stores/Investment';
+import { AccountTaxCalculator, type InvestmentAccountType } from '@/features/investment/calculators/AccountTaxCalculator';
+import { CollapsibleSection } from '@/features/shared/components/CollapsibleSection';
+import { usePortfolioStore } from '@/features/core/stores/hooks';
+import {
+  ValidatedCurrencyInput,
+  ValidatedPercentageInput,
+  ValidatedSelectInput,
+  ValidatedYearInput
+} from '@/features/shared/components/forms';
+import { type RetirementPlanType } from '@/features/investment/data/ContributionLimits';
+import { observer } from 'mobx-react-lite';
+import React from 'react';
+
+interface AccountTaxSettingsProps {
+  asset: Investment;
+}
+
+const ACCOUNT_TYPE_OPTIONS = (Object.keys(AccountTaxCalculator.ACCOUNT_TYPE_LABELS) as InvestmentAccountType[])
+  .map(value => ({ value, label: AccountTaxCalculator.ACCOUNT_TYPE_LABELS[value] }));
+
+const ACCOUNT_TYPE_HELP: Record<InvestmentAccountType, string> = {
+  taxable: 'Distributions are taxed yearly; gains above cost basis are taxed when sold',
+  traditional: 'Growth is tax-deferred; withdrawals are taxed as ordinary income',
+  roth: 'Qualified withdrawals are tax-free',
+  hsa: 'Qualified medical withdrawals are tax-free'
+};
+
+const RETIREMENT_PLAN_OPTIONS = [
+  { value: '401k', label: '401k / 403b' },
+  { value: 'ira', label: 'IRA' }
+];
+
+export const AccountTaxSettings: React.FC<AccountTaxSettingsProps> = observer(({ asset }) => {
+  const portfolioStore = usePortfolioStore();
+  const accountType = asset.inputs.accountType ?? 'taxable';
+  const { taxDragRate } = asset.accountTaxInputs;
+  const plan = asset.retirementPlan;
+  const firstYearLimit = asset.contributionSchedule[0]?.contributionLimit;
+
+  // Only accounts without contribution limits can receive overflow or RMDs
+  const overflowOptions = [
+    { value: '', label: 'None (excess is not invested)' },
+    ...portfolioStore.investments
+      .filter(investment => investment.id !== asset.id && investment.retirementPlan === null)
+      .map(investment => ({ value: investment.id, label: investment.name }))
+  ];
+
+  const rmdReinvestmentOptions = [
+    { value: '', label: 'None (RMDs are spent)' },
+    ...overflowOptions.slice(1)
+  ];
+
+  const icon = (
+    <svg className="w-6 h-6 text-primary-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
+    </svg>
+  );
+
+  return (
+    <CollapsibleSection title="Account Type & Taxes" icon={icon} defaultExpanded={false}>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+        <ValidatedSelectInput
+          label="Account Type"
+          value={accountType}
+          onChange={(value) => asset.updateInput('accountType', value as InvestmentAccountType)}
+          options={ACCOUNT_TYPE_OPTIONS}
+          fieldName="accountType"
+          helpText={ACCOUNT_TYPE_HELP[accountType]}
+        />
+
+        {accountType === 'taxable' && (
+          <>
+            <ValidatedPercentageInput
+              label="Dividend Yield"
+              value={asset.inputs.dividendYield}
+              onChange={(value) => asset.updateInput('dividendYield', value)}
+              fieldName="dividendYield"
+              maxValue={20}
+              helpText={`Taxed each year: ${taxDragRate.toFixed(2)}% annual tax drag`}
+            />
+
+            <ValidatedPercentageInput
+              label="Capital Gains Tax Rate"
+              value={asset.inputs.capitalGainsTaxRate}
+              onChange={(value) => asset.updateInput('capitalGainsTaxRate', value)}
+              fieldName="capitalGainsTaxRate"
+              maxValue={60}
+              helpText="Applied to distributions and to gains above cost basis"
+            />
+          </>
+        )}
+
+        {accountType === 'traditional' && (
+          <>
+            <ValidatedPercentageInput
+              label="Withdrawal Tax Rate"
+              value={asset.inputs.withdrawalTaxRate}
+              onChange={(value) => asset.updateInput('withdrawalTaxRate', value)}
+              fieldName="withdrawalTaxRate"
+              maxValue={60}
+              helpText="Marginal income tax rate in retirement; withdrawals are grossed up to cover it"
+            />
+
+            <ValidatedSelectInput
+              label="Reinvest RMDs In"
+              value={asset.inputs.rmdReinvestmentId ?? ''}
+              onChange={(value) => asset.updateInput('rmdReinvestmentId', value || null)}
+              options={rmdReinvestmentOptions}
+              fieldName="rmdReinvestmentId"
+              helpText={asset.rmdStartYear !== null
+                ? `RMDs start in ${asset.rmdStartYear}; unspent amounts after tax can be reinvested`
+                : 'Set the owner birth year below to model required minimum distributions'}
+            />
+          </>
+        )}
+      </div>
+
+      {plan && (
+        <div className="mt-6">
+          <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
+            Contribution Limits
+            {firstYearLimit !== null && firstYearLimit !== undefined && (
+              <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">
+                ({asset.startingYear + 1} limit: ${firstYearLimit.toLocaleString()})
+              </span>
+            )}
+          </h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+            <ValidatedSelectInput
+              label="Plan Type"
+              value={plan}
+              onChange={(value) => asset.updateInput('retirementPlan', value as RetirementPlanType)}
+              options={RETIREMENT_PLAN_OPTIONS}
+              fieldName="retirementPlan"
+              helpText="Limits are indexed with inflation after the latest published year"
+            />
+
+            <ValidatedYearInput
+              label="Owner Birth Year"
+              value={asset.inputs.ownerBirthYear}
+              onChange={(value) => asset.updateInput('ownerBirthYear', value)}
+              fieldName="ownerBirthYear"
+              helpText="Allows catch-up contributions from age 50"
+            />
+
+            <ValidatedSelectInput
+              label="Excess Contributions Go To"
+              value={asset.inputs.overflowInvestmentId ?? ''}
+              onChange={(value) => asset.updateInput('overflowInvestmentId', value || null)}
+              options={overflowOptions}
+              fieldName="overflowInvestmentId"
+              helpText="A taxable investment that receives contributions above the limit"
+            />
+
+            {plan === '401k' && (
+              <>
+                <ValidatedCurrencyInput
+                  label="Salary"
+                  value={asset.inputs.salary}
+                  onChange={(value) => asset.updateInput('salary', value)}
+                  fieldName="salary"
+                  helpText="Used for the employer match; grows with inflation"
+                />
+
+                <ValidatedPercentageInput
+                  label="Employer Match"
+                  value={asset.inputs.employerMatchRate}
+                  onChange={(value) => asset.updateInput('employerMatchRate', value)}
+                  fieldName="employerMatchRate"
+                  maxValue={200}
+                  helpText="Share of your contributions the employer matches"
+                />
+
+                <ValidatedPercentageInput
+                  label="Match Cap (% of Salary)"
+                  value={asset.inputs.employerMatchCap}
+                  onChange={(value) => asset.updateInput('employerMatchCap', value)}
+                  fieldName="employerMatchCap"
+                  maxValue={100}
+                  helpText="Contributions above this share of salary are not matched"
+                />
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </CollapsibleSection>
+  );
+});
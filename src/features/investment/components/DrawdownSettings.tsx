@@ -0,0 +1,124 @@
+import { Investment } from '@/features/investment/stores/Investment';
+import { DrawdownCalculator, type DrawdownStrategy } from '@/features/investment/calculators/DrawdownCalculator';
+import { CollapsibleSection } from '@/features/shared/components/CollapsibleSection';
+import {
+  ValidatedCheckboxInput,
+  ValidatedCurrencyInput,
+  ValidatedPercentageInput,
+  ValidatedSelectInput,
+  ValidatedYearInput
+} from '@/features/shared/components/forms';
+import { LifeEventSelect } from '@/features/household/components/LifeEventSelect';
+import { observer } from 'mobx-react-lite';
+import React from 'react';
+
+interface DrawdownSettingsProps {
+  asset: Investment;
+}
+
+const STRATEGY_OPTIONS = (Object.keys(DrawdownCalculator.STRATEGY_LABELS) as DrawdownStrategy[])
+  .map(value => ({ value, label: DrawdownCalculator.STRATEGY_LABELS[value] }));
+
+const STRATEGY_HELP: Record<DrawdownStrategy, string> = {
+  fixedReal: 'Withdraw the same purchasing power every year',
+  fourPercent: 'Withdraw a share of the retirement balance, then raise it with inflation',
+  constantPercent: 'Withdraw a share of each year\'s balance; spending follows the market',
+  guardrails: 'Start like the 4% rule and cut or raise spending when the withdrawal rate drifts'
+};
+
+export const DrawdownSettings: React.FC<DrawdownSettingsProps> = observer(({ asset }) => {
+  const config = asset.inputs.drawdownConfig;
+
+  const icon = (
+    <svg className="w-6 h-6 text-primary-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 17h8m0 0V9m0 8l-8-8-4 4-6-6" />
+    </svg>
+  );
+
+  return (
+    <CollapsibleSection title="Retirement Drawdown" icon={icon} defaultExpanded={false}>
+      <div className="space-y-6">
+        <ValidatedCheckboxInput
+          label="Withdraw in retirement"
+          checked={config.enabled}
+          onChange={(checked) => asset.updateDrawdownConfig('enabled', checked)}
+          fieldName="drawdownEnabled"
+          helpText="From the retirement year on, contributions stop and withdrawals follow the chosen strategy."
+        />
+
+        {config.enabled && (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+            <LifeEventSelect
+              label="Retire At"
+              value={config.retirementEvent}
+              onChange={(value) => asset.updateDrawdownConfig('retirementEvent', value)}
+              fieldName="drawdownRetirementEvent"
+              noneLabel="A fixed year"
+              helpText="Or tie withdrawals to a household member's retirement"
+            />
+
+            {!config.retirementEvent && (
+              <ValidatedYearInput
+                label="Retirement Year"
+                value={config.retirementYear}
+                onChange={(value) => asset.updateDrawdownConfig('retirementYear', value)}
+                fieldName="drawdownRetirementYear"
+                required={true}
+                helpText="First year of withdrawals"
+              />
+            )}
+
+            <ValidatedSelectInput
+              label="Withdrawal Strategy"
+              value={config.strategy}
+              onChange={(value) => asset.updateDrawdownConfig('strategy', value as DrawdownStrategy)}
+              options={STRATEGY_OPTIONS}
+              fieldName="drawdownStrategy"
+              helpText={STRATEGY_HELP[config.strategy]}
+            />
+
+            {config.strategy === 'fixedReal' ? (
+              <ValidatedCurrencyInput
+                label="Annual Spending"
+                value={config.annualWithdrawal}
+                onChange={(value) => asset.updateDrawdownConfig('annualWithdrawal', value)}
+                fieldName="drawdownAnnualWithdrawal"
+                helpText={`In ${asset.startingYear} dollars, raised with inflation`}
+              />
+            ) : (
+              <ValidatedPercentageInput
+                label={config.strategy === 'constantPercent' ? 'Withdrawal Rate' : 'Initial Withdrawal Rate'}
+                value={config.withdrawalRate}
+                onChange={(value) => asset.updateDrawdownConfig('withdrawalRate', value)}
+                fieldName="drawdownWithdrawalRate"
+                maxValue={50}
+                helpText="Share of the balance withdrawn"
+                highValueWarning={{ threshold: 6, message: 'Withdrawal rates above 6% rarely last 30 years' }}
+              />
+            )}
+
+            {config.strategy === 'guardrails' && (
+              <>
+                <ValidatedPercentageInput
+                  label="Guardrail Band"
+                  value={config.guardrailBand}
+                  onChange={(value) => asset.updateDrawdownConfig('guardrailBand', value)}
+                  fieldName="drawdownGuardrailBand"
+                  helpText="Adjust when the withdrawal rate drifts this far from the initial rate"
+                />
+
+                <ValidatedPercentageInput
+                  label="Spending Adjustment"
+                  value={config.guardrailAdjustment}
+                  onChange={(value) => asset.updateDrawdownConfig('guardrailAdjustment', value)}
+                  fieldName="drawdownGuardrailAdjustment"
+                  helpText="Size of each spending cut or raise"
+                />
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </CollapsibleSection>
+  );
+});
@@ -1,6 +1,9 @@
+import { AccountTaxSettings } from '@/features/investment/components/AccountTaxSettings';
+import { DrawdownSettings } from '@/features/investment/components/DrawdownSettings';
 import { InvestmentInputForm } from '@/features/investment/components/InvestmentInputForm';
 import { InvestmentProjectionResults } from '@/features/investment/components/InvestmentProjectionResults';
 import { InvestmentSummary } from '@/features/investment/components/InvestmentSummary';
+import { MonteCarloSettings } from '@/features/investment/components/MonteCarloSettings';
 import { Investment } from '@/features/investment/stores/Investment';
 import { observer } from 'mobx-react-lite';
 import React from 'react';
@@ -40,8 +43,19 @@ export const InvestmentAnalysis: React.FC<InvestmentAnalysisProps> = observer(({
         </div>
       </div>
 
+      {asset.warnings.length > 0 && (
+        <div className="mb-6 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-700 rounded-lg text-sm text-yellow-800 dark:text-yellow-200 space-y-1">
+          {asset.warnings.map(warning => (
+            <p key={warning}>{warning}</p>
+          ))}
+        </div>
+      )}
+
       {asset.hasResults && <InvestmentSummary asset={asset} />}
       <InvestmentInputForm asset={asset} />
+      <AccountTaxSettings asset={asset} />
+      <DrawdownSettings asset={asset} />
+      <MonteCarloSettings asset={asset} />
       <InvestmentProjectionResults asset={asset} />
     </div>
   );
@@ -1,5 +1,6 @@
 import { usePortfolioStore } from '@/features/core/stores/hooks';
 import { Investment } from '@/features/investment/stores/Investment';
+import { LifeEventSelect } from '@/features/household/components/LifeEventSelect';
 import { CollapsibleSection } from '@/features/shared/components/CollapsibleSection';
 import { ValidatedCurrencyInput, ValidatedPercentageInput } from '@/features/shared/components/forms';
 import { createInvestmentValidationConfig } from '@/features/shared/validation';
@@ -100,6 +101,17 @@ export const InvestmentInputForm: React.FC<InvestmentInputFormProps> = observer(
               </div>
             </label>
           </div>
+
+          <div className="mt-3 space-y-3">
+            <LifeEventSelect
+              label="Stop Contributions At"
+              value={asset.inputs.contributionStopEvent}
+              onChange={(value) => asset.updateInput('contributionStopEvent', value)}
+              fieldName="contributionStopEvent"
+              noneLabel="Never (contribute every year)"
+              helpText="Stop contributing at a household member's retirement or age"
+            />
+          </div>
         </div>
       </div>
 
@@ -1,6 +1,6 @@
 import { observer } from 'mobx-react-lite';
 import React from 'react';
-import { Investment } from '@/features/investment/stores/Investment';
+import { Investment, type InvestmentResult } from '@/features/investment/stores/Investment';
 import { ProjectionChart } from '@/features/shared/components/ProjectionChart';
 import { ResultsTable } from '@/features/investment/components/ResultsTable';
 import { usePortfolioStore } from '@/features/core/stores/hooks';
@@ -24,9 +24,10 @@ export const InvestmentProjectionResults: React.FC<InvestmentProjectionResultsPr
       asset.inputs.annualContribution,
       asset.inputs.inflationRate,
       asset.inflationAdjustedContributions,
+      JSON.stringify(asset.inputs.monteCarloConfig),
       portfolioStore.years,
       portfolioStore.startingYear,
-      asset.linkedPropertyCashFlows.join(',') // Track changes in linked cash flows
+      asset.linkedCashFlows.join(',') // Track changes in linked cash flows
     ],
     150 // Minimum loading time for better UX
   );
@@ -37,6 +38,12 @@ export const InvestmentProjectionResults: React.FC<InvestmentProjectionResultsPr
 
   const results = computedResults || asset.results;
 
+  // Attach Monte Carlo percentile bands to the chart when the simulation is enabled
+  const monteCarloBands = asset.monteCarloResult?.bands;
+  const chartData = monteCarloBands
+    ? results.map((result: InvestmentResult, index: number) => ({ ...result, monteCarlo: monteCarloBands[index] }))
+    : results;
+
   return (
     <div className="space-y-6">
       <LoadingOverlay
@@ -44,9 +51,10 @@ export const InvestmentProjectionResults: React.FC<InvestmentProjectionResultsPr
         skeleton={<ChartSkeleton height="h-64" />}
       >
         <ProjectionChart 
-          data={results} 
+          data={chartData} 
           showNominal={portfolioStore.showNominal}
           showReal={portfolioStore.showReal}
+          getAgeLabel={(year) => portfolioStore.household.getAgeLabel(year)}
         />
       </LoadingOverlay>
       
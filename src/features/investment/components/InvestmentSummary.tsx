@@ -1,5 +1,7 @@
 import { observer } from 'mobx-react-lite';
 import React from 'react';
+import { AccountTaxCalculator } from '@/features/investment/calculators/AccountTaxCalculator';
+import { DrawdownCalculator } from '@/features/investment/calculators/DrawdownCalculator';
 import { Investment } from '@/features/investment/stores/Investment';
 import { usePortfolioStore } from '@/features/core/stores/hooks';
 import { CollapsibleSection } from '@/features/shared/components/CollapsibleSection';
@@ -33,6 +35,10 @@ export const InvestmentSummary: React.FC<InvestmentSummaryProps> = observer(({ a
     linkedProperties
   } = summary;
 
+  const drawdownParams = asset.drawdownParams;
+  const depletionYear = asset.depletionYear;
+  const totalDrawdown = asset.results.reduce((sum, result) => sum + result.drawdownWithdrawal, 0);
+
   const icon = (
     <svg className="w-6 h-6 text-primary-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
@@ -71,6 +77,10 @@ export const InvestmentSummary: React.FC<InvestmentSummaryProps> = observer(({ a
               </p>
             </>
           )}
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            After tax ({AccountTaxCalculator.ACCOUNT_TYPE_LABELS[asset.inputs.accountType ?? 'taxable']}):{' '}
+            <CurrencyDisplay amount={finalResult.afterTaxBalance} className="inline" />
+          </p>
         </div>
 
         {/* Initial Investment */}
@@ -229,6 +239,28 @@ export const InvestmentSummary: React.FC<InvestmentSummaryProps> = observer(({ a
         </div>
       </div>
 
+      {/* Retirement Drawdown Sustainability */}
+      {drawdownParams && (
+        <div className={`mt-6 p-4 rounded-lg border ${depletionYear !== null
+          ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-700'
+          : 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-700'}`}>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                Retirement Drawdown from {asset.retirementYearNumber}
+              </h3>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {DrawdownCalculator.STRATEGY_LABELS[drawdownParams.strategy]} • Withdrawn through {finalResult.actualYear}:{' '}
+                <CurrencyDisplay amount={Math.round(totalDrawdown)} className="inline" />
+              </p>
+            </div>
+            <p className={`text-lg font-bold ${depletionYear !== null ? 'text-red-700 dark:text-red-300' : 'text-green-700 dark:text-green-300'}`}>
+              {depletionYear !== null ? `Money runs out in ${depletionYear}` : `Lasts through ${finalResult.actualYear}`}
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Linked Properties Section */}
       {linkedProperties.length > 0 && (
         <div className="mt-6 p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-700">
@@ -0,0 +1,128 @@
+import { Investment } from '@/features/investment/stores/Investment';
+import { MonteCarloCalculator, type MonteCarloReturnModel } from '@/features/investment/calculators/MonteCarloCalculator';
+import { CollapsibleSection } from '@/features/shared/components/CollapsibleSection';
+import { CurrencyDisplay } from '@/features/shared/components/CurrencyDisplay';
+import {
+  ValidatedCheckboxInput,
+  ValidatedCurrencyInput,
+  ValidatedNumberInput,
+  ValidatedPercentageInput,
+  ValidatedSelectInput
+} from '@/features/shared/components/forms';
+import { observer } from 'mobx-react-lite';
+import React from 'react';
+
+interface MonteCarloSettingsProps {
+  asset: Investment;
+}
+
+const RETURN_MODEL_OPTIONS = [
+  { value: 'normal', label: 'Expected return + volatility' },
+  { value: 'historical', label: 'Historical S&P 500 returns (bootstrap)' }
+];
+
+export const MonteCarloSettings: React.FC<MonteCarloSettingsProps> = observer(({ asset }) => {
+  const config = asset.inputs.monteCarloConfig;
+  const result = asset.monteCarloResult;
+  const finalBand = result?.bands[result.bands.length - 1];
+
+  const icon = (
+    <svg className="w-6 h-6 text-primary-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+    </svg>
+  );
+
+  return (
+    <CollapsibleSection title="Monte Carlo Simulation" icon={icon} defaultExpanded={false}>
+      <div className="space-y-6">
+        <ValidatedCheckboxInput
+          label="Simulate variable returns"
+          checked={config.enabled}
+          onChange={(checked) => asset.updateMonteCarloConfig('enabled', checked)}
+          fieldName="monteCarloEnabled"
+          helpText="Run many randomized trials and show percentile bands instead of a single fixed-rate projection."
+        />
+
+        {config.enabled && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+              <ValidatedSelectInput
+                label="Return Model"
+                value={config.returnModel}
+                onChange={(value) => asset.updateMonteCarloConfig('returnModel', value as MonteCarloReturnModel)}
+                options={RETURN_MODEL_OPTIONS}
+                fieldName="monteCarloReturnModel"
+                helpText="Historical mode samples actual annual returns since 1928"
+              />
+
+              {config.returnModel === 'normal' && (
+                <ValidatedPercentageInput
+                  label="Volatility (Std. Deviation)"
+                  value={config.volatility}
+                  onChange={(value) => asset.updateMonteCarloConfig('volatility', value)}
+                  fieldName="monteCarloVolatility"
+                  maxValue={100}
+                  helpText={`Spread around the ${asset.inputs.rateOfReturn || 0}% expected return`}
+                  highValueWarning={{ threshold: 30, message: 'Volatility above 30% is extreme' }}
+                />
+              )}
+
+              <ValidatedNumberInput
+                label="Trials"
+                value={config.trials}
+                onChange={(value) => asset.updateMonteCarloConfig('trials', value)}
+                fieldName="monteCarloTrials"
+                integerOnly={true}
+                minValue={1}
+                maxValue={MonteCarloCalculator.MAX_TRIALS}
+                helpText="More trials give smoother bands"
+              />
+
+              <ValidatedNumberInput
+                label="Random Seed"
+                value={config.seed}
+                onChange={(value) => asset.updateMonteCarloConfig('seed', value)}
+                fieldName="monteCarloSeed"
+                integerOnly={true}
+                helpText="Same seed always reproduces the same trials. Leave blank for a seed of this investment's own; investments sharing a seed rise and fall together"
+              />
+
+              <ValidatedCurrencyInput
+                label="Target Balance"
+                value={config.targetBalance}
+                onChange={(value) => asset.updateMonteCarloConfig('targetBalance', value)}
+                fieldName="monteCarloTargetBalance"
+                helpText="Ending balance used for the probability of success"
+              />
+            </div>
+
+            {result && finalBand && (
+              <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">10th Percentile</p>
+                  <CurrencyDisplay amount={finalBand.p10} className="text-lg font-semibold text-gray-900 dark:text-white" />
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">Median</p>
+                  <CurrencyDisplay amount={finalBand.p50} className="text-lg font-semibold text-gray-900 dark:text-white" />
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">90th Percentile</p>
+                  <CurrencyDisplay amount={finalBand.p90} className="text-lg font-semibold text-gray-900 dark:text-white" />
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">Chance of Reaching Target</p>
+                  <p className="text-lg font-semibold text-gray-900 dark:text-white">
+                    {result.probabilityOfSuccess !== null
+                      ? MonteCarloCalculator.formatProbability(result.probabilityOfSuccess)
+                      : '—'}
+                  </p>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </CollapsibleSection>
+  );
+});
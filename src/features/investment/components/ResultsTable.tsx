@@ -4,12 +4,15 @@ import type { InvestmentResult } from '@/features/investment/stores/Investment';
 import { FinancialTable } from '@/features/shared/components/tables';
 import { type ColumnDefinition, type DualValueColumn } from '@/features/shared/components/tables/types';
 import { formatCurrency } from '@/features/shared/utils/formatCurrency';
+import { usePortfolioStore } from '@/features/core/stores/hooks';
 
 interface ResultsTableProps {
   results: InvestmentResult[];
 }
 
 export const ResultsTable: React.FC<ResultsTableProps> = observer(({ results }) => {
+  const { household } = usePortfolioStore();
+
   // Define base columns
   const columns: ColumnDefinition[] = [
     {
@@ -22,6 +25,16 @@ export const ResultsTable: React.FC<ResultsTableProps> = observer(({ results })
     }
   ];
 
+  if (household.hasAges) {
+    columns.push({
+      key: 'age',
+      label: household.ageLabelHeading,
+      type: 'text',
+      alignment: 'left',
+      formatter: (_value, row) => household.getAgeLabel(row.actualYear)
+    });
+  }
+
   // Define dual-value columns
   const dualValueColumns: DualValueColumn[] = [
     {
@@ -32,6 +45,14 @@ export const ResultsTable: React.FC<ResultsTableProps> = observer(({ results })
       type: 'currency',
       alignment: 'right'
     },
+    {
+      key: 'afterTaxBalance',
+      label: 'After-Tax Value',
+      nominalKey: 'afterTaxBalance',
+      realKey: 'realAfterTaxBalance',
+      type: 'currency',
+      alignment: 'right'
+    },
     {
       key: 'directContribution',
       label: 'Direct Contribution',
@@ -77,6 +98,80 @@ export const ResultsTable: React.FC<ResultsTableProps> = observer(({ results })
     }
   ];
 
+  if (results.some(result => result.employerMatch > 0)) {
+    columns.push({
+      key: 'employerMatch',
+      label: 'Employer Match',
+      type: 'currency',
+      alignment: 'right'
+    });
+  }
+
+  if (results.some(result => result.excessContribution > 0 || result.overflowContribution > 0)) {
+    columns.push({
+      key: 'excessContribution',
+      label: 'Over Limit',
+      type: 'currency',
+      alignment: 'right',
+      colorize: (value) => value > 0 ? 'text-yellow-600 dark:text-yellow-400' : ''
+    }, {
+      key: 'overflowContribution',
+      label: 'Overflow Received',
+      type: 'currency',
+      alignment: 'right'
+    });
+  }
+
+  // Linked budget and debt cash flows follow the property cash flow column
+  if (results.some(result => result.debtCashFlow !== 0)) {
+    dualValueColumns.splice(4, 0, {
+      key: 'debtCashFlow',
+      label: 'Debt Payments',
+      nominalKey: 'debtCashFlow',
+      realKey: 'realDebtCashFlow',
+      type: 'currency',
+      alignment: 'right',
+      formatter: (value) => formatCurrency(value),
+      colorize: (value) => value < 0 ? 'text-red-600 dark:text-red-400' : ''
+    });
+  }
+
+  if (results.some(result => result.budgetCashFlow !== 0)) {
+    dualValueColumns.splice(4, 0, {
+      key: 'budgetCashFlow',
+      label: 'Budget Cash Flow',
+      nominalKey: 'budgetCashFlow',
+      realKey: 'realBudgetCashFlow',
+      type: 'currency',
+      alignment: 'right',
+      formatter: (value) => formatCurrency(value, { showPositiveSign: true }),
+      colorize: (value) => value >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+    });
+  }
+
+  if (results.some(result => result.requiredMinimumDistribution > 0)) {
+    dualValueColumns.push({
+      key: 'requiredMinimumDistribution',
+      label: 'RMD',
+      nominalKey: 'requiredMinimumDistribution',
+      realKey: 'realRequiredMinimumDistribution',
+      type: 'currency',
+      alignment: 'right'
+    });
+  }
+
+  if (results.some(result => result.drawdownWithdrawal > 0 || result.drawdownShortfall > 0)) {
+    dualValueColumns.push({
+      key: 'drawdownWithdrawal',
+      label: 'Retirement Withdrawal',
+      nominalKey: 'drawdownWithdrawal',
+      realKey: 'realDrawdownWithdrawal',
+      type: 'currency',
+      alignment: 'right',
+      colorize: (_value, row) => row.drawdownShortfall > 0 ? 'text-red-600 dark:text-red-400' : ''
+    });
+  }
+
   const icon = (
     <svg className="w-6 h-6 text-primary-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
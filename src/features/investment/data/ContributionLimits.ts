@@ -0,0 +1,51 @@
+/**
+ * Retirement Account Contribution Limits
+ *
+ * Published IRS limits on employee contributions, keyed by tax year.
+ * Years after the latest published table are projected by indexing the
+ * limits with CPI, rounded down the way the IRS rounds them.
+ *
+ * Sources:
+ * - IRS Notice 2023-75 (2024), Notice 2024-80 (2025), Notice 2025-67 (2026)
+ */
+
+export type RetirementPlanType = '401k' | 'ira';
+
+export interface PublishedContributionLimits {
+  /** Elective deferral (401k) or contribution (IRA) limit */
+  baseLimit: number;
+  /** Additional amount allowed from the year the owner turns 50 */
+  catchUp: number;
+  /** Higher catch-up for ages 60-63 (SECURE 2.0, 401k plans from 2025) */
+  ageSixtyCatchUp?: number;
+}
+
+/** Rounding increment used when indexing each limit */
+export const LIMIT_ROUNDING: Record<RetirementPlanType, { baseLimit: number; catchUp: number }> = {
+  '401k': { baseLimit: 500, catchUp: 500 },
+  ira: { baseLimit: 500, catchUp: 100 },
+};
+
+export const CATCH_UP_AGE = 50;
+export const AGE_SIXTY_CATCH_UP_AGES = { min: 60, max: 63 };
+
+export const CONTRIBUTION_LIMITS: Record<number, Record<RetirementPlanType, PublishedContributionLimits>> = {
+  2024: {
+    '401k': { baseLimit: 23000, catchUp: 7500 },
+    ira: { baseLimit: 7000, catchUp: 1000 },
+  },
+  2025: {
+    '401k': { baseLimit: 23500, catchUp: 7500, ageSixtyCatchUp: 11250 },
+    ira: { baseLimit: 7000, catchUp: 1000 },
+  },
+  2026: {
+    '401k': { baseLimit: 24500, catchUp: 8000, ageSixtyCatchUp: 11250 },
+    ira: { baseLimit: 7500, catchUp: 1100 },
+  },
+};
+
+const PUBLISHED_YEARS = Object.keys(CONTRIBUTION_LIMITS).map(Number).sort((a, b) => a - b);
+
+export const EARLIEST_LIMIT_YEAR = PUBLISHED_YEARS[0];
+/** Latest tax year with published limits; later years are projected */
+export const LATEST_LIMIT_YEAR = PUBLISHED_YEARS[PUBLISHED_YEARS.length - 1];
@@ -0,0 +1,120 @@
+import { Investment } from '@/features/investment/stores/Investment';
+import { RootStore } from '@/features/core/stores/RootStore';
+
+describe('Investment - Account Types', () => {
+  const createInvestment = (inputs: Partial<Investment['inputs']> = {}) => {
+    const investment = new Investment('Account', {
+      initialAmount: '100000',
+      rateOfReturn: '7',
+      inflationRate: '0',
+      annualContribution: '0',
+      ...inputs
+    });
+    investment.portfolioStore = { years: '10' };
+    return investment;
+  };
+
+  it('should default to a taxable account without tax drag', () => {
+    const investment = createInvestment();
+
+    expect(investment.inputs.accountType).toBe('taxable');
+    expect(investment.finalResult.balance).toBeCloseTo(100000 * Math.pow(1.07, 10), 2);
+  });
+
+  it('should reduce taxable growth by the tax on distributions', () => {
+    const investment = createInvestment({ dividendYield: '2', capitalGainsTaxRate: '15' });
+
+    // 7% return less 0.3% of drag (2% yield taxed at 15%)
+    expect(investment.finalResult.balance).toBeCloseTo(100000 * Math.pow(1.067, 10), 2);
+    expect(investment.results[1].distributionTax).toBe(300);
+    // Reinvested after-tax distributions add to the basis
+    expect(investment.results[1].costBasis).toBe(101700);
+  });
+
+  it('should tax unrealized gains above cost basis on liquidation', () => {
+    const investment = createInvestment({ annualContribution: '5000' });
+    const final = investment.finalResult;
+
+    expect(final.costBasis).toBe(150000);
+    expect(final.afterTaxBalance).toBeCloseTo(final.balance - (final.balance - 150000) * 0.15, 1);
+  });
+
+  it('should reduce the cost basis in proportion to withdrawals', () => {
+    const investment = createInvestment({ rateOfReturn: '0', annualContribution: '0' });
+    investment.portfolioStore = { years: '2', getLinkedPropertyCashFlows: () => [-25000, 0] };
+
+    expect(investment.results[1].balance).toBe(75000);
+    expect(investment.results[1].costBasis).toBe(75000);
+  });
+
+  it('should defer tax on a Traditional account until withdrawal', () => {
+    const investment = createInvestment({ accountType: 'traditional', withdrawalTaxRate: '25', dividendYield: '2' });
+    const final = investment.finalResult;
+
+    expect(final.balance).toBeCloseTo(100000 * Math.pow(1.07, 10), 2);
+    expect(final.distributionTax).toBe(0);
+    expect(final.afterTaxBalance).toBeCloseTo(final.balance * 0.75, 1);
+  });
+
+  it('should gross up Traditional withdrawals to cover the tax', () => {
+    const investment = createInvestment({ accountType: 'traditional', withdrawalTaxRate: '25', rateOfReturn: '0' });
+    investment.portfolioStore = { years: '1', getLinkedPropertyCashFlows: () => [-15000] };
+
+    expect(investment.results[1].withdrawalTax).toBe(5000);
+    expect(investment.results[1].balance).toBe(80000);
+  });
+
+  it('should treat Roth and HSA balances as tax-free', () => {
+    for (const accountType of ['roth', 'hsa'] as const) {
+      const investment = createInvestment({ accountType, dividendYield: '2' });
+      const final = investment.finalResult;
+
+      expect(final.balance).toBeCloseTo(100000 * Math.pow(1.07, 10), 2);
+      expect(final.afterTaxBalance).toBe(final.balance);
+    }
+  });
+
+  it('should apply the tax drag to Monte Carlo trials', () => {
+    const investment = createInvestment({ dividendYield: '2' });
+    investment.updateMonteCarloConfig('enabled', true);
+    investment.updateMonteCarloConfig('volatility', '0');
+    investment.updateMonteCarloConfig('trials', '5');
+
+    const bands = investment.monteCarloResult!.bands;
+    expect(bands[bands.length - 1].p50).toBeCloseTo(investment.finalResult.balance, 0);
+  });
+
+  it('should default the account settings for older saves', () => {
+    const saved = createInvestment().toJSON();
+    const legacyInputs: Partial<Investment['inputs']> = { ...saved.inputs };
+    delete legacyInputs.accountType;
+    delete legacyInputs.dividendYield;
+
+    const restored = Investment.fromJSON({ ...saved, inputs: legacyInputs as Investment['inputs'] });
+    expect(restored.inputs.accountType).toBe('taxable');
+    expect(restored.inputs.dividendYield).toBe('0');
+  });
+
+  describe('portfolio after-tax value', () => {
+    it('should report the after-tax liquidation value next to the nominal total', () => {
+      const rootStore = new RootStore();
+      const portfolioStore = rootStore.portfolioStore;
+      portfolioStore.assets.clear();
+      portfolioStore.setYears('10');
+
+      const rothId = portfolioStore.addInvestment('Roth', { initialAmount: '100000', annualContribution: '0', accountType: 'roth' });
+      const traditionalId = portfolioStore.addInvestment('401k', {
+        initialAmount: '100000',
+        annualContribution: '0',
+        accountType: 'traditional',
+        withdrawalTaxRate: '20'
+      });
+      const roth = portfolioStore.assets.get(rothId) as Investment;
+      const traditional = portfolioStore.assets.get(traditionalId) as Investment;
+
+      const final = portfolioStore.combinedResults[10];
+      expect(final.totalBalance).toBeCloseTo(roth.finalResult.balance + traditional.finalResult.balance, 1);
+      expect(final.totalAfterTaxBalance).toBeCloseTo(roth.finalResult.balance + traditional.finalResult.balance * 0.8, 1);
+    });
+  });
+});
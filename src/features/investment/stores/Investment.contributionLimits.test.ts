@@ -0,0 +1,151 @@
+import { Investment } from '@/features/investment/stores/Investment';
+import { RootStore } from '@/features/core/stores/RootStore';
+import type { PortfolioStore } from '@/features/portfolio/stores/PortfolioStore';
+
+describe('Investment - Contribution Limits', () => {
+  const createInvestment = (inputs: Partial<Investment['inputs']> = {}) => {
+    const investment = new Investment('401k', {
+      initialAmount: '0',
+      rateOfReturn: '0',
+      inflationRate: '0',
+      annualContribution: '30000',
+      accountType: 'traditional',
+      ...inputs
+    });
+    investment.portfolioStore = { years: '5', startingYear: '2024' };
+    return investment;
+  };
+
+  it('should not limit taxable accounts', () => {
+    const investment = createInvestment({ accountType: 'taxable' });
+
+    expect(investment.results[1].annualContribution).toBe(30000);
+    expect(investment.warnings).toEqual([]);
+  });
+
+  it('should cap 401k contributions at the annual limit', () => {
+    const investment = createInvestment();
+
+    // 2025 limit
+    expect(investment.results[1].annualContribution).toBe(23500);
+    expect(investment.results[1].excessContribution).toBe(6500);
+    expect(investment.finalResult.balance).toBe(23500 + 24500 * 4);
+  });
+
+  it('should allow catch-up contributions from age 50', () => {
+    const investment = createInvestment({ ownerBirthYear: '1976' });
+
+    // Turns 49 in 2025, 50 in 2026
+    expect(investment.results[1].annualContribution).toBe(23500);
+    expect(investment.results[2].annualContribution).toBe(30000);
+    expect(investment.results[2].excessContribution).toBe(0);
+  });
+
+  it('should use the IRA limit for IRA plans', () => {
+    const investment = createInvestment({ accountType: 'roth', retirementPlan: 'ira', annualContribution: '10000' });
+
+    expect(investment.results[1].annualContribution).toBe(7000);
+    expect(investment.results[2].annualContribution).toBe(7500);
+  });
+
+  it('should index limits past the latest published year', () => {
+    const investment = createInvestment({ inflationRate: '3', annualContribution: '40000' });
+    investment.portfolioStore = { years: '10', startingYear: '2024' };
+
+    const limits = investment.contributionSchedule.map(year => year.contributionLimit!);
+    expect(limits[1]).toBe(24500);
+    expect(limits[9]).toBeGreaterThan(24500);
+    limits.slice(1).forEach((limit, index) => expect(limit).toBeGreaterThanOrEqual(limits[index]));
+  });
+
+  it('should add an employer match capped at a share of salary', () => {
+    const investment = createInvestment({
+      annualContribution: '10000',
+      salary: '100000',
+      employerMatchRate: '50',
+      employerMatchCap: '6'
+    });
+
+    expect(investment.results[1].employerMatch).toBe(3000);
+    expect(investment.results[1].balance).toBe(13000);
+  });
+
+  it('should not add an employer match to IRA plans', () => {
+    const investment = createInvestment({
+      retirementPlan: 'ira',
+      annualContribution: '5000',
+      salary: '100000',
+      employerMatchRate: '100',
+      employerMatchCap: '6'
+    });
+
+    expect(investment.results[1].employerMatch).toBe(0);
+  });
+
+  it('should flag contributions above the limit in warnings', () => {
+    const investment = createInvestment();
+
+    expect(investment.warnings).toContain(
+      'Contributions exceed the 401k limit in 5 years starting 2025; the excess ($28,500) is not invested'
+    );
+  });
+
+  describe('overflow to a taxable investment', () => {
+    let portfolioStore: PortfolioStore;
+
+    beforeEach(() => {
+      const rootStore = new RootStore();
+      portfolioStore = rootStore.portfolioStore;
+      portfolioStore.assets.clear();
+      portfolioStore.setYears('5');
+      portfolioStore.setStartingYear('2024');
+    });
+
+    const addInvestments = (targetInputs: Partial<Investment['inputs']> = {}) => {
+      const targetId = portfolioStore.addInvestment('Brokerage', {
+        initialAmount: '0',
+        annualContribution: '0',
+        rateOfReturn: '0',
+        inflationRate: '0',
+        ...targetInputs
+      });
+      const sourceId = portfolioStore.addInvestment('401k', {
+        initialAmount: '0',
+        annualContribution: '30000',
+        rateOfReturn: '0',
+        inflationRate: '0',
+        accountType: 'traditional',
+        overflowInvestmentId: targetId
+      });
+
+      return {
+        target: portfolioStore.assets.get(targetId) as Investment,
+        source: portfolioStore.assets.get(sourceId) as Investment
+      };
+    };
+
+    it('should route the excess to the designated investment', () => {
+      const { source, target } = addInvestments();
+
+      expect(target.results[1].overflowContribution).toBe(6500);
+      expect(target.finalResult.balance).toBe(6500 + 5500 * 4);
+      expect(source.warnings[0]).toContain('is routed to Brokerage');
+      expect(portfolioStore.combinedResults[5].totalBalance).toBe(150000);
+    });
+
+    it('should not route to a retirement account', () => {
+      const { source, target } = addInvestments({ accountType: 'roth' });
+
+      expect(source.overflowTarget).toBeNull();
+      expect(target.results[1].overflowContribution).toBe(0);
+    });
+
+    it('should not route to a disabled investment', () => {
+      const { source, target } = addInvestments();
+      target.setEnabled(false);
+
+      expect(source.overflowTarget).toBeNull();
+      expect(source.warnings[0]).toContain('is not invested');
+    });
+  });
+});
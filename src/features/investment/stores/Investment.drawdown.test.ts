@@ -0,0 +1,135 @@
+import { Investment } from '@/features/investment/stores/Investment';
+import { RootStore } from '@/features/core/stores/RootStore';
+
+describe('Investment - Retirement Drawdown', () => {
+  const createInvestment = (inputs: Partial<Investment['inputs']> = {}) => {
+    const investment = new Investment('Retirement', {
+      initialAmount: '1000000',
+      rateOfReturn: '5',
+      inflationRate: '0',
+      annualContribution: '10000',
+      ...inputs
+    });
+    investment.portfolioStore = { years: '30', startingYear: '2024' };
+    investment.updateDrawdownConfig('enabled', true);
+    investment.updateDrawdownConfig('retirementYear', '2030');
+    return investment;
+  };
+
+  it('should be disabled by default', () => {
+    const investment = new Investment('Default');
+
+    expect(investment.inputs.drawdownConfig.enabled).toBe(false);
+    expect(investment.drawdownParams).toBeNull();
+    expect(investment.depletionYear).toBeNull();
+  });
+
+  it('should stop contributions and start withdrawals in the retirement year', () => {
+    const investment = createInvestment();
+    const results = investment.results;
+
+    // 2029 is year 5, 2030 is year 6
+    expect(results[5].annualContribution).toBe(10000);
+    expect(results[5].drawdownWithdrawal).toBe(0);
+    expect(results[6].annualContribution).toBe(0);
+    expect(results[6].drawdownWithdrawal).toBeCloseTo(results[5].balance * 0.04, 1);
+  });
+
+  it('should report the year the money runs out', () => {
+    const investment = createInvestment({ initialAmount: '100000', annualContribution: '0', rateOfReturn: '0' });
+    investment.updateDrawdownConfig('strategy', 'fixedReal');
+    investment.updateDrawdownConfig('annualWithdrawal', '30000');
+
+    // 2030, 2031, 2032 are funded; 2033 only gets the last $10k
+    expect(investment.depletionYear).toBe(2033);
+    const depleted = investment.results.find(result => result.actualYear === 2033)!;
+    expect(depleted.drawdownWithdrawal).toBe(10000);
+    expect(depleted.drawdownShortfall).toBe(20000);
+    expect(depleted.balance).toBe(0);
+    expect(investment.warnings).toContain('Retirement withdrawals deplete the investment in 2033');
+  });
+
+  it('should last through the projection with a constant percentage', () => {
+    const investment = createInvestment();
+    investment.updateDrawdownConfig('strategy', 'constantPercent');
+    investment.updateDrawdownConfig('withdrawalRate', '10');
+
+    expect(investment.depletionYear).toBeNull();
+    expect(investment.finalResult.balance).toBeGreaterThan(0);
+  });
+
+  it('should gross up Traditional withdrawals for tax', () => {
+    const investment = createInvestment({
+      initialAmount: '100000',
+      annualContribution: '0',
+      rateOfReturn: '0',
+      accountType: 'traditional',
+      withdrawalTaxRate: '20'
+    });
+    investment.updateDrawdownConfig('strategy', 'fixedReal');
+    investment.updateDrawdownConfig('annualWithdrawal', '20000');
+
+    const firstYear = investment.results.find(result => result.actualYear === 2030)!;
+    expect(firstYear.drawdownWithdrawal).toBe(20000);
+    expect(firstYear.withdrawalTax).toBe(5000);
+    expect(firstYear.balance).toBe(75000);
+  });
+
+  it('should apply the drawdown to Monte Carlo trials', () => {
+    const investment = createInvestment({ initialAmount: '100000', annualContribution: '0' });
+    investment.updateDrawdownConfig('strategy', 'fixedReal');
+    investment.updateDrawdownConfig('annualWithdrawal', '30000');
+    investment.updateMonteCarloConfig('enabled', true);
+    investment.updateMonteCarloConfig('volatility', '0');
+    investment.updateMonteCarloConfig('trials', '5');
+
+    const bands = investment.monteCarloResult!.bands;
+    investment.results.forEach((result, index) => {
+      expect(bands[index].p50).toBeCloseTo(result.balance, 0);
+    });
+  });
+
+  it('should keep drawdown defaults for older saves', () => {
+    const saved = new Investment('Old').toJSON();
+    const legacyInputs: Partial<Investment['inputs']> = { ...saved.inputs };
+    delete legacyInputs.drawdownConfig;
+
+    const restored = Investment.fromJSON({ ...saved, inputs: legacyInputs as Investment['inputs'] });
+    expect(restored.inputs.drawdownConfig.strategy).toBe('fourPercent');
+    expect(restored.inputs.drawdownConfig.enabled).toBe(false);
+  });
+
+  describe('portfolio sustainability', () => {
+    it('should report the earliest depletion year across investments', () => {
+      const rootStore = new RootStore();
+      const portfolioStore = rootStore.portfolioStore;
+      portfolioStore.assets.clear();
+      portfolioStore.setYears('20');
+      portfolioStore.setStartingYear('2024');
+
+      const baseInputs = { annualContribution: '0', rateOfReturn: '0', inflationRate: '0' };
+      const smallId = portfolioStore.addInvestment('Small', { ...baseInputs, initialAmount: '50000' });
+      const largeId = portfolioStore.addInvestment('Large', { ...baseInputs, initialAmount: '500000' });
+      for (const id of [smallId, largeId]) {
+        const investment = portfolioStore.assets.get(id) as Investment;
+        investment.updateDrawdownConfig('enabled', true);
+        investment.updateDrawdownConfig('retirementYear', '2026');
+        investment.updateDrawdownConfig('strategy', 'fixedReal');
+        investment.updateDrawdownConfig('annualWithdrawal', '20000');
+      }
+
+      const sustainability = portfolioStore.drawdownSustainability!;
+      expect(sustainability.investments.map(investment => investment.depletionYear)).toEqual([2028, null]);
+      expect(sustainability.depletionYear).toBe(2028);
+      expect(portfolioStore.combinedResults[2].totalDrawdownWithdrawal).toBe(40000);
+    });
+
+    it('should be null without a drawdown', () => {
+      const rootStore = new RootStore();
+      rootStore.portfolioStore.assets.clear();
+      rootStore.portfolioStore.addInvestment('Saver');
+
+      expect(rootStore.portfolioStore.drawdownSustainability).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { Investment } from '@/features/investment/stores/Investment';
+
+describe('Investment - Monte Carlo simulation', () => {
+  const createInvestment = () => {
+    const investment = new Investment('Simulated', {
+      initialAmount: '100000',
+      rateOfReturn: '7',
+      inflationRate: '2.5',
+      annualContribution: '5000'
+    });
+    investment.portfolioStore = { years: '20' };
+    return investment;
+  };
+
+  it('should be disabled by default', () => {
+    const investment = createInvestment();
+    expect(investment.inputs.monteCarloConfig.enabled).toBe(false);
+    expect(investment.monteCarloResult).toBeNull();
+  });
+
+  it('should match the deterministic projection when volatility is zero', () => {
+    const investment = createInvestment();
+    investment.updateMonteCarloConfig('enabled', true);
+    investment.updateMonteCarloConfig('volatility', '0');
+    investment.updateMonteCarloConfig('trials', '10');
+
+    const result = investment.monteCarloResult!;
+    investment.results.forEach((projection, year) => {
+      expect(result.bands[year].p50).toBeCloseTo(projection.balance, 0);
+      expect(result.bands[year].realP50).toBeCloseTo(projection.realBalance, 0);
+    });
+  });
+
+  it('should apply inflation-adjusted contributions in each trial', () => {
+    const investment = createInvestment();
+    investment.setInflationAdjustedContributions(true);
+    investment.updateMonteCarloConfig('enabled', true);
+    investment.updateMonteCarloConfig('volatility', '0');
+    investment.updateMonteCarloConfig('trials', '5');
+
+    const finalYear = investment.results.length - 1;
+    expect(investment.monteCarloResult!.bands[finalYear].p50).toBeCloseTo(investment.finalResult!.balance, 0);
+  });
+
+  it('should include linked property cash flows in each trial', () => {
+    const investment = createInvestment();
+    investment.portfolioStore = {
+      years: '3',
+      getLinkedPropertyCashFlows: () => [-10000, -10000, -10000]
+    };
+    investment.updateMonteCarloConfig('enabled', true);
+    investment.updateMonteCarloConfig('volatility', '0');
+    investment.updateMonteCarloConfig('trials', '5');
+
+    expect(investment.monteCarloResult!.bands[3].p50).toBeCloseTo(investment.results[3].balance, 0);
+  });
+
+  it('should widen bands with volatility and report a target probability', () => {
+    const investment = createInvestment();
+    investment.updateMonteCarloConfig('enabled', true);
+    investment.updateMonteCarloConfig('targetBalance', String(investment.finalResult!.balance));
+
+    const result = investment.monteCarloResult!;
+    const finalBand = result.bands[result.bands.length - 1];
+    expect(finalBand.p90).toBeGreaterThan(finalBand.p50);
+    expect(finalBand.p10).toBeLessThan(finalBand.p50);
+    expect(result.probabilityOfSuccess).toBeGreaterThan(0);
+    expect(result.probabilityOfSuccess).toBeLessThan(1);
+  });
+
+  it('should support the historical bootstrap model', () => {
+    const investment = createInvestment();
+    investment.updateMonteCarloConfig('enabled', true);
+    investment.updateMonteCarloConfig('returnModel', 'historical');
+
+    const result = investment.monteCarloResult!;
+    expect(result.bands).toHaveLength(21);
+    expect(result.bands[20].p90).toBeGreaterThan(result.bands[20].p10);
+  });
+
+  it('should serialize Monte Carlo settings and restore defaults for older data', () => {
+    const investment = createInvestment();
+    investment.updateMonteCarloConfig('enabled', true);
+    investment.updateMonteCarloConfig('seed', '7');
+
+    const restored = Investment.fromJSON(investment.toJSON());
+    expect(restored.inputs.monteCarloConfig.enabled).toBe(true);
+    expect(restored.inputs.monteCarloConfig.seed).toBe('7');
+
+    const legacy = investment.toJSON();
+    const legacyInputs: Record<string, unknown> = { ...legacy.inputs };
+    delete legacyInputs.monteCarloConfig;
+    const migrated = Investment.fromJSON({ ...legacy, inputs: legacyInputs as unknown as typeof legacy.inputs });
+    expect(migrated.inputs.monteCarloConfig.enabled).toBe(false);
+    expect(migrated.inputs.monteCarloConfig.trials).toBe('500');
+  });
+});
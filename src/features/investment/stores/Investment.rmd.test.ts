@@ -0,0 +1,114 @@
+import { Investment } from '@/features/investment/stores/Investment';
+import { RootStore } from '@/features/core/stores/RootStore';
+
+describe('Investment - Required Minimum Distributions', () => {
+  // Born 1955: RMDs start at 73 in 2028, which is year 4 from 2024
+  const createInvestment = (inputs: Partial<Investment['inputs']> = {}) => {
+    const investment = new Investment('IRA', {
+      initialAmount: '530000',
+      rateOfReturn: '0',
+      inflationRate: '0',
+      annualContribution: '0',
+      accountType: 'traditional',
+      withdrawalTaxRate: '20',
+      ownerBirthYear: '1955',
+      ...inputs
+    });
+    investment.portfolioStore = { years: '10', startingYear: '2024' };
+    return investment;
+  };
+
+  it('should start RMDs in the statutory year', () => {
+    const investment = createInvestment();
+
+    expect(investment.rmdStartYear).toBe(2028);
+    expect(investment.results[3].requiredMinimumDistribution).toBe(0);
+    expect(investment.results[4].requiredMinimumDistribution).toBe(20000);
+  });
+
+  it('should force the RMD out of the balance and tax it', () => {
+    const investment = createInvestment();
+    const firstRmd = investment.results[4];
+
+    expect(firstRmd.rmdWithdrawal).toBe(20000);
+    expect(firstRmd.withdrawalTax).toBe(4000);
+    expect(firstRmd.balance).toBe(510000);
+    // Next RMD uses the new year-end balance and a shorter period (age 74)
+    expect(investment.results[5].requiredMinimumDistribution).toBeCloseTo(510000 / 25.5, 2);
+  });
+
+  it('should not force more out when retirement withdrawals already cover the RMD', () => {
+    const investment = createInvestment();
+    investment.updateDrawdownConfig('enabled', true);
+    investment.updateDrawdownConfig('retirementYear', '2025');
+    investment.updateDrawdownConfig('strategy', 'fixedReal');
+    investment.updateDrawdownConfig('annualWithdrawal', '24000');
+
+    // $24k spending grossed up to $30k exceeds the RMD
+    expect(investment.results[4].requiredMinimumDistribution).toBeGreaterThan(0);
+    expect(investment.results[4].rmdWithdrawal).toBe(0);
+  });
+
+  it('should only take the shortfall when other withdrawals cover part of the RMD', () => {
+    const investment = createInvestment();
+    investment.updateDrawdownConfig('enabled', true);
+    investment.updateDrawdownConfig('retirementYear', '2025');
+    investment.updateDrawdownConfig('strategy', 'fixedReal');
+    investment.updateDrawdownConfig('annualWithdrawal', '8000');
+
+    const firstRmd = investment.results[4];
+    expect(firstRmd.rmdWithdrawal).toBeCloseTo(firstRmd.requiredMinimumDistribution - 10000, 2);
+  });
+
+  it('should not apply to Roth accounts or without a birth year', () => {
+    expect(createInvestment({ accountType: 'roth' }).rmdStartYear).toBeNull();
+    expect(createInvestment({ ownerBirthYear: '' }).rmdStartYear).toBeNull();
+    expect(createInvestment({ accountType: 'roth' }).results[4].requiredMinimumDistribution).toBe(0);
+  });
+
+  it('should match the deterministic projection in Monte Carlo trials', () => {
+    const investment = createInvestment({ rateOfReturn: '5' });
+    investment.updateMonteCarloConfig('enabled', true);
+    investment.updateMonteCarloConfig('volatility', '0');
+    investment.updateMonteCarloConfig('trials', '5');
+
+    const bands = investment.monteCarloResult!.bands;
+    investment.results.forEach((result, index) => {
+      expect(bands[index].p50).toBeCloseTo(result.balance, 0);
+    });
+  });
+
+  describe('reinvesting RMDs', () => {
+    it('should send the after-tax RMD to a taxable investment', () => {
+      const rootStore = new RootStore();
+      const portfolioStore = rootStore.portfolioStore;
+      portfolioStore.assets.clear();
+      portfolioStore.setYears('10');
+      portfolioStore.setStartingYear('2024');
+
+      const targetId = portfolioStore.addInvestment('Brokerage', {
+        initialAmount: '0',
+        annualContribution: '0',
+        rateOfReturn: '0',
+        inflationRate: '0'
+      });
+      const sourceId = portfolioStore.addInvestment('IRA', {
+        initialAmount: '530000',
+        annualContribution: '0',
+        rateOfReturn: '0',
+        inflationRate: '0',
+        accountType: 'traditional',
+        withdrawalTaxRate: '20',
+        ownerBirthYear: '1955',
+        rmdReinvestmentId: targetId
+      });
+      const source = portfolioStore.assets.get(sourceId) as Investment;
+      const target = portfolioStore.assets.get(targetId) as Investment;
+
+      expect(source.results[4].rmdReinvested).toBe(16000);
+      expect(target.results[4].rmdReceived).toBe(16000);
+      expect(target.results[4].balance).toBe(16000);
+      expect(target.results[4].costBasis).toBe(16000);
+    });
+  });
+});
@@ -1,12 +1,68 @@
 import { makeAutoObservable, computed } from 'mobx';
 import { v4 as uuidv4 } from 'uuid';
 import { type BaseAsset, type BaseCalculationResult } from '@/features/shared/types/BaseAsset';
+import {
+  AccountTaxCalculator,
+  type InvestmentAccountType
+} from '@/features/investment/calculators/AccountTaxCalculator';
+import { ContributionLimitCalculator } from '@/features/investment/calculators/ContributionLimitCalculator';
+import { RequiredMinimumDistributionCalculator } from '@/features/investment/calculators/RequiredMinimumDistributionCalculator';
+import {
+  DrawdownCalculator,
+  type DrawdownParams,
+  type DrawdownStrategy
+} from '@/features/investment/calculators/DrawdownCalculator';
+import { type RetirementPlanType } from '@/features/investment/data/ContributionLimits';
+import { type Household, type LifeEventReference } from '@/features/household/stores/Household';
+import {
+  MonteCarloCalculator,
+  type MonteCarloResult,
+  type MonteCarloReturnModel
+} from '@/features/investment/calculators/MonteCarloCalculator';
+
+export interface MonteCarloConfig {
+  enabled: boolean;  // Run stochastic trials instead of a single fixed-rate path
+  returnModel: MonteCarloReturnModel;  // 'normal' uses rateOfReturn + volatility, 'historical' bootstraps
+  volatility: string;  // Annual standard deviation of returns (%)
+  trials: string;  // Number of simulated trials
+  seed: string;  // Random seed so results are reproducible; blank = derived from the investment id
+  targetBalance: string;  // Ending balance used for the success probability
+}
+
+export interface DrawdownConfig {
+  enabled: boolean;  // Stop contributions and withdraw from the retirement year on
+  retirementYear: string;  // First calendar year of withdrawals
+  retirementEvent: LifeEventReference | null;  // Household life event used instead of retirementYear
+  strategy: DrawdownStrategy;
+  annualWithdrawal: string;  // Fixed real strategy: spending in starting-year dollars
+  withdrawalRate: string;  // Initial rate (4% rule, guardrails) or yearly rate (constant %)
+  guardrailBand: string;  // Guardrails: allowed drift from the initial rate before adjusting (%)
+  guardrailAdjustment: string;  // Guardrails: size of each spending cut or raise (%)
+}
 
 export interface InvestmentInputs {
   initialAmount: string;
   rateOfReturn: string;
   inflationRate: string;
   annualContribution: string;
+  contributionStopEvent: LifeEventReference | null;  // Household life event after which contributions stop
+  // Account tax treatment
+  accountType: InvestmentAccountType;
+  dividendYield: string;  // Taxable only: share of the return paid out as taxable distributions (%)
+  capitalGainsTaxRate: string;  // Taxable only: rate on distributions and on gains at liquidation (%)
+  withdrawalTaxRate: string;  // Traditional only: ordinary income rate on withdrawals (%)
+  // Contribution limits (Traditional and Roth accounts)
+  retirementPlan: RetirementPlanType;  // Which IRS limit applies
+  ownerBirthYear: string;  // Enables catch-up contributions from age 50; empty = no catch-up
+  salary: string;  // 401k only: salary in the starting year, grown with inflation
+  employerMatchRate: string;  // 401k only: share of employee contributions matched (%)
+  employerMatchCap: string;  // 401k only: contributions above this % of salary are not matched
+  overflowInvestmentId: string | null;  // Taxable investment that receives contributions above the limit
+  rmdReinvestmentId: string | null;  // Traditional only: taxable investment that receives RMDs after tax
+  // Monte Carlo simulation settings
+  monteCarloConfig: MonteCarloConfig;
+  // Retirement drawdown settings
+  drawdownConfig: DrawdownConfig;
 }
 
 export interface InvestmentResult extends BaseCalculationResult {
@@ -20,6 +76,36 @@ export interface InvestmentResult extends BaseCalculationResult {
   realAnnualInvestmentGain: number; // Real annual investment gain from returns only
   propertyCashFlow: number; // Property cash flow for this year (positive = contribution, negative = withdrawal)
   realPropertyCashFlow: number; // Real property cash flow adjusted for inflation
+  budgetCashFlow: number; // Budget surplus paid in (positive) or deficit drawn (negative) this year
+  realBudgetCashFlow: number;
+  debtCashFlow: number; // Debt payments withdrawn this year (negative)
+  realDebtCashFlow: number;
+  distributionTax: number; // Tax paid this year on distributions (taxable accounts)
+  withdrawalTax: number; // Tax withheld this year on withdrawals (Traditional accounts)
+  costBasis: number; // After-tax dollars invested, used for gains at liquidation
+  afterTaxBalance: number; // Balance net of the tax due if fully withdrawn
+  realAfterTaxBalance: number;
+  employerMatch: number; // Employer match added this year (401k)
+  excessContribution: number; // Direct contribution above the annual limit, not invested here
+  overflowContribution: number; // Excess received from retirement accounts routed to this one
+  drawdownWithdrawal: number; // Retirement spending withdrawn this year, after tax
+  realDrawdownWithdrawal: number;
+  drawdownShortfall: number; // Planned spending the balance could not fund
+  requiredMinimumDistribution: number; // RMD for this year (Traditional accounts)
+  realRequiredMinimumDistribution: number;
+  rmdWithdrawal: number; // Part of the RMD not covered by other withdrawals, forced out before tax
+  rmdReinvested: number; // After-tax RMD withdrawal sent to the reinvestment target
+  rmdReceived: number; // After-tax RMDs received from Traditional accounts
+}
+
+export interface ContributionScheduleYear {
+  year: number;
+  requestedContribution: number; // Entered contribution (inflation-adjusted when enabled)
+  contribution: number; // Contribution after the annual limit
+  excessContribution: number;
+  contributionLimit: number | null; // null when the account has no limit
+  employerMatch: number;
+  overflowContribution: number;
 }
 
 export class Investment implements BaseAsset {
@@ -31,6 +117,12 @@ export class Investment implements BaseAsset {
     startingYear?: string;
     years?: string;
     getLinkedPropertyCashFlows?: (id: string) => number[];
+    getLinkedBudgetCashFlows?: (id: string) => number[];
+    getLinkedDebtCashFlows?: (id: string) => number[];
+    getOverflowContributions?: (id: string) => number[];
+    getReinvestedRmds?: (id: string) => number[];
+    investments?: Investment[];
+    household?: Household;
   }; // Will be injected by PortfolioStore
 
   // Investment-specific settings
@@ -55,13 +147,48 @@ export class Investment implements BaseAsset {
       rateOfReturn: '7',
       inflationRate: '2.5',
       annualContribution: '5000',
+      contributionStopEvent: null,
+      accountType: 'taxable',
+      dividendYield: '0',
+      capitalGainsTaxRate: '15',
+      withdrawalTaxRate: '22',
+      retirementPlan: '401k',
+      ownerBirthYear: '',
+      salary: '',
+      employerMatchRate: '',
+      employerMatchCap: '',
+      overflowInvestmentId: null,
+      rmdReinvestmentId: null,
+      monteCarloConfig: {
+        enabled: false,
+        returnModel: 'normal',
+        volatility: '15',  // Roughly the long-run volatility of a stock index
+        trials: String(MonteCarloCalculator.DEFAULT_TRIALS),
+        seed: '',
+        targetBalance: ''
+      },
+      drawdownConfig: {
+        enabled: false,
+        retirementYear: '',
+        retirementEvent: null,
+        strategy: 'fourPercent',
+        annualWithdrawal: '40000',
+        withdrawalRate: String(DrawdownCalculator.DEFAULT_WITHDRAWAL_RATE),
+        guardrailBand: '20',
+        guardrailAdjustment: '10'
+      },
       ...initialInputs
     };
 
     makeAutoObservable(this, {
       results: computed,
       startingYear: computed,
-      summaryData: computed
+      summaryData: computed,
+      monteCarloResult: computed,
+      contributionSchedule: computed,
+      depletionYear: computed,
+      retirementYearNumber: computed,
+      contributionStopYear: computed
     });
   }
 
@@ -82,6 +209,14 @@ export class Investment implements BaseAsset {
     this.inputs[key] = value;
   }
 
+  updateMonteCarloConfig = <K extends keyof MonteCarloConfig>(key: K, value: MonteCarloConfig[K]) => {
+    this.inputs.monteCarloConfig[key] = value;
+  }
+
+  updateDrawdownConfig = <K extends keyof DrawdownConfig>(key: K, value: DrawdownConfig[K]) => {
+    this.inputs.drawdownConfig[key] = value;
+  }
+
   setShowBalance = (value: boolean) => {
     this.showBalance = value;
   }
@@ -103,23 +238,55 @@ export class Investment implements BaseAsset {
     return this.portfolioStore?.getLinkedPropertyCashFlows?.(this.id) || [];
   }
 
+  get linkedBudgetCashFlows(): number[] {
+    return this.portfolioStore?.getLinkedBudgetCashFlows?.(this.id) || [];
+  }
+
+  get linkedDebtCashFlows(): number[] {
+    return this.portfolioStore?.getLinkedDebtCashFlows?.(this.id) || [];
+  }
+
+  // Property, budget and debt cash flows combined per year
+  get linkedCashFlows(): number[] {
+    const sources = [this.linkedPropertyCashFlows, this.linkedBudgetCashFlows, this.linkedDebtCashFlows];
+    const length = Math.max(...sources.map(cashFlows => cashFlows.length));
+    return Array.from({ length }, (_, index) => sources.reduce((sum, cashFlows) => sum + (cashFlows[index] || 0), 0));
+  }
+
   get results(): InvestmentResult[] {
-    return this.calculateProjection(this.startingYear, this.linkedPropertyCashFlows);
+    return this.calculateProjection(this.startingYear, this.linkedPropertyCashFlows, this.linkedBudgetCashFlows, this.linkedDebtCashFlows);
   }
 
-  private calculateProjection = (startingYear: number, linkedPropertyCashFlows: number[]): InvestmentResult[] => {
+  private calculateProjection = (
+    startingYear: number,
+    linkedPropertyCashFlows: number[],
+    linkedBudgetCashFlows: number[],
+    linkedDebtCashFlows: number[]
+  ): InvestmentResult[] => {
     const projections: InvestmentResult[] = [];
     const initialAmountNum = parseFloat(this.inputs.initialAmount) || 0;
     const yearsNum = parseInt(this.portfolioStore?.years || '10') || 1;
     const rateOfReturnNum = parseFloat(this.inputs.rateOfReturn) || 0;
     const inflationRateNum = parseFloat(this.inputs.inflationRate) || 0;
     const annualContributionNum = parseFloat(this.inputs.annualContribution) || 0;
+    const { accountType, dividendYieldNum, capitalGainsTaxRateNum, withdrawalTaxRateNum, taxDragRate } = this.accountTaxInputs;
+    const netRateOfReturn = rateOfReturnNum - taxDragRate;
     const baseYear = startingYear;
 
     let balance = initialAmountNum;
     let realBalance = initialAmountNum; // Track real balance separately
     let totalContributed = 0; // Only track ongoing contributions (not initial amount)
     let totalWithdrawn = 0; // Track total money withdrawn
+    let costBasis = Math.max(0, initialAmountNum);
+
+    const getAfterTaxBalance = (value: number) => AccountTaxCalculator.getAfterTaxValue(
+      value, costBasis, accountType, capitalGainsTaxRateNum, withdrawalTaxRateNum
+    );
+    // Withdrawals take basis out in proportion to the balance they remove
+    const withdrawBasis = (amount: number, balanceBefore: number) => {
+      costBasis = balanceBefore > 0 ? costBasis * Math.max(0, 1 - amount / balanceBefore) : 0;
+    };
+    const initialAfterTaxBalance = Math.round(getAfterTaxBalance(balance) * 100) / 100;
 
     // Add year 0
     projections.push({
@@ -136,39 +303,116 @@ export class Investment implements BaseAsset {
       annualInvestmentGain: 0,
       realAnnualInvestmentGain: 0,
       propertyCashFlow: 0,
-      realPropertyCashFlow: 0
+      realPropertyCashFlow: 0,
+      budgetCashFlow: 0,
+      realBudgetCashFlow: 0,
+      debtCashFlow: 0,
+      realDebtCashFlow: 0,
+      distributionTax: 0,
+      withdrawalTax: 0,
+      costBasis: Math.round(costBasis * 100) / 100,
+      afterTaxBalance: initialAfterTaxBalance,
+      realAfterTaxBalance: initialAfterTaxBalance,
+      employerMatch: 0,
+      excessContribution: 0,
+      overflowContribution: 0,
+      drawdownWithdrawal: 0,
+      realDrawdownWithdrawal: 0,
+      drawdownShortfall: 0,
+      requiredMinimumDistribution: 0,
+      realRequiredMinimumDistribution: 0,
+      rmdWithdrawal: 0,
+      rmdReinvested: 0,
+      rmdReceived: 0
     });
 
+    const contributionSchedule = this.contributionSchedule;
+    const drawdownParams = this.drawdownParams;
+    const receivedRmds = this.portfolioStore?.getReinvestedRmds?.(this.id) || [];
+    let yearsRetired = 0;
+    let previousDrawdown = 0;
+
     for (let year = 1; year <= yearsNum; year++) {
       const previousBalance = balance;
       const previousRealBalance = realBalance;
 
-      // Calculate contribution for this year
-      let yearContribution = annualContributionNum;
-      if (this.inflationAdjustedContributions) {
-        // When inflation-adjusted, the nominal contribution increases each year
-        // to maintain the same real purchasing power
-        yearContribution = annualContributionNum * Math.pow(1 + inflationRateNum / 100, year);
+      // Calculate contribution for this year, within the account's annual limit
+      const scheduled = contributionSchedule[year - 1];
+      const yearContribution = scheduled.contribution;
+      const contributionShare = scheduled.requestedContribution > 0
+        ? scheduled.contribution / scheduled.requestedContribution
+        : 1;
+      // Employer match and overflow from other accounts arrive with the contribution
+      const rmdReceived = receivedRmds[year - 1] || 0;
+      const addedContribution = scheduled.employerMatch + scheduled.overflowContribution + rmdReceived;
+
+      // Apply property, budget and debt cash flows BEFORE growth calculation
+      // Traditional withdrawals also take out the tax withheld on them
+      const propertyCashFlow = linkedPropertyCashFlows?.[year - 1] || 0;
+      const budgetCashFlow = linkedBudgetCashFlows?.[year - 1] || 0;
+      const debtCashFlow = linkedDebtCashFlows?.[year - 1] || 0;
+      const linkedCashFlow = propertyCashFlow + budgetCashFlow + debtCashFlow;
+      const grossLinkedCashFlow = AccountTaxCalculator.getGrossCashFlow(linkedCashFlow, accountType, withdrawalTaxRateNum);
+      let availableBalance = balance + grossLinkedCashFlow;
+      if (grossLinkedCashFlow < 0) {
+        withdrawBasis(-grossLinkedCashFlow, balance);
+      } else {
+        costBasis += grossLinkedCashFlow;
       }
 
-      // Apply property cash flows BEFORE growth calculation
-      const propertyCashFlow = linkedPropertyCashFlows?.[year - 1] || 0;
-      const availableBalance = balance + propertyCashFlow;
-      
-      // Calculate growth on available balance after cash flows
-      const balanceAfterGrowth = availableBalance * (1 + rateOfReturnNum / 100);
+      // Retirement spending is withdrawn at the start of the year, after linked cash flows
+      const inflationFactor = Math.pow(1 + inflationRateNum / 100, year);
+      let drawdown = { gross: 0, net: 0, tax: 0, shortfall: 0 };
+      if (drawdownParams && this.isRetiredInYear(baseYear + year)) {
+        const planned = DrawdownCalculator.getWithdrawal(drawdownParams, {
+          yearsRetired,
+          balance: availableBalance,
+          previousWithdrawal: previousDrawdown,
+          previousReturn: netRateOfReturn,
+          inflationFactor
+        });
+        drawdown = this.fundDrawdown(planned, availableBalance);
+        withdrawBasis(drawdown.gross, availableBalance);
+        availableBalance -= drawdown.gross;
+        previousDrawdown = planned;
+        yearsRetired++;
+      }
+
+      // Any part of the RMD not already withdrawn is forced out and taxed as ordinary income
+      const rmd = this.takeRequiredMinimumDistribution(
+        baseYear + year,
+        balance,
+        Math.max(0, -grossLinkedCashFlow) + drawdown.gross,
+        availableBalance
+      );
+      availableBalance -= rmd.gross;
+
+      // Distributions are taxed each year and the remainder reinvested (taxable accounts)
+      const distributions = accountType === 'taxable' ? availableBalance * Math.max(0, dividendYieldNum) / 100 : 0;
+      const distributionTax = availableBalance * taxDragRate / 100;
+      costBasis += Math.max(0, distributions - distributionTax);
+
+      // Calculate growth on available balance after cash flows, net of tax drag
+      const balanceAfterGrowth = availableBalance * (1 + netRateOfReturn / 100);
       
       // Add contributions after growth
-      balance = balanceAfterGrowth + yearContribution;
+      const grossYearContribution = AccountTaxCalculator.getGrossCashFlow(yearContribution, accountType, withdrawalTaxRateNum);
+      if (grossYearContribution < 0) {
+        withdrawBasis(-grossYearContribution, balanceAfterGrowth);
+      } else {
+        costBasis += grossYearContribution;
+      }
+      costBasis += addedContribution;
+      balance = balanceAfterGrowth + grossYearContribution + addedContribution;
+      const withdrawalTax = (grossLinkedCashFlow - linkedCashFlow) + (grossYearContribution - yearContribution) - drawdown.tax - rmd.tax;
 
       // Calculate real balance using correct real growth rate
       // Real rate = (1 + nominal rate) / (1 + inflation rate) - 1
-      const realGrowthRate = (1 + rateOfReturnNum / 100) / (1 + inflationRateNum / 100) - 1;
-      const inflationFactor = Math.pow(1 + inflationRateNum / 100, year);
+      const realGrowthRate = (1 + netRateOfReturn / 100) / (1 + inflationRateNum / 100) - 1;
       
-      // Apply property cash flows to real balance (in current year real terms)
+      // Apply linked cash flows and retirement withdrawals to real balance (in current year real terms)
       const realPropertyCashFlow = propertyCashFlow / inflationFactor;
-      const realAvailableBalance = realBalance + realPropertyCashFlow;
+      const realAvailableBalance = realBalance + (grossLinkedCashFlow - drawdown.gross - rmd.gross) / inflationFactor;
       
       // Apply real growth rate to real balance
       const realBalanceAfterGrowth = realAvailableBalance * (1 + realGrowthRate);
@@ -177,13 +421,14 @@ export class Investment implements BaseAsset {
       let realYearContribution;
       if (this.inflationAdjustedContributions) {
         // Real value stays constant when inflation-adjusted
-        realYearContribution = annualContributionNum;
+        realYearContribution = annualContributionNum * contributionShare;
       } else {
         // Real value declines when not inflation-adjusted
         realYearContribution = yearContribution / inflationFactor;
       }
+      realYearContribution += (grossYearContribution - yearContribution) / inflationFactor;
       
-      realBalance = realBalanceAfterGrowth + realYearContribution;
+      realBalance = realBalanceAfterGrowth + realYearContribution + addedContribution / inflationFactor;
 
       // Track contributions vs withdrawals separately (not including initial amount)
       if (yearContribution > 0) {
@@ -191,14 +436,18 @@ export class Investment implements BaseAsset {
       } else {
         totalWithdrawn += Math.abs(yearContribution);
       }
+      totalContributed += addedContribution;
 
-      // Track property cash flows (positive = contributed, negative = withdrawn)
-      if (propertyCashFlow > 0) {
-        totalContributed += propertyCashFlow;
-      } else if (propertyCashFlow < 0) {
-        totalWithdrawn += Math.abs(propertyCashFlow);
+      // Track property, budget and debt cash flows (positive = contributed, negative = withdrawn)
+      if (linkedCashFlow > 0) {
+        totalContributed += linkedCashFlow;
+      } else if (linkedCashFlow < 0) {
+        totalWithdrawn += Math.abs(linkedCashFlow);
       }
 
+      // Retirement spending and the tax withheld on withdrawals leave the account too
+      totalWithdrawn += drawdown.net + rmd.net + Math.abs(withdrawalTax);
+
       // Calculate earnings: balance - initial investment - net contributions
       const netContributions = totalContributed - totalWithdrawn;
       const totalEarnings = balance - initialAmountNum - netContributions;
@@ -213,7 +462,7 @@ export class Investment implements BaseAsset {
       let realAnnualContribution;
       if (this.inflationAdjustedContributions) {
         // When inflation-adjusted, the real contribution stays constant at the entered amount
-        realAnnualContribution = annualContributionNum;
+        realAnnualContribution = annualContributionNum * contributionShare;
       } else {
         // When not inflation-adjusted, show the declining real value
         realAnnualContribution = yearContribution / inflationFactor;
@@ -224,12 +473,14 @@ export class Investment implements BaseAsset {
 
       // Calculate annual investment gain (growth only, excluding contributions)
       // This is the growth rate applied to available balance (after cash flows, before contributions)
-      const annualInvestmentGain = availableBalance * (rateOfReturnNum / 100);
+      const annualInvestmentGain = availableBalance * (netRateOfReturn / 100);
       
       // Calculate real annual investment gain (growth only on real balance)
       // This should be the real growth rate applied to the real available balance
       const realAnnualInvestmentGain = realAvailableBalance * realGrowthRate;
 
+      const afterTaxBalance = getAfterTaxBalance(balance);
+
       projections.push({
         year,
         actualYear: baseYear + year,
@@ -244,13 +495,303 @@ export class Investment implements BaseAsset {
         annualInvestmentGain: Math.round(annualInvestmentGain * 100) / 100,
         realAnnualInvestmentGain: Math.round(realAnnualInvestmentGain * 100) / 100,
         propertyCashFlow: Math.round(propertyCashFlow * 100) / 100,
-        realPropertyCashFlow: Math.round(realPropertyCashFlow * 100) / 100
+        realPropertyCashFlow: Math.round(realPropertyCashFlow * 100) / 100,
+        budgetCashFlow: Math.round(budgetCashFlow * 100) / 100,
+        realBudgetCashFlow: Math.round((budgetCashFlow / inflationFactor) * 100) / 100,
+        debtCashFlow: Math.round(debtCashFlow * 100) / 100,
+        realDebtCashFlow: Math.round((debtCashFlow / inflationFactor) * 100) / 100,
+        distributionTax: Math.round(distributionTax * 100) / 100,
+        withdrawalTax: Math.round(Math.abs(withdrawalTax) * 100) / 100,
+        costBasis: Math.round(costBasis * 100) / 100,
+        afterTaxBalance: Math.round(afterTaxBalance * 100) / 100,
+        realAfterTaxBalance: Math.round((afterTaxBalance / inflationFactor) * 100) / 100,
+        employerMatch: Math.round(scheduled.employerMatch * 100) / 100,
+        excessContribution: Math.round(scheduled.excessContribution * 100) / 100,
+        overflowContribution: Math.round(scheduled.overflowContribution * 100) / 100,
+        drawdownWithdrawal: Math.round(drawdown.net * 100) / 100,
+        realDrawdownWithdrawal: Math.round((drawdown.net / inflationFactor) * 100) / 100,
+        drawdownShortfall: Math.round(drawdown.shortfall * 100) / 100,
+        requiredMinimumDistribution: Math.round(rmd.required * 100) / 100,
+        realRequiredMinimumDistribution: Math.round((rmd.required / inflationFactor) * 100) / 100,
+        rmdWithdrawal: Math.round(rmd.gross * 100) / 100,
+        rmdReinvested: this.rmdReinvestmentTarget ? Math.round(rmd.net * 100) / 100 : 0,
+        rmdReceived: Math.round(rmdReceived * 100) / 100
       });
     }
 
     return projections;
   }
 
+  /**
+   * Seed of the Monte Carlo trials. Without an entered seed each investment
+   * gets its own, so simulated investments don't draw the same returns.
+   */
+  get monteCarloSeed(): number {
+    const seed = (this.inputs.monteCarloConfig.seed || '').trim();
+    return seed === '' ? MonteCarloCalculator.seedFromString(this.id) : parseInt(seed) || 0;
+  }
+
+  /**
+   * Run the Monte Carlo simulation when enabled.
+   * Each trial follows the same cash flow ordering as calculateProjection,
+   * only the annual return varies.
+   */
+  get monteCarloResult(): MonteCarloResult | null {
+    const config = this.inputs.monteCarloConfig;
+    if (!config?.enabled) return null;
+
+    const yearsNum = parseInt(this.portfolioStore?.years || '10') || 1;
+
+    return MonteCarloCalculator.run({
+      trials: parseInt(config.trials) || MonteCarloCalculator.DEFAULT_TRIALS,
+      years: yearsNum,
+      seed: this.monteCarloSeed,
+      returnModel: config.returnModel,
+      expectedReturn: parseFloat(this.inputs.rateOfReturn) || 0,
+      volatility: parseFloat(config.volatility) || 0,
+      inflationRate: parseFloat(this.inputs.inflationRate) || 0,
+      targetBalance: parseFloat(config.targetBalance) || 0,
+      simulatePath: (annualReturns) => this.simulateBalancePath(annualReturns, this.linkedCashFlows)
+    });
+  }
+
+  // Nominal balance path for years 0..N with a per-year return (%)
+  private simulateBalancePath = (annualReturns: number[], linkedCashFlows: number[]): number[] => {
+    const initialAmountNum = parseFloat(this.inputs.initialAmount) || 0;
+    const inflationRateNum = parseFloat(this.inputs.inflationRate) || 0;
+    const { accountType, withdrawalTaxRateNum, taxDragRate } = this.accountTaxInputs;
+    const contributionSchedule = this.contributionSchedule;
+    const drawdownParams = this.drawdownParams;
+    const receivedRmds = this.portfolioStore?.getReinvestedRmds?.(this.id) || [];
+    let yearsRetired = 0;
+    let previousDrawdown = 0;
+
+    let balance = initialAmountNum;
+    const balances = [balance];
+
+    for (let year = 1; year <= annualReturns.length; year++) {
+      const scheduled = contributionSchedule[year - 1];
+      const yearContribution = scheduled?.contribution ?? 0;
+      const addedContribution = (scheduled?.employerMatch ?? 0) + (scheduled?.overflowContribution ?? 0) + (receivedRmds[year - 1] || 0);
+      const linkedCashFlow = linkedCashFlows?.[year - 1] || 0;
+
+      const grossLinkedCashFlow = AccountTaxCalculator.getGrossCashFlow(linkedCashFlow, accountType, withdrawalTaxRateNum);
+      let availableBalance = balance + grossLinkedCashFlow;
+      let drawdownGross = 0;
+      if (drawdownParams && this.isRetiredInYear(this.startingYear + year)) {
+        const planned = DrawdownCalculator.getWithdrawal(drawdownParams, {
+          yearsRetired,
+          balance: availableBalance,
+          previousWithdrawal: previousDrawdown,
+          previousReturn: year > 1 ? annualReturns[year - 2] - taxDragRate : 0,
+          inflationFactor: Math.pow(1 + inflationRateNum / 100, year)
+        });
+        drawdownGross = this.fundDrawdown(planned, availableBalance).gross;
+        availableBalance -= drawdownGross;
+        previousDrawdown = planned;
+        yearsRetired++;
+      }
+      availableBalance -= this.takeRequiredMinimumDistribution(
+        this.startingYear + year,
+        balance,
+        Math.max(0, -grossLinkedCashFlow) + drawdownGross,
+        availableBalance
+      ).gross;
+
+      balance = availableBalance
+        * (1 + (annualReturns[year - 1] - taxDragRate) / 100)
+        + AccountTaxCalculator.getGrossCashFlow(yearContribution, accountType, withdrawalTaxRateNum)
+        + addedContribution;
+      balances.push(balance);
+    }
+
+    return balances;
+  }
+
+  // Parsed account tax settings shared by the deterministic and Monte Carlo paths
+  get accountTaxInputs() {
+    const accountType = this.inputs.accountType ?? 'taxable';
+    const dividendYieldNum = parseFloat(this.inputs.dividendYield || '0') || 0;
+    const capitalGainsTaxRateNum = parseFloat(this.inputs.capitalGainsTaxRate || '0') || 0;
+    const withdrawalTaxRateNum = parseFloat(this.inputs.withdrawalTaxRate || '0') || 0;
+
+    return {
+      accountType,
+      dividendYieldNum,
+      capitalGainsTaxRateNum,
+      withdrawalTaxRateNum,
+      taxDragRate: AccountTaxCalculator.getTaxDragRate(accountType, dividendYieldNum, capitalGainsTaxRateNum)
+    };
+  }
+
+  // Parsed drawdown settings, null when the drawdown phase is off
+  get drawdownParams(): DrawdownParams | null {
+    const config = this.inputs.drawdownConfig;
+    if (!config?.enabled || this.retirementYearNumber === null) return null;
+
+    return {
+      strategy: config.strategy,
+      annualWithdrawal: parseFloat(config.annualWithdrawal || '0') || 0,
+      withdrawalRate: parseFloat(config.withdrawalRate || '0') || 0,
+      inflationRate: parseFloat(this.inputs.inflationRate) || 0,
+      guardrailBand: parseFloat(config.guardrailBand || '0') || 0,
+      guardrailAdjustment: parseFloat(config.guardrailAdjustment || '0') || 0
+    };
+  }
+
+  get retirementYearNumber(): number | null {
+    const config = this.inputs.drawdownConfig;
+    if (!config?.enabled) return null;
+    if (config.retirementEvent) return this.resolveLifeEvent(config.retirementEvent);
+
+    const retirementYear = parseInt(config.retirementYear || '');
+    return isNaN(retirementYear) ? null : retirementYear;
+  }
+
+  // First calendar year without contributions, null when contributions never stop
+  get contributionStopYear(): number | null {
+    const stopEvent = this.inputs.contributionStopEvent;
+    return stopEvent ? this.resolveLifeEvent(stopEvent) : null;
+  }
+
+  // Calendar year of a household life event, null when it cannot be resolved
+  private resolveLifeEvent(reference: LifeEventReference): number | null {
+    return this.portfolioStore?.household?.resolveLifeEvent(reference) ?? null;
+  }
+
+  // Contributions stop and withdrawals start in the retirement year
+  isRetiredInYear(actualYear: number): boolean {
+    const retirementYear = this.retirementYearNumber;
+    return retirementYear !== null && actualYear >= retirementYear;
+  }
+
+  // Withdraw planned retirement spending, capped at what the balance can fund.
+  // Traditional withdrawals are grossed up for the tax withheld.
+  private fundDrawdown = (planned: number, availableBalance: number) => {
+    const { accountType, withdrawalTaxRateNum } = this.accountTaxInputs;
+    const grossPlanned = -AccountTaxCalculator.getGrossCashFlow(-planned, accountType, withdrawalTaxRateNum);
+    const gross = Math.max(0, Math.min(grossPlanned, availableBalance));
+    const net = grossPlanned > 0 ? planned * (gross / grossPlanned) : 0;
+
+    return { gross, net, tax: gross - net, shortfall: planned - net };
+  }
+
+  // Calendar year RMDs start, null for accounts without RMDs or an unknown birth year
+  get rmdStartYear(): number | null {
+    const birthYear = this.ownerBirthYearNumber;
+    if ((this.inputs.accountType ?? 'taxable') !== 'traditional' || birthYear === null) return null;
+    return RequiredMinimumDistributionCalculator.getStartYear(birthYear);
+  }
+
+  // Taxable investment receiving after-tax RMDs, if it is a valid target
+  get rmdReinvestmentTarget(): Investment | null {
+    const targetId = this.inputs.rmdReinvestmentId;
+    if (!targetId || targetId === this.id || this.rmdStartYear === null) return null;
+
+    const target = this.portfolioStore?.investments?.find(investment => investment.id === targetId);
+    return target && target.enabled && target.retirementPlan === null ? target : null;
+  }
+
+  // Withdraw whatever part of the year's RMD other withdrawals have not covered
+  private takeRequiredMinimumDistribution = (
+    taxYear: number,
+    priorYearEndBalance: number,
+    alreadyWithdrawn: number,
+    availableBalance: number
+  ) => {
+    const birthYear = this.ownerBirthYearNumber;
+    if (this.rmdStartYear === null || birthYear === null) {
+      return { required: 0, gross: 0, tax: 0, net: 0 };
+    }
+
+    const required = RequiredMinimumDistributionCalculator.calculateRmd(priorYearEndBalance, birthYear, taxYear);
+    const gross = Math.min(Math.max(0, required - alreadyWithdrawn), Math.max(0, availableBalance));
+    const tax = gross * Math.min(Math.max(0, this.accountTaxInputs.withdrawalTaxRateNum), 100) / 100;
+
+    return { required, gross, tax, net: gross - tax };
+  }
+
+  /**
+   * First calendar year the drawdown cannot be fully funded, null when the
+   * money lasts through the projection (or there is no drawdown)
+   */
+  get depletionYear(): number | null {
+    const depleted = this.results.find(result => result.drawdownShortfall > 0.01);
+    return depleted ? depleted.actualYear : null;
+  }
+
+  // IRS plan whose limit applies; taxable and HSA accounts are not limited
+  get retirementPlan(): RetirementPlanType | null {
+    const accountType = this.inputs.accountType ?? 'taxable';
+    if (accountType !== 'traditional' && accountType !== 'roth') return null;
+    return this.inputs.retirementPlan ?? '401k';
+  }
+
+  // Taxable investment receiving contributions above the limit, if it is a valid target
+  get overflowTarget(): Investment | null {
+    const targetId = this.inputs.overflowInvestmentId;
+    if (!targetId || targetId === this.id || !this.retirementPlan) return null;
+
+    const target = this.portfolioStore?.investments?.find(investment => investment.id === targetId);
+    return target && target.enabled && target.retirementPlan === null ? target : null;
+  }
+
+  get ownerBirthYearNumber(): number | null {
+    const birthYear = parseInt(this.inputs.ownerBirthYear || '');
+    return isNaN(birthYear) ? null : birthYear;
+  }
+
+  /**
+   * Direct contributions for years 1..N after the annual limit, with the
+   * employer match and any overflow routed here from other accounts
+   */
+  get contributionSchedule(): ContributionScheduleYear[] {
+    const yearsNum = parseInt(this.portfolioStore?.years || '10') || 1;
+    const inflationRateNum = parseFloat(this.inputs.inflationRate) || 0;
+    const annualContributionNum = parseFloat(this.inputs.annualContribution) || 0;
+    const salaryNum = parseFloat(this.inputs.salary || '0') || 0;
+    const matchRateNum = parseFloat(this.inputs.employerMatchRate || '0') || 0;
+    const matchCapNum = parseFloat(this.inputs.employerMatchCap || '0') || 0;
+    const plan = this.retirementPlan;
+    const birthYear = this.ownerBirthYearNumber;
+    const overflowContributions = this.portfolioStore?.getOverflowContributions?.(this.id) || [];
+
+    const schedule: ContributionScheduleYear[] = [];
+    for (let year = 1; year <= yearsNum; year++) {
+      const taxYear = this.startingYear + year;
+      const inflationFactor = Math.pow(1 + inflationRateNum / 100, year);
+      const contributionAmount = this.inflationAdjustedContributions
+        ? annualContributionNum * inflationFactor
+        : annualContributionNum;
+      const contributionsStopped = this.isRetiredInYear(taxYear) ||
+        (this.contributionStopYear !== null && taxYear >= this.contributionStopYear);
+      const requestedContribution = contributionsStopped ? 0 : contributionAmount;
+
+      const limit = plan
+        ? ContributionLimitCalculator.getContributionLimit(plan, taxYear, birthYear !== null ? taxYear - birthYear : null, inflationRateNum)
+        : null;
+      const { contribution, excess } = limit && requestedContribution > 0
+        ? ContributionLimitCalculator.applyLimit(requestedContribution, limit)
+        : { contribution: requestedContribution, excess: 0 };
+
+      const employerMatch = plan === '401k'
+        ? ContributionLimitCalculator.calculateEmployerMatch(contribution, salaryNum * inflationFactor, matchRateNum, matchCapNum)
+        : 0;
+
+      schedule.push({
+        year,
+        requestedContribution,
+        contribution,
+        excessContribution: excess,
+        contributionLimit: limit?.totalLimit ?? null,
+        employerMatch,
+        overflowContribution: overflowContributions[year - 1] || 0
+      });
+    }
+
+    return schedule;
+  }
+
   // Other computed values
   get type() {
     return 'investment' as const;
@@ -275,7 +816,7 @@ export class Investment implements BaseAsset {
     // Check for negative balances
     const negativeBalances = results.filter(r => r.balance < 0);
     if (negativeBalances.length > 0) {
-      warnings.push(`Investment balance goes negative starting in year ${negativeBalances[0].year} due to property cash flows`);
+      warnings.push(`Investment balance goes negative starting in year ${negativeBalances[0].year} due to linked cash flows`);
     }
     
     // Check for excessive negative cash flows
@@ -287,6 +828,30 @@ export class Investment implements BaseAsset {
     if (totalWithdrawals > totalContributions * 2) {
       warnings.push(`Property cash outflows ($${totalWithdrawals.toLocaleString()}) significantly exceed investment contributions ($${totalContributions.toLocaleString()})`);
     }
+
+    // Check whether retirement withdrawals outlast the projection
+    const depletionYear = this.depletionYear;
+    if (depletionYear !== null) {
+      warnings.push(`Retirement withdrawals deplete the investment in ${depletionYear}`);
+    }
+
+    // Check for contributions above the annual limit
+    const excessYears = this.contributionSchedule.filter(year => year.excessContribution > 0);
+    if (excessYears.length > 0) {
+      const totalExcess = Math.round(excessYears.reduce((sum, year) => sum + year.excessContribution, 0));
+      const planLabel = this.retirementPlan === 'ira' ? 'IRA' : '401k';
+      const destination = this.overflowTarget ? `routed to ${this.overflowTarget.name}` : 'not invested';
+      warnings.push(`Contributions exceed the ${planLabel} limit in ${excessYears.length} year${excessYears.length === 1 ? '' : 's'} starting ${this.startingYear + excessYears[0].year}; the excess ($${totalExcess.toLocaleString()}) is ${destination}`);
+    }
+
+    // Check for life events the household cannot place in a year
+    const { retirementEvent, enabled: drawdownEnabled } = this.inputs.drawdownConfig;
+    if (drawdownEnabled && retirementEvent && this.retirementYearNumber === null) {
+      warnings.push('The retirement life event has no year (missing household member or birth year); withdrawals are off');
+    }
+    if (this.inputs.contributionStopEvent && this.contributionStopYear === null) {
+      warnings.push('The contribution stop life event has no year (missing household member or birth year); contributions continue');
+    }
     
     return warnings;
   }
@@ -310,10 +875,13 @@ export class Investment implements BaseAsset {
     let totalManualWithdrawn = 0;
     let totalPropertyCashFlow = 0;
 
-    // Calculate manual contributions/withdrawals over the years
+    // Calculate manual contributions/withdrawals over the years, within contribution limits
+    const contributionSchedule = this.contributionSchedule;
     for (let year = 1; year <= years; year++) {
       let yearContribution = annualContribution;
-      if (this.inflationAdjustedContributions) {
+      if (contributionSchedule[year - 1]) {
+        yearContribution = contributionSchedule[year - 1].contribution;
+      } else if (this.inflationAdjustedContributions) {
         const inflationRate = parseFloat(this.inputs.inflationRate) || 0;
         yearContribution = annualContribution * Math.pow(1 + inflationRate / 100, year);
       }
@@ -374,7 +942,11 @@ export class Investment implements BaseAsset {
   }
 
   static fromJSON(data: ReturnType<Investment['toJSON']>): Investment {
-    const investment = new Investment(data.name, data.inputs);
+    const { monteCarloConfig, drawdownConfig, ...inputs } = data.inputs;
+    const investment = new Investment(data.name, inputs);
+    // Older saves have no (or partial) Monte Carlo settings - keep defaults for missing keys
+    investment.inputs.monteCarloConfig = { ...investment.inputs.monteCarloConfig, ...monteCarloConfig };
+    investment.inputs.drawdownConfig = { ...investment.inputs.drawdownConfig, ...drawdownConfig };
     investment.id = data.id;
     investment.enabled = data.enabled;
     investment.inflationAdjustedContributions = data.inflationAdjustedContributions ?? false;
@@ -63,7 +63,7 @@ export const AssetBreakdownSelector: React.FC<AssetBreakdownSelectorProps> = obs
             const breakdown = getAssetBreakdown(asset.id);
 
             // Check for linked relationships
-            const linkedInvestment = asset.type === 'property' && 'linkedInvestmentId' in asset.inputs && asset.inputs.linkedInvestmentId ?
+            const linkedInvestment = asset.type !== 'investment' && 'linkedInvestmentId' in asset.inputs && asset.inputs.linkedInvestmentId ?
               portfolioStore.investments.find(inv => inv.id === asset.inputs.linkedInvestmentId) : null;
             const linkedProperties = asset.type === 'investment' ?
               portfolioStore.properties.filter(prop => prop.inputs.linkedInvestmentId === asset.id && prop.enabled) : [];
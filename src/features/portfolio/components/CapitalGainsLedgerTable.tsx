@@ -0,0 +1,94 @@
+import { observer } from 'mobx-react-lite';
+import React from 'react';
+import { usePortfolioStore } from '@/features/core/stores/hooks';
+import { FinancialTable } from '@/features/shared/components/tables';
+import { type ColumnDefinition } from '@/features/shared/components/tables/types';
+
+export const CapitalGainsLedgerTable: React.FC = observer(() => {
+  const portfolioStore = usePortfolioStore();
+  const ledger = portfolioStore.capitalGainsLedger;
+
+  if (ledger.length === 0) {
+    return null;
+  }
+
+  const transformedData = ledger.map(year => ({
+    ...year,
+    saleNames: year.sales.map(sale => sale.name).join(', ') || '-'
+  }));
+
+  const columns: ColumnDefinition[] = [
+    {
+      key: 'taxYear',
+      label: 'Tax Year',
+      type: 'year',
+      alignment: 'left',
+      sticky: true
+    },
+    {
+      key: 'saleNames',
+      label: 'Sales',
+      type: 'text',
+      alignment: 'left'
+    },
+    {
+      key: 'totalGains',
+      label: 'Gains',
+      type: 'currency',
+      alignment: 'right',
+      colorize: () => 'text-green-600 dark:text-green-400'
+    },
+    {
+      key: 'totalLosses',
+      label: 'Losses',
+      type: 'currency',
+      alignment: 'right',
+      colorize: () => 'text-red-600 dark:text-red-400'
+    },
+    {
+      key: 'carryforwardIn',
+      label: 'Carried In',
+      type: 'currency',
+      alignment: 'right'
+    },
+    {
+      key: 'netCapitalGain',
+      label: 'Net Taxable Gain',
+      type: 'currency',
+      alignment: 'right',
+      colorize: () => 'font-semibold'
+    },
+    {
+      key: 'ordinaryIncomeOffset',
+      label: 'Ordinary Offset',
+      type: 'currency',
+      alignment: 'right'
+    },
+    {
+      key: 'carryforwardOut',
+      label: 'Carried Forward',
+      type: 'currency',
+      alignment: 'right'
+    }
+  ];
+
+  const icon = (
+    <svg className="w-6 h-6 text-primary-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
+    </svg>
+  );
+
+  return (
+    <div className="mt-6">
+      <FinancialTable
+        data={transformedData}
+        columns={columns}
+        title="Capital Gains Ledger"
+        icon={icon}
+        defaultExpanded={false}
+        alternatingRows={true}
+        hover={true}
+      />
+    </div>
+  );
+});
@@ -8,7 +8,12 @@ import { SharedInputs } from './SharedInputs';
 import { PortfolioSummary } from './PortfolioSummary';
 import { AssetBreakdownSelector } from './AssetBreakdownSelector';
 import { CombinedProjectionTable } from './CombinedProjectionTable';
+import { CapitalGainsLedgerTable } from './CapitalGainsLedgerTable';
+import { DrawdownSustainabilitySummary } from './DrawdownSustainabilitySummary';
 import { EmptyPortfolioState } from './EmptyPortfolioState';
+import { HouseholdSettings } from '@/features/household/components/HouseholdSettings';
+import { DebtPayoffPlanner } from './DebtPayoffPlanner';
+import { ScenarioComparisonView } from '@/features/scenarios/components/ScenarioComparisonView';
 import { useAsyncComputed } from '@/features/shared/hooks/useAsyncComputed';
 import { LoadingOverlay, ChartSkeleton, TableSkeleton } from '@/features/shared/components/LoadingStates';
 
@@ -23,7 +28,7 @@ export const CombinedPortfolioView: React.FC = observer(() => {
       
       // Convert combined results to the format expected by ProjectionChart
       const startingYear = parseInt(portfolioStore.startingYear) || new Date().getFullYear();
-      const chartData: InvestmentResult[] = combinedResults.map((result: CombinedResult) => ({
+      const chartData: (InvestmentResult & { monteCarlo?: CombinedResult['monteCarlo'] })[] = combinedResults.map((result: CombinedResult) => ({
         year: result.year,
         actualYear: startingYear + result.year,
         balance: result.totalBalance,
@@ -37,7 +42,28 @@ export const CombinedPortfolioView: React.FC = observer(() => {
         annualInvestmentGain: result.totalYearlyGain - result.totalAnnualContribution,
         realAnnualInvestmentGain: result.totalRealYearlyGain - result.totalRealAnnualContribution,
         propertyCashFlow: 0,
-        realPropertyCashFlow: 0
+        realPropertyCashFlow: 0,
+        budgetCashFlow: result.totalBudgetSurplus,
+        realBudgetCashFlow: result.totalRealBudgetSurplus,
+        debtCashFlow: 0,
+        realDebtCashFlow: 0,
+        distributionTax: 0,
+        withdrawalTax: 0,
+        costBasis: 0,
+        afterTaxBalance: result.totalAfterTaxBalance,
+        realAfterTaxBalance: result.totalRealAfterTaxBalance,
+        employerMatch: 0,
+        excessContribution: 0,
+        overflowContribution: 0,
+        drawdownWithdrawal: result.totalDrawdownWithdrawal,
+        realDrawdownWithdrawal: result.totalRealDrawdownWithdrawal,
+        drawdownShortfall: 0,
+        requiredMinimumDistribution: 0,
+        realRequiredMinimumDistribution: 0,
+        rmdWithdrawal: 0,
+        rmdReinvested: 0,
+        rmdReceived: 0,
+        monteCarlo: result.monteCarlo
       }));
 
       const finalResult = combinedResults[combinedResults.length - 1];
@@ -64,9 +90,21 @@ export const CombinedPortfolioView: React.FC = observer(() => {
         enabledAssetsCount={enabledAssets.length}
       />
 
+      {/* Retirement drawdown sustainability */}
+      <DrawdownSustainabilitySummary />
+
       {/* Global Settings */}
       <SharedInputs />
 
+      {/* Household members and ages */}
+      <HouseholdSettings />
+
+      {/* Avalanche/snowball planning across debts */}
+      <DebtPayoffPlanner />
+
+      {/* Saved scenarios side by side */}
+      <ScenarioComparisonView />
+
       {/* Asset Portfolio & Breakdown */}
       <AssetBreakdownSelector finalResult={finalResult} />
 
@@ -84,6 +122,7 @@ export const CombinedPortfolioView: React.FC = observer(() => {
                 data={chartData}
                 showNominal={portfolioStore.showNominal}
                 showReal={portfolioStore.showReal}
+                getAgeLabel={(year) => portfolioStore.household.getAgeLabel(year)}
               />
             </LoadingOverlay>
           )}
@@ -95,6 +134,9 @@ export const CombinedPortfolioView: React.FC = observer(() => {
           >
             <CombinedProjectionTable combinedResults={combinedResults} />
           </LoadingOverlay>
+
+          {/* Capital Gains Ledger */}
+          <CapitalGainsLedgerTable />
         </>
       )}
     </div>
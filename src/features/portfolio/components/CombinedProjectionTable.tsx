@@ -4,6 +4,7 @@ import type { CombinedResult } from '../stores/PortfolioStore';
 import { usePortfolioStore } from '@/features/core/stores/hooks';
 import { FinancialTable } from '@/features/shared/components/tables';
 import { type ColumnDefinition, type DualValueColumn } from '@/features/shared/components/tables/types';
+import { formatCurrency } from '@/features/shared/utils/formatCurrency';
 
 interface CombinedProjectionTableProps {
   combinedResults: CombinedResult[];
@@ -34,6 +35,16 @@ export const CombinedProjectionTable: React.FC<CombinedProjectionTableProps> = o
     }
   ];
 
+  if (portfolioStore.household.hasAges) {
+    columns.push({
+      key: 'age',
+      label: portfolioStore.household.ageLabelHeading,
+      type: 'text',
+      alignment: 'left',
+      formatter: (_value, row) => portfolioStore.household.getAgeLabel(row.displayYear)
+    });
+  }
+
   // Define dual-value columns
   const dualValueColumns: DualValueColumn[] = [
     {
@@ -45,6 +56,14 @@ export const CombinedProjectionTable: React.FC<CombinedProjectionTableProps> = o
       alignment: 'right',
       colorize: () => 'font-semibold text-blue-900 dark:text-blue-100'
     },
+    {
+      key: 'afterTaxWealth',
+      label: 'After-Tax Value',
+      nominalKey: 'totalAfterTaxBalance',
+      realKey: 'totalRealAfterTaxBalance',
+      type: 'currency',
+      alignment: 'right'
+    },
     {
       key: 'investmentBalance',
       label: 'Investment Balance',
@@ -71,6 +90,30 @@ export const CombinedProjectionTable: React.FC<CombinedProjectionTableProps> = o
     }
   ];
 
+  if (combinedResults.some(result => result.totalDrawdownWithdrawal > 0)) {
+    dualValueColumns.push({
+      key: 'drawdownWithdrawal',
+      label: 'Retirement Withdrawals',
+      nominalKey: 'totalDrawdownWithdrawal',
+      realKey: 'totalRealDrawdownWithdrawal',
+      type: 'currency',
+      alignment: 'right'
+    });
+  }
+
+  if (portfolioStore.enabledBudgets.length > 0) {
+    dualValueColumns.push({
+      key: 'budgetSurplus',
+      label: 'Budget Surplus',
+      nominalKey: 'totalBudgetSurplus',
+      realKey: 'totalRealBudgetSurplus',
+      type: 'currency',
+      alignment: 'right',
+      formatter: (value) => formatCurrency(value, { showPositiveSign: true }),
+      colorize: (value) => value >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+    });
+  }
+
   // Add mortgage debt as a single column
   const mortgageColumn: ColumnDefinition = {
     key: 'totalMortgageBalance',
@@ -80,6 +123,15 @@ export const CombinedProjectionTable: React.FC<CombinedProjectionTableProps> = o
     colorize: () => 'text-red-600 dark:text-red-400'
   };
 
+  // Other debts are already subtracted from net wealth
+  const debtColumns: ColumnDefinition[] = portfolioStore.enabledDebts.length > 0 ? [{
+    key: 'totalDebtBalance',
+    label: 'Other Debt',
+    type: 'currency',
+    alignment: 'right',
+    colorize: () => 'text-red-600 dark:text-red-400'
+  }] : [];
+
   const icon = (
     <svg className="w-6 h-6 text-primary-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
@@ -90,7 +142,7 @@ export const CombinedProjectionTable: React.FC<CombinedProjectionTableProps> = o
     <div className="mt-6">
       <FinancialTable
         data={transformedData}
-        columns={[...columns, mortgageColumn]}
+        columns={[...columns, mortgageColumn, ...debtColumns]}
         dualValueColumns={dualValueColumns}
         title="Net Wealth Projection Table"
         icon={icon}
@@ -0,0 +1,92 @@
+import { observer } from 'mobx-react-lite';
+import React from 'react';
+import { usePortfolioStore } from '@/features/core/stores/hooks';
+import { DebtPayoffCalculator, type DebtPayoffStrategy } from '@/features/debt/calculators/DebtPayoffCalculator';
+import { CollapsibleSection } from '@/features/shared/components/CollapsibleSection';
+import { CurrencyDisplay } from '@/features/shared/components/CurrencyDisplay';
+import { ValidatedCurrencyInput, ValidatedSelectInput } from '@/features/shared/components/forms';
+
+const STRATEGY_OPTIONS = (Object.keys(DebtPayoffCalculator.STRATEGY_LABELS) as DebtPayoffStrategy[]).map(strategy => ({
+  value: strategy,
+  label: DebtPayoffCalculator.STRATEGY_LABELS[strategy]
+}));
+
+export const DebtPayoffPlanner: React.FC = observer(() => {
+  const portfolioStore = usePortfolioStore();
+  const debts = portfolioStore.enabledDebts;
+
+  if (debts.length === 0) {
+    return null;
+  }
+
+  const startingYear = parseInt(portfolioStore.startingYear) || new Date().getFullYear();
+  const formatMonth = (month: number | null) => month === null
+    ? 'Not in projection'
+    : `${startingYear + Math.ceil(month / 12)} (${month} mo)`;
+
+  const icon = (
+    <svg className="w-6 h-6 text-primary-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
+    </svg>
+  );
+
+  return (
+    <CollapsibleSection title="Debt Payoff Planner" icon={icon} defaultExpanded={false}>
+      <div className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <ValidatedSelectInput
+            label="Payoff Strategy"
+            value={portfolioStore.debtPayoffStrategy}
+            onChange={(value) => portfolioStore.setDebtPayoffStrategy(value as DebtPayoffStrategy)}
+            options={STRATEGY_OPTIONS}
+            fieldName="debtPayoffStrategy"
+            helpText="Avalanche and snowball roll the payments of repaid debts into the next target"
+          />
+
+          <ValidatedCurrencyInput
+            label="Extra Monthly Payment"
+            value={portfolioStore.debtExtraPayment}
+            onChange={portfolioStore.setDebtExtraPayment}
+            fieldName="debtPlannerExtraPayment"
+            helpText="Paid on top of every debt's own payments, to the strategy's target debt"
+          />
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 dark:text-gray-400">
+                <th className="py-2 pr-4 font-semibold">Strategy</th>
+                <th className="py-2 pr-4 font-semibold text-right">Total Interest</th>
+                <th className="py-2 font-semibold text-right">Debt-Free</th>
+              </tr>
+            </thead>
+            <tbody className="text-gray-900 dark:text-white">
+              {portfolioStore.debtStrategyComparison.map(summary => (
+                <tr
+                  key={summary.strategy}
+                  className={`border-t border-gray-200 dark:border-gray-700 ${summary.strategy === portfolioStore.debtPayoffStrategy ? 'font-semibold' : ''}`}
+                >
+                  <td className="py-2 pr-4">{DebtPayoffCalculator.STRATEGY_LABELS[summary.strategy]}</td>
+                  <td className="py-2 pr-4 text-right">
+                    <CurrencyDisplay amount={Math.round(summary.totalInterest)} />
+                  </td>
+                  <td className="py-2 text-right">{formatMonth(summary.debtFreeMonth)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <ul className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+          {debts.map(debt => (
+            <li key={debt.id} className="flex justify-between">
+              <span>{debt.name} ({debt.inputs.apr || '0'}% APR)</span>
+              <span>{formatMonth(debt.payoffSchedule.payoffMonth)}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </CollapsibleSection>
+  );
+});
@@ -0,0 +1,37 @@
+import { observer } from 'mobx-react-lite';
+import React from 'react';
+import { usePortfolioStore } from '@/features/core/stores/hooks';
+
+export const DrawdownSustainabilitySummary: React.FC = observer(() => {
+  const portfolioStore = usePortfolioStore();
+  const sustainability = portfolioStore.drawdownSustainability;
+
+  if (!sustainability) {
+    return null;
+  }
+
+  const finalYear = (parseInt(portfolioStore.startingYear) || new Date().getFullYear()) + (parseInt(portfolioStore.years) || 0);
+  const runsOut = sustainability.depletionYear !== null;
+
+  return (
+    <div className={`mt-6 p-4 rounded-lg border ${runsOut
+      ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-700'
+      : 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-700'}`}>
+      <h3 className={`text-lg font-semibold ${runsOut ? 'text-red-800 dark:text-red-200' : 'text-green-800 dark:text-green-200'}`}>
+        {runsOut
+          ? `Retirement withdrawals run out in ${sustainability.depletionYear}`
+          : `Retirement withdrawals last through ${finalYear}`}
+      </h3>
+      <ul className="mt-2 space-y-1 text-sm text-gray-700 dark:text-gray-300">
+        {sustainability.investments.map(investment => (
+          <li key={investment.assetId} className="flex justify-between">
+            <span>{investment.assetName} (from {investment.retirementYear})</span>
+            <span className={investment.depletionYear !== null ? 'font-medium text-red-600 dark:text-red-400' : ''}>
+              {investment.depletionYear !== null ? `Runs out in ${investment.depletionYear}` : 'Sustainable'}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+});
@@ -0,0 +1,35 @@
+import { observer } from 'mobx-react-lite';
+import React from 'react';
+import { usePortfolioStore } from '@/features/core/stores/hooks';
+
+export const LoadIssuesNotice: React.FC = observer(() => {
+  const portfolioStore = usePortfolioStore();
+  const { loadIssues } = portfolioStore;
+
+  if (loadIssues.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 mb-6">
+      <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-4 flex items-start justify-between gap-4">
+        <div>
+          <p className="text-sm font-semibold text-amber-800 dark:text-amber-200">
+            Some of your saved portfolio could not be loaded as saved
+          </p>
+          <ul className="mt-1 text-sm text-amber-700 dark:text-amber-300 list-disc list-inside">
+            {loadIssues.map((issue, index) => (
+              <li key={index}>{issue}</li>
+            ))}
+          </ul>
+        </div>
+        <button
+          onClick={portfolioStore.clearLoadIssues}
+          className="text-sm text-amber-700 dark:text-amber-300 hover:underline flex-shrink-0"
+        >
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+});
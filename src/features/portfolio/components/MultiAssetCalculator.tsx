@@ -3,10 +3,12 @@ import React from 'react';
 import { usePortfolioStore } from '@/features/core/stores/hooks';
 import { InvestmentAnalysis } from '@/features/investment/components/InvestmentAnalysis';
 import { PropertyAssetAnalysis } from '@/features/property/components/PropertyAssetAnalysis';
+import { BudgetAnalysis } from '@/features/budget/components/BudgetAnalysis';
+import { DebtAnalysis } from '@/features/debt/components/DebtAnalysis';
 import { DisplayOptions } from '@/features/shared/components/DisplayOptions';
 import { CombinedPortfolioView } from './CombinedPortfolioView';
 import { TabBar } from '../navigation/TabBar';
-import { isInvestment, isProperty } from '@/features/portfolio/factories/AssetFactory';
+import { isBudget, isDebt, isInvestment, isProperty } from '@/features/portfolio/factories/AssetFactory';
 
 export const MultiAssetCalculator: React.FC = observer(() => {
   const portfolioStore = usePortfolioStore();
@@ -33,6 +35,10 @@ export const MultiAssetCalculator: React.FC = observer(() => {
             <PropertyAssetAnalysis asset={activeAsset} />
           ) : isInvestment(activeAsset) ? (
             <InvestmentAnalysis asset={activeAsset} />
+          ) : isBudget(activeAsset) ? (
+            <BudgetAnalysis asset={activeAsset} />
+          ) : isDebt(activeAsset) ? (
+            <DebtAnalysis asset={activeAsset} />
           ) : null
         ) : (
           <div className="text-center py-12">
@@ -77,6 +77,11 @@ export const PortfolioSummary: React.FC<PortfolioSummaryProps> = observer(({ fin
               </p>
             </>
           )}
+          {!isLoading && (
+            <p className="text-xs text-blue-600 dark:text-blue-400 mt-1">
+              After tax: <CurrencyDisplay amount={finalResult.totalAfterTaxBalance} className="inline" />
+            </p>
+          )}
         </div>
 
         {/* Investment Balance */}
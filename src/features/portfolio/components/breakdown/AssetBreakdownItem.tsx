@@ -3,12 +3,22 @@ import { observer } from 'mobx-react-lite';
 import { Investment } from '@/features/investment/stores/Investment';
 import { Property } from '@/features/property/stores/Property';
 import type { CombinedResult } from '@/features/portfolio/stores/PortfolioStore';
+import type { Asset } from '@/features/portfolio/factories/AssetFactory';
 import { AssetLinkingIndicator } from './AssetLinkingIndicator';
 import { InvestmentBreakdown } from './InvestmentBreakdown';
 import { PropertyBreakdown } from './PropertyBreakdown';
+import { BudgetBreakdown } from './BudgetBreakdown';
+import { DebtBreakdown } from './DebtBreakdown';
+
+const TYPE_BADGES: Record<Asset['type'], { label: string; className: string }> = {
+  investment: { label: 'Investment', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' },
+  property: { label: 'Property', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200' },
+  budget: { label: 'Budget', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200' },
+  debt: { label: 'Debt', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200' }
+};
 
 interface AssetBreakdownItemProps {
-  asset: Investment | Property;
+  asset: Asset;
   breakdown: CombinedResult['assetBreakdown'][0] | undefined;
   finalResult: CombinedResult | undefined;
   linkedInvestment?: Investment | null;
@@ -44,11 +54,8 @@ export const AssetBreakdownItem: React.FC<AssetBreakdownItemProps> = observer(({
             <div className="flex flex-col sm:flex-row sm:items-center gap-2">
               <div className="flex items-center gap-2">
                 <span className="text-gray-900 dark:text-white font-medium">{asset.name}</span>
-                <span className={`px-2 py-1 text-xs rounded-full ${asset.type === 'investment'
-                    ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
-                    : 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
-                  }`}>
-                  {asset.type === 'investment' ? 'Investment' : 'Property'}
+                <span className={`px-2 py-1 text-xs rounded-full ${TYPE_BADGES[asset.type].className}`}>
+                  {TYPE_BADGES[asset.type].label}
                 </span>
               </div>
 
@@ -80,6 +87,10 @@ export const AssetBreakdownItem: React.FC<AssetBreakdownItemProps> = observer(({
           <div className="text-sm text-gray-600 dark:text-gray-400">
             {breakdown.assetType === 'investment' ? (
               <InvestmentBreakdown breakdown={breakdown} linkedProperties={linkedProperties} />
+            ) : breakdown.assetType === 'budget' ? (
+              <BudgetBreakdown breakdown={breakdown} />
+            ) : breakdown.assetType === 'debt' ? (
+              <DebtBreakdown breakdown={breakdown} />
             ) : (
               <PropertyBreakdown breakdown={breakdown} />
             )}
@@ -0,0 +1,23 @@
+import React from 'react';
+import type { CombinedResult } from '@/features/portfolio/stores/PortfolioStore';
+
+interface BudgetBreakdownProps {
+  breakdown: CombinedResult['assetBreakdown'][0];
+}
+
+export const BudgetBreakdown: React.FC<BudgetBreakdownProps> = ({ breakdown }) => {
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between">
+        <span>Annual Surplus:</span>
+        <span className={breakdown.contribution >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+          ${breakdown.contribution.toLocaleString()}
+        </span>
+      </div>
+      <div className="flex justify-between font-medium">
+        <span>Cash Held:</span>
+        <span>${breakdown.balance.toLocaleString()}</span>
+      </div>
+    </div>
+  );
+};
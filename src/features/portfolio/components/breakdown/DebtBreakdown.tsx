@@ -0,0 +1,23 @@
+import React from 'react';
+import type { CombinedResult } from '@/features/portfolio/stores/PortfolioStore';
+
+interface DebtBreakdownProps {
+  breakdown: CombinedResult['assetBreakdown'][0];
+}
+
+export const DebtBreakdown: React.FC<DebtBreakdownProps> = ({ breakdown }) => {
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between font-medium">
+        <span>Amount Owed:</span>
+        <span className="text-red-600 dark:text-red-400">
+          ${Math.abs(breakdown.balance).toLocaleString()}
+        </span>
+      </div>
+      <div className="flex justify-between">
+        <span>Annual Payments:</span>
+        <span>${breakdown.contribution.toLocaleString()}</span>
+      </div>
+    </div>
+  );
+};
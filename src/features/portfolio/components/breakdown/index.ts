@@ -1,4 +1,7 @@
 export { AssetBreakdownItem } from './AssetBreakdownItem';
 export { AssetLinkingIndicator } from './AssetLinkingIndicator';
 export { InvestmentBreakdown } from './InvestmentBreakdown';
-export { PropertyBreakdown } from './PropertyBreakdown';
\ No newline at end of file
+export { PropertyBreakdown } from './PropertyBreakdown';
+export { BudgetBreakdown } from './BudgetBreakdown';
+
+export { DebtBreakdown } from './DebtBreakdown';
\ No newline at end of file
@@ -1,9 +1,11 @@
 import { Investment, type InvestmentInputs } from '@/features/investment/stores/Investment';
 import { Property, type PropertyInputs } from '@/features/property/stores/Property';
+import { Budget, type BudgetInputs } from '@/features/budget/stores/Budget';
+import { Debt, type DebtInputs } from '@/features/debt/stores/Debt';
 
 // Union type for all asset types
-export type Asset = Investment | Property;
-export type AssetType = 'investment' | 'property';
+export type Asset = Investment | Property | Budget | Debt;
+export type AssetType = 'investment' | 'property' | 'budget' | 'debt';
 
 // Type guards for runtime type checking
 export function isInvestment(asset: Asset): asset is Investment {
@@ -14,15 +16,29 @@ export function isProperty(asset: Asset): asset is Property {
   return asset instanceof Property;
 }
 
+export function isBudget(asset: Asset): asset is Budget {
+  return asset instanceof Budget;
+}
+
+export function isDebt(asset: Asset): asset is Debt {
+  return asset instanceof Debt;
+}
+
 // Factory function overloads for type safety
 export function createAsset(type: 'investment', name?: string, inputs?: Partial<InvestmentInputs>): Investment;
 export function createAsset(type: 'property', name?: string, inputs?: Partial<PropertyInputs>): Property;
-export function createAsset(type: AssetType, name?: string, inputs?: Partial<InvestmentInputs> | Partial<PropertyInputs>): Asset {
+export function createAsset(type: 'budget', name?: string, inputs?: Partial<BudgetInputs>): Budget;
+export function createAsset(type: 'debt', name?: string, inputs?: Partial<DebtInputs>): Debt;
+export function createAsset(type: AssetType, name?: string, inputs?: Partial<InvestmentInputs> | Partial<PropertyInputs> | Partial<BudgetInputs> | Partial<DebtInputs>): Asset {
   switch (type) {
     case 'investment':
-      return new Investment(name, inputs);
+      return new Investment(name, inputs as Partial<InvestmentInputs>);
     case 'property':
-      return new Property(name, inputs);
+      return new Property(name, inputs as Partial<PropertyInputs>);
+    case 'budget':
+      return new Budget(name, inputs as Partial<BudgetInputs>);
+    case 'debt':
+      return new Debt(name, inputs as Partial<DebtInputs>);
     default:
       throw new Error(`Unknown asset type: ${type}`);
   }
@@ -35,6 +51,10 @@ export function createAssetFromJSON(data: Record<string, unknown>): Asset {
       return Investment.fromJSON(data as Parameters<typeof Investment.fromJSON>[0]);
     case 'property':
       return Property.fromJSON(data as Parameters<typeof Property.fromJSON>[0]);
+    case 'budget':
+      return Budget.fromJSON(data as Parameters<typeof Budget.fromJSON>[0]);
+    case 'debt':
+      return Debt.fromJSON(data as Parameters<typeof Debt.fromJSON>[0]);
     default:
       throw new Error(`Unknown asset type: ${data.type}`);
   }
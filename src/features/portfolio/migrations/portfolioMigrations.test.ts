@@ -0,0 +1,245 @@
+import { migratePortfolioData, PORTFOLIO_MIGRATIONS, PORTFOLIO_SCHEMA_VERSION } from './portfolioMigrations';
+
+// Saved shapes as written by earlier versions of the app
+const splitListsFixture = {
+  investments: [
+    { id: 'inv-1', name: 'Brokerage', enabled: true, inputs: { initialAmount: '10000' } }
+  ],
+  properties: [
+    { id: 'prop-1', name: 'Rental', enabled: true, inputs: { purchasePrice: '400000', annualExpenses: '8000' } }
+  ],
+  settings: { years: '20', inflationRate: '3', startingYear: '2020', showNominal: true, showReal: false }
+};
+
+const unversionedFixture = {
+  assets: [
+    { id: 'inv-1', name: 'Brokerage', type: 'investment', enabled: true, inputs: { initialAmount: '10000' } },
+    { id: 'prop-1', name: 'Rental', type: 'property', enabled: false, inputs: { purchasePrice: '500000', annualExpenses: '10000', maintenanceRate: '3' } }
+  ],
+  years: '10',
+  inflationRate: '2.5',
+  startingYear: '2023',
+  activeTabId: 'prop-1'
+};
+
+const version2Fixture = {
+  schemaVersion: 2,
+  assets: [
+    { id: 'prop-1', name: 'Home', type: 'property', enabled: true, inputs: { purchasePrice: '400000', maintenanceRate: '1.5' } }
+  ],
+  years: '15',
+  inflationRate: '2',
+  startingYear: '2024'
+};
+
+const currentFixture = {
+  schemaVersion: PORTFOLIO_SCHEMA_VERSION,
+  assets: [
+    { id: 'debt-1', name: 'Car loan', type: 'debt', enabled: true, inputs: { balance: '20000' } }
+  ],
+  years: '10',
+  inflationRate: '2.5',
+  startingYear: '2025',
+  household: { members: [{ id: 'm-1', name: 'Alex', birthYear: '1980' }] },
+  debtPayoff: { strategy: 'avalanche', extraPayment: '200' }
+};
+
+describe('portfolioMigrations', () => {
+  it('lists migrations in ascending version order ending at the current version', () => {
+    const versions = PORTFOLIO_MIGRATIONS.map(migration => migration.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+    expect(versions[versions.length - 1]).toBe(PORTFOLIO_SCHEMA_VERSION);
+  });
+
+  describe('historic shapes', () => {
+    it('upgrades separate investment and property lists', () => {
+      const { data, fromVersion, repairs } = migratePortfolioData(splitListsFixture);
+
+      expect(fromVersion).toBe(0);
+      expect(repairs).toEqual([]);
+      expect(data).toMatchObject({
+        schemaVersion: PORTFOLIO_SCHEMA_VERSION,
+        years: '20',
+        inflationRate: '3',
+        startingYear: '2020',
+        showReal: false,
+        household: { members: [] },
+        debtPayoff: { strategy: 'minimum', extraPayment: '0' }
+      });
+      expect(data).not.toHaveProperty('investments');
+      expect(data).not.toHaveProperty('settings');
+      expect((data.assets as { type: string }[]).map(asset => asset.type)).toEqual(['investment', 'property']);
+      // $8k of expenses on a $400k purchase
+      expect((data.assets as { inputs: Record<string, unknown> }[])[1].inputs).toEqual({ purchasePrice: '400000', maintenanceRate: '2' });
+    });
+
+    it('upgrades unversioned single-document saves', () => {
+      const { data, fromVersion } = migratePortfolioData(unversionedFixture);
+
+      expect(fromVersion).toBe(0);
+      expect(data.activeTabId).toBe('prop-1');
+      // An existing maintenance rate wins over the old flat expenses
+      expect((data.assets as { inputs: Record<string, unknown> }[])[1].inputs).toEqual({ purchasePrice: '500000', maintenanceRate: '3' });
+      expect(data.household).toEqual({ members: [] });
+    });
+
+    it('upgrades version 2 saves without a household', () => {
+      const { data, fromVersion, repairs } = migratePortfolioData(version2Fixture);
+
+      expect(fromVersion).toBe(2);
+      expect(repairs).toEqual([]);
+      expect(data.assets).toEqual(version2Fixture.assets);
+      expect(data.debtPayoff).toEqual({ strategy: 'minimum', extraPayment: '0' });
+    });
+
+    it('replaces the old shared default Monte Carlo seed', () => {
+      const monteCarloAsset = (id: string, seed: string) => ({
+        id, name: id, type: 'investment', enabled: true, inputs: { monteCarloConfig: { enabled: true, seed } }
+      });
+      const { data } = migratePortfolioData({ ...currentFixture, schemaVersion: 3, assets: [monteCarloAsset('a', '42'), monteCarloAsset('b', '7')] });
+
+      expect((data.assets as { inputs: { monteCarloConfig: { seed: string } } }[]).map(asset => asset.inputs.monteCarloConfig.seed))
+        .toEqual(['', '7']);
+    });
+
+    it('leaves current saves unchanged', () => {
+      const { data, fromVersion, repairs } = migratePortfolioData(currentFixture);
+
+      expect(fromVersion).toBe(PORTFOLIO_SCHEMA_VERSION);
+      expect(repairs).toEqual([]);
+      expect(data).toEqual(currentFixture);
+    });
+
+    it('does not modify the saved document', () => {
+      const saved = JSON.parse(JSON.stringify(splitListsFixture));
+      migratePortfolioData(saved);
+      expect(saved).toEqual(splitListsFixture);
+    });
+  });
+
+  describe('validation', () => {
+    it('rejects documents that are not objects', () => {
+      expect(() => migratePortfolioData(null)).toThrow('Saved portfolio is not a valid document');
+      expect(() => migratePortfolioData([])).toThrow('Saved portfolio is not a valid document');
+      expect(() => migratePortfolioData('assets')).toThrow('Saved portfolio is not a valid document');
+    });
+
+    it('rejects unknown and newer schema versions', () => {
+      expect(() => migratePortfolioData({ schemaVersion: 'two', assets: [] })).toThrow('invalid schema version');
+      expect(() => migratePortfolioData({ schemaVersion: PORTFOLIO_SCHEMA_VERSION + 1, assets: [] }))
+        .toThrow('newer than this app supports');
+    });
+
+    it('drops assets that cannot be loaded', () => {
+      const { data, repairs } = migratePortfolioData({
+        schemaVersion: PORTFOLIO_SCHEMA_VERSION,
+        assets: [
+          'not an asset',
+          { name: 'No id', type: 'investment', inputs: {} },
+          { id: 'a', name: 'Crypto', type: 'crypto', inputs: {} },
+          { id: 'b', name: 'Brokerage', type: 'investment', enabled: true, inputs: {} },
+          { id: 'b', name: 'Copy', type: 'investment', enabled: true, inputs: {} }
+        ]
+      });
+
+      expect((data.assets as { id: string }[]).map(asset => asset.id)).toEqual(['b']);
+      expect(repairs).toEqual([
+        'Removed asset 1: missing id',
+        'Removed asset 2: missing id',
+        'Removed asset "Crypto": unknown type crypto',
+        'Removed asset "Copy": duplicate id'
+      ]);
+    });
+
+    it('fills missing asset fields', () => {
+      const { data, repairs } = migratePortfolioData({
+        schemaVersion: PORTFOLIO_SCHEMA_VERSION,
+        assets: [{ id: 'a', type: 'budget', inputs: 'broken' }]
+      });
+
+      expect(data.assets).toEqual([{ id: 'a', type: 'budget', name: 'Untitled', enabled: true, inputs: {} }]);
+      expect(repairs).toEqual(['Reset inputs of asset "a" to defaults']);
+    });
+
+    it('resets nested asset inputs of the wrong type', () => {
+      const { data, repairs } = migratePortfolioData({
+        schemaVersion: PORTFOLIO_SCHEMA_VERSION,
+        assets: [
+          {
+            id: 'p', name: 'Rental', type: 'property', enabled: true,
+            inputs: { refinances: 'x', lumpSumPayments: [{ year: '2', amount: '500' }, 7], saleConfig: [] }
+          },
+          { id: 'i', name: 'Brokerage', type: 'investment', enabled: true, inputs: { drawdownConfig: null, monteCarloConfig: 3 } },
+          { id: 'b', name: 'Budget', type: 'budget', enabled: true, inputs: { goals: {} } }
+        ]
+      });
+
+      const [property, investment, budget] = (data.assets as { inputs: Record<string, unknown> }[]).map(asset => asset.inputs);
+      expect(property).toEqual({ refinances: [], lumpSumPayments: [{ year: '2', amount: '500' }] });
+      expect(investment).toEqual({});
+      expect(budget).toEqual({ goals: [] });
+      expect(repairs).toEqual([
+        'Removed invalid lumpSumPayments of asset "Rental"',
+        'Reset refinances of asset "Rental"',
+        'Reset saleConfig of asset "Rental" to defaults',
+        'Reset drawdownConfig of asset "Brokerage" to defaults',
+        'Reset monteCarloConfig of asset "Brokerage" to defaults',
+        'Reset goals of asset "Budget"'
+      ]);
+    });
+
+    it('clears life events that cannot be resolved', () => {
+      const retirement = { memberId: 'm-1', event: 'retirement', age: '' };
+      const { data, repairs } = migratePortfolioData({
+        schemaVersion: PORTFOLIO_SCHEMA_VERSION,
+        assets: [
+          {
+            id: 'i', name: 'Brokerage', type: 'investment', enabled: true,
+            inputs: { contributionStopEvent: 'retirement', drawdownConfig: { enabled: true, retirementEvent: retirement } }
+          },
+          {
+            id: 'p', name: 'Rental', type: 'property', enabled: true,
+            inputs: { saleConfig: { isPlannedForSale: true, saleEvent: { memberId: 'm-1', event: 'lottery' } } }
+          },
+          { id: 'b', name: 'Budget', type: 'budget', enabled: true, inputs: { incomeEndEvent: { event: 'retirement' } } }
+        ]
+      });
+
+      const [investment, property, budget] = (data.assets as { inputs: Record<string, unknown> }[]).map(asset => asset.inputs);
+      expect(investment).toEqual({ contributionStopEvent: null, drawdownConfig: { enabled: true, retirementEvent: retirement } });
+      expect(property).toEqual({ saleConfig: { isPlannedForSale: true, saleEvent: null } });
+      expect(budget).toEqual({ incomeEndEvent: null });
+      expect(repairs).toEqual([
+        'Cleared invalid contributionStopEvent of asset "Brokerage"',
+        'Cleared invalid saleEvent of asset "Rental"',
+        'Cleared invalid incomeEndEvent of asset "Budget"'
+      ]);
+    });
+
+    it('repairs settings', () => {
+      const { data, repairs } = migratePortfolioData({
+        schemaVersion: PORTFOLIO_SCHEMA_VERSION,
+        assets: {},
+        years: 12,
+        inflationRate: { value: 3 },
+        household: { members: [{ id: 'm-1', name: 'Alex' }, null] },
+        debtPayoff: { strategy: 'toString', extraPayment: '50' }
+      });
+
+      expect(data).toMatchObject({
+        assets: [],
+        years: '12',
+        household: { members: [{ id: 'm-1', name: 'Alex' }] },
+        debtPayoff: { strategy: 'minimum', extraPayment: '50' }
+      });
+      expect(data).not.toHaveProperty('inflationRate');
+      expect(repairs).toEqual([
+        'Ignored invalid inflationRate',
+        'Removed invalid household members',
+        'Reset debt payoff settings',
+        'Asset list was not a list and was emptied'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { DebtPayoffCalculator } from '@/features/debt/calculators/DebtPayoffCalculator';
+import { Household } from '@/features/household/stores/Household';
+
+type PortfolioDocument = Record<string, unknown>;
+
+export interface PortfolioMigration {
+  // Version the document has after this step
+  version: number;
+  description: string;
+  migrate: (data: PortfolioDocument) => PortfolioDocument;
+}
+
+export interface MigratedPortfolio {
+  data: PortfolioDocument;
+  // Version the document was saved with (0 = before versioning)
+  fromVersion: number;
+  // Fixes applied to malformed parts of the document
+  repairs: string[];
+}
+
+const ASSET_TYPES = ['investment', 'property', 'budget', 'debt'];
+
+// Nested asset inputs that the asset classes expect to be lists or settings objects
+const LIST_INPUTS = ['lumpSumPayments', 'refinances', 'goals'];
+const SETTINGS_INPUTS = ['saleConfig', 'drawdownConfig', 'monteCarloConfig'];
+
+const LIFE_EVENT_TYPES = Object.keys(Household.LIFE_EVENT_LABELS);
+
+const isRecord = (value: unknown): value is PortfolioDocument =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asArray = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+// Unset, or a member and an event the household can resolve
+const isLifeEventReference = (value: unknown): boolean =>
+  value === null || value === undefined || (
+    isRecord(value) && typeof value.memberId === 'string' && LIFE_EVENT_TYPES.includes(value.event as string)
+  );
+
+/**
+ * Ordered upgrade steps for saved portfolios. Each step takes a document of
+ * the previous version; never edit a released step, add a new one instead.
+ */
+export const PORTFOLIO_MIGRATIONS: PortfolioMigration[] = [
+  {
+    version: 1,
+    description: 'Combine separate investment and property lists into one asset list with top-level settings',
+    migrate: (data) => {
+      if (Array.isArray(data.assets)) return data;
+
+      const { investments, properties, settings, ...rest } = data;
+      const assets = [
+        ...asArray(investments).map(asset => isRecord(asset) ? { ...asset, type: 'investment' } : asset),
+        ...asArray(properties).map(asset => isRecord(asset) ? { ...asset, type: 'property' } : asset)
+      ];
+      return { ...(isRecord(settings) ? settings : {}), ...rest, assets };
+    }
+  },
+  {
+    version: 2,
+    description: 'Replace flat property annualExpenses with a maintenanceRate percentage of the purchase price',
+    migrate: (data) => ({
+      ...data,
+      assets: asArray(data.assets).map(asset => {
+        if (!isRecord(asset) || asset.type !== 'property' || !isRecord(asset.inputs)) return asset;
+
+        const { annualExpenses, ...inputs } = asset.inputs;
+        if (annualExpenses && !inputs.maintenanceRate) {
+          const expenses = parseFloat(String(annualExpenses)) || 8000;
+          const purchasePrice = parseFloat(String(inputs.purchasePrice || '500000')) || 500000;
+          inputs.maintenanceRate = String(Math.min(10, Math.max(0.5, (expenses / purchasePrice) * 100)));
+        }
+        return { ...asset, inputs };
+      })
+    })
+  },
+  {
+    version: 3,
+    description: 'Add the household and debt payoff settings',
+    migrate: (data) => ({
+      ...data,
+      household: data.household ?? { members: [] },
+      debtPayoff: data.debtPayoff ?? { strategy: 'minimum', extraPayment: '0' }
+    })
+  },
+  {
+    version: 4,
+    description: 'Replace the shared default Monte Carlo seed with one derived from each investment',
+    migrate: (data) => ({
+      ...data,
+      assets: asArray(data.assets).map(asset => {
+        if (!isRecord(asset) || !isRecord(asset.inputs) || !isRecord(asset.inputs.monteCarloConfig)) return asset;
+        if (asset.inputs.monteCarloConfig.seed !== '42') return asset;
+
+        return { ...asset, inputs: { ...asset.inputs, monteCarloConfig: { ...asset.inputs.monteCarloConfig, seed: '' } } };
+      })
+    })
+  }
+];
+
+export const PORTFOLIO_SCHEMA_VERSION = PORTFOLIO_MIGRATIONS[PORTFOLIO_MIGRATIONS.length - 1].version;
+
+// Nested lists and settings of the wrong type fall back to their defaults and
+// life events that can't be resolved are cleared
+function repairInputs(inputs: PortfolioDocument, label: string, repairs: string[]): PortfolioDocument {
+  const repaired = { ...inputs };
+
+  for (const key of LIST_INPUTS) {
+    const value = repaired[key];
+    if (value === undefined) continue;
+    if (!Array.isArray(value)) {
+      repairs.push(`Reset ${key} of asset "${label}"`);
+      repaired[key] = [];
+    } else if (!value.every(isRecord)) {
+      repairs.push(`Removed invalid ${key} of asset "${label}"`);
+      repaired[key] = value.filter(isRecord);
+    }
+  }
+
+  for (const key of SETTINGS_INPUTS) {
+    if (repaired[key] !== undefined && !isRecord(repaired[key])) {
+      repairs.push(`Reset ${key} of asset "${label}" to defaults`);
+      delete repaired[key];
+    }
+  }
+
+  for (const key of ['contributionStopEvent', 'incomeEndEvent']) {
+    if (!isLifeEventReference(repaired[key])) {
+      repairs.push(`Cleared invalid ${key} of asset "${label}"`);
+      repaired[key] = null;
+    }
+  }
+  for (const [configKey, eventKey] of [['saleConfig', 'saleEvent'], ['drawdownConfig', 'retirementEvent']]) {
+    const config = repaired[configKey];
+    if (isRecord(config) && !isLifeEventReference(config[eventKey])) {
+      repairs.push(`Cleared invalid ${eventKey} of asset "${label}"`);
+      repaired[configKey] = { ...config, [eventKey]: null };
+    }
+  }
+
+  return repaired;
+}
+
+// Keep only assets that can be loaded; fill harmless gaps
+function repairAssets(data: PortfolioDocument, repairs: string[]): unknown[] {
+  if (data.assets !== undefined && !Array.isArray(data.assets)) {
+    repairs.push('Asset list was not a list and was emptied');
+    return [];
+  }
+
+  const seenIds = new Set<string>();
+  return asArray(data.assets).flatMap((asset, index) => {
+    if (!isRecord(asset) || typeof asset.id !== 'string' || asset.id === '') {
+      repairs.push(`Removed asset ${index + 1}: missing id`);
+      return [];
+    }
+    if (!ASSET_TYPES.includes(asset.type as string)) {
+      repairs.push(`Removed asset "${asset.name ?? asset.id}": unknown type ${String(asset.type)}`);
+      return [];
+    }
+    if (seenIds.has(asset.id)) {
+      repairs.push(`Removed asset "${asset.name ?? asset.id}": duplicate id`);
+      return [];
+    }
+    seenIds.add(asset.id);
+
+    const repaired = { ...asset };
+    if (!isRecord(repaired.inputs)) {
+      repairs.push(`Reset inputs of asset "${asset.name ?? asset.id}" to defaults`);
+      repaired.inputs = {};
+    } else {
+      repaired.inputs = repairInputs(repaired.inputs, String(asset.name ?? asset.id), repairs);
+    }
+    if (typeof repaired.name !== 'string') {
+      repaired.name = 'Untitled';
+    }
+    if (typeof repaired.enabled !== 'boolean') {
+      repaired.enabled = true;
+    }
+    return [repaired];
+  });
+}
+
+// Settings are kept as strings; numbers are converted and anything else is dropped.
+// Missing settings get defaults without being reported as repairs.
+function repairSettings(data: PortfolioDocument, repairs: string[]): PortfolioDocument {
+  const repaired: PortfolioDocument = { ...data };
+
+  for (const key of ['years', 'inflationRate', 'startingYear']) {
+    const value = repaired[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      repaired[key] = String(value);
+    } else if (value !== undefined && typeof value !== 'string') {
+      repairs.push(`Ignored invalid ${key}`);
+      delete repaired[key];
+    }
+  }
+
+  if (!isRecord(repaired.household) || !Array.isArray(repaired.household.members)) {
+    if (repaired.household !== undefined) repairs.push('Reset the household');
+    repaired.household = { members: [] };
+  } else {
+    const members = repaired.household.members.filter(isRecord);
+    if (members.length !== repaired.household.members.length) {
+      repairs.push('Removed invalid household members');
+    }
+    repaired.household = { ...repaired.household, members };
+  }
+
+  const debtPayoff = isRecord(repaired.debtPayoff) ? repaired.debtPayoff : {};
+  const hasValidStrategy = Object.keys(DebtPayoffCalculator.STRATEGY_LABELS).includes(debtPayoff.strategy as string);
+  if (!hasValidStrategy || typeof debtPayoff.extraPayment !== 'string') {
+    if (repaired.debtPayoff !== undefined) repairs.push('Reset debt payoff settings');
+    repaired.debtPayoff = {
+      strategy: hasValidStrategy ? debtPayoff.strategy : 'minimum',
+      extraPayment: typeof debtPayoff.extraPayment === 'string' ? debtPayoff.extraPayment : '0'
+    };
+  }
+
+  return repaired;
+}
+
+/**
+ * Upgrade a saved portfolio to the current schema and repair what can be
+ * repaired. Throws when the document cannot be used at all: it is not an
+ * object, or it was saved by a newer version of the app.
+ */
+export function migratePortfolioData(raw: unknown): MigratedPortfolio {
+  if (!isRecord(raw)) {
+    throw new Error('Saved portfolio is not a valid document');
+  }
+
+  const fromVersion = raw.schemaVersion === undefined ? 0 : Number(raw.schemaVersion);
+  if (!Number.isInteger(fromVersion) || fromVersion < 0) {
+    throw new Error(`Saved portfolio has an invalid schema version: ${String(raw.schemaVersion)}`);
+  }
+  if (fromVersion > PORTFOLIO_SCHEMA_VERSION) {
+    throw new Error(`Saved portfolio uses schema version ${fromVersion}, newer than this app supports (${PORTFOLIO_SCHEMA_VERSION})`);
+  }
+
+  const migrated = PORTFOLIO_MIGRATIONS
+    .filter(migration => migration.version > fromVersion)
+    .reduce((data, migration) => migration.migrate(data), raw);
+
+  const repairs: string[] = [];
+  const data = repairSettings(migrated, repairs);
+  data.assets = repairAssets(migrated, repairs);
+  data.schemaVersion = PORTFOLIO_SCHEMA_VERSION;
+
+  return { data, fromVersion, repairs };
+}
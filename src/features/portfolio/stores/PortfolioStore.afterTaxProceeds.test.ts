@@ -102,7 +102,7 @@ describe('PortfolioStore - After-Tax Proceeds Integration', () => {
     expect(capitalGain).toBeGreaterThan(0);
     expect(federalTax).toBeGreaterThan(0);
     expect(stateTax).toBeGreaterThan(0);
-    expect(totalTax).toBe(federalTax + stateTax);
+    expect(totalTax).toBeCloseTo(federalTax + property.netInvestmentIncomeTax + stateTax, 2);
 
     // Verify that saleProceeds in the result uses after-tax amount
     expect(saleYearResult.saleProceeds).toBeCloseTo(netAfterTax, 2);
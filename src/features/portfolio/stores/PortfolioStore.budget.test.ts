@@ -0,0 +1,114 @@
+import { RootStore } from '@/features/core/stores/RootStore';
+import { PortfolioStore } from './PortfolioStore';
+import { Investment } from '@/features/investment/stores/Investment';
+import { Budget } from '@/features/budget/stores/Budget';
+
+describe('PortfolioStore - Budget', () => {
+  let rootStore: RootStore;
+  let portfolioStore: PortfolioStore;
+  let investment: Investment;
+  let budget: Budget;
+
+  beforeEach(() => {
+    localStorage.clear();
+    rootStore = new RootStore();
+    portfolioStore = rootStore.portfolioStore;
+    portfolioStore.assets.clear();
+    portfolioStore.setYears('5');
+    portfolioStore.setStartingYear('2024');
+
+    const investmentId = portfolioStore.addInvestment('Brokerage', {
+      initialAmount: '100000',
+      annualContribution: '0',
+      rateOfReturn: '0',
+      inflationRate: '0'
+    });
+    investment = portfolioStore.assets.get(investmentId) as Investment;
+
+    const budgetId = portfolioStore.addBudget(undefined, {
+      annualSalary: '100000',
+      salaryGrowthRate: '0',
+      incomeTaxRate: '20',
+      annualExpenses: '50000',
+      inflationRate: '0'
+    });
+    budget = portfolioStore.assets.get(budgetId) as Budget;
+  });
+
+  it('names and lists budgets', () => {
+    expect(budget.name).toBe('Budget 2');
+    expect(portfolioStore.budgets).toEqual([budget]);
+  });
+
+  it('pays surpluses into the linked investment', () => {
+    budget.updateInput('linkedInvestmentId', investment.id);
+
+    expect(portfolioStore.getLinkedBudgetCashFlows(investment.id)).toEqual([30000, 30000, 30000, 30000, 30000]);
+    expect(investment.results[1].budgetCashFlow).toBe(30000);
+    expect(investment.finalResult?.balance).toBe(250000);
+    expect(budget.finalResult?.balance).toBe(0);
+  });
+
+  it('draws deficits from the linked investment', () => {
+    budget.updateInput('linkedInvestmentId', investment.id);
+    budget.updateInput('annualExpenses', '90000');
+
+    expect(investment.results[1].budgetCashFlow).toBe(-10000);
+    expect(investment.finalResult?.balance).toBe(50000);
+    expect(budget.warnings).toHaveLength(0);
+  });
+
+  it('stops funding when the budget or investment is excluded', () => {
+    budget.updateInput('linkedInvestmentId', investment.id);
+    investment.setEnabled(false);
+    expect(budget.linkedInvestment).toBeNull();
+    expect(budget.finalResult?.balance).toBe(150000);
+
+    investment.setEnabled(true);
+    budget.setEnabled(false);
+    expect(investment.finalResult?.balance).toBe(100000);
+  });
+
+  it('counts unlinked cash and surpluses in the combined results', () => {
+    const final = portfolioStore.combinedResults[5];
+    expect(final.totalBalance).toBe(250000);
+    expect(final.totalBudgetSurplus).toBe(30000);
+    expect(final.assetBreakdown.find(entry => entry.assetId === budget.id)).toMatchObject({
+      assetType: 'budget',
+      balance: 150000,
+      contribution: 30000
+    });
+  });
+
+  it('does not double count invested surpluses', () => {
+    budget.updateInput('linkedInvestmentId', investment.id);
+    expect(portfolioStore.combinedResults[5].totalBalance).toBe(250000);
+  });
+
+  it('saves and restores budgets with their link', () => {
+    budget.updateInput('linkedInvestmentId', investment.id);
+    budget.addGoal();
+    portfolioStore.saveToLocalStorage();
+
+    const restored = new RootStore().portfolioStore;
+    const restoredBudget = restored.budgets[0];
+    expect(restoredBudget.inputs).toEqual(budget.inputs);
+    expect(restoredBudget.linkedInvestment?.id).toBe(investment.id);
+    expect(restored.combinedResults[5].totalBalance).toBe(portfolioStore.combinedResults[5].totalBalance);
+  });
+
+  it('duplicates budgets with their goals', () => {
+    budget.addGoal();
+    const copyId = portfolioStore.duplicateAsset(budget.id)!;
+    const copy = portfolioStore.assets.get(copyId) as Budget;
+
+    expect(copy.name).toBe('Budget 2 (copy)');
+    expect(copy.inputs.goals).toEqual(budget.inputs.goals);
+    expect(copy.inputs.goals[0]).not.toBe(budget.inputs.goals[0]);
+  });
+
+  it('applies the shared inflation rate', () => {
+    portfolioStore.setInflationRate('3');
+    expect(budget.inputs.inflationRate).toBe('3');
+  });
+});
@@ -0,0 +1,106 @@
+import { RootStore } from '@/features/core/stores/RootStore';
+import { PortfolioStore } from './PortfolioStore';
+import { Property } from '@/features/property/stores/Property';
+import { FederalTaxCalculator } from '@/features/tax/calculators/FederalTaxCalculator';
+import { DepreciationRecaptureCalculator } from '@/features/tax/calculators/DepreciationRecaptureCalculator';
+
+describe('PortfolioStore - Capital Gains Ledger', () => {
+  let portfolioStore: PortfolioStore;
+
+  const addSale = (name: string, saleYear: number, salePrice: number): Property => {
+    const id = portfolioStore.addProperty(name, { purchasePrice: '500000' });
+    const property = portfolioStore.assets.get(id) as Property;
+    property.updateSaleConfig('isPlannedForSale', true);
+    property.updateSaleConfig('saleYear', saleYear);
+    property.updateSaleConfig('useProjectedValue', false);
+    property.updateSaleConfig('expectedSalePrice', salePrice);
+    property.updateSaleConfig('sellingCostsPercentage', 0);
+    return property;
+  };
+
+  beforeEach(() => {
+    const rootStore = new RootStore();
+    portfolioStore = rootStore.portfolioStore;
+    portfolioStore.assets.clear(); // Clear default assets
+    portfolioStore.setYears('10');
+    portfolioStore.setStartingYear('2024');
+  });
+
+  it('should have no ledger entries without planned sales', () => {
+    portfolioStore.addProperty('Kept Property', { purchasePrice: '500000' });
+
+    expect(portfolioStore.capitalGainsLedger).toEqual([]);
+  });
+
+  it('should net a loss against a gain sold in the same year', () => {
+    const gainProperty = addSale('Gain', 3, 600000);
+    const lossProperty = addSale('Loss', 3, 460000);
+
+    const [year] = portfolioStore.capitalGainsLedger;
+    expect(year.taxYear).toBe(2027);
+    expect(year.netCapitalGain).toBe(60000);
+
+    expect(gainProperty.portfolioLossOffset).toBe(40000);
+    expect(gainProperty.federalTaxCalculation.taxableGain).toBe(60000);
+    expect(lossProperty.federalTaxAmount).toBe(0);
+  });
+
+  it('should carry an unused loss forward to a later sale', () => {
+    addSale('Loss', 2, 450000);
+    const gainProperty = addSale('Gain', 4, 600000);
+
+    const ledger = portfolioStore.capitalGainsLedger;
+    expect(ledger.map(year => year.taxYear)).toEqual([2026, 2027, 2028]);
+    expect(ledger[0].ordinaryIncomeOffset).toBe(3000);
+    expect(ledger[1].ordinaryIncomeOffset).toBe(3000);
+
+    // $50k loss less two years of $3k ordinary offsets
+    expect(gainProperty.portfolioLossOffset).toBe(44000);
+    expect(gainProperty.federalTaxCalculation.taxableGain).toBe(56000);
+  });
+
+  it('should credit the tax saved by the ordinary income offset in the combined results', () => {
+    const lossProperty = addSale('Loss', 2, 450000);
+    lossProperty.updateSaleConfig('annualIncome', '90000');
+
+    const rateFor = (taxYear: number) => DepreciationRecaptureCalculator.getOrdinaryIncomeRate(90000, 'single', taxYear, 2.5);
+    expect(rateFor(2026)).toBe(0.22);
+
+    // The loss sale itself owes no tax, so the year's taxes are the saving alone
+    const results = portfolioStore.combinedResults;
+    expect(portfolioStore.capitalLossTaxSavings.get(2026)).toBeCloseTo(660, 2);
+    expect(results[2].totalTaxesPaid).toBeCloseTo(-660, 2);
+    expect(results[3].totalTaxesPaid).toBeCloseTo(-3000 * rateFor(2027), 2);
+    expect(results[1].totalTaxesPaid).toBe(0);
+  });
+
+  it('should not deduct a loss on a personal residence', () => {
+    const gainProperty = addSale('Gain', 3, 600000);
+    const home = addSale('Home', 3, 450000);
+    home.updateSaleConfig('isPrimaryResidence', true);
+
+    expect(home.reportableCapitalGain).toBe(0);
+    expect(gainProperty.portfolioLossOffset).toBe(0);
+    expect(portfolioStore.capitalGainsLedger[0].carryforwardOut).toBe(0);
+  });
+
+  it('should ignore disabled properties', () => {
+    const gainProperty = addSale('Gain', 3, 600000);
+    const lossProperty = addSale('Loss', 3, 460000);
+    lossProperty.enabled = false;
+
+    expect(gainProperty.portfolioLossOffset).toBe(0);
+    expect(gainProperty.federalTaxCalculation.taxableGain).toBe(100000);
+  });
+
+  it('should stack same-year gains so their taxes add up to the tax on the total', () => {
+    const first = addSale('First', 3, 800000);
+    const second = addSale('Second', 3, 800000);
+
+    expect(second.priorSameYearGains).toBe(300000);
+
+    const combined = FederalTaxCalculator.calculateFederalTax(600000, 75000, 'single', 2027, 2.5);
+    expect(first.federalTaxAmount + second.federalTaxAmount).toBeCloseTo(combined.taxAmount, 2);
+    expect(second.federalTaxCalculation.taxRate).toBeGreaterThan(first.federalTaxCalculation.taxRate);
+  });
+});
@@ -0,0 +1,126 @@
+import { RootStore } from '@/features/core/stores/RootStore';
+import { PortfolioStore } from './PortfolioStore';
+import { Investment } from '@/features/investment/stores/Investment';
+import { Debt } from '@/features/debt/stores/Debt';
+
+describe('PortfolioStore - Debt', () => {
+  let rootStore: RootStore;
+  let portfolioStore: PortfolioStore;
+  let investment: Investment;
+  let carLoan: Debt;
+
+  beforeEach(() => {
+    localStorage.clear();
+    rootStore = new RootStore();
+    portfolioStore = rootStore.portfolioStore;
+    portfolioStore.assets.clear();
+    portfolioStore.setYears('5');
+    portfolioStore.setStartingYear('2024');
+
+    const investmentId = portfolioStore.addInvestment('Brokerage', {
+      initialAmount: '100000',
+      annualContribution: '0',
+      rateOfReturn: '0',
+      inflationRate: '0'
+    });
+    investment = portfolioStore.assets.get(investmentId) as Investment;
+
+    const debtId = portfolioStore.addDebt('Car', {
+      debtKind: 'autoLoan',
+      balance: '2400',
+      apr: '0',
+      minimumPayment: '100',
+      inflationRate: '0'
+    });
+    carLoan = portfolioStore.assets.get(debtId) as Debt;
+  });
+
+  it('lists debts', () => {
+    expect(portfolioStore.debts).toEqual([carLoan]);
+    expect(portfolioStore.addDebt()).toBeDefined();
+    expect(portfolioStore.debts[1].name).toBe('Debt 3');
+  });
+
+  it('subtracts debt balances from net worth', () => {
+    const [start, year1, year2] = portfolioStore.combinedResults;
+    expect(start.totalBalance).toBe(97600);
+    expect(year1.totalBalance).toBe(98800);
+    expect(year1.totalDebtBalance).toBe(1200);
+    expect(year2.totalBalance).toBe(100000);
+    expect(year1.assetBreakdown.find(entry => entry.assetId === carLoan.id)).toMatchObject({
+      assetType: 'debt',
+      balance: -1200,
+      contribution: 1200
+    });
+  });
+
+  it('withdraws payments from the linked investment', () => {
+    carLoan.updateInput('linkedInvestmentId', investment.id);
+
+    expect(portfolioStore.getLinkedDebtCashFlows(investment.id)).toEqual([-1200, -1200, 0, 0, 0]);
+    expect(investment.results[1].debtCashFlow).toBe(-1200);
+    expect(investment.finalResult?.balance).toBe(97600);
+    expect(portfolioStore.combinedResults[5].totalBalance).toBe(97600);
+  });
+
+  it('stops withdrawing when the investment is excluded', () => {
+    carLoan.updateInput('linkedInvestmentId', investment.id);
+    investment.setEnabled(false);
+
+    expect(carLoan.linkedInvestment).toBeNull();
+    expect(carLoan.warnings).toContain(
+      'The linked investment is missing or excluded from the portfolio; payments are not tracked'
+    );
+  });
+
+  describe('payoff planner', () => {
+    let creditCard: Debt;
+
+    beforeEach(() => {
+      const id = portfolioStore.addDebt('Card', {
+        debtKind: 'creditCard',
+        balance: '3000',
+        apr: '24',
+        minimumPayment: '100',
+        inflationRate: '0'
+      });
+      creditCard = portfolioStore.assets.get(id) as Debt;
+      portfolioStore.setDebtExtraPayment('200');
+    });
+
+    it('ignores the planner extra payment without a strategy', () => {
+      expect(carLoan.payoffYear).toBe(2026);
+      expect(creditCard.payoffYear).toBe(2028);
+    });
+
+    it('targets the highest APR with avalanche', () => {
+      portfolioStore.setDebtPayoffStrategy('avalanche');
+      expect(creditCard.payoffYear).toBe(2025);
+      expect(creditCard.payoffSchedule.payoffMonth!).toBeLessThan(carLoan.payoffSchedule.payoffMonth!);
+    });
+
+    it('targets the smallest balance with snowball', () => {
+      portfolioStore.setDebtPayoffStrategy('snowball');
+      expect(carLoan.payoffSchedule.payoffMonth!).toBeLessThan(creditCard.payoffSchedule.payoffMonth!);
+    });
+
+    it('compares strategies across included debts', () => {
+      const [minimum, avalanche] = portfolioStore.debtStrategyComparison;
+      expect(avalanche.totalInterest).toBeLessThan(minimum.totalInterest);
+
+      creditCard.setEnabled(false);
+      expect(portfolioStore.debtStrategyComparison[0].totalInterest).toBe(0);
+    });
+
+    it('saves and restores the planner settings', () => {
+      portfolioStore.setDebtPayoffStrategy('snowball');
+      portfolioStore.saveToLocalStorage();
+
+      const restored = new RootStore().portfolioStore;
+      expect(restored.debtPayoffStrategy).toBe('snowball');
+      expect(restored.debtExtraPayment).toBe('200');
+      expect(restored.debts).toHaveLength(2);
+      expect(restored.combinedResults[5].totalBalance).toBe(portfolioStore.combinedResults[5].totalBalance);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { RootStore } from '@/features/core/stores/RootStore';
+import { PortfolioStore } from './PortfolioStore';
+import { Investment } from '@/features/investment/stores/Investment';
+import { Property } from '@/features/property/stores/Property';
+import { Budget } from '@/features/budget/stores/Budget';
+
+describe('PortfolioStore - Household', () => {
+  let rootStore: RootStore;
+  let portfolioStore: PortfolioStore;
+  let alexId: string;
+
+  beforeEach(() => {
+    localStorage.clear();
+    rootStore = new RootStore();
+    portfolioStore = rootStore.portfolioStore;
+    portfolioStore.assets.clear();
+    portfolioStore.setYears('10');
+    portfolioStore.setStartingYear('2024');
+    alexId = portfolioStore.household.addMember('Alex', { birthYear: '1966', retirementAge: '63' });
+  });
+
+  describe('persistence', () => {
+    it('saves and restores the household with the portfolio', () => {
+      portfolioStore.addInvestment('Brokerage');
+      portfolioStore.saveToLocalStorage();
+
+      const restored = new RootStore().portfolioStore;
+      expect(restored.household.members).toEqual(portfolioStore.household.members);
+      expect(restored.household.getRetirementYear(alexId)).toBe(2029);
+    });
+
+    it('loads older saves without a household', () => {
+      localStorage.setItem('portfolioData', JSON.stringify({
+        assets: [new Investment('Brokerage').toJSON()],
+        years: '10',
+        inflationRate: '2.5',
+        startingYear: '2024'
+      }));
+
+      const restored = new RootStore().portfolioStore;
+      expect(restored.household.members).toEqual([]);
+      expect(restored.household.hasAges).toBe(false);
+    });
+
+    it('counts household edits as unsaved changes', () => {
+      portfolioStore.saveToLocalStorage();
+      expect(portfolioStore.hasUnsavedChanges).toBe(false);
+
+      portfolioStore.household.updateMember(alexId, 'retirementAge', '65');
+      expect(portfolioStore.hasUnsavedChanges).toBe(true);
+    });
+  });
+
+  describe('investment life events', () => {
+    let investment: Investment;
+
+    beforeEach(() => {
+      const id = portfolioStore.addInvestment('Brokerage', {
+        initialAmount: '500000',
+        annualContribution: '10000',
+        rateOfReturn: '5',
+        inflationRate: '0'
+      });
+      investment = portfolioStore.assets.get(id) as Investment;
+    });
+
+    it('starts drawdown at the member retirement year', () => {
+      investment.updateDrawdownConfig('enabled', true);
+      investment.updateDrawdownConfig('retirementYear', '2032');
+      investment.updateDrawdownConfig('retirementEvent', { memberId: alexId, event: 'retirement', age: '' });
+
+      expect(investment.retirementYearNumber).toBe(2029);
+      expect(investment.results.find(result => result.actualYear === 2028)?.drawdownWithdrawal).toBe(0);
+      expect(investment.results.find(result => result.actualYear === 2029)?.drawdownWithdrawal).toBeGreaterThan(0);
+    });
+
+    it('moves the drawdown when the member retirement age changes', () => {
+      investment.updateDrawdownConfig('enabled', true);
+      investment.updateDrawdownConfig('retirementEvent', { memberId: alexId, event: 'retirement', age: '' });
+
+      portfolioStore.household.updateMember(alexId, 'retirementAge', '65');
+      expect(investment.retirementYearNumber).toBe(2031);
+    });
+
+    it('stops contributions when the member reaches an age', () => {
+      investment.updateInput('contributionStopEvent', { memberId: alexId, event: 'age', age: '60' });
+
+      const contributions = investment.contributionSchedule.map(year => year.contribution);
+      // Alex turns 60 in 2026, the second projected year
+      expect(contributions.slice(0, 3)).toEqual([10000, 0, 0]);
+      expect(investment.warnings).toHaveLength(0);
+    });
+
+    it('warns and ignores life events that cannot be resolved', () => {
+      investment.updateInput('contributionStopEvent', { memberId: alexId, event: 'age', age: '60' });
+      investment.updateDrawdownConfig('enabled', true);
+      investment.updateDrawdownConfig('retirementEvent', { memberId: alexId, event: 'retirement', age: '' });
+      portfolioStore.household.removeMember(alexId);
+
+      expect(investment.retirementYearNumber).toBeNull();
+      expect(investment.contributionSchedule.every(year => year.contribution === 10000)).toBe(true);
+      expect(investment.warnings).toEqual([
+        'The retirement life event has no year (missing household member or birth year); withdrawals are off',
+        'The contribution stop life event has no year (missing household member or birth year); contributions continue'
+      ]);
+    });
+  });
+
+  describe('property life events', () => {
+    let property: Property;
+
+    beforeEach(() => {
+      const id = portfolioStore.addProperty('Home', {
+        purchasePrice: '400000',
+        downPaymentPercentage: '20',
+        interestRate: '6',
+        loanTerm: '30',
+        yearsBought: '0',
+        propertyGrowthRate: '3'
+      });
+      property = portfolioStore.assets.get(id) as Property;
+      property.setSaleEnabled(true);
+    });
+
+    it('sells in the projection year of the member retirement', () => {
+      property.updateSaleConfig('saleEvent', { memberId: alexId, event: 'retirement', age: '' });
+
+      expect(property.saleYear).toBe(5);
+      expect(property.saleTaxYear).toBe(2029);
+      expect(property.validationErrors).not.toContain('Sale year must be specified and greater than 0');
+    });
+
+    it('has no sale when the event falls outside the projection', () => {
+      property.updateSaleConfig('saleEvent', { memberId: alexId, event: 'age', age: '55' });
+      expect(property.saleYear).toBeNull();
+      expect(property.validationErrors).toContain(
+        'Sale life event must fall within the projection (check the household member and birth year)'
+      );
+
+      property.updateSaleConfig('saleEvent', { memberId: alexId, event: 'age', age: '80' });
+      expect(property.saleYear).toBe(22);
+      expect(property.validationErrors).toContain('Sale life event falls after the projection period');
+    });
+
+    it('uses the fixed sale year without a life event', () => {
+      property.updateSaleConfig('saleYear', 3);
+      expect(property.saleYear).toBe(3);
+    });
+  });
+
+  describe('duplicating assets', () => {
+    it('gives each copy its own life events and sale settings', () => {
+      const investment = portfolioStore.assets.get(portfolioStore.addInvestment('Brokerage')) as Investment;
+      investment.updateInput('contributionStopEvent', { memberId: alexId, event: 'retirement', age: '' });
+      investment.updateDrawdownConfig('retirementEvent', { memberId: alexId, event: 'retirement', age: '' });
+      const property = portfolioStore.assets.get(portfolioStore.addProperty('Home')) as Property;
+      property.updateSaleConfig('saleEvent', { memberId: alexId, event: 'age', age: '70' });
+      const budget = portfolioStore.assets.get(portfolioStore.addBudget('Household budget')) as Budget;
+      budget.updateInput('incomeEndEvent', { memberId: alexId, event: 'retirement', age: '' });
+
+      const investmentCopy = portfolioStore.assets.get(portfolioStore.duplicateAsset(investment.id)!) as Investment;
+      const propertyCopy = portfolioStore.assets.get(portfolioStore.duplicateAsset(property.id)!) as Property;
+      const budgetCopy = portfolioStore.assets.get(portfolioStore.duplicateAsset(budget.id)!) as Budget;
+
+      expect(investmentCopy.inputs.contributionStopEvent).toEqual(investment.inputs.contributionStopEvent);
+      expect(investmentCopy.inputs.contributionStopEvent).not.toBe(investment.inputs.contributionStopEvent);
+      expect(investmentCopy.inputs.drawdownConfig.retirementEvent).not.toBe(investment.inputs.drawdownConfig.retirementEvent);
+      expect(budgetCopy.inputs.incomeEndEvent).toEqual(budget.inputs.incomeEndEvent);
+      expect(budgetCopy.inputs.incomeEndEvent).not.toBe(budget.inputs.incomeEndEvent);
+      expect(propertyCopy.inputs.saleConfig.saleEvent).toEqual(property.inputs.saleConfig.saleEvent);
+      expect(propertyCopy.inputs.saleConfig.saleEvent).not.toBe(property.inputs.saleConfig.saleEvent);
+
+      propertyCopy.updateSaleConfig('saleYear', 8);
+      propertyCopy.updateSaleConfig('saleEvent', null);
+      expect(property.inputs.saleConfig.saleYear).not.toBe(8);
+      expect(property.inputs.saleConfig.saleEvent).toEqual({ memberId: alexId, event: 'age', age: '70' });
+    });
+  });
+});
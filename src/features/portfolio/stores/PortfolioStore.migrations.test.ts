@@ -0,0 +1,89 @@
+import { RootStore } from '@/features/core/stores/RootStore';
+import { PORTFOLIO_SCHEMA_VERSION } from '@/features/portfolio/migrations/portfolioMigrations';
+import { Property } from '@/features/property/stores/Property';
+
+describe('PortfolioStore - Schema migrations', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('stamps the schema version on saved portfolios', () => {
+    const portfolioStore = new RootStore().portfolioStore;
+    portfolioStore.saveToLocalStorage();
+
+    expect(JSON.parse(localStorage.getItem('portfolioData')!).schemaVersion).toBe(PORTFOLIO_SCHEMA_VERSION);
+    expect(JSON.parse(portfolioStore.serializedData).schemaVersion).toBe(PORTFOLIO_SCHEMA_VERSION);
+  });
+
+  it('loads saves with separate investment and property lists', () => {
+    localStorage.setItem('portfolioData', JSON.stringify({
+      investments: [{ id: 'inv-1', name: 'Brokerage', enabled: true, inputs: { initialAmount: '10000' } }],
+      properties: [{ id: 'prop-1', name: 'Rental', enabled: true, inputs: { purchasePrice: '400000', annualExpenses: '8000' } }],
+      settings: { years: '20', inflationRate: '3', startingYear: '2020' }
+    }));
+
+    const portfolioStore = new RootStore().portfolioStore;
+    expect(portfolioStore.assetsList.map(asset => asset.name)).toEqual(['Brokerage', 'Rental']);
+    expect(portfolioStore.years).toBe('20');
+    expect((portfolioStore.assets.get('prop-1') as Property).inputs.maintenanceRate).toBe('2');
+    expect(portfolioStore.loadIssues).toEqual([]);
+  });
+
+  it('reports repairs made while loading', () => {
+    localStorage.setItem('portfolioData', JSON.stringify({
+      schemaVersion: PORTFOLIO_SCHEMA_VERSION,
+      assets: [
+        { id: 'inv-1', name: 'Brokerage', type: 'investment', enabled: true, inputs: {} },
+        { id: 'x', name: 'Crypto', type: 'crypto', inputs: {} }
+      ]
+    }));
+
+    const portfolioStore = new RootStore().portfolioStore;
+    expect(portfolioStore.assetsList.map(asset => asset.name)).toEqual(['Brokerage']);
+    expect(portfolioStore.loadIssues).toEqual(['Removed asset "Crypto": unknown type crypto']);
+
+    portfolioStore.clearLoadIssues();
+    expect(portfolioStore.loadIssues).toEqual([]);
+  });
+
+  it('loads and duplicates assets whose nested inputs were repaired', () => {
+    localStorage.setItem('portfolioData', JSON.stringify({
+      schemaVersion: PORTFOLIO_SCHEMA_VERSION,
+      assets: [
+        { id: 'inv-1', name: 'Brokerage', type: 'investment', enabled: true, inputs: { drawdownConfig: null } },
+        { id: 'prop-1', name: 'Rental', type: 'property', enabled: true, inputs: { refinances: 'x' } }
+      ]
+    }));
+
+    const portfolioStore = new RootStore().portfolioStore;
+    expect(portfolioStore.assetsList.map(asset => asset.name)).toEqual(['Brokerage', 'Rental']);
+    expect((portfolioStore.assets.get('prop-1') as Property).inputs.refinances).toEqual([]);
+    expect(() => portfolioStore.duplicateAsset('inv-1')).not.toThrow();
+    expect(portfolioStore.assetsList).toHaveLength(3);
+  });
+
+  it('clears issues from an earlier load when loading again', async () => {
+    localStorage.setItem('portfolioData', JSON.stringify({
+      schemaVersion: PORTFOLIO_SCHEMA_VERSION,
+      assets: [{ id: 'x', name: 'Crypto', type: 'crypto', inputs: {} }]
+    }));
+    const portfolioStore = new RootStore().portfolioStore;
+    expect(portfolioStore.loadIssues).toHaveLength(1);
+
+    localStorage.removeItem('portfolioData');
+    await portfolioStore.loadFromStorage();
+    expect(portfolioStore.loadIssues).toEqual([]);
+  });
+
+  it('falls back to the default portfolio when the save is from a newer version', () => {
+    localStorage.setItem('portfolioData', JSON.stringify({
+      schemaVersion: PORTFOLIO_SCHEMA_VERSION + 1,
+      assets: [{ id: 'inv-1', name: 'Future', type: 'investment', enabled: true, inputs: {} }]
+    }));
+
+    const portfolioStore = new RootStore().portfolioStore;
+    expect(portfolioStore.assetsList.map(asset => asset.name)).not.toContain('Future');
+    expect(portfolioStore.hasAssets).toBe(true);
+    expect(portfolioStore.loadIssues[0]).toContain('newer than this app supports');
+  });
+});
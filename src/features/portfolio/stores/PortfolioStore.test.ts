@@ -1,6 +1,7 @@
 import { RootStore } from '@/features/core/stores/RootStore';
 import { PortfolioStore } from '@/features/portfolio/stores/PortfolioStore';
 import { isInvestment } from '@/features/portfolio/factories/AssetFactory';
+import type { Property } from '@/features/property/stores/Property';
 
 // Mock the defaultPortfolioData module
 jest.mock('./defaultPortfolioData', () => ({
@@ -139,6 +140,23 @@ describe('PortfolioStore', () => {
       expect(store.activeTabId).toBe(duplicateId);
       expect(store.hasUnsavedChanges).toBe(true);
     });
+
+    it('should copy drawdown settings when duplicating without sharing them', () => {
+      const source = store.assetsList[0];
+      if (!isInvestment(source)) throw new Error('Expected investment');
+      source.updateDrawdownConfig('retirementYear', '2040');
+
+      const copy = store.assets.get(store.duplicateAsset(source.id)!);
+      if (!copy || !isInvestment(copy)) throw new Error('Expected investment');
+      expect(copy.inputs.drawdownConfig.retirementYear).toBe('2040');
+
+      copy.updateDrawdownConfig('enabled', true);
+      copy.updateDrawdownConfig('retirementYear', '2030');
+
+      expect(source.inputs.drawdownConfig.enabled).toBe(false);
+      expect(source.inputs.drawdownConfig.retirementYear).toBe('2040');
+      expect(copy.inputs.drawdownConfig).not.toBe(source.inputs.drawdownConfig);
+    });
   });
 
   describe('Shared Input Management', () => {
@@ -1033,6 +1051,45 @@ describe('PortfolioStore', () => {
     });
   });
 
+  describe('Mortgage prepayments', () => {
+    it('should withdraw lump sums funded from the linked investment', () => {
+      const investmentId = store.addInvestment('Savings');
+      const propertyId = store.addProperty('Home', {
+        purchasePrice: '500000',
+        downPaymentPercentage: '20',
+        interestRate: '6',
+        loanTerm: '30',
+        monthlyPayment: '3000',
+        linkedInvestmentId: investmentId
+      });
+      store.setYears('5');
+
+      const property = store.assets.get(propertyId) as Property;
+      property.addLumpSumPayment();
+      const lumpSum = property.inputs.lumpSumPayments[0];
+      property.updateLumpSumPayment(lumpSum.id, 'year', '2');
+      property.updateLumpSumPayment(lumpSum.id, 'amount', '25000');
+
+      // Paid from outside funds: linked cash flows are unchanged
+      expect(store.getLinkedPropertyCashFlows(investmentId)[1]).toBe(-36000);
+
+      property.updateLumpSumPayment(lumpSum.id, 'fromLinkedInvestment', true);
+      expect(store.getLinkedPropertyCashFlows(investmentId)[1]).toBe(-61000);
+      expect(store.getLinkedPropertyCashFlows(investmentId)[2]).toBe(-36000);
+    });
+
+    it('should copy lump sums independently when duplicating a property', () => {
+      const propertyId = store.addProperty('Home');
+      const source = store.assets.get(propertyId) as Property;
+      source.addLumpSumPayment();
+
+      const copy = store.assets.get(store.duplicateAsset(propertyId)!) as Property;
+      copy.updateLumpSumPayment(copy.inputs.lumpSumPayments[0].id, 'amount', '1');
+
+      expect(source.inputs.lumpSumPayments[0].amount).toBe('10000');
+    });
+  });
+
   describe('Clear All', () => {
     it('should clear all assets and create a default one', () => {
       store.addInvestment('Asset 2');
@@ -1046,4 +1103,83 @@ describe('PortfolioStore', () => {
       expect(localStorageMock.getItem('portfolioData')).toBe(null);
     });
   });
-});
\ No newline at end of file
+
+  describe('Monte Carlo bands', () => {
+    it('should not attach bands when no investment is simulated', () => {
+      expect(store.combinedResults.every(result => result.monteCarlo === undefined)).toBe(true);
+    });
+
+    it('should attach portfolio-level bands when an investment is simulated', () => {
+      const simulatedId = store.addInvestment('Simulated', {
+        initialAmount: '50000',
+        rateOfReturn: '7',
+        annualContribution: '0'
+      });
+      const simulated = store.assets.get(simulatedId);
+      if (!simulated || !isInvestment(simulated)) throw new Error('Expected investment');
+
+      simulated.updateMonteCarloConfig('enabled', true);
+      simulated.updateMonteCarloConfig('trials', '100');
+
+      const results = store.combinedResults;
+      results.forEach(result => {
+        expect(result.monteCarlo).toBeDefined();
+        expect(result.monteCarlo!.p10).toBeLessThanOrEqual(result.monteCarlo!.p50);
+        expect(result.monteCarlo!.p50).toBeLessThanOrEqual(result.monteCarlo!.p90);
+      });
+
+      // Year 0 has no uncertainty, so the band collapses to the deterministic total
+      expect(results[0].monteCarlo!.p50).toBeCloseTo(results[0].totalBalance, 0);
+    });
+
+    it('should collapse to the deterministic total with zero volatility', () => {
+      const simulated = store.assetsList[0];
+      if (!isInvestment(simulated)) throw new Error('Expected investment');
+      simulated.updateMonteCarloConfig('enabled', true);
+      simulated.updateMonteCarloConfig('volatility', '0');
+      simulated.updateMonteCarloConfig('trials', '10');
+
+      const finalResult = store.combinedResults[store.combinedResults.length - 1];
+      expect(finalResult.monteCarlo!.p50).toBeCloseTo(finalResult.totalBalance, 0);
+    });
+
+    it('should combine investments as independent unless they share a seed', () => {
+      store.assets.clear();
+      const simulated = ['First', 'Second'].map(name => {
+        const id = store.addInvestment(name, { initialAmount: '50000', rateOfReturn: '7', annualContribution: '0' });
+        const investment = store.assets.get(id);
+        if (!investment || !isInvestment(investment)) throw new Error('Expected investment');
+        investment.updateMonteCarloConfig('enabled', true);
+        investment.updateMonteCarloConfig('trials', '200');
+        return investment;
+      });
+      const finalSpread = () => {
+        const { monteCarlo } = store.combinedResults[store.combinedResults.length - 1];
+        return monteCarlo!.p90 - monteCarlo!.p10;
+      };
+
+      expect(simulated[0].monteCarloSeed).not.toBe(simulated[1].monteCarloSeed);
+      const independentSpread = finalSpread();
+
+      // With the same seed both draw identical returns, so the spread simply doubles
+      simulated.forEach(investment => investment.updateMonteCarloConfig('seed', '7'));
+      const singleBand = simulated[0].monteCarloResult!.bands[store.combinedResults.length - 1];
+      expect(finalSpread()).toBeCloseTo(2 * (singleBand.p90 - singleBand.p10), 0);
+      expect(independentSpread).toBeLessThan(finalSpread() * 0.85);
+    });
+
+    it('should copy Monte Carlo settings when duplicating without sharing them', () => {
+      const source = store.assetsList[0];
+      if (!isInvestment(source)) throw new Error('Expected investment');
+      source.updateMonteCarloConfig('enabled', true);
+
+      const copyId = store.duplicateAsset(source.id)!;
+      const copy = store.assets.get(copyId);
+      if (!copy || !isInvestment(copy)) throw new Error('Expected investment');
+
+      expect(copy.inputs.monteCarloConfig.enabled).toBe(true);
+      copy.updateMonteCarloConfig('enabled', false);
+      expect(source.inputs.monteCarloConfig.enabled).toBe(true);
+    });
+  });
+});
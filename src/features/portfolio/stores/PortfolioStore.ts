@@ -1,20 +1,61 @@
 import { computed, makeAutoObservable } from 'mobx';
-import { type Asset, createAsset, createAssetFromJSON, isInvestment, isProperty } from '@/features/portfolio/factories/AssetFactory';
+import { type Asset, createAsset, createAssetFromJSON, isBudget, isDebt, isInvestment, isProperty } from '@/features/portfolio/factories/AssetFactory';
 import { Investment, type InvestmentResult } from '@/features/investment/stores/Investment';
 import { Property, type PropertyResult } from '@/features/property/stores/Property';
+import { Budget, type BudgetResult } from '@/features/budget/stores/Budget';
+import { Debt, type DebtResult } from '@/features/debt/stores/Debt';
+import { DebtPayoffCalculator, type DebtPayoffSchedule, type DebtPayoffStrategy, type DebtStrategySummary } from '@/features/debt/calculators/DebtPayoffCalculator';
+import { MonteCarloCalculator, type MonteCarloBand } from '@/features/investment/calculators/MonteCarloCalculator';
+import { CapitalLossCarryforwardCalculator, type CapitalGainsLedgerYear } from '@/features/tax/calculators/CapitalLossCarryforwardCalculator';
+import { DepreciationRecaptureCalculator } from '@/features/tax/calculators/DepreciationRecaptureCalculator';
+import { Household, type LifeEventReference } from '@/features/household/stores/Household';
 import { defaultPortfolioData } from './defaultPortfolioData';
+import { migratePortfolioData, PORTFOLIO_SCHEMA_VERSION } from '@/features/portfolio/migrations/portfolioMigrations';
 import type { RootStore } from '@/features/core/stores/RootStore';
 
+// Duplicated assets get their own life-event objects instead of sharing the source's
+const copyLifeEvent = (event: LifeEventReference | null | undefined): LifeEventReference | null =>
+  event ? { ...event } : null;
+
+export interface DrawdownSustainability {
+  investments: {
+    assetId: string;
+    assetName: string;
+    retirementYear: number;
+    depletionYear: number | null;
+  }[];
+  // Earliest year any drawdown runs out, null when all last through the projection
+  depletionYear: number | null;
+}
+
 export interface CombinedResult {
   year: number;
   totalBalance: number;
   totalRealBalance: number;
+  // What the portfolio would be worth if liquidated, net of account taxes.
+  // Property equity is counted before sale taxes.
+  totalAfterTaxBalance: number;
+  totalRealAfterTaxBalance: number;
   totalAnnualContribution: number;
   totalRealAnnualContribution: number;
   totalEarnings: number;
   totalRealEarnings: number;
   totalYearlyGain: number;
   totalRealYearlyGain: number;
+  // Retirement spending withdrawn from investments, after tax
+  totalDrawdownWithdrawal: number;
+  totalRealDrawdownWithdrawal: number;
+  // Household budget surplus (negative = deficit) across budgets
+  totalBudgetSurplus: number;
+  totalRealBudgetSurplus: number;
+  // Amount owed on debt assets, already subtracted from totalBalance
+  totalDebtBalance: number;
+  totalRealDebtBalance: number;
+  // Taxes paid this year: account distributions and withdrawals, rental income,
+  // property sales and budget salaries, less tax saved by deducting capital
+  // losses from ordinary income (negative when rental losses save tax)
+  totalTaxesPaid: number;
+  totalRealTaxesPaid: number;
 
   // Property-specific totals
   totalPropertyValue: number;
@@ -25,10 +66,13 @@ export interface CombinedResult {
   totalInvestmentBalance: number;
   totalRealInvestmentBalance: number;
 
+  // Percentile bands of totalBalance when any investment runs Monte Carlo trials
+  monteCarlo?: MonteCarloBand;
+
   assetBreakdown: {
     assetId: string;
     assetName: string;
-    assetType: 'investment' | 'property';
+    assetType: 'investment' | 'property' | 'budget' | 'debt';
     balance: number;
     realBalance: number;
     contribution: number;
@@ -54,17 +98,34 @@ export class PortfolioStore {
   inflationRate: string = '2.5';
   startingYear: string = new Date().getFullYear().toString();
 
+  // People the portfolio belongs to; maps years to ages and resolves life events
+  household: Household = new Household();
+
+  // How extra payments are spread across debt assets
+  debtPayoffStrategy: DebtPayoffStrategy = 'minimum';
+  debtExtraPayment: string = '0';  // Monthly amount on top of all debts' own payments
+
   // Global display settings
   showNominal: boolean = true;
   showReal: boolean = true;
 
+  // Repairs made to the last loaded portfolio, or why it could not be loaded
+  loadIssues: string[] = [];
+
   rootStore: RootStore;
 
-  constructor(rootStore: RootStore) {
+  // With a snapshot the store shows that portfolio and does not touch storage,
+  // e.g. to compute another scenario's results for comparison
+  constructor(rootStore: RootStore, snapshot?: unknown) {
     this.rootStore = rootStore;
     makeAutoObservable(this, {
       enabledAssets: computed,
       combinedResults: computed,
+      capitalGainsLedger: computed,
+      capitalLossTaxSavings: computed,
+      drawdownSustainability: computed,
+      debtPayoffPlan: computed,
+      debtStrategyComparison: computed,
       assetsList: computed,
       hasAssets: computed,
       activeAsset: computed,
@@ -79,6 +140,11 @@ export class PortfolioStore {
       serializedData: computed
     });
 
+    if (snapshot !== undefined) {
+      this.replacePortfolioData(snapshot);
+      return;
+    }
+
     // Initialize synchronously for tests, but set up async loading for production
     if (typeof window !== 'undefined' && process.env.NODE_ENV !== 'test') {
       // Production: async loading with default portfolio fallback
@@ -101,6 +167,9 @@ export class PortfolioStore {
 
   private createDefaultPortfolio() {
     this.assets.clear();
+    this.household = new Household();
+    this.debtPayoffStrategy = 'minimum';
+    this.debtExtraPayment = '0';
 
     const investmentAssets = defaultPortfolioData.assets.filter(a => a.type === 'investment');
     const propertyAssets = defaultPortfolioData.assets.filter(a => a.type === 'property');
@@ -214,9 +283,12 @@ export class PortfolioStore {
   // Helper method for asset creation - overloaded for type safety
   private createAssetWithDefaults(type: 'investment', name?: string, inputs?: Partial<Investment['inputs']>): string;
   private createAssetWithDefaults(type: 'property', name?: string, inputs?: Partial<Property['inputs']>): string;
-  private createAssetWithDefaults(type: 'investment' | 'property', name?: string, inputs?: any): string {
+  private createAssetWithDefaults(type: 'budget', name?: string, inputs?: Partial<Budget['inputs']>): string;
+  private createAssetWithDefaults(type: 'debt', name?: string, inputs?: Partial<Debt['inputs']>): string;
+  private createAssetWithDefaults(type: 'investment' | 'property' | 'budget' | 'debt', name?: string, inputs?: any): string {
     const assetCount = this.assets.size + 1;
-    const defaultName = name || `${type === 'investment' ? 'Asset' : 'Property'} ${assetCount}`;
+    const defaultLabels = { investment: 'Asset', property: 'Property', budget: 'Budget', debt: 'Debt' };
+    const defaultName = name || `${defaultLabels[type]} ${assetCount}`;
 
     let asset: Asset;
     if (type === 'investment') {
@@ -224,6 +296,16 @@ export class PortfolioStore {
         inflationRate: this.inflationRate,
         ...inputs
       });
+    } else if (type === 'budget') {
+      asset = createAsset('budget', defaultName, {
+        inflationRate: this.inflationRate,
+        ...inputs
+      });
+    } else if (type === 'debt') {
+      asset = createAsset('debt', defaultName, {
+        inflationRate: this.inflationRate,
+        ...inputs
+      });
     } else {
       asset = createAsset('property', defaultName, {
         inflationRate: this.inflationRate,
@@ -247,6 +329,14 @@ export class PortfolioStore {
     return this.createAssetWithDefaults('property', name, inputs);
   }
 
+  addBudget = (name?: string, inputs?: Partial<Budget['inputs']>) => {
+    return this.createAssetWithDefaults('budget', name, inputs);
+  }
+
+  addDebt = (name?: string, inputs?: Partial<Debt['inputs']>) => {
+    return this.createAssetWithDefaults('debt', name, inputs);
+  }
+
   removeAsset = (id: string) => {
     if (this.assets.size <= 1) {
       // Don't allow removing the last asset
@@ -286,12 +376,36 @@ export class PortfolioStore {
     if (isInvestment(sourceAsset)) {
       newAsset = createAsset('investment', `${sourceAsset.name} (copy)`, {
         ...sourceAsset.inputs,
+        monteCarloConfig: { ...sourceAsset.inputs.monteCarloConfig },
+        contributionStopEvent: copyLifeEvent(sourceAsset.inputs.contributionStopEvent),
+        drawdownConfig: {
+          ...sourceAsset.inputs.drawdownConfig,
+          retirementEvent: copyLifeEvent(sourceAsset.inputs.drawdownConfig.retirementEvent)
+        },
         inflationRate: this.inflationRate
       });
       // Copy investment-specific settings
       newAsset.inflationAdjustedContributions = sourceAsset.inflationAdjustedContributions;
     } else if (isProperty(sourceAsset)) {
       newAsset = createAsset('property', `${sourceAsset.name} (copy)`, {
+        ...sourceAsset.inputs,
+        lumpSumPayments: sourceAsset.inputs.lumpSumPayments.map(payment => ({ ...payment })),
+        refinances: sourceAsset.inputs.refinances.map(refinance => ({ ...refinance })),
+        saleConfig: {
+          ...sourceAsset.inputs.saleConfig,
+          saleEvent: copyLifeEvent(sourceAsset.inputs.saleConfig.saleEvent)
+        },
+        inflationRate: this.inflationRate
+      });
+    } else if (isBudget(sourceAsset)) {
+      newAsset = createAsset('budget', `${sourceAsset.name} (copy)`, {
+        ...sourceAsset.inputs,
+        goals: sourceAsset.inputs.goals.map(goal => ({ ...goal })),
+        incomeEndEvent: copyLifeEvent(sourceAsset.inputs.incomeEndEvent),
+        inflationRate: this.inflationRate
+      });
+    } else if (isDebt(sourceAsset)) {
+      newAsset = createAsset('debt', `${sourceAsset.name} (copy)`, {
         ...sourceAsset.inputs,
         inflationRate: this.inflationRate
       });
@@ -333,6 +447,22 @@ export class PortfolioStore {
     return this.properties.filter(asset => asset.enabled);
   }
 
+  get budgets(): Budget[] {
+    return Array.from(this.assets.values()).filter(isBudget);
+  }
+
+  get enabledBudgets(): Budget[] {
+    return this.budgets.filter(asset => asset.enabled);
+  }
+
+  get debts(): Debt[] {
+    return Array.from(this.assets.values()).filter(isDebt);
+  }
+
+  get enabledDebts(): Debt[] {
+    return this.debts.filter(asset => asset.enabled);
+  }
+
   get assetsList(): Asset[] {
     return Array.from(this.assets.values());
   }
@@ -410,13 +540,21 @@ export class PortfolioStore {
   // Generate portfolio data object for serialization
   private getPortfolioDataForSerialization() {
     return {
+      schemaVersion: PORTFOLIO_SCHEMA_VERSION,
       assets: Array.from(this.assets.values()).map(asset => asset.toJSON()),
       years: this.years,
       inflationRate: this.inflationRate,
-      startingYear: this.startingYear
+      startingYear: this.startingYear,
+      household: this.household.toJSON(),
+      debtPayoff: this.debtPayoffSettings
     };
   }
 
+  // Plain copy of the portfolio, e.g. to duplicate it into another scenario
+  getPortfolioSnapshot = () => {
+    return JSON.parse(this.currentPortfolioData);
+  }
+
   // Current portfolio data as JSON string for comparison
   get currentPortfolioData(): string {
     return JSON.stringify(this.getPortfolioDataForSerialization());
@@ -427,6 +565,78 @@ export class PortfolioStore {
     return this.savedPortfolioData !== this.currentPortfolioData;
   }
 
+  // Contributions above retirement account limits routed to a given investment
+  getOverflowContributions(investmentId: string): number[] {
+    const years = this.getYearsForCalculation();
+    const overflow: number[] = new Array(years).fill(0);
+
+    for (const source of this.enabledInvestments) {
+      if (source.overflowTarget?.id !== investmentId) continue;
+
+      source.contributionSchedule.forEach(({ year, excessContribution }) => {
+        if (year <= years) {
+          overflow[year - 1] += excessContribution;
+        }
+      });
+    }
+
+    return overflow;
+  }
+
+  // After-tax required minimum distributions reinvested into a given investment
+  getReinvestedRmds(investmentId: string): number[] {
+    const years = this.getYearsForCalculation();
+    const reinvested: number[] = new Array(years).fill(0);
+
+    for (const source of this.enabledInvestments) {
+      if (source.rmdReinvestmentTarget?.id !== investmentId) continue;
+
+      source.results.forEach(({ year, rmdReinvested }) => {
+        if (year >= 1 && year <= years) {
+          reinvested[year - 1] += rmdReinvested;
+        }
+      });
+    }
+
+    return reinvested;
+  }
+
+  // Budget surpluses paid into (positive) or deficits drawn from (negative) a given investment
+  getLinkedBudgetCashFlows(investmentId: string): number[] {
+    const years = this.getYearsForCalculation();
+    const cashFlows: number[] = new Array(years).fill(0);
+
+    for (const budget of this.enabledBudgets) {
+      if (budget.linkedInvestment?.id !== investmentId) continue;
+
+      budget.results.forEach(({ year, investedSurplus }) => {
+        if (year >= 1 && year <= years) {
+          cashFlows[year - 1] += investedSurplus;
+        }
+      });
+    }
+
+    return cashFlows;
+  }
+
+  // Debt payments withdrawn from a given investment (negative cash flows)
+  getLinkedDebtCashFlows(investmentId: string): number[] {
+    const years = this.getYearsForCalculation();
+    const cashFlows: number[] = new Array(years).fill(0);
+
+    for (const debt of this.enabledDebts) {
+      if (debt.linkedInvestment?.id !== investmentId) continue;
+
+      debt.results.forEach(({ year, payment }) => {
+        if (year >= 1 && year <= years) {
+          cashFlows[year - 1] -= payment;
+        }
+      });
+    }
+
+    return cashFlows;
+  }
+
   // Calculate annual property cash flows for a given investment
   getLinkedPropertyCashFlows(investmentId: string): number[] {
     const years = this.getYearsForCalculation();
@@ -473,27 +683,138 @@ export class PortfolioStore {
     return cashFlows;
   }
 
+  // Capital gains and losses from all planned property sales, netted by tax year
+  // with losses carried forward to later sales
+  get capitalGainsLedger(): CapitalGainsLedgerYear[] {
+    const years = this.getYearsForCalculation();
+    const sales = this.enabledProperties
+      .filter(property => property.isPlannedForSale && property.saleYear && property.saleYear <= years)
+      .map(property => ({
+        id: property.id,
+        name: property.name,
+        taxYear: property.saleTaxYear,
+        gain: property.reportableCapitalGain,
+        filingStatus: property.inputs.saleConfig.filingStatus
+      }));
+
+    const startingYear = this.parseIntSafe(this.startingYear) || new Date().getFullYear();
+    return CapitalLossCarryforwardCalculator.buildLedger(sales, startingYear + years);
+  }
+
+  // Tax saved by each ledger year's capital loss deduction against ordinary income,
+  // at the marginal rate of the income entered on the latest sale
+  get capitalLossTaxSavings(): Map<number, number> {
+    const savings = new Map<number, number>();
+    let owner: Property | undefined;
+
+    for (const year of this.capitalGainsLedger) {
+      const lastSale = year.sales[year.sales.length - 1];
+      if (lastSale) {
+        owner = this.enabledProperties.find(property => property.id === lastSale.id) ?? owner;
+      }
+      if (!owner || year.ordinaryIncomeOffset <= 0) continue;
+
+      const { annualIncome, filingStatus } = owner.inputs.saleConfig;
+      const rate = DepreciationRecaptureCalculator.getOrdinaryIncomeRate(
+        this.parseFloatSafe(annualIncome),
+        filingStatus,
+        year.taxYear,
+        owner.parsedInputs.inflationRate
+      );
+      savings.set(year.taxYear, year.ordinaryIncomeOffset * rate);
+    }
+
+    return savings;
+  }
+
   // Note: recalculateLinkedInvestments() method removed - no longer needed
   // Results are now computed properties that automatically update
 
+  // How long retirement withdrawals last across investments in drawdown
+  get drawdownSustainability(): DrawdownSustainability | null {
+    const investments = this.enabledInvestments
+      .filter(investment => investment.drawdownParams !== null)
+      .map(investment => ({
+        assetId: investment.id,
+        assetName: investment.name,
+        retirementYear: investment.retirementYearNumber!,
+        depletionYear: investment.depletionYear
+      }));
+    if (investments.length === 0) return null;
+
+    const depletionYears = investments
+      .map(investment => investment.depletionYear)
+      .filter((year): year is number => year !== null);
+
+    return {
+      investments,
+      depletionYear: depletionYears.length > 0 ? Math.min(...depletionYears) : null
+    };
+  }
+
+  private get debtPayoffSettings() {
+    return {
+      strategy: this.debtPayoffStrategy,
+      extraPayment: this.debtExtraPayment
+    };
+  }
+
+  // Payoff schedules of all included debts under the chosen strategy
+  get debtPayoffPlan(): Map<string, DebtPayoffSchedule> {
+    const schedules = DebtPayoffCalculator.buildSchedules(
+      this.enabledDebts.map(debt => debt.terms),
+      this.debtPayoffStrategy,
+      this.parseFloatSafe(this.debtExtraPayment),
+      this.getYearsForCalculation()
+    );
+    return new Map(schedules.map(schedule => [schedule.id, schedule]));
+  }
+
+  getDebtPayoffSchedule(debtId: string): DebtPayoffSchedule | null {
+    return this.debtPayoffPlan.get(debtId) ?? null;
+  }
+
+  // Interest and debt-free date of each strategy, for the payoff planner
+  get debtStrategyComparison(): DebtStrategySummary[] {
+    const debts = this.enabledDebts.map(debt => debt.terms);
+    if (debts.length === 0) return [];
+
+    return DebtPayoffCalculator.compareStrategies(
+      debts,
+      this.parseFloatSafe(this.debtExtraPayment),
+      this.getYearsForCalculation()
+    );
+  }
+
   get combinedResults(): CombinedResult[] {
     const enabledAssets = this.enabledAssets;
     if (enabledAssets.length === 0) return [];
 
     // Find the maximum number of years across all assets (including year 0)
     const maxYears = Math.max(...enabledAssets.map(asset => asset.results.length - 1));
+    const startingYear = this.parseIntSafe(this.startingYear) || new Date().getFullYear();
+    const capitalLossTaxSavings = this.capitalLossTaxSavings;
 
     const combinedResults: CombinedResult[] = [];
 
     for (let year = 0; year <= maxYears; year++) {
       let totalBalance = 0;
       let totalRealBalance = 0;
+      let totalAfterTaxBalance = 0;
+      let totalRealAfterTaxBalance = 0;
       let totalAnnualContribution = 0;
       let totalRealAnnualContribution = 0;
       let totalEarnings = 0;
       let totalRealEarnings = 0;
       let totalYearlyGain = 0;
       let totalRealYearlyGain = 0;
+      let totalDrawdownWithdrawal = 0;
+      let totalRealDrawdownWithdrawal = 0;
+      let totalBudgetSurplus = 0;
+      let totalRealBudgetSurplus = 0;
+      let totalDebtBalance = 0;
+      let totalRealDebtBalance = 0;
+      let totalTaxesPaid = -(capitalLossTaxSavings.get(startingYear + year) ?? 0);
 
       // Property-specific totals
       let totalPropertyValue = 0;
@@ -514,12 +835,17 @@ export class PortfolioStore {
             totalRealBalance += result.realBalance;
             totalInvestmentBalance += result.balance;
             totalRealInvestmentBalance += result.realBalance;
+            totalAfterTaxBalance += investmentResult.afterTaxBalance ?? result.balance;
+            totalRealAfterTaxBalance += investmentResult.realAfterTaxBalance ?? result.realBalance;
             totalAnnualContribution += investmentResult.annualContribution || 0;
             totalRealAnnualContribution += investmentResult.realAnnualContribution || 0;
             totalEarnings += investmentResult.totalEarnings || 0;
             totalRealEarnings += investmentResult.realTotalEarnings || 0;
             totalYearlyGain += investmentResult.yearlyGain || 0;
             totalRealYearlyGain += investmentResult.realYearlyGain || 0;
+            totalDrawdownWithdrawal += investmentResult.drawdownWithdrawal || 0;
+            totalRealDrawdownWithdrawal += investmentResult.realDrawdownWithdrawal || 0;
+            totalTaxesPaid += (investmentResult.distributionTax || 0) + (investmentResult.withdrawalTax || 0);
 
             assetBreakdown.push({
               assetId: asset.id,
@@ -539,9 +865,12 @@ export class PortfolioStore {
 
             totalBalance += equity;
             totalRealBalance += result.realBalance - mortgageBalance; // Approximation for real equity
+            totalAfterTaxBalance += equity;
+            totalRealAfterTaxBalance += result.realBalance - mortgageBalance;
             totalPropertyValue += propertyValue;
             totalRealPropertyValue += result.realBalance;
             totalMortgageBalance += mortgageBalance;
+            totalTaxesPaid += (propertyResult.rentalIncomeTax || 0) + (propertyResult.isSaleYear ? asset.totalTaxAmount : 0);
 
             // Properties don't have traditional contributions/earnings like investments
             // But we can show monthly payments as a form of contribution
@@ -565,23 +894,73 @@ export class PortfolioStore {
               principalInterestPayment: propertyResult.principalInterestPayment,
               otherFeesPayment: propertyResult.otherFeesPayment
             });
+          } else if (isBudget(asset)) {
+            // For budgets: surpluses not paid into an investment are held as cash
+            const budgetResult = result as BudgetResult;
+            totalBalance += result.balance;
+            totalRealBalance += result.realBalance;
+            totalAfterTaxBalance += result.balance;
+            totalRealAfterTaxBalance += result.realBalance;
+            totalBudgetSurplus += budgetResult.surplus;
+            totalRealBudgetSurplus += budgetResult.realSurplus;
+            totalTaxesPaid += budgetResult.incomeTax;
+
+            assetBreakdown.push({
+              assetId: asset.id,
+              assetName: asset.name,
+              assetType: 'budget',
+              balance: result.balance,
+              realBalance: result.realBalance,
+              contribution: budgetResult.surplus,
+              realContribution: budgetResult.realSurplus
+            });
+          } else if (isDebt(asset)) {
+            // For debts: the amount owed reduces net worth
+            const debtResult = result as DebtResult;
+            totalBalance -= result.balance;
+            totalRealBalance -= result.realBalance;
+            totalAfterTaxBalance -= result.balance;
+            totalRealAfterTaxBalance -= result.realBalance;
+            totalDebtBalance += result.balance;
+            totalRealDebtBalance += result.realBalance;
+
+            assetBreakdown.push({
+              assetId: asset.id,
+              assetName: asset.name,
+              assetType: 'debt',
+              balance: -result.balance,
+              realBalance: -result.realBalance,
+              contribution: debtResult.payment,
+              realContribution: debtResult.realPayment
+            });
           }
         }
       }
 
       const totalPropertyEquity = totalPropertyValue - totalMortgageBalance;
       const totalRealPropertyEquity = totalRealPropertyValue - totalMortgageBalance;
+      const inflationFactor = Math.pow(1 + this.parseFloatSafe(this.inflationRate) / 100, year);
 
       combinedResults.push({
         year,
         totalBalance: this.roundToTwoDecimals(totalBalance),
         totalRealBalance: this.roundToTwoDecimals(totalRealBalance),
+        totalAfterTaxBalance: this.roundToTwoDecimals(totalAfterTaxBalance),
+        totalRealAfterTaxBalance: this.roundToTwoDecimals(totalRealAfterTaxBalance),
         totalAnnualContribution: this.roundToTwoDecimals(totalAnnualContribution),
         totalRealAnnualContribution: this.roundToTwoDecimals(totalRealAnnualContribution),
         totalEarnings: this.roundToTwoDecimals(totalEarnings),
         totalRealEarnings: this.roundToTwoDecimals(totalRealEarnings),
         totalYearlyGain: this.roundToTwoDecimals(totalYearlyGain),
         totalRealYearlyGain: this.roundToTwoDecimals(totalRealYearlyGain),
+        totalDrawdownWithdrawal: this.roundToTwoDecimals(totalDrawdownWithdrawal),
+        totalRealDrawdownWithdrawal: this.roundToTwoDecimals(totalRealDrawdownWithdrawal),
+        totalBudgetSurplus: this.roundToTwoDecimals(totalBudgetSurplus),
+        totalRealBudgetSurplus: this.roundToTwoDecimals(totalRealBudgetSurplus),
+        totalDebtBalance: this.roundToTwoDecimals(totalDebtBalance),
+        totalRealDebtBalance: this.roundToTwoDecimals(totalRealDebtBalance),
+        totalTaxesPaid: this.roundToTwoDecimals(totalTaxesPaid),
+        totalRealTaxesPaid: this.roundToTwoDecimals(totalTaxesPaid / inflationFactor),
 
         // Property-specific totals
         totalPropertyValue: this.roundToTwoDecimals(totalPropertyValue),
@@ -596,9 +975,51 @@ export class PortfolioStore {
       });
     }
 
+    const monteCarloBands = this.calculateCombinedMonteCarloBands(combinedResults);
+    if (monteCarloBands) {
+      combinedResults.forEach((result, index) => {
+        result.monteCarlo = monteCarloBands[index];
+      });
+    }
+
     return combinedResults;
   }
 
+  // Combine Monte Carlo trials across investments into portfolio-level bands.
+  // Trial N of every simulated investment is summed with the deterministic
+  // balances of all other assets, so the bands describe the whole portfolio.
+  // Investments with different seeds are independent; investments sharing a
+  // seed draw the same returns and move together, widening the bands.
+  private calculateCombinedMonteCarloBands(combinedResults: CombinedResult[]): MonteCarloBand[] | null {
+    const simulated = this.enabledInvestments
+      .map(investment => ({ investment, monteCarlo: investment.monteCarloResult }))
+      .filter(entry => entry.monteCarlo !== null && entry.monteCarlo.trialBalances.length > 0);
+
+    if (simulated.length === 0) return null;
+
+    const trialCount = Math.max(...simulated.map(entry => entry.monteCarlo!.trialBalances.length));
+    const trialTotals: number[][] = [];
+
+    for (let trial = 0; trial < trialCount; trial++) {
+      const totals = combinedResults.map((result, year) => {
+        let total = result.totalBalance;
+        for (const { investment, monteCarlo } of simulated) {
+          const trials = monteCarlo!.trialBalances;
+          const path = trials[trial % trials.length];
+          total += (path[year] ?? 0) - (investment.results[year]?.balance ?? 0);
+        }
+        return total;
+      });
+      trialTotals.push(totals);
+    }
+
+    return MonteCarloCalculator.summarizeTrials(
+      trialTotals,
+      this.parseFloatSafe(this.inflationRate),
+      0
+    ).bands;
+  }
+
   // Shared input setters
   setYears = (value: string) => {
     // Allow empty string during typing, but ensure minimum value for calculations
@@ -617,10 +1038,22 @@ export class PortfolioStore {
         (asset as Investment).updateInput('inflationRate', value);
       } else if (asset.type === 'property') {
         (asset as Property).updateInput('inflationRate', value);
+      } else if (asset.type === 'budget') {
+        (asset as Budget).updateInput('inflationRate', value);
+      } else if (asset.type === 'debt') {
+        (asset as Debt).updateInput('inflationRate', value);
       }
     });
   }
 
+  setDebtPayoffStrategy = (value: DebtPayoffStrategy) => {
+    this.debtPayoffStrategy = value;
+  }
+
+  setDebtExtraPayment = (value: string) => {
+    this.debtExtraPayment = value;
+  }
+
   setStartingYear = (value: string) => {
     this.startingYear = value;
 
@@ -675,6 +1108,13 @@ export class PortfolioStore {
     this.savedPortfolioData = JSON.stringify(data);
   }
 
+  // Like save, but waits for a save in progress instead of being skipped
+  saveWhenIdle = async () => {
+    const data = this.getPortfolioDataForSerialization();
+    await this.rootStore.storageStore.saveWhenIdle('portfolioData', data);
+    this.savedPortfolioData = JSON.stringify(data);
+  }
+
   // Helper to apply display settings data
   private applyDisplaySettings(displayData: any) {
     if (displayData) {
@@ -725,6 +1165,8 @@ export class PortfolioStore {
 
   // Load portfolio data
   loadFromStorage = async () => {
+    // Issues from an earlier load don't apply to what is loaded now
+    this.loadIssues = [];
     const data = await this.rootStore.storageStore.load('portfolioData');
     
     if (!data) {
@@ -735,8 +1177,23 @@ export class PortfolioStore {
     this.loadPortfolioData(data);
   }
 
-  // Common method to load portfolio data from a parsed object
-  private loadPortfolioData = (data: any) => {
+  // Common method to load portfolio data from a parsed object.
+  // Older saves are migrated first; returns false when the data is unusable.
+  private loadPortfolioData = (rawData: unknown): boolean => {
+    let data: any;
+    try {
+      const migrated = migratePortfolioData(rawData);
+      data = migrated.data;
+      this.loadIssues = migrated.repairs;
+      if (migrated.repairs.length > 0) {
+        console.warn('Saved portfolio was repaired:', migrated.repairs);
+      }
+    } catch (error) {
+      console.error('Saved portfolio could not be loaded:', error);
+      this.loadIssues = [error instanceof Error ? error.message : 'Saved portfolio could not be loaded'];
+      return false;
+    }
+
     // Clear existing assets
     this.assets.clear();
 
@@ -758,6 +1215,9 @@ export class PortfolioStore {
     }
     if (data.inflationRate) this.inflationRate = data.inflationRate;
     if (data.startingYear) this.startingYear = data.startingYear;
+    this.household = Household.fromJSON(data.household);
+    this.debtPayoffStrategy = data.debtPayoff?.strategy ?? 'minimum';
+    this.debtExtraPayment = data.debtPayoff?.extraPayment ?? '0';
     
     // Load display settings if they exist in the data
     if (data.showNominal !== undefined) this.showNominal = data.showNominal;
@@ -774,6 +1234,22 @@ export class PortfolioStore {
         this.activeTabId = firstAsset ? firstAsset.id : 'combined';
       }
     }
+    return true;
+  }
+
+  clearLoadIssues = () => {
+    this.loadIssues = [];
+  }
+
+  // Show another scenario's portfolio, or the default portfolio when it has none saved
+  replacePortfolioData = (data: unknown) => {
+    this.activeTabId = 'combined';
+    this.loadIssues = [];
+    const isLoaded = data ? this.loadPortfolioData(data) : false;
+    if (!isLoaded || this.assets.size === 0) {
+      this.createDefaultPortfolio();
+    }
+    this.savedPortfolioData = this.currentPortfolioData;
   }
 
   resetToDefault = () => {
@@ -813,10 +1289,13 @@ export class PortfolioStore {
   // Serialized data for saving
   get serializedData(): string {
     return JSON.stringify({
+      schemaVersion: PORTFOLIO_SCHEMA_VERSION,
       assets: Array.from(this.assets.values()).map(asset => asset.toJSON()),
       years: this.years,
       inflationRate: this.inflationRate,
       startingYear: this.startingYear,
+      household: this.household.toJSON(),
+      debtPayoff: this.debtPayoffSettings,
       showNominal: this.showNominal,
       showReal: this.showReal
     });
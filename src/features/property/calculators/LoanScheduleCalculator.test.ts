@@ -0,0 +1,279 @@
+import { LoanScheduleCalculator, type ArmTerms } from './LoanScheduleCalculator';
+
+describe('LoanScheduleCalculator', () => {
+  const arm51: ArmTerms = {
+    initialFixedYears: 5,
+    adjustmentIntervalYears: 1,
+    indexRate: 4.5,
+    indexRateChange: 0,
+    margin: 2.75,
+    initialAdjustmentCap: 2,
+    periodicAdjustmentCap: 2,
+    lifetimeCap: 5
+  };
+
+  describe('calculatePayment', () => {
+    it('should calculate the standard amortizing payment', () => {
+      expect(LoanScheduleCalculator.calculatePayment(400000, 6, 360)).toBeCloseTo(2398.20, 2);
+    });
+
+    it('should split principal evenly at a 0% rate', () => {
+      expect(LoanScheduleCalculator.calculatePayment(120000, 0, 120)).toBe(1000);
+    });
+
+    it('should return 0 for an empty loan', () => {
+      expect(LoanScheduleCalculator.calculatePayment(0, 6, 360)).toBe(0);
+    });
+  });
+
+  describe('buildSchedule', () => {
+    it('should pay off a fixed-rate loan over its term at a constant payment', () => {
+      const schedule = LoanScheduleCalculator.buildSchedule({ principal: 400000, annualRate: 6, termYears: 30 });
+
+      expect(schedule).toHaveLength(360);
+      expect(schedule[schedule.length - 1].balance).toBeCloseTo(0, 2);
+      expect(schedule.every(month => month.rate === 6)).toBe(true);
+      expect(schedule.every(month => month.payment === schedule[0].payment)).toBe(true);
+      expect(schedule.some(month => month.isRateReset)).toBe(false);
+    });
+
+    it('should reset a 5/1 ARM after the fixed period and re-amortize the payment', () => {
+      const schedule = LoanScheduleCalculator.buildSchedule({ principal: 400000, annualRate: 5, termYears: 30, arm: arm51 });
+
+      // Month 60 is the last fixed month, month 61 is the first reset
+      expect(schedule[59].rate).toBe(5);
+      expect(schedule[60].isRateReset).toBe(true);
+      // Fully indexed 7.25% is within the 2 point initial cap
+      expect(schedule[60].rate).toBe(7);
+
+      const expectedPayment = LoanScheduleCalculator.calculatePayment(schedule[59].balance, 7, 300);
+      expect(schedule[60].payment).toBeCloseTo(expectedPayment, 6);
+      expect(schedule[60].payment).toBeGreaterThan(schedule[59].payment);
+
+      // Next annual reset reaches the fully indexed rate
+      expect(schedule[72].isRateReset).toBe(true);
+      expect(schedule[72].rate).toBe(7.25);
+      expect(schedule[schedule.length - 1].balance).toBeCloseTo(0, 2);
+      expect(schedule).toHaveLength(360);
+    });
+
+    it('should respect the lifetime cap', () => {
+      const schedule = LoanScheduleCalculator.buildSchedule({
+        principal: 300000,
+        annualRate: 4,
+        termYears: 30,
+        arm: { ...arm51, indexRateChange: 1 }
+      });
+
+      const maxRate = Math.max(...schedule.map(month => month.rate));
+      expect(maxRate).toBe(9);
+    });
+
+    it('should allow the rate to fall when the index drops', () => {
+      const schedule = LoanScheduleCalculator.buildSchedule({
+        principal: 300000,
+        annualRate: 7,
+        termYears: 30,
+        arm: { ...arm51, indexRate: 2, margin: 2 }
+      });
+
+      expect(schedule[60].rate).toBe(5);
+      expect(schedule[72].rate).toBe(4);
+    });
+  });
+
+  describe('extra principal', () => {
+    it('should shorten a fixed-rate loan without changing the payment', () => {
+      const base = LoanScheduleCalculator.buildSchedule({ principal: 200000, annualRate: 6, termYears: 30 });
+      const accelerated = LoanScheduleCalculator.buildSchedule({
+        principal: 200000,
+        annualRate: 6,
+        termYears: 30,
+        extraPrincipal: () => 200
+      });
+
+      expect(accelerated.length).toBeLessThan(base.length);
+      expect(accelerated[0].payment).toBe(base[0].payment);
+      expect(accelerated[0].extraPrincipal).toBe(200);
+      expect(accelerated[accelerated.length - 1].balance).toBeCloseTo(0, 6);
+    });
+
+    it('should never prepay more than the remaining balance', () => {
+      const schedule = LoanScheduleCalculator.buildSchedule({
+        principal: 50000,
+        annualRate: 5,
+        termYears: 15,
+        extraPrincipal: month => (month === 12 ? 1000000 : 0)
+      });
+
+      expect(schedule).toHaveLength(12);
+      expect(schedule[11].balance).toBe(0);
+      expect(schedule[11].extraPrincipal).toBeLessThan(50000);
+    });
+
+    it('should lower an ARM payment at the next reset', () => {
+      const base = LoanScheduleCalculator.buildSchedule({ principal: 300000, annualRate: 5, termYears: 30, arm: { ...arm51, indexRate: 2.25 } });
+      const prepaid = LoanScheduleCalculator.buildSchedule({
+        principal: 300000,
+        annualRate: 5,
+        termYears: 30,
+        arm: { ...arm51, indexRate: 2.25, indexRateChange: 0.001 },
+        extraPrincipal: month => (month === 1 ? 50000 : 0)
+      });
+
+      expect(prepaid[60].payment).toBeLessThan(base[60].payment);
+    });
+
+    it('should report months and interest saved', () => {
+      const base = LoanScheduleCalculator.buildSchedule({ principal: 200000, annualRate: 6, termYears: 30 });
+      const accelerated = LoanScheduleCalculator.buildSchedule({
+        principal: 200000,
+        annualRate: 6,
+        termYears: 30,
+        extraPrincipal: () => 200
+      });
+
+      const savings = LoanScheduleCalculator.calculatePrepaymentSavings(base, accelerated);
+      expect(savings.basePayoffMonth).toBe(360);
+      expect(savings.monthsSaved).toBe(360 - accelerated.length);
+      expect(savings.monthsSaved).toBeGreaterThan(60);
+      expect(savings.interestSaved).toBeGreaterThan(50000);
+    });
+  });
+
+  describe('refinancing', () => {
+    it('should restart amortization from the balance at the refinance month', () => {
+      const original = LoanScheduleCalculator.buildSchedule({ principal: 300000, annualRate: 7, termYears: 30 });
+      const schedule = LoanScheduleCalculator.buildSchedule({
+        principal: 300000,
+        annualRate: 7,
+        termYears: 30,
+        refinances: [{ month: 61, annualRate: 5, termYears: 30, cashOut: 0 }]
+      });
+
+      expect(schedule[60].isRefinance).toBe(true);
+      expect(schedule[60].rate).toBe(5);
+      expect(schedule[60].payment).toBeCloseTo(LoanScheduleCalculator.calculatePayment(original[59].balance, 5, 360), 6);
+      // New 30-year term runs from month 61
+      expect(schedule).toHaveLength(420);
+      expect(schedule[schedule.length - 1].balance).toBe(0);
+    });
+
+    it('should add cash-out to the new loan balance', () => {
+      const schedule = LoanScheduleCalculator.buildSchedule({
+        principal: 200000,
+        annualRate: 6,
+        termYears: 30,
+        refinances: [{ month: 13, annualRate: 6, termYears: 15, cashOut: 50000 }]
+      });
+
+      const balanceBefore = schedule[11].balance;
+      expect(schedule[12].balance).toBeCloseTo(balanceBefore + 50000 - schedule[12].principal, 6);
+      expect(schedule).toHaveLength(12 + 180);
+    });
+
+    it('should replace ARM terms with the fixed refinance rate', () => {
+      const schedule = LoanScheduleCalculator.buildSchedule({
+        principal: 300000,
+        annualRate: 5,
+        termYears: 30,
+        arm: arm51,
+        refinances: [{ month: 49, annualRate: 6, termYears: 30, cashOut: 0 }]
+      });
+
+      expect(schedule.some(month => month.isRateReset)).toBe(false);
+      expect(schedule.slice(48).every(month => month.rate === 6)).toBe(true);
+    });
+
+    it('should open a new loan with cash-out after payoff', () => {
+      const schedule = LoanScheduleCalculator.buildSchedule({
+        principal: 100000,
+        annualRate: 5,
+        termYears: 10,
+        refinances: [{ month: 145, annualRate: 6, termYears: 15, cashOut: 80000 }]
+      });
+
+      expect(schedule[130].balance).toBe(0);
+      expect(schedule[130].payment).toBe(0);
+      expect(schedule[144].isRefinance).toBe(true);
+      expect(schedule[144].payment).toBeCloseTo(LoanScheduleCalculator.calculatePayment(80000, 6, 180), 6);
+    });
+
+    it('should compute break-even against keeping the current loan', () => {
+      const current = LoanScheduleCalculator.buildSchedule({ principal: 300000, annualRate: 7, termYears: 30 });
+      const refinanced = LoanScheduleCalculator.buildSchedule({
+        principal: 300000,
+        annualRate: 7,
+        termYears: 30,
+        refinances: [{ month: 25, annualRate: 5.5, termYears: 28, cashOut: 0 }]
+      });
+
+      const comparison = LoanScheduleCalculator.compareRefinance(current, refinanced, 25, 6000);
+      expect(comparison.monthlySavings).toBeCloseTo(comparison.currentPayment - comparison.newPayment, 6);
+      expect(comparison.monthlySavings).toBeGreaterThan(0);
+      expect(comparison.breakEvenMonths).toBe(Math.ceil(6000 / comparison.monthlySavings));
+      expect(comparison.netSavings).toBeCloseTo(
+        comparison.remainingInterestIfKept - comparison.remainingInterestIfRefinanced - 6000, 6
+      );
+      expect(comparison.netSavings).toBeGreaterThan(0);
+    });
+
+    it('should report no break-even when the payment goes up', () => {
+      const current = LoanScheduleCalculator.buildSchedule({ principal: 300000, annualRate: 5, termYears: 30 });
+      const refinanced = LoanScheduleCalculator.buildSchedule({
+        principal: 300000,
+        annualRate: 5,
+        termYears: 30,
+        refinances: [{ month: 25, annualRate: 6, termYears: 30, cashOut: 0 }]
+      });
+
+      expect(LoanScheduleCalculator.compareRefinance(current, refinanced, 25, 3000).breakEvenMonths).toBeNull();
+    });
+  });
+
+  describe('getAdjustedRate', () => {
+    it('should limit the first reset by the initial adjustment cap', () => {
+      expect(LoanScheduleCalculator.getAdjustedRate(3, 3, 0, 5, arm51)).toBe(5);
+    });
+
+    it('should limit later resets by the periodic cap', () => {
+      const terms = { ...arm51, periodicAdjustmentCap: 1 };
+      expect(LoanScheduleCalculator.getAdjustedRate(5, 3, 1, 6, terms)).toBe(6);
+    });
+
+    it('should never fall below the margin', () => {
+      const terms = { ...arm51, indexRate: -5, initialAdjustmentCap: 10 };
+      expect(LoanScheduleCalculator.getAdjustedRate(6, 6, 0, 5, terms)).toBe(2.75);
+    });
+  });
+
+  describe('summarizePeriod', () => {
+    it('should total interest and principal for a year of payments', () => {
+      const schedule = LoanScheduleCalculator.buildSchedule({ principal: 200000, annualRate: 6, termYears: 30 });
+      const summary = LoanScheduleCalculator.summarizePeriod(schedule, 200000, 1);
+
+      expect(summary.startingBalance).toBe(200000);
+      expect(summary.totalPrincipal + summary.endingBalance).toBeCloseTo(200000, 6);
+      expect(summary.totalInterest).toBeGreaterThan(11900);
+      expect(summary.rate).toBe(6);
+      expect(summary.hasRateReset).toBe(false);
+    });
+
+    it('should flag periods containing a rate reset', () => {
+      const schedule = LoanScheduleCalculator.buildSchedule({ principal: 200000, annualRate: 5, termYears: 30, arm: arm51 });
+
+      expect(LoanScheduleCalculator.summarizePeriod(schedule, 200000, 49).hasRateReset).toBe(false);
+      expect(LoanScheduleCalculator.summarizePeriod(schedule, 200000, 61).hasRateReset).toBe(true);
+    });
+
+    it('should return zero payment and rate after payoff', () => {
+      const schedule = LoanScheduleCalculator.buildSchedule({ principal: 100000, annualRate: 5, termYears: 10 });
+      const summary = LoanScheduleCalculator.summarizePeriod(schedule, 100000, 121);
+
+      expect(summary.payment).toBe(0);
+      expect(summary.rate).toBe(0);
+      expect(summary.totalInterest).toBe(0);
+      expect(summary.endingBalance).toBeCloseTo(0, 2);
+    });
+  });
+});
@@ -0,0 +1,323 @@
+export type MortgageType = 'fixed' | 'arm';
+
+/**
+ * Adjustable-rate mortgage terms, e.g. a 5/1 ARM with 2/2/5 caps:
+ * initialFixedYears = 5, adjustmentIntervalYears = 1,
+ * initialAdjustmentCap = 2, periodicAdjustmentCap = 2, lifetimeCap = 5
+ */
+export interface ArmTerms {
+  /** Years the initial (teaser) rate is locked */
+  initialFixedYears: number;
+  /** Years between rate resets after the fixed period */
+  adjustmentIntervalYears: number;
+  /** Index rate (%) at loan origination, e.g. SOFR */
+  indexRate: number;
+  /** Assumed change in the index (percentage points) per year */
+  indexRateChange: number;
+  /** Margin (%) added to the index at each reset */
+  margin: number;
+  /** Max change (percentage points) at the first reset */
+  initialAdjustmentCap: number;
+  /** Max change (percentage points) at each later reset */
+  periodicAdjustmentCap: number;
+  /** Max increase (percentage points) over the initial rate for the life of the loan */
+  lifetimeCap: number;
+}
+
+/**
+ * Refinance into a new fixed-rate loan at the start of a loan month
+ */
+export interface LoanRefinance {
+  /** Loan month (1-based) the new loan starts */
+  month: number;
+  /** New annual interest rate (%) */
+  annualRate: number;
+  /** New loan term; amortization restarts from the balance at this point */
+  termYears: number;
+  /** Equity taken out, added to the new loan balance */
+  cashOut: number;
+}
+
+export interface LoanScheduleInputs {
+  principal: number;
+  /** Initial annual interest rate (%) */
+  annualRate: number;
+  termYears: number;
+  /** Adjustable-rate terms; omit for a fixed-rate loan */
+  arm?: ArmTerms | null;
+  /** Extra principal paid in a given loan month (1-based), on top of the scheduled payment */
+  extraPrincipal?: (month: number) => number;
+  /** Refinance events; each replaces the loan in effect (including any ARM terms) */
+  refinances?: LoanRefinance[];
+}
+
+export interface LoanScheduleMonth {
+  /** Month number from loan origination (1-based) */
+  month: number;
+  /** Annual rate (%) in effect this month */
+  rate: number;
+  /** Scheduled P+I payment this month */
+  payment: number;
+  interest: number;
+  /** Principal from the scheduled payment */
+  principal: number;
+  /** Prepaid principal beyond the scheduled payment */
+  extraPrincipal: number;
+  /** Balance after this month's payment */
+  balance: number;
+  /** Whether the rate was reset (and payment re-amortized) this month */
+  isRateReset: boolean;
+  /** Whether a refinanced loan started this month */
+  isRefinance: boolean;
+}
+
+export interface LoanPeriodSummary {
+  startingBalance: number;
+  endingBalance: number;
+  /** Scheduled plus extra principal */
+  totalPrincipal: number;
+  totalExtraPrincipal: number;
+  totalInterest: number;
+  /** Annual rate (%) in effect at the start of the period, 0 once paid off */
+  rate: number;
+  /** Scheduled P+I payment at the start of the period, 0 once paid off */
+  payment: number;
+  /** Whether any rate reset happened during the period */
+  hasRateReset: boolean;
+  /** Whether a refinance happened during the period */
+  hasRefinance: boolean;
+}
+
+export interface RefinanceComparison {
+  /** P+I payment of the current loan when the refinance would happen */
+  currentPayment: number;
+  /** P+I payment of the refinanced loan */
+  newPayment: number;
+  monthlySavings: number;
+  /** Months of payment savings needed to recover closing costs, null if payments don't go down */
+  breakEvenMonths: number | null;
+  /** Interest still owed from the refinance month on, keeping the current loan */
+  remainingInterestIfKept: number;
+  /** Interest owed on the refinanced loan */
+  remainingInterestIfRefinanced: number;
+  /** Interest avoided minus closing costs (negative = refinancing costs more) */
+  netSavings: number;
+}
+
+export interface PrepaymentSavings {
+  /** Months of payments eliminated compared with the base schedule */
+  monthsSaved: number;
+  /** Lifetime interest avoided compared with the base schedule */
+  interestSaved: number;
+  /** Loan month (1-based) of the final payment in each schedule */
+  basePayoffMonth: number;
+  payoffMonth: number;
+}
+
+/**
+ * Loan Schedule Calculator
+ *
+ * Builds a month-by-month amortization schedule for fixed-rate and
+ * adjustable-rate mortgages. ARM resets follow the standard model:
+ * - New rate = index + margin at each reset
+ * - Change limited by the initial and periodic adjustment caps
+ * - Rate bounded by the lifetime cap above the initial rate and floored at the margin
+ * - P+I payment re-amortized over the remaining term at every reset
+ *
+ * Extra principal shortens a fixed-rate loan; on an ARM the lower balance
+ * also lowers the payment at the next reset.
+ *
+ * A refinance replaces the loan with a new fixed-rate loan: the balance
+ * (plus any cash-out) is re-amortized over the new term at the new rate.
+ */
+export class LoanScheduleCalculator {
+  // Safety bound so a mis-configured loan can never loop forever
+  private static readonly MAX_SCHEDULE_MONTHS = 1200;
+
+  /**
+   * Standard amortizing P+I payment
+   */
+  static calculatePayment(principal: number, annualRate: number, termMonths: number): number {
+    if (principal <= 0 || termMonths <= 0) return 0;
+
+    const monthlyRate = annualRate / 100 / 12;
+    if (monthlyRate === 0) return principal / termMonths;
+
+    return principal * (monthlyRate * Math.pow(1 + monthlyRate, termMonths)) /
+      (Math.pow(1 + monthlyRate, termMonths) - 1);
+  }
+
+  /**
+   * Build the full month-by-month schedule until the loan is paid off
+   */
+  static buildSchedule(inputs: LoanScheduleInputs): LoanScheduleMonth[] {
+    const schedule: LoanScheduleMonth[] = [];
+    const refinances = [...(inputs.refinances || [])].sort((a, b) => a.month - b.month);
+    const lastRefinanceMonth = refinances.length > 0 ? refinances[refinances.length - 1].month : 0;
+
+    let arm = inputs.arm || null;
+    let termEndMonth = Math.max(1, Math.round(inputs.termYears * 12));
+    let balance = inputs.principal;
+    let rate = inputs.annualRate;
+    let payment = this.calculatePayment(balance, rate, termEndMonth);
+    let resetCount = 0;
+
+    for (let month = 1; month <= this.MAX_SCHEDULE_MONTHS; month++) {
+      const refinance = refinances.find(r => r.month === month);
+      let isRateReset = false;
+
+      if (refinance) {
+        balance += Math.max(0, refinance.cashOut);
+        rate = refinance.annualRate;
+        arm = null;
+        termEndMonth = month - 1 + Math.max(1, Math.round(refinance.termYears * 12));
+        payment = this.calculatePayment(balance, rate, termEndMonth - month + 1);
+      } else if (balance > 0 && arm && this.isResetMonth(month, arm)) {
+        const newRate = this.getAdjustedRate(rate, inputs.annualRate, resetCount, (month - 1) / 12, arm);
+        resetCount++;
+        isRateReset = true;
+        if (newRate !== rate) {
+          rate = newRate;
+          payment = this.calculatePayment(balance, rate, Math.max(1, termEndMonth - (month - 1)));
+        }
+      }
+
+      if (balance <= 0) {
+        // Paid off; keep empty months only while a later refinance could open a new loan
+        if (month > lastRefinanceMonth) break;
+        schedule.push({
+          month, rate: 0, payment: 0, interest: 0, principal: 0, extraPrincipal: 0,
+          balance: 0, isRateReset: false, isRefinance: !!refinance
+        });
+        continue;
+      }
+
+      const interest = balance * (rate / 100 / 12);
+      // The final scheduled payment clears any rounding residue left by re-amortization
+      const principal = month >= termEndMonth ? balance : Math.min(payment - interest, balance);
+      balance -= principal;
+
+      const extraPrincipal = inputs.extraPrincipal
+        ? Math.min(Math.max(0, inputs.extraPrincipal(month) || 0), balance)
+        : 0;
+      balance -= extraPrincipal;
+
+      schedule.push({
+        month, rate, payment, interest, principal, extraPrincipal, balance, isRateReset,
+        isRefinance: !!refinance
+      });
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Rate after an ARM reset, applying adjustment caps, lifetime cap and floor
+   */
+  static getAdjustedRate(
+    currentRate: number,
+    initialRate: number,
+    resetIndex: number,
+    yearsElapsed: number,
+    arm: ArmTerms
+  ): number {
+    const fullyIndexedRate = arm.indexRate + arm.indexRateChange * yearsElapsed + arm.margin;
+    const adjustmentCap = resetIndex === 0 ? arm.initialAdjustmentCap : arm.periodicAdjustmentCap;
+
+    let newRate = Math.min(Math.max(fullyIndexedRate, currentRate - adjustmentCap), currentRate + adjustmentCap);
+    newRate = Math.min(newRate, initialRate + arm.lifetimeCap);
+    newRate = Math.max(newRate, arm.margin, 0);
+
+    return Math.round(newRate * 1000) / 1000;
+  }
+
+  /**
+   * Summarize a run of months, e.g. one projection year (or a partial sale year)
+   */
+  static summarizePeriod(
+    schedule: LoanScheduleMonth[],
+    originalPrincipal: number,
+    startMonth: number,
+    monthCount: number = 12
+  ): LoanPeriodSummary {
+    const startingBalance = this.balanceAfterMonths(schedule, originalPrincipal, startMonth - 1);
+    const months = schedule.slice(startMonth - 1, startMonth - 1 + monthCount);
+
+    return {
+      startingBalance,
+      endingBalance: months.length > 0 ? months[months.length - 1].balance : startingBalance,
+      totalPrincipal: months.reduce((sum, m) => sum + m.principal + m.extraPrincipal, 0),
+      totalExtraPrincipal: months.reduce((sum, m) => sum + m.extraPrincipal, 0),
+      totalInterest: months.reduce((sum, m) => sum + m.interest, 0),
+      rate: months.length > 0 ? months[0].rate : 0,
+      payment: months.length > 0 ? months[0].payment : 0,
+      hasRateReset: months.some(m => m.isRateReset),
+      hasRefinance: months.some(m => m.isRefinance)
+    };
+  }
+
+  /**
+   * Remaining balance after a number of payments
+   */
+  static balanceAfterMonths(schedule: LoanScheduleMonth[], originalPrincipal: number, months: number): number {
+    if (months <= 0) return originalPrincipal;
+    if (months > schedule.length) return schedule.length > 0 ? Math.max(0, schedule[schedule.length - 1].balance) : originalPrincipal;
+    return schedule[months - 1].balance;
+  }
+
+  /**
+   * Months and interest saved by an accelerated schedule versus the base schedule
+   */
+  static calculatePrepaymentSavings(
+    baseSchedule: LoanScheduleMonth[],
+    acceleratedSchedule: LoanScheduleMonth[]
+  ): PrepaymentSavings {
+    const baseInterest = baseSchedule.reduce((sum, m) => sum + m.interest, 0);
+    const acceleratedInterest = acceleratedSchedule.reduce((sum, m) => sum + m.interest, 0);
+
+    return {
+      monthsSaved: Math.max(0, baseSchedule.length - acceleratedSchedule.length),
+      interestSaved: Math.max(0, baseInterest - acceleratedInterest),
+      basePayoffMonth: baseSchedule.length,
+      payoffMonth: acceleratedSchedule.length
+    };
+  }
+
+  /**
+   * Break-even comparison of refinancing at a given month versus keeping the current loan.
+   * Both schedules must be identical before the refinance month.
+   */
+  static compareRefinance(
+    currentSchedule: LoanScheduleMonth[],
+    refinancedSchedule: LoanScheduleMonth[],
+    refinanceMonth: number,
+    closingCosts: number
+  ): RefinanceComparison {
+    const currentPayment = currentSchedule[refinanceMonth - 1]?.payment ?? 0;
+    const newPayment = refinancedSchedule[refinanceMonth - 1]?.payment ?? 0;
+    const monthlySavings = currentPayment - newPayment;
+
+    const interestFrom = (schedule: LoanScheduleMonth[]) =>
+      schedule.slice(refinanceMonth - 1).reduce((sum, m) => sum + m.interest, 0);
+    const remainingInterestIfKept = interestFrom(currentSchedule);
+    const remainingInterestIfRefinanced = interestFrom(refinancedSchedule);
+
+    return {
+      currentPayment,
+      newPayment,
+      monthlySavings,
+      breakEvenMonths: monthlySavings > 0 ? Math.ceil(closingCosts / monthlySavings) : null,
+      remainingInterestIfKept,
+      remainingInterestIfRefinanced,
+      netSavings: remainingInterestIfKept - remainingInterestIfRefinanced - closingCosts
+    };
+  }
+
+  private static isResetMonth(month: number, arm: ArmTerms): boolean {
+    const fixedMonths = Math.round(arm.initialFixedYears * 12);
+    const intervalMonths = Math.max(1, Math.round(arm.adjustmentIntervalYears * 12));
+    const monthsSinceFixedPeriod = month - 1 - fixedMonths;
+
+    return monthsSinceFixedPeriod >= 0 && monthsSinceFixedPeriod % intervalMonths === 0;
+  }
+}
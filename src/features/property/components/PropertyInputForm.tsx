@@ -3,7 +3,10 @@ import { observer } from 'mobx-react-lite';
 import React from 'react';
 import { PropertyBasicsSection } from './PropertyBasicsSection';
 import { PropertyMortgageSection } from './PropertyMortgageSection';
+import { PropertyOwnershipCostsSection } from './PropertyOwnershipCostsSection';
 import { PropertyPortfolioSection } from './PropertyPortfolioSection';
+import { PropertyPrepaymentSection } from './PropertyPrepaymentSection';
+import { PropertyRefinanceSection } from './PropertyRefinanceSection';
 import { PropertyRentalManagement } from './PropertyRentalManagement';
 import { PropertySaleConfig } from './PropertySaleConfig';
 
@@ -16,6 +19,9 @@ export const PropertyInputForm: React.FC<PropertyInputFormProps> = observer(({ a
     <>
       <PropertyBasicsSection asset={asset} />
       <PropertyMortgageSection asset={asset} />
+      <PropertyPrepaymentSection asset={asset} />
+      <PropertyRefinanceSection asset={asset} />
+      <PropertyOwnershipCostsSection asset={asset} />
       <PropertySaleConfig asset={asset} />
       <PropertyRentalManagement asset={asset} />
       <PropertyPortfolioSection asset={asset} />
@@ -2,7 +2,8 @@ import { Property } from '@/features/property/stores/Property';
 import { observer } from 'mobx-react-lite';
 import React from 'react';
 import { CollapsibleSection } from '@/features/shared/components/CollapsibleSection';
-import { ValidatedPercentageInput, ValidatedYearInput, ValidatedCurrencyInput } from '@/features/shared/components/forms';
+import { ValidatedPercentageInput, ValidatedYearInput, ValidatedCurrencyInput, ValidatedSelectInput } from '@/features/shared/components/forms';
+import { type MortgageType } from '@/features/property/calculators/LoanScheduleCalculator';
 import { createPropertyValidationConfig } from '@/features/shared/validation';
 import { useFormValidation } from '@/features/shared/validation/hooks';
 import { usePortfolioStore } from '@/features/core/stores/hooks';
@@ -11,6 +12,11 @@ interface PropertyMortgageSectionProps {
   asset: Property;
 }
 
+const MORTGAGE_TYPE_OPTIONS = [
+  { value: 'fixed', label: 'Fixed Rate' },
+  { value: 'arm', label: 'Adjustable Rate (ARM)' }
+];
+
 export const PropertyMortgageSection: React.FC<PropertyMortgageSectionProps> = observer(({ asset }) => {
   const portfolioStore = usePortfolioStore();
   
@@ -34,15 +40,26 @@ export const PropertyMortgageSection: React.FC<PropertyMortgageSectionProps> = o
   return (
     <CollapsibleSection title="Mortgage & Financing" icon={icon}>
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="md:col-span-2">
+          <ValidatedSelectInput
+            label="Mortgage Type"
+            value={asset.inputs.mortgageType}
+            onChange={(value) => asset.updateInput('mortgageType', value as MortgageType)}
+            options={MORTGAGE_TYPE_OPTIONS}
+            fieldName="mortgageType"
+            helpText="ARMs keep the initial rate for a fixed period, then reset periodically"
+          />
+        </div>
+
         <ValidatedPercentageInput
-          label="Interest Rate"
+          label={asset.inputs.mortgageType === 'arm' ? 'Initial Interest Rate' : 'Interest Rate'}
           value={asset.inputs.interestRate || ''}
           onChange={(value) => asset.updateInput('interestRate', value)}
           validationContext={validationContext}
           fieldName="mortgageRate"
           validateOnBlur={true}
           required={true}
-          helpText="Annual interest rate for the mortgage"
+          helpText={asset.inputs.mortgageType === 'arm' ? 'Rate during the initial fixed period' : 'Annual interest rate for the mortgage'}
           highValueWarning={{ threshold: 10, message: 'Interest rate above 10% is very high' }}
         />
 
@@ -59,6 +76,79 @@ export const PropertyMortgageSection: React.FC<PropertyMortgageSectionProps> = o
           maxYear={50}
         />
 
+        {asset.inputs.mortgageType === 'arm' && (
+          <>
+            <ValidatedYearInput
+              label="Initial Fixed Period"
+              value={asset.inputs.armInitialFixedYears}
+              onChange={(value) => asset.updateInput('armInitialFixedYears', value)}
+              fieldName="armInitialFixedYears"
+              helpText="Years before the first rate reset (e.g., 5 for a 5/1 ARM)"
+              minYear={1}
+              maxYear={30}
+            />
+
+            <ValidatedYearInput
+              label="Adjustment Interval"
+              value={asset.inputs.armAdjustmentIntervalYears}
+              onChange={(value) => asset.updateInput('armAdjustmentIntervalYears', value)}
+              fieldName="armAdjustmentIntervalYears"
+              helpText="Years between resets after the fixed period"
+              minYear={1}
+              maxYear={10}
+            />
+
+            <ValidatedPercentageInput
+              label="Index Rate"
+              value={asset.inputs.armIndexRate}
+              onChange={(value) => asset.updateInput('armIndexRate', value)}
+              fieldName="armIndexRate"
+              helpText="Current value of the index the loan tracks (e.g., SOFR)"
+            />
+
+            <ValidatedPercentageInput
+              label="Index Change per Year"
+              value={asset.inputs.armIndexRateChange}
+              onChange={(value) => asset.updateInput('armIndexRateChange', value)}
+              fieldName="armIndexRateChange"
+              allowNegative={true}
+              helpText="Assumed yearly drift of the index in percentage points"
+            />
+
+            <ValidatedPercentageInput
+              label="Margin"
+              value={asset.inputs.armMargin}
+              onChange={(value) => asset.updateInput('armMargin', value)}
+              fieldName="armMargin"
+              helpText="Added to the index at each reset"
+            />
+
+            <ValidatedPercentageInput
+              label="Initial Adjustment Cap"
+              value={asset.inputs.armInitialAdjustmentCap}
+              onChange={(value) => asset.updateInput('armInitialAdjustmentCap', value)}
+              fieldName="armInitialAdjustmentCap"
+              helpText="Max rate change at the first reset"
+            />
+
+            <ValidatedPercentageInput
+              label="Periodic Adjustment Cap"
+              value={asset.inputs.armPeriodicAdjustmentCap}
+              onChange={(value) => asset.updateInput('armPeriodicAdjustmentCap', value)}
+              fieldName="armPeriodicAdjustmentCap"
+              helpText="Max rate change at each later reset"
+            />
+
+            <ValidatedPercentageInput
+              label="Lifetime Cap"
+              value={asset.inputs.armLifetimeCap}
+              onChange={(value) => asset.updateInput('armLifetimeCap', value)}
+              fieldName="armLifetimeCap"
+              helpText="Max increase over the initial rate for the life of the loan"
+            />
+          </>
+        )}
+
         <div className="md:col-span-2">
           <ValidatedCurrencyInput
             label="Total Monthly Payment"
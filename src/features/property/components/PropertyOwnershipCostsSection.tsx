@@ -0,0 +1,89 @@
+import { Property } from '@/features/property/stores/Property';
+import { observer } from 'mobx-react-lite';
+import React from 'react';
+import { CollapsibleSection } from '@/features/shared/components/CollapsibleSection';
+import { ValidatedCurrencyInput, ValidatedPercentageInput } from '@/features/shared/components/forms';
+
+interface PropertyOwnershipCostsSectionProps {
+  asset: Property;
+}
+
+export const PropertyOwnershipCostsSection: React.FC<PropertyOwnershipCostsSectionProps> = observer(({ asset }) => {
+  const icon = (
+    <svg className="w-6 h-6 text-primary-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 14l6-6m-5.5.5h.01m4.99 5h.01M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16l3.5-2 3.5 2 3.5-2 3.5 2z" />
+    </svg>
+  );
+
+  return (
+    <CollapsibleSection title="Property Tax, Insurance & HOA" icon={icon} defaultExpanded={false}>
+      <div className="space-y-6">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Tracked as separate expenses and deducted from cash flow. Leave them out of the Total Monthly Payment to avoid counting them twice.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <ValidatedPercentageInput
+            label="Property Tax Rate"
+            value={asset.inputs.propertyTaxRate}
+            onChange={(value) => asset.updateInput('propertyTaxRate', value)}
+            fieldName="propertyTaxRate"
+            helpText="Annual tax as % of assessed value"
+            highValueWarning={{ threshold: 4, message: 'Property tax above 4% is unusually high' }}
+          />
+
+          <ValidatedCurrencyInput
+            label="Assessed Value"
+            value={asset.inputs.assessedValue}
+            onChange={(value) => asset.updateInput('assessedValue', value)}
+            fieldName="assessedValue"
+            placeholder="Purchase price"
+            helpText="Current assessed value; defaults to the purchase price"
+          />
+
+          <ValidatedPercentageInput
+            label="Assessment Growth Cap"
+            value={asset.inputs.assessedValueGrowthCap}
+            onChange={(value) => asset.updateInput('assessedValueGrowthCap', value)}
+            fieldName="assessedValueGrowthCap"
+            placeholder="No cap"
+            helpText="Max yearly assessed value increase (e.g., 2% under CA Prop 13)"
+          />
+
+          <ValidatedCurrencyInput
+            label="Annual Insurance"
+            value={asset.inputs.annualInsurance}
+            onChange={(value) => asset.updateInput('annualInsurance', value)}
+            fieldName="annualInsurance"
+            helpText="Current yearly homeowners insurance premium"
+          />
+
+          <ValidatedPercentageInput
+            label="Insurance Inflation"
+            value={asset.inputs.insuranceInflationRate}
+            onChange={(value) => asset.updateInput('insuranceInflationRate', value)}
+            fieldName="insuranceInflationRate"
+            helpText="Yearly premium increase"
+          />
+
+          <div className="hidden md:block" />
+
+          <ValidatedCurrencyInput
+            label="Monthly HOA Dues"
+            value={asset.inputs.monthlyHoa}
+            onChange={(value) => asset.updateInput('monthlyHoa', value)}
+            fieldName="monthlyHoa"
+          />
+
+          <ValidatedPercentageInput
+            label="HOA Escalation"
+            value={asset.inputs.hoaEscalationRate}
+            onChange={(value) => asset.updateInput('hoaEscalationRate', value)}
+            fieldName="hoaEscalationRate"
+            helpText="Yearly dues increase"
+          />
+        </div>
+      </div>
+    </CollapsibleSection>
+  );
+});
@@ -0,0 +1,135 @@
+import { Property, type ExtraPrincipalFrequency } from '@/features/property/stores/Property';
+import { observer } from 'mobx-react-lite';
+import React from 'react';
+import { CollapsibleSection } from '@/features/shared/components/CollapsibleSection';
+import { CurrencyDisplay } from '@/features/shared/components/CurrencyDisplay';
+import {
+  ValidatedCheckboxInput,
+  ValidatedCurrencyInput,
+  ValidatedSelectInput,
+  ValidatedYearInput
+} from '@/features/shared/components/forms';
+import { usePortfolioStore } from '@/features/core/stores/hooks';
+
+interface PropertyPrepaymentSectionProps {
+  asset: Property;
+}
+
+const FREQUENCY_OPTIONS = [
+  { value: 'monthly', label: 'Every month' },
+  { value: 'annual', label: 'Once a year' }
+];
+
+const formatMonths = (months: number): string => {
+  const years = Math.floor(months / 12);
+  const remainder = months % 12;
+  if (years === 0) return `${remainder} mo`;
+  return remainder === 0 ? `${years} yr` : `${years} yr ${remainder} mo`;
+};
+
+export const PropertyPrepaymentSection: React.FC<PropertyPrepaymentSectionProps> = observer(({ asset }) => {
+  const portfolioStore = usePortfolioStore();
+  const projectionYears = parseInt(portfolioStore.years) || 10;
+  const hasLinkedInvestment = !!asset.inputs.linkedInvestmentId;
+  const savings = asset.prepaymentSavings;
+
+  const icon = (
+    <svg className="w-6 h-6 text-primary-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 17h8m0 0V9m0 8l-8-8-4 4-6-6" />
+    </svg>
+  );
+
+  return (
+    <CollapsibleSection title="Extra Principal Payments" icon={icon} defaultExpanded={false}>
+      <div className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <ValidatedCurrencyInput
+            label="Recurring Extra Principal"
+            value={asset.inputs.extraPrincipalAmount}
+            onChange={(value) => asset.updateInput('extraPrincipalAmount', value)}
+            fieldName="extraPrincipalAmount"
+            helpText="Paid on top of the scheduled payment, starting with the first projected year"
+          />
+
+          <ValidatedSelectInput
+            label="Frequency"
+            value={asset.inputs.extraPrincipalFrequency}
+            onChange={(value) => asset.updateInput('extraPrincipalFrequency', value as ExtraPrincipalFrequency)}
+            options={FREQUENCY_OPTIONS}
+            fieldName="extraPrincipalFrequency"
+          />
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Lump-Sum Paydowns</h3>
+            <button
+              type="button"
+              onClick={asset.addLumpSumPayment}
+              className="text-sm font-medium text-primary-600 dark:text-primary-400 hover:text-primary-700"
+            >
+              + Add lump sum
+            </button>
+          </div>
+
+          {asset.inputs.lumpSumPayments.map((payment) => (
+            <div key={payment.id} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 grid grid-cols-1 md:grid-cols-3 gap-4 items-start">
+              <ValidatedYearInput
+                label="Projection Year"
+                value={payment.year}
+                onChange={(value) => asset.updateLumpSumPayment(payment.id, 'year', value)}
+                fieldName={`lumpSumYear-${payment.id}`}
+                minYear={1}
+                maxYear={projectionYears}
+              />
+
+              <ValidatedCurrencyInput
+                label="Amount"
+                value={payment.amount}
+                onChange={(value) => asset.updateLumpSumPayment(payment.id, 'amount', value)}
+                fieldName={`lumpSumAmount-${payment.id}`}
+              />
+
+              <div className="space-y-2">
+                <ValidatedCheckboxInput
+                  label="Withdraw from linked investment"
+                  checked={payment.fromLinkedInvestment}
+                  onChange={(checked) => asset.updateLumpSumPayment(payment.id, 'fromLinkedInvestment', checked)}
+                  fieldName={`lumpSumFromInvestment-${payment.id}`}
+                  disabled={!hasLinkedInvestment}
+                  helpText={hasLinkedInvestment ? undefined : 'Link an investment in Portfolio Integration first'}
+                />
+                <button
+                  type="button"
+                  onClick={() => asset.removeLumpSumPayment(payment.id)}
+                  className="text-sm text-red-600 dark:text-red-400 hover:text-red-700"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {savings && (
+          <div className="bg-green-50 dark:bg-green-900/20 rounded-lg p-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Time Saved</p>
+              <p className="text-lg font-semibold text-green-700 dark:text-green-400">
+                {formatMonths(savings.monthsSaved)}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Paid off in month {savings.payoffMonth} instead of {savings.basePayoffMonth}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Interest Saved</p>
+              <CurrencyDisplay amount={savings.interestSaved} className="text-lg font-semibold text-green-700 dark:text-green-400" />
+              <p className="text-xs text-gray-500 dark:text-gray-400">Compared with the base amortization schedule</p>
+            </div>
+          </div>
+        )}
+      </div>
+    </CollapsibleSection>
+  );
+});
@@ -0,0 +1,138 @@
+import { Property } from '@/features/property/stores/Property';
+import { observer } from 'mobx-react-lite';
+import React from 'react';
+import { CollapsibleSection } from '@/features/shared/components/CollapsibleSection';
+import { CurrencyDisplay } from '@/features/shared/components/CurrencyDisplay';
+import {
+  ValidatedCurrencyInput,
+  ValidatedPercentageInput,
+  ValidatedYearInput
+} from '@/features/shared/components/forms';
+import { usePortfolioStore } from '@/features/core/stores/hooks';
+
+interface PropertyRefinanceSectionProps {
+  asset: Property;
+}
+
+export const PropertyRefinanceSection: React.FC<PropertyRefinanceSectionProps> = observer(({ asset }) => {
+  const portfolioStore = usePortfolioStore();
+  const projectionYears = parseInt(portfolioStore.years) || 10;
+  const analyses = asset.refinanceAnalyses;
+
+  const icon = (
+    <svg className="w-6 h-6 text-primary-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+    </svg>
+  );
+
+  return (
+    <CollapsibleSection title="Refinancing" icon={icon} defaultExpanded={false}>
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Replace the loan with a new fixed-rate loan. Amortization restarts from the balance at the start of the refinance year.
+          </p>
+          <button
+            type="button"
+            onClick={asset.addRefinance}
+            className="text-sm font-medium text-primary-600 dark:text-primary-400 hover:text-primary-700 whitespace-nowrap ml-4"
+          >
+            + Add refinance
+          </button>
+        </div>
+
+        {asset.inputs.refinances.map((refinance) => {
+          const analysis = analyses.find(a => a.refinanceId === refinance.id);
+
+          return (
+            <div key={refinance.id} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <ValidatedYearInput
+                  label="Projection Year"
+                  value={refinance.year}
+                  onChange={(value) => asset.updateRefinance(refinance.id, 'year', value)}
+                  fieldName={`refinanceYear-${refinance.id}`}
+                  minYear={1}
+                  maxYear={projectionYears}
+                />
+
+                <ValidatedPercentageInput
+                  label="New Interest Rate"
+                  value={refinance.interestRate}
+                  onChange={(value) => asset.updateRefinance(refinance.id, 'interestRate', value)}
+                  fieldName={`refinanceRate-${refinance.id}`}
+                  highValueWarning={{ threshold: 10, message: 'Interest rate above 10% is very high' }}
+                />
+
+                <ValidatedYearInput
+                  label="New Loan Term"
+                  value={refinance.loanTerm}
+                  onChange={(value) => asset.updateRefinance(refinance.id, 'loanTerm', value)}
+                  fieldName={`refinanceTerm-${refinance.id}`}
+                  minYear={1}
+                  maxYear={50}
+                />
+
+                <ValidatedCurrencyInput
+                  label="Closing Costs"
+                  value={refinance.closingCosts}
+                  onChange={(value) => asset.updateRefinance(refinance.id, 'closingCosts', value)}
+                  fieldName={`refinanceClosingCosts-${refinance.id}`}
+                  helpText="Paid in cash in the refinance year"
+                />
+
+                <ValidatedCurrencyInput
+                  label="Cash-Out Amount"
+                  value={refinance.cashOutAmount}
+                  onChange={(value) => asset.updateRefinance(refinance.id, 'cashOutAmount', value)}
+                  fieldName={`refinanceCashOut-${refinance.id}`}
+                  helpText="Added to the new loan and paid into the linked investment"
+                />
+
+                <div className="flex items-end">
+                  <button
+                    type="button"
+                    onClick={() => asset.removeRefinance(refinance.id)}
+                    className="text-sm text-red-600 dark:text-red-400 hover:text-red-700"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+
+              {analysis && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 border-t border-gray-200 dark:border-gray-600 pt-4">
+                  <div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Monthly P+I</p>
+                    <p className="text-sm font-semibold text-gray-900 dark:text-white">
+                      <CurrencyDisplay amount={analysis.currentPayment} className="inline" /> → <CurrencyDisplay amount={analysis.newPayment} className="inline" />
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Break-Even</p>
+                    <p className="text-sm font-semibold text-gray-900 dark:text-white">
+                      {analysis.breakEvenMonths !== null ? `${analysis.breakEvenMonths} months` : 'Payment does not decrease'}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Remaining Interest (keep / refinance)</p>
+                    <p className="text-sm font-semibold text-gray-900 dark:text-white">
+                      <CurrencyDisplay amount={analysis.remainingInterestIfKept} className="inline" /> / <CurrencyDisplay amount={analysis.remainingInterestIfRefinanced} className="inline" />
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Net Savings After Costs</p>
+                    <CurrencyDisplay
+                      amount={analysis.netSavings}
+                      className={`text-sm font-semibold ${analysis.netSavings >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </CollapsibleSection>
+  );
+});
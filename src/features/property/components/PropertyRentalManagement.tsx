@@ -1,8 +1,17 @@
-import { Property } from '@/features/property/stores/Property';
+import { Property, type DepreciationPropertyClass } from '@/features/property/stores/Property';
+import { RentalIncomeTaxCalculator } from '@/features/tax/calculators/RentalIncomeTaxCalculator';
+import type { FilingStatus } from '@/features/tax/types';
 import { observer } from 'mobx-react-lite';
 import React from 'react';
 import { CollapsibleSection } from '@/features/shared/components/CollapsibleSection';
-import { ValidatedCurrencyInput, ValidatedPercentageInput, ValidatedCheckboxInput } from '@/features/shared/components/forms';
+import {
+  ValidatedCurrencyInput,
+  ValidatedPercentageInput,
+  ValidatedCheckboxInput,
+  ValidatedNumberInput,
+  ValidatedSelectInput
+} from '@/features/shared/components/forms';
+import { CurrencyDisplay } from '@/features/shared/components/CurrencyDisplay';
 import { ExpenseBreakdown, VacancyImpactDisplay } from './rental';
 import { createPropertyValidationConfig } from '@/features/shared/validation';
 import { useFormValidation } from '@/features/shared/validation/hooks';
@@ -12,6 +21,18 @@ interface PropertyRentalManagementProps {
   asset: Property;
 }
 
+const PROPERTY_CLASS_OPTIONS = [
+  { value: 'residential', label: 'Residential rental (27.5 years)' },
+  { value: 'commercial', label: 'Commercial (39 years)' }
+];
+
+const FILING_STATUS_OPTIONS = [
+  { value: 'single', label: 'Single' },
+  { value: 'married_joint', label: 'Married Filing Jointly' },
+  { value: 'married_separate', label: 'Married Filing Separately' },
+  { value: 'head_of_household', label: 'Head of Household' }
+];
+
 export const PropertyRentalManagement: React.FC<PropertyRentalManagementProps> = observer(({ asset }) => {
   const portfolioStore = usePortfolioStore();
   
@@ -148,6 +169,94 @@ export const PropertyRentalManagement: React.FC<PropertyRentalManagementProps> =
               </div>
             </div>
 
+            {/* Depreciation Section */}
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-300 mb-4 border-b border-gray-200 dark:border-gray-600 pb-2">
+                Depreciation
+              </h3>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <ValidatedSelectInput
+                  label="Property Class"
+                  value={asset.inputs.propertyClass}
+                  onChange={(value) => asset.updateInput('propertyClass', value as DepreciationPropertyClass)}
+                  options={PROPERTY_CLASS_OPTIONS}
+                  fieldName="propertyClass"
+                  helpText="Straight-line recovery period"
+                />
+
+                <ValidatedNumberInput
+                  label="Month Placed in Service"
+                  value={asset.inputs.purchaseMonth}
+                  onChange={(value) => asset.updateInput('purchaseMonth', value)}
+                  fieldName="purchaseMonth"
+                  integerOnly={true}
+                  minValue={1}
+                  maxValue={12}
+                  helpText="Purchase month (1-12); the first year is prorated with the mid-month convention"
+                />
+              </div>
+
+              <p className="mt-4 text-sm text-gray-600 dark:text-gray-400">
+                Depreciable basis: <CurrencyDisplay amount={asset.depreciableBasis} className="inline font-semibold" />
+                {' '}(building share of purchase price and buying costs at {asset.inputs.saleConfig.landValuePercentage || '20'}% land value, plus capital improvements)
+              </p>
+            </div>
+
+            {/* Rental Income Tax Section */}
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-300 mb-4 border-b border-gray-200 dark:border-gray-600 pb-2">
+                Rental Income Tax
+              </h3>
+
+              <ValidatedCheckboxInput
+                label="Tax rental income each year"
+                checked={asset.inputs.rentalIncomeTaxEnabled}
+                onChange={(checked) => asset.updateInput('rentalIncomeTaxEnabled', checked)}
+                fieldName="rentalIncomeTaxEnabled"
+                helpText="Rent minus expenses, mortgage interest and depreciation is taxed at your marginal rate; cash flow to the linked investment is after tax"
+              />
+
+              {asset.inputs.rentalIncomeTaxEnabled && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-4">
+                  <ValidatedPercentageInput
+                    label="Marginal Tax Rate"
+                    value={asset.inputs.marginalTaxRate}
+                    onChange={(value) => asset.updateInput('marginalTaxRate', value)}
+                    fieldName="marginalTaxRate"
+                    maxValue={100}
+                    placeholder={(asset.rentalMarginalTaxRate * 100).toString()}
+                    helpText="Leave blank to use the federal bracket for your income and filing status"
+                  />
+
+                  <ValidatedCurrencyInput
+                    label="Annual Income (MAGI)"
+                    value={asset.inputs.saleConfig.annualIncome}
+                    onChange={(value) => asset.updateSaleConfig('annualIncome', value)}
+                    fieldName="rentalAnnualIncome"
+                    helpText={`Phases out the $${RentalIncomeTaxCalculator.SPECIAL_ALLOWANCE.toLocaleString()} passive loss allowance above $${RentalIncomeTaxCalculator.PHASE_OUT_START.toLocaleString()}; shared with the sale tax profile`}
+                  />
+
+                  <ValidatedSelectInput
+                    label="Filing Status"
+                    value={asset.inputs.saleConfig.filingStatus}
+                    onChange={(value) => asset.updateSaleConfig('filingStatus', value as FilingStatus)}
+                    options={FILING_STATUS_OPTIONS}
+                    fieldName="rentalFilingStatus"
+                    helpText="Shared with the sale tax profile"
+                  />
+
+                  <ValidatedCheckboxInput
+                    label="Active participation"
+                    checked={asset.inputs.activeParticipation}
+                    onChange={(checked) => asset.updateInput('activeParticipation', checked)}
+                    fieldName="activeParticipation"
+                    helpText="Allows rental losses against other income up to the allowance; disallowed losses carry forward until sale"
+                  />
+                </div>
+              )}
+            </div>
+
             {/* Expense Breakdown Section */}
             <ExpenseBreakdown asset={asset} />
             
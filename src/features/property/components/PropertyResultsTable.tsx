@@ -4,18 +4,25 @@ import { Property } from '@/features/property/stores/Property';
 import { FinancialTable } from '@/features/shared/components/tables';
 import { type ColumnDefinition, type DualValueColumn } from '@/features/shared/components/tables/types';
 import { formatCurrency } from '@/features/shared/utils/formatCurrency';
+import { usePortfolioStore } from '@/features/core/stores/hooks';
 
 interface PropertyResultsTableProps {
   asset: Property;
 }
 
 export const PropertyResultsTable: React.FC<PropertyResultsTableProps> = observer(({ asset }) => {
-  
+  const { household } = usePortfolioStore();
+
   if (!asset.hasResults) {
     return null;
   }
 
   const isRentalProperty = asset.inputs.isRentalProperty;
+  const hasExtraPrincipal = asset.results.some(result => result.extraPrincipalPaid > 0);
+  const hasPropertyTax = asset.results.some(result => result.propertyTaxExpense > 0);
+  const hasInsurance = asset.results.some(result => result.insuranceExpense > 0);
+  const hasHoa = asset.results.some(result => result.hoaExpense > 0);
+  const hasRentalTax = isRentalProperty && asset.inputs.rentalIncomeTaxEnabled;
 
   // Helper function to format currency values (removed - using shared utility)
 
@@ -30,9 +37,16 @@ export const PropertyResultsTable: React.FC<PropertyResultsTableProps> = observe
       realMortgagePayment: (result.monthlyPayment * 12) / inflationFactor,
       realPrincipal: result.principalPaid / inflationFactor,
       realInterest: result.interestPaid / inflationFactor,
+      realExtraPrincipal: result.extraPrincipalPaid / inflationFactor,
       realMortgageBalance: result.mortgageBalance / inflationFactor,
       realRentalIncome: result.annualRentalIncome / inflationFactor,
       realRentalExpenses: result.totalRentalExpenses / inflationFactor,
+      realPropertyTax: result.propertyTaxExpense / inflationFactor,
+      realInsurance: result.insuranceExpense / inflationFactor,
+      realHoa: result.hoaExpense / inflationFactor,
+      realDepreciation: result.depreciationExpense / inflationFactor,
+      realRentalTax: result.rentalIncomeTax / inflationFactor,
+      realSuspendedLoss: result.suspendedPassiveLoss / inflationFactor,
       realCashFlow: result.annualCashFlow / inflationFactor,
       nominalMortgagePayment: result.monthlyPayment * 12
     };
@@ -46,9 +60,35 @@ export const PropertyResultsTable: React.FC<PropertyResultsTableProps> = observe
       type: 'year',
       alignment: 'left',
       sticky: true
+    },
+    {
+      key: 'interestRate',
+      label: 'Rate',
+      type: 'percentage',
+      alignment: 'right',
+      formatter: (value, row) => {
+        if (row.isRefinanceYear) return value ? `${value.toFixed(3)}% REFI` : 'REFI';
+        if (!value) return '—';
+        const formatted = `${value.toFixed(3)}%`;
+        return row.isRateResetYear ? `${formatted} RESET` : formatted;
+      },
+      colorize: (_value, row) => {
+        if (row.isRefinanceYear) return 'text-blue-600 dark:text-blue-400';
+        return row.isRateResetYear ? 'text-amber-600 dark:text-amber-400' : 'text-gray-900 dark:text-white';
+      }
     }
   ];
 
+  if (household.hasAges) {
+    columns.splice(1, 0, {
+      key: 'age',
+      label: household.ageLabelHeading,
+      type: 'text',
+      alignment: 'left',
+      formatter: (_value, row) => household.getAgeLabel(row.actualYear)
+    });
+  }
+
   // Define dual-value columns
   const dualValueColumns: DualValueColumn[] = [
     {
@@ -101,6 +141,19 @@ export const PropertyResultsTable: React.FC<PropertyResultsTableProps> = observe
     }
   ];
 
+  // Add prepayment column when extra principal is being paid
+  if (hasExtraPrincipal) {
+    dualValueColumns.splice(3, 0, {
+      key: 'extraPrincipal',
+      label: 'Extra Principal',
+      nominalKey: 'extraPrincipalPaid',
+      realKey: 'realExtraPrincipal',
+      type: 'currency',
+      alignment: 'right',
+      colorize: () => 'text-green-600 dark:text-green-400'
+    });
+  }
+
   // Add rental columns conditionally
   if (isRentalProperty) {
     dualValueColumns.push(
@@ -121,11 +174,77 @@ export const PropertyResultsTable: React.FC<PropertyResultsTableProps> = observe
         type: 'currency',
         alignment: 'right',
         colorize: () => 'text-red-600 dark:text-red-400'
+      },
+      {
+        key: 'depreciation',
+        label: 'Depreciation',
+        nominalKey: 'depreciationExpense',
+        realKey: 'realDepreciation',
+        type: 'currency',
+        alignment: 'right'
+      }
+    );
+  }
+
+  // Add ownership cost columns when entered
+  if (hasPropertyTax) {
+    dualValueColumns.push({
+      key: 'propertyTax',
+      label: 'Property Tax',
+      nominalKey: 'propertyTaxExpense',
+      realKey: 'realPropertyTax',
+      type: 'currency',
+      alignment: 'right',
+      colorize: () => 'text-red-600 dark:text-red-400'
+    });
+  }
+  if (hasInsurance) {
+    dualValueColumns.push({
+      key: 'insurance',
+      label: 'Insurance',
+      nominalKey: 'insuranceExpense',
+      realKey: 'realInsurance',
+      type: 'currency',
+      alignment: 'right',
+      colorize: () => 'text-red-600 dark:text-red-400'
+    });
+  }
+  if (hasHoa) {
+    dualValueColumns.push({
+      key: 'hoa',
+      label: 'HOA',
+      nominalKey: 'hoaExpense',
+      realKey: 'realHoa',
+      type: 'currency',
+      alignment: 'right',
+      colorize: () => 'text-red-600 dark:text-red-400'
+    });
+  }
+
+  // Add rental income tax columns when enabled
+  if (hasRentalTax) {
+    dualValueColumns.push(
+      {
+        key: 'rentalTax',
+        label: 'Rental Tax',
+        nominalKey: 'rentalIncomeTax',
+        realKey: 'realRentalTax',
+        type: 'currency',
+        alignment: 'right',
+        colorize: (value) => value > 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'
+      },
+      {
+        key: 'suspendedLoss',
+        label: 'Suspended Loss',
+        nominalKey: 'suspendedPassiveLoss',
+        realKey: 'realSuspendedLoss',
+        type: 'currency',
+        alignment: 'right'
       }
     );
   }
 
-  // Add cash flow column
+  // Add cash flow column (after tax when rental income tax is enabled)
   dualValueColumns.push({
     key: 'cashFlow',
     label: 'Cash Flow',
@@ -8,6 +8,8 @@ import { createPropertyValidationConfig } from '@/features/shared/validation';
 import { useFormValidation } from '@/features/shared/validation/hooks';
 import type { FilingStatus } from '@/features/tax/types';
 import { getStateChoices } from '@/features/tax/data/StateTaxRates';
+import { LATEST_TAX_YEAR } from '@/features/tax/data/TaxTables';
+import { LifeEventSelect } from '@/features/household/components/LifeEventSelect';
 
 interface PropertySaleConfigProps {
   asset: Property;
@@ -19,6 +21,11 @@ export const PropertySaleConfig: React.FC<PropertySaleConfigProps> = observer(({
   // Get available investment assets for reinvestment target
   const availableInvestments = portfolioStore.investments.filter(inv => inv.id !== asset.id);
 
+  // Other properties can be the replacement in a 1031 exchange
+  const availableReplacementProperties = portfolioStore.properties.filter(property => property.id !== asset.id);
+  const exchange = asset.exchangeCalculation;
+  const exchangeCarryover = asset.exchangeCarryover;
+
   // Set up validation
   const validationConfig = createPropertyValidationConfig();
   const validationContext = {
@@ -85,21 +92,32 @@ export const PropertySaleConfig: React.FC<PropertySaleConfigProps> = observer(({
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             {/* Sale Year */}
-            <ValidatedNumberInput
-              label="Year to Sell"
-              value={asset.inputs.saleConfig.saleYear?.toString() || ''}
-              onChange={(value) => handleSaleConfigUpdate('saleYear', parseInt(value) || null)}
-              integerOnly={true}
-              allowNegative={false}
-              validationContext={validationContext}
-              fieldName="saleYear"
-              validateOnBlur={true}
-              required={true}
-              helpText={`Year within the ${portfolioStore.years}-year projection period`}
-              minValue={1}
-              maxValue={parseInt(portfolioStore.years)}
+            <LifeEventSelect
+              label="Sell At"
+              value={asset.inputs.saleConfig.saleEvent}
+              onChange={(value) => asset.updateSaleConfig('saleEvent', value)}
+              fieldName="saleEvent"
+              noneLabel="A projection year"
+              helpText="Or sell at a household member's retirement or age"
             />
 
+            {!asset.inputs.saleConfig.saleEvent && (
+              <ValidatedNumberInput
+                label="Year to Sell"
+                value={asset.inputs.saleConfig.saleYear?.toString() || ''}
+                onChange={(value) => handleSaleConfigUpdate('saleYear', parseInt(value) || null)}
+                integerOnly={true}
+                allowNegative={false}
+                validationContext={validationContext}
+                fieldName="saleYear"
+                validateOnBlur={true}
+                required={true}
+                helpText={`Year within the ${portfolioStore.years}-year projection period`}
+                minValue={1}
+                maxValue={parseInt(portfolioStore.years)}
+              />
+            )}
+
             {/* Sale Month */}
             <ValidatedSelectInput
               label="Month to Sell"
@@ -359,7 +377,7 @@ export const PropertySaleConfig: React.FC<PropertySaleConfigProps> = observer(({
                     </div>
 
                     {/* Section 121 Status Display */}
-                    {asset.inputs.saleConfig.saleYear && (
+                    {asset.saleYear && (
                       <div className="mt-4 p-3 bg-white dark:bg-gray-800 rounded border border-gray-200 dark:border-gray-600">
                         <div className="text-sm">
                           <div className="flex items-center justify-between mb-2">
@@ -418,8 +436,8 @@ export const PropertySaleConfig: React.FC<PropertySaleConfigProps> = observer(({
                         validationContext={validationContext}
                         fieldName="totalDepreciationTaken"
                         validateOnBlur={true}
-                        helpText="Cumulative depreciation deductions taken"
-                        placeholder="0"
+                        helpText="Cumulative depreciation deductions taken; leave blank to use the calculated schedule"
+                        placeholder={asset.inputs.isRentalProperty ? Math.round(asset.calculatedDepreciationTaken).toString() : '0'}
                       />
 
                       {/* Land Value Percentage */}
@@ -436,28 +454,27 @@ export const PropertySaleConfig: React.FC<PropertySaleConfigProps> = observer(({
                       />
                     </div>
 
-                    {/* Depreciation Helper Calculator */}
-                    {asset.inputs.saleConfig.yearsOwned && (
+                    {/* Calculated Depreciation */}
+                    {asset.inputs.isRentalProperty && (
                       <div className="mt-4 p-3 bg-white dark:bg-gray-800 rounded border border-gray-200 dark:border-gray-600">
                         <div className="text-sm">
                           <div className="font-medium text-gray-700 dark:text-gray-300 mb-2">
-                            Depreciation Helper
+                            Calculated Depreciation
                           </div>
                           <div className="space-y-1 text-xs text-gray-600 dark:text-gray-400">
-                            <div>Property Value: ${(parseFloat(asset.inputs.purchasePrice) || 0).toLocaleString()}</div>
-                            <div>Land Value ({asset.inputs.saleConfig.landValuePercentage}%): ${((parseFloat(asset.inputs.purchasePrice) || 0) * (parseFloat(asset.inputs.saleConfig.landValuePercentage) || 20) / 100).toLocaleString()}</div>
-                            <div>Depreciable Basis: ${((parseFloat(asset.inputs.purchasePrice) || 0) * (1 - (parseFloat(asset.inputs.saleConfig.landValuePercentage) || 20) / 100)).toLocaleString()}</div>
-                            <div>Annual Depreciation (27.5 years): ${(((parseFloat(asset.inputs.purchasePrice) || 0) * (1 - (parseFloat(asset.inputs.saleConfig.landValuePercentage) || 20) / 100)) / 27.5).toLocaleString()}</div>
+                            <div>Depreciable Basis: ${asset.depreciableBasis.toLocaleString(undefined, { maximumFractionDigits: 0 })}</div>
+                            <div>Recovery Period: {asset.inputs.propertyClass === 'commercial' ? '39' : '27.5'} years (mid-month convention)</div>
                             <div className="pt-1 border-t border-gray-200 dark:border-gray-600">
-                              Estimated Total ({parseFloat(asset.inputs.saleConfig.yearsOwned) || 0} years): ${(((parseFloat(asset.inputs.purchasePrice) || 0) * (1 - (parseFloat(asset.inputs.saleConfig.landValuePercentage) || 20) / 100)) / 27.5 * (parseFloat(asset.inputs.saleConfig.yearsOwned) || 0)).toLocaleString()}
+                              Total Through Sale: ${asset.calculatedDepreciationTaken.toLocaleString(undefined, { maximumFractionDigits: 0 })}
                             </div>
+                            <div>Used automatically when Total Depreciation Taken is left blank.</div>
                           </div>
                         </div>
                       </div>
                     )}
 
                     {/* Depreciation Recapture Status Display */}
-                    {asset.inputs.saleConfig.saleYear && (
+                    {asset.saleYear && (
                       <div className="mt-4 p-3 bg-white dark:bg-gray-800 rounded border border-gray-200 dark:border-gray-600">
                         <div className="text-sm">
                           <div className="flex items-center justify-between mb-2">
@@ -487,6 +504,44 @@ export const PropertySaleConfig: React.FC<PropertySaleConfigProps> = observer(({
               </div>
             </div>
 
+            {/* Section 1031 Like-Kind Exchange */}
+            <div className="group">
+              <ValidatedCheckboxInput
+                label="1031 exchange into another property"
+                checked={!!asset.inputs.saleConfig.is1031Exchange}
+                onChange={(checked) => handleSaleConfigUpdate('is1031Exchange', checked)}
+                validationContext={validationContext}
+                fieldName="is1031Exchange"
+                helpText="Defer capital gains and depreciation recapture by buying a replacement property; only boot is taxed"
+              />
+              {asset.inputs.saleConfig.is1031Exchange && (
+                <div className="ml-7 mt-2">
+                  <ValidatedSelectInput
+                    label="Replacement Property"
+                    value={asset.inputs.saleConfig.replacementPropertyId || ''}
+                    onChange={(value) => handleSaleConfigUpdate('replacementPropertyId', value || null)}
+                    options={[
+                      { value: '', label: 'Select replacement property...', disabled: true },
+                      ...availableReplacementProperties.map((property) => ({
+                        value: property.id,
+                        label: property.name
+                      }))
+                    ]}
+                    validationContext={validationContext}
+                    fieldName="replacementPropertyId"
+                    validateOnBlur={true}
+                    required={true}
+                    helpText="Its purchase price and mortgage determine the boot; the deferred gain lowers its basis"
+                  />
+                  {availableReplacementProperties.length === 0 && (
+                    <p className="text-xs text-orange-600 dark:text-orange-400 mt-1">
+                      Create the replacement property first to exchange into it.
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+
             {/* Sale Proceeds Reinvestment */}
             <div className="group">
               <ValidatedCheckboxInput
@@ -495,7 +550,9 @@ export const PropertySaleConfig: React.FC<PropertySaleConfigProps> = observer(({
                 onChange={(checked) => handleSaleConfigUpdate('reinvestProceeds', checked)}
                 validationContext={validationContext}
                 fieldName="reinvestProceeds"
-                helpText="Automatically reinvest the net proceeds from the sale into a selected investment"
+                helpText={asset.inputs.saleConfig.is1031Exchange
+                  ? 'Reinvest the cash boot left after the exchange into a selected investment'
+                  : 'Automatically reinvest the net proceeds from the sale into a selected investment'}
               />
               {asset.inputs.saleConfig.reinvestProceeds && (
                 <div className="ml-7 mt-2">
@@ -527,10 +584,10 @@ export const PropertySaleConfig: React.FC<PropertySaleConfigProps> = observer(({
           </div>
 
           {/* Sale Summary */}
-          {asset.inputs.saleConfig.saleYear && (
+          {asset.saleYear && (
             <div className="bg-gray-50 dark:bg-gray-900/50 rounded-lg p-4 border border-gray-200 dark:border-gray-600">
               <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
-                Sale Summary (Year {asset.inputs.saleConfig.saleYear})
+                Sale Summary (Year {asset.saleYear})
               </h4>
               
               {/* Basic Sale Information */}
@@ -550,7 +607,7 @@ export const PropertySaleConfig: React.FC<PropertySaleConfigProps> = observer(({
                 <div>
                   <span className="text-gray-500 dark:text-gray-400">Mortgage Payoff:</span>
                   <div className="font-medium text-red-600 dark:text-red-400">
-                    -${asset.results[asset.inputs.saleConfig.saleYear]?.preSaleMortgageBalance?.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) || '0.00'}
+                    -${asset.results[asset.saleYear]?.preSaleMortgageBalance?.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) || '0.00'}
                   </div>
                 </div>
                 <div>
@@ -563,9 +620,15 @@ export const PropertySaleConfig: React.FC<PropertySaleConfigProps> = observer(({
 
               {/* Tax Calculation */}
               <div className="border-t border-gray-200 dark:border-gray-600 pt-4">
-                <h5 className="text-xs font-semibold text-gray-600 dark:text-gray-400 mb-3 uppercase tracking-wide">
+                <h5 className="text-xs font-semibold text-gray-600 dark:text-gray-400 mb-1 uppercase tracking-wide">
                   Tax Calculation
                 </h5>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                  {asset.saleTaxYear} tax year
+                  {asset.saleTaxYear > LATEST_TAX_YEAR
+                    ? ` - brackets projected from ${LATEST_TAX_YEAR} at ${asset.parsedInputs.inflationRate}% inflation`
+                    : ''}
+                </p>
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                   <div>
                     <span className="text-gray-500 dark:text-gray-400">Cost Basis:</span>
@@ -575,10 +638,57 @@ export const PropertySaleConfig: React.FC<PropertySaleConfigProps> = observer(({
                   </div>
                   <div>
                     <span className="text-gray-500 dark:text-gray-400">Capital Gain/Loss:</span>
-                    <div className={`font-medium ${asset.capitalGain >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
-                      ${asset.capitalGain.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                    <div className={`font-medium ${asset.capitalGainOrLoss >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                      ${asset.capitalGainOrLoss.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                     </div>
+                    {asset.capitalGainOrLoss < 0 && (
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {asset.reportableCapitalGain < 0
+                          ? 'Offsets other sales, then $3,000/yr of income; see Capital Gains Ledger'
+                          : asset.isExchange
+                            ? 'Loss is deferred into the replacement property'
+                            : 'Loss on a personal residence is not deductible'}
+                      </div>
+                    )}
                   </div>
+
+                  {/* Portfolio Losses */}
+                  {asset.portfolioLossOffset > 0 && (
+                    <div>
+                      <span className="text-gray-500 dark:text-gray-400">Portfolio Losses Applied:</span>
+                      <div className="font-medium text-blue-600 dark:text-blue-400">
+                        -${asset.portfolioLossOffset.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Section 1031 Exchange */}
+                  {exchange && (
+                    <>
+                      <div>
+                        <span className="text-gray-500 dark:text-gray-400">Boot (Taxable):</span>
+                        <div className="font-medium text-orange-600 dark:text-orange-400">
+                          ${exchange.totalBoot.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        </div>
+                      </div>
+                      <div>
+                        <span className="text-gray-500 dark:text-gray-400">Deferred Gain:</span>
+                        <div className="font-medium text-blue-600 dark:text-blue-400">
+                          ${(exchange.deferredCapitalGain + exchange.deferredRecapture).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        </div>
+                      </div>
+                      <div className="col-span-2 md:col-span-4 text-xs text-gray-500 dark:text-gray-400">
+                        {exchange.notes}. ${exchange.exchangedEquity.toLocaleString('en-US', { maximumFractionDigits: 0 })} of equity rolls into {asset.replacementProperty?.name}.
+                      </div>
+                    </>
+                  )}
+                  {exchangeCarryover.sourcePropertyNames.length > 0 && (
+                    <div className="col-span-2 md:col-span-4 text-xs text-gray-500 dark:text-gray-400">
+                      Cost basis reflects ${exchangeCarryover.deferredCapitalGain.toLocaleString('en-US', { maximumFractionDigits: 0 })} of gain
+                      {exchangeCarryover.deferredRecapture > 0 && ` and $${exchangeCarryover.deferredRecapture.toLocaleString('en-US', { maximumFractionDigits: 0 })} of depreciation recapture`}
+                      {' '}deferred by the 1031 exchange from {exchangeCarryover.sourcePropertyNames.join(', ')}.
+                    </div>
+                  )}
                   
                   {/* Section 121 Exclusion */}
                   {asset.inputs.saleConfig.enableSection121 && asset.section121Exclusion.appliedExclusion > 0 && (
@@ -600,17 +710,27 @@ export const PropertySaleConfig: React.FC<PropertySaleConfigProps> = observer(({
                   
                   {/* Federal Tax */}
                   <div>
-                    <span className="text-gray-500 dark:text-gray-400">Federal Tax ({asset.federalTaxCalculation.taxRate > 0 ? (asset.federalTaxCalculation.taxRate * 100).toFixed(0) + '%' : '0%'}):</span>
+                    <span className="text-gray-500 dark:text-gray-400">Federal Tax ({(asset.federalTaxCalculation.taxRate * 100).toFixed(1)}% effective):</span>
                     <div className={`font-medium ${asset.federalTaxAmount > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
                       -${asset.federalTaxAmount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                     </div>
                   </div>
                   
+                  {/* Net Investment Income Tax */}
+                  <div>
+                    <span className="text-gray-500 dark:text-gray-400">
+                      NIIT (3.8% over ${asset.netInvestmentIncomeTaxCalculation.threshold.toLocaleString()} MAGI):
+                    </span>
+                    <div className={`font-medium ${asset.netInvestmentIncomeTax > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                      -${asset.netInvestmentIncomeTax.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                    </div>
+                  </div>
+                  
                   {/* State Tax */}
                   {asset.inputs.saleConfig.enableStateTax && (
                     <div>
                       <span className="text-gray-500 dark:text-gray-400">
-                        State Tax ({asset.stateTaxCalculation.stateName}: {asset.stateTaxCalculation.hasCapitalGainsTax ? (asset.stateTaxCalculation.taxRate * 100).toFixed(1) + '%' : '0%'}):
+                        State Tax ({asset.stateTaxCalculation.stateName}: {asset.stateTaxCalculation.hasCapitalGainsTax ? (asset.stateTaxCalculation.taxRate * 100).toFixed(1) + '%' : '0%'}{asset.stateTaxCalculation.isSimplified === false ? ' effective' : ''}):
                       </span>
                       <div className={`font-medium ${asset.stateTaxAmount > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
                         -${asset.stateTaxAmount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
@@ -625,6 +745,36 @@ export const PropertySaleConfig: React.FC<PropertySaleConfigProps> = observer(({
                       -${asset.totalTaxAmount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                     </div>
                   </div>
+
+                  {/* Federal Bracket Breakdown */}
+                  {asset.federalTaxCalculation.bracketBreakdown.length > 0 && (
+                    <div className="col-span-2 md:col-span-4 text-xs text-gray-600 dark:text-gray-400">
+                      <div className="font-medium mb-1">Federal brackets (gain stacked on ${(parseFloat(asset.inputs.saleConfig.annualIncome || '0') || 0).toLocaleString()} income):</div>
+                      {asset.federalTaxCalculation.bracketBreakdown.map((bracket) => (
+                        <div key={bracket.min} className="flex justify-between">
+                          <span>
+                            {(bracket.rate * 100).toFixed(0)}% on ${bracket.taxableAmount.toLocaleString('en-US', { maximumFractionDigits: 0 })}
+                          </span>
+                          <span>${bracket.taxAmount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {/* State Bracket Breakdown */}
+                  {asset.inputs.saleConfig.enableStateTax && asset.stateTaxCalculation.isSimplified === false && asset.stateTaxCalculation.bracketBreakdown.length > 0 && (
+                    <div className="col-span-2 md:col-span-4 text-xs text-gray-600 dark:text-gray-400">
+                      <div className="font-medium mb-1">State brackets (gain stacked on ${(parseFloat(asset.inputs.saleConfig.annualIncome || '0') || 0).toLocaleString()} income):</div>
+                      {asset.stateTaxCalculation.bracketBreakdown.map((bracket) => (
+                        <div key={bracket.min} className="flex justify-between">
+                          <span>
+                            {(bracket.rate * 100).toFixed(2)}% on ${bracket.taxableAmount.toLocaleString('en-US', { maximumFractionDigits: 0 })}
+                          </span>
+                          <span>${bracket.taxAmount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -19,6 +19,13 @@ export const ExpenseBreakdown: React.FC<ExpenseBreakdownProps> = observer(({ ass
     return null;
   }
 
+  const ownershipCosts = [
+    { label: 'Property Tax', amount: latestResult!.propertyTaxExpense, note: 'Of assessed value' },
+    { label: 'Insurance', amount: latestResult!.insuranceExpense, note: 'Annual premium' },
+    { label: 'HOA', amount: latestResult!.hoaExpense, note: 'Annual dues' }
+  ].filter(cost => cost.amount > 0);
+  const totalExpenses = latestResult!.totalRentalExpenses + ownershipCosts.reduce((sum, cost) => sum + cost.amount, 0);
+
   return (
     <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-6">
       <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-300 mb-4 border-b border-gray-200 dark:border-gray-600 pb-2">
@@ -93,6 +100,21 @@ export const ExpenseBreakdown: React.FC<ExpenseBreakdownProps> = observer(({ ass
           </div>
         )}
 
+        {/* Property Tax, Insurance & HOA */}
+        {ownershipCosts.map(cost => (
+          <div key={cost.label} className="bg-white dark:bg-gray-700 rounded-lg p-4 border border-gray-200 dark:border-gray-600">
+            <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+              {cost.label}
+            </h4>
+            <div className="text-lg font-bold text-gray-900 dark:text-white">
+              ${cost.amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+            </div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              {cost.note}
+            </div>
+          </div>
+        ))}
+
         {/* Total Expenses */}
         <div className="bg-red-50 dark:bg-red-900/20 rounded-lg p-4 border-2 border-red-200 dark:border-red-800">
           <div className="flex items-center justify-between mb-2">
@@ -104,7 +126,7 @@ export const ExpenseBreakdown: React.FC<ExpenseBreakdownProps> = observer(({ ass
             </svg>
           </div>
           <div className="text-xl font-bold text-red-900 dark:text-red-100">
-            ${latestResult!.totalRentalExpenses.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+            ${totalExpenses.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
           </div>
           <div className="text-xs text-red-600 dark:text-red-400">
             Annual total
@@ -122,7 +144,7 @@ export const ExpenseBreakdown: React.FC<ExpenseBreakdownProps> = observer(({ ass
             <span className="text-gray-600 dark:text-gray-400">As % of Rental Income:</span>
             <span className="font-semibold text-gray-900 dark:text-white ml-2">
               {latestResult!.annualRentalIncome > 0 
-                ? `${((latestResult!.totalRentalExpenses / latestResult!.annualRentalIncome) * 100).toFixed(1)}%`
+                ? `${((totalExpenses / latestResult!.annualRentalIncome) * 100).toFixed(1)}%`
                 : 'N/A'
               }
             </span>
@@ -131,7 +153,7 @@ export const ExpenseBreakdown: React.FC<ExpenseBreakdownProps> = observer(({ ass
             <span className="text-gray-600 dark:text-gray-400">As % of Property Value:</span>
             <span className="font-semibold text-gray-900 dark:text-white ml-2">
               {latestResult!.balance > 0 
-                ? `${((latestResult!.totalRentalExpenses / latestResult!.balance) * 100).toFixed(1)}%`
+                ? `${((totalExpenses / latestResult!.balance) * 100).toFixed(1)}%`
                 : 'N/A'
               }
             </span>
@@ -139,11 +161,11 @@ export const ExpenseBreakdown: React.FC<ExpenseBreakdownProps> = observer(({ ass
           <div>
             <span className="text-gray-600 dark:text-gray-400">Net Operating Income:</span>
             <span className={`font-semibold ml-2 ${
-              (latestResult!.annualRentalIncome - latestResult!.totalRentalExpenses) >= 0 
+              (latestResult!.annualRentalIncome - totalExpenses) >= 0 
                 ? 'text-green-600 dark:text-green-400' 
                 : 'text-red-600 dark:text-red-400'
             }`}>
-              ${(latestResult!.annualRentalIncome - latestResult!.totalRentalExpenses).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+              ${(latestResult!.annualRentalIncome - totalExpenses).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
             </span>
           </div>
         </div>
@@ -0,0 +1,101 @@
+import { Property } from '@/features/property/stores/Property';
+
+describe('Property - Adjustable-Rate Mortgage', () => {
+  const armInputs = {
+    purchasePrice: '500000',
+    downPaymentPercentage: '20',
+    interestRate: '5',
+    loanTerm: '30',
+    yearsBought: '0',
+    monthlyPayment: '',
+    mortgageType: 'arm' as const,
+    armInitialFixedYears: '5',
+    armAdjustmentIntervalYears: '1',
+    armIndexRate: '4.5',
+    armIndexRateChange: '0',
+    armMargin: '2.75',
+    armInitialAdjustmentCap: '2',
+    armPeriodicAdjustmentCap: '2',
+    armLifetimeCap: '5'
+  };
+
+  it('should default to a fixed-rate mortgage', () => {
+    const property = new Property('Fixed');
+    expect(property.inputs.mortgageType).toBe('fixed');
+    expect(property.armTerms).toBeNull();
+  });
+
+  it('should match the fixed-rate projection during the initial fixed period', () => {
+    const arm = new Property('ARM', armInputs);
+    const fixed = new Property('Fixed', { ...armInputs, mortgageType: 'fixed' });
+    arm.portfolioStore = { years: '10' };
+    fixed.portfolioStore = { years: '10' };
+
+    for (let year = 0; year <= 5; year++) {
+      expect(arm.results[year].mortgageBalance).toBe(fixed.results[year].mortgageBalance);
+      expect(arm.results[year].principalInterestPayment).toBe(fixed.results[year].principalInterestPayment);
+      expect(arm.results[year].interestRate).toBe(5);
+    }
+  });
+
+  it('should show the adjusted rate and re-amortized payment after each reset', () => {
+    const property = new Property('ARM', armInputs);
+    property.portfolioStore = { years: '10' };
+    const results = property.results;
+
+    expect(results[6].isRateResetYear).toBe(true);
+    expect(results[6].interestRate).toBe(7);
+    expect(results[6].principalInterestPayment).toBeGreaterThan(results[5].principalInterestPayment);
+    expect(results[7].interestRate).toBe(7.25);
+    expect(results[5].isRateResetYear).toBe(false);
+  });
+
+  it('should keep the rate at the initial rate when the fully indexed rate matches it', () => {
+    const property = new Property('ARM', { ...armInputs, armIndexRate: '2.25' });
+    property.portfolioStore = { years: '8' };
+
+    expect(property.results[6].interestRate).toBe(5);
+    expect(property.results[6].principalInterestPayment).toBe(property.results[5].principalInterestPayment);
+  });
+
+  it('should carry custom fees over when the P+I payment changes', () => {
+    const property = new Property('ARM', { ...armInputs, monthlyPayment: '3000' });
+    property.portfolioStore = { years: '7' };
+    const results = property.results;
+
+    expect(results[1].otherFeesPayment).toBeCloseTo(results[6].otherFeesPayment, 2);
+    expect(results[6].monthlyPayment).toBeGreaterThan(3000);
+  });
+
+  it('should pick up an already-reset rate for properties bought years ago', () => {
+    const property = new Property('ARM', { ...armInputs, yearsBought: '5' });
+    property.portfolioStore = { years: '3' };
+
+    expect(property.results[0].interestRate).toBe(7);
+    expect(property.results[1].isRateResetYear).toBe(true);
+    expect(property.results[2].interestRate).toBe(7.25);
+  });
+
+  it('should total interest from the actual ARM schedule', () => {
+    const property = new Property('ARM', armInputs);
+    const fixed = new Property('Fixed', { ...armInputs, mortgageType: 'fixed' });
+    property.portfolioStore = { years: '5' };
+    fixed.portfolioStore = { years: '5' };
+
+    expect(property.summaryData!.totalInterest).toBeGreaterThan(fixed.summaryData!.totalInterest);
+    expect(property.summaryData!.totalPaid).toBeCloseTo(400000 + property.summaryData!.totalInterest, 2);
+  });
+
+  it('should default ARM fields when loading older saved properties', () => {
+    const property = Property.fromJSON({
+      id: 'old',
+      name: 'Old Property',
+      type: 'property',
+      enabled: true,
+      inputs: { purchasePrice: '300000' }
+    });
+
+    expect(property.inputs.mortgageType).toBe('fixed');
+    expect(property.inputs.armMargin).toBe('2.75');
+  });
+});
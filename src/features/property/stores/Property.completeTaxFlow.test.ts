@@ -49,13 +49,13 @@ describe('Property - Complete Tax Flow Integration Tests', () => {
       const federalTax = property.federalTaxAmount;
       expect(federalTax).toBeCloseTo(19200, 0); // $128k * 15%
 
-      // State tax: California 13.3%
+      // State tax: $120k-$248k is entirely in California's 9.3% bracket
       const stateTax = property.stateTaxAmount;
-      expect(stateTax).toBeCloseTo(17024, 0); // $128k * 13.3%
+      expect(stateTax).toBeCloseTo(11904, 0); // $128k * 9.3%
 
       // Total tax
       const totalTax = property.totalTaxAmount;
-      expect(totalTax).toBeCloseTo(36224, 0); // $19.2k + $17.024k
+      expect(totalTax).toBeCloseTo(32928, 0); // $19.2k + $11.904k + $1.824k NIIT ($48k MAGI over $200k * 3.8%)
 
       // Net after-tax proceeds
       const netProceeds = property.netSaleProceeds;
@@ -109,9 +109,9 @@ describe('Property - Complete Tax Flow Integration Tests', () => {
       const stateTax = property.stateTaxAmount;
       expect(stateTax).toBe(0);
 
-      // Total tax should equal federal tax only
+      // Total tax should equal federal tax plus NIIT only
       const totalTax = property.totalTaxAmount;
-      expect(totalTax).toBe(federalTax);
+      expect(totalTax).toBeCloseTo(federalTax + property.netInvestmentIncomeTax, 2);
     });
 
     it('should disable state tax when enableStateTax is false', () => {
@@ -213,14 +213,16 @@ describe('Property - Complete Tax Flow Integration Tests', () => {
       // Federal tax on remaining gain
       const federalTax = property.federalTaxAmount;
       expect(federalTax).toBeCloseTo(20850, 0); // $139k * 15%
+      expect(property.federalTaxCalculation.taxableGain).toBeCloseTo(139000, 0);
+      expect(property.federalTaxCalculation.bracketBreakdown.map(b => b.rate)).toEqual([0.15]);
 
       // State tax on remaining gain
       const stateTax = property.stateTaxAmount;
-      expect(stateTax).toBeCloseTo(18487, 0); // $139k * 13.3%
+      expect(stateTax).toBeCloseTo(12927, 0); // $139k * 9.3% (stacked on $150k income)
 
       // Total tax
       const totalTax = property.totalTaxAmount;
-      expect(totalTax).toBeCloseTo(39337, 0);
+      expect(totalTax).toBeCloseTo(37159, 0); // Includes $3.382k NIIT ($89k MAGI over $200k * 3.8%)
     });
 
     it('should calculate taxes for married couple in New York', () => {
@@ -326,13 +328,13 @@ describe('Property - Complete Tax Flow Integration Tests', () => {
 
       // Total taxable for state: $94k + $25k - $10k = $109k
       const stateTax = property.stateTaxAmount;
-      expect(stateTax).toBeCloseTo(14497, 0); // $109k * 13.3%
+      expect(stateTax).toBeCloseTo(10137, 0); // $109k * 9.3% (stacked on $120k income)
 
       // Verify state tax calculation details
       const stateTaxCalc = property.stateTaxCalculation;
       expect(stateTaxCalc.stateCode).toBe('CA');
       expect(stateTaxCalc.taxableGain).toBeCloseTo(109000, 0);
-      expect(stateTaxCalc.taxRate).toBe(0.133);
+      expect(stateTaxCalc.taxRate).toBeCloseTo(0.093, 6);
     });
 
     it('should handle Section 121 exclusion with other gains', () => {
@@ -385,7 +387,7 @@ describe('Property - Complete Tax Flow Integration Tests', () => {
 
       // State tax on other gains only: $50k - $5k = $45k
       const stateTax = property.stateTaxAmount;
-      expect(stateTax).toBeCloseTo(5985, 0); // $45k * 13.3%
+      expect(stateTax).toBeCloseTo(4185, 0); // $45k * 9.3% (stacked on $130k income)
 
       // Verify the taxable amount calculation
       const stateTaxCalc = property.stateTaxCalculation;
@@ -529,7 +531,7 @@ describe('Property - Complete Tax Flow Integration Tests', () => {
       expect(netAfterTax).toBeCloseTo(expectedNetAfterTax, 0);
       
       // Verify all taxes are included
-      expect(totalTax).toBe(federalTax + stateTax);
+      expect(totalTax).toBeCloseTo(federalTax + property.netInvestmentIncomeTax + stateTax, 2);
       expect(totalTax).toBeGreaterThan(0);
     });
   });
@@ -0,0 +1,113 @@
+import { Property } from '@/features/property/stores/Property';
+
+describe('Property - Depreciation Schedule', () => {
+  const baseInputs = {
+    purchasePrice: '500000',
+    downPaymentPercentage: '20',
+    interestRate: '6',
+    loanTerm: '30',
+    yearsBought: '0',
+    propertyGrowthRate: '3',
+    monthlyPayment: '',
+    isRentalProperty: true,
+    monthlyRent: '3000'
+  };
+
+  const createProperty = (inputs = {}) => {
+    const property = new Property('Rental', { ...baseInputs, ...inputs });
+    property.portfolioStore = { years: '10' };
+    return property;
+  };
+
+  // 80% building share at the default 20% land value
+  const residentialAnnual = 500000 * 0.8 / 27.5;
+
+  it('should not depreciate a non-rental property', () => {
+    const property = createProperty({ isRentalProperty: false });
+
+    expect(property.depreciableBasis).toBe(0);
+    expect(property.results[1].depreciationExpense).toBe(0);
+    expect(property.calculatedDepreciationTaken).toBe(0);
+  });
+
+  it('should prorate the purchase year and take full years afterwards', () => {
+    const property = createProperty();
+
+    expect(property.depreciableBasis).toBeCloseTo(400000, 2);
+    expect(property.results[0].depreciationExpense).toBe(0);
+    expect(property.results[1].depreciationExpense).toBeCloseTo(residentialAnnual * 11.5 / 12, 1);
+    expect(property.results[2].depreciationExpense).toBeCloseTo(residentialAnnual, 1);
+  });
+
+  it('should honor the month placed in service', () => {
+    const property = createProperty({ purchaseMonth: '7' });
+
+    expect(property.results[1].depreciationExpense).toBeCloseTo(residentialAnnual * 5.5 / 12, 1);
+  });
+
+  it('should include buying costs and capital improvements and exclude land', () => {
+    const property = createProperty();
+    property.updateSaleConfig('originalBuyingCosts', '10000');
+    property.updateSaleConfig('capitalImprovements', '20000');
+    property.updateSaleConfig('landValuePercentage', '25');
+
+    expect(property.depreciableBasis).toBeCloseTo(510000 * 0.75 + 20000, 2);
+  });
+
+  it('should use a 39-year recovery period for commercial property', () => {
+    const property = createProperty({ propertyClass: 'commercial' });
+
+    expect(property.results[2].depreciationExpense).toBeCloseTo(400000 / 39, 1);
+  });
+
+  it('should count full years already owned before the projection', () => {
+    const property = createProperty({ yearsBought: '3' });
+
+    expect(property.results[1].depreciationExpense).toBeCloseTo(residentialAnnual, 1);
+    const total = property.results.reduce((sum, result) => sum + result.depreciationExpense, 0);
+    expect(property.calculatedDepreciationTaken).toBeCloseTo(
+      total + residentialAnnual * 11.5 / 12 + residentialAnnual * 2,
+      0
+    );
+  });
+
+  it('should prorate the sale year and stop after the sale', () => {
+    const property = createProperty();
+    property.updateSaleConfig('isPlannedForSale', true);
+    property.updateSaleConfig('saleYear', 5);
+    property.updateSaleConfig('saleMonth', 4);
+
+    expect(property.results[5].depreciationExpense).toBeCloseTo(residentialAnnual * 3.5 / 12, 1);
+    expect(property.results[6].depreciationExpense).toBe(0);
+    expect(property.calculatedDepreciationTaken).toBeCloseTo(
+      residentialAnnual * (11.5 / 12 + 3 + 3.5 / 12),
+      0
+    );
+  });
+
+  it('should use the calculated total for recapture unless a manual total is entered', () => {
+    const property = createProperty();
+    property.updateSaleConfig('isPlannedForSale', true);
+    property.updateSaleConfig('saleYear', 5);
+    property.updateSaleConfig('enableDepreciationRecapture', true);
+    property.updateSaleConfig('annualIncome', '100000');
+
+    expect(property.depreciationRecaptureCalculation.recaptureAmount).toBeCloseTo(property.calculatedDepreciationTaken, 0);
+
+    property.updateSaleConfig('totalDepreciationTaken', '12345');
+    expect(property.depreciationRecaptureCalculation.recaptureAmount).toBe(12345);
+  });
+
+  it('should default new depreciation fields when loading older data', () => {
+    const property = Property.fromJSON({
+      id: 'old',
+      name: 'Old Rental',
+      type: 'property',
+      enabled: true,
+      inputs: { purchasePrice: '300000', isRentalProperty: true }
+    });
+
+    expect(property.inputs.propertyClass).toBe('residential');
+    expect(property.inputs.purchaseMonth).toBe('1');
+  });
+});
@@ -0,0 +1,94 @@
+import { Property } from '@/features/property/stores/Property';
+
+describe('Property - 1031 Exchange', () => {
+  const createPortfolio = (replacementInputs = {}) => {
+    const relinquished = new Property('Duplex', {
+      purchasePrice: '400000',
+      downPaymentPercentage: '100',
+      yearsBought: '0',
+      propertyGrowthRate: '5',
+      monthlyPayment: ''
+    });
+    const replacement = new Property('Fourplex', {
+      purchasePrice: '1000000',
+      downPaymentPercentage: '50',
+      yearsBought: '0',
+      propertyGrowthRate: '5',
+      monthlyPayment: '',
+      ...replacementInputs
+    });
+
+    const portfolioStore = { years: '10', properties: [relinquished, replacement] };
+    relinquished.portfolioStore = portfolioStore;
+    replacement.portfolioStore = portfolioStore;
+
+    relinquished.updateSaleConfig('isPlannedForSale', true);
+    relinquished.updateSaleConfig('saleYear', 5);
+    relinquished.updateSaleConfig('reinvestProceeds', false);
+    relinquished.updateSaleConfig('is1031Exchange', true);
+    relinquished.updateSaleConfig('replacementPropertyId', replacement.id);
+
+    return { relinquished, replacement };
+  };
+
+  it('should defer the gain and pay no tax when fully reinvested', () => {
+    const { relinquished } = createPortfolio();
+
+    expect(relinquished.capitalGain).toBeGreaterThan(0);
+    expect(relinquished.exchangeCalculation?.totalBoot).toBe(0);
+    expect(relinquished.taxableCapitalGain).toBe(0);
+    expect(relinquished.totalTaxAmount).toBe(0);
+    expect(relinquished.netAfterTaxProceeds).toBe(0);
+  });
+
+  it('should carry the deferred gain into the replacement basis', () => {
+    const { relinquished, replacement } = createPortfolio();
+    const deferredGain = relinquished.exchangeCalculation!.deferredCapitalGain;
+
+    expect(replacement.exchangeCarryover.sourcePropertyNames).toEqual(['Duplex']);
+    expect(replacement.adjustedCostBasis).toBeCloseTo(1000000 - deferredGain, 2);
+  });
+
+  it('should tax the deferred gain when the replacement is sold', () => {
+    const { replacement } = createPortfolio();
+    const standalone = new Property('Fourplex', { ...replacement.inputs, saleConfig: { ...replacement.inputs.saleConfig } });
+    standalone.portfolioStore = { years: '10' };
+
+    for (const property of [replacement, standalone]) {
+      property.updateSaleConfig('isPlannedForSale', true);
+      property.updateSaleConfig('saleYear', 8);
+    }
+
+    expect(replacement.capitalGain).toBeGreaterThan(standalone.capitalGain);
+    expect(replacement.federalTaxAmount).toBeGreaterThan(standalone.federalTaxAmount);
+  });
+
+  it('should defer depreciation recapture and carry it to the replacement', () => {
+    const { relinquished, replacement } = createPortfolio();
+    relinquished.updateSaleConfig('enableDepreciationRecapture', true);
+    relinquished.updateSaleConfig('totalDepreciationTaken', '40000');
+
+    expect(relinquished.depreciationRecaptureTax).toBe(0);
+    expect(replacement.exchangeCarryover.deferredRecapture).toBe(40000);
+    expect(replacement.depreciationTakenAtSale).toBeCloseTo(40000 + replacement.calculatedDepreciationTaken, 2);
+  });
+
+  it('should tax boot when trading down', () => {
+    const { relinquished } = createPortfolio({ purchasePrice: '300000', downPaymentPercentage: '100' });
+    const exchange = relinquished.exchangeCalculation!;
+
+    expect(exchange.cashBoot).toBeGreaterThan(0);
+    expect(relinquished.taxableCapitalGain).toBeCloseTo(Math.min(exchange.totalBoot, relinquished.capitalGain), 2);
+    expect(relinquished.federalTaxAmount).toBeGreaterThan(0);
+    expect(relinquished.netAfterTaxProceeds).toBeCloseTo(exchange.cashBoot - relinquished.totalTaxAmount, 2);
+  });
+
+  it('should fall back to a taxable sale when the replacement is missing', () => {
+    const { relinquished } = createPortfolio();
+    relinquished.updateSaleConfig('replacementPropertyId', 'missing');
+
+    expect(relinquished.exchangeCalculation).toBeNull();
+    expect(relinquished.taxableCapitalGain).toBe(relinquished.capitalGain);
+    expect(relinquished.validationErrors).toContain('Replacement property must be selected for a 1031 exchange');
+  });
+});
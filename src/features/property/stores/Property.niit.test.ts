@@ -0,0 +1,96 @@
+import { Property } from './Property';
+import type { PropertySaleConfig } from './Property';
+
+const createSaleConfig = (overrides: Partial<PropertySaleConfig> = {}): PropertySaleConfig => ({
+  isPlannedForSale: true,
+  saleYear: 5,
+  expectedSalePrice: 1100000,
+  useProjectedValue: false,
+  sellingCostsPercentage: 6,
+  reinvestProceeds: false,
+  targetInvestmentId: null,
+  saleMonth: 6,
+  capitalImprovements: '30000',
+  originalBuyingCosts: '15000',
+  filingStatus: 'single',
+  annualIncome: '150000',
+  state: '',
+  enableStateTax: false,
+  otherCapitalGains: '',
+  carryoverLosses: '',
+  isPrimaryResidence: false,
+  yearsOwned: '5',
+  yearsLived: '0',
+  hasUsedExclusionInLastTwoYears: false,
+  enableSection121: false,
+  enableDepreciationRecapture: false,
+  totalDepreciationTaken: '',
+  landValuePercentage: '20',
+  ...overrides,
+});
+
+const createProperty = (overrides: Partial<PropertySaleConfig> = {}): Property => {
+  const property = new Property('NIIT Property', {
+    purchasePrice: '600000',
+    saleConfig: createSaleConfig(overrides),
+  });
+  property.portfolioStore = { years: '10', startingYear: '2024' };
+  return property;
+};
+
+describe('Property - Net Investment Income Tax', () => {
+  it('should tax the lesser of the gain and MAGI over the threshold', () => {
+    // Gain: $1.1M - $66k selling costs - $645k basis = $389k; MAGI $539k
+    const property = createProperty();
+    const niit = property.netInvestmentIncomeTaxCalculation;
+
+    expect(niit.netInvestmentIncome).toBeCloseTo(389000, 0);
+    expect(niit.modifiedAGI).toBeCloseTo(539000, 0);
+    expect(niit.taxableAmount).toBeCloseTo(339000, 0); // $539k - $200k
+    expect(property.netInvestmentIncomeTax).toBeCloseTo(12882, 0); // $339k * 3.8%
+  });
+
+  it('should exclude Section 121 gain from investment income and MAGI', () => {
+    const property = createProperty({
+      isPrimaryResidence: true,
+      yearsLived: '5',
+      enableSection121: true,
+    });
+    const niit = property.netInvestmentIncomeTaxCalculation;
+
+    expect(niit.netInvestmentIncome).toBeCloseTo(139000, 0); // $389k - $250k exclusion
+    expect(niit.modifiedAGI).toBeCloseTo(289000, 0);
+    expect(property.netInvestmentIncomeTax).toBeCloseTo(3382, 0); // $89k * 3.8%
+  });
+
+  it('should not apply below the MAGI threshold for the filing status', () => {
+    const property = createProperty({
+      filingStatus: 'married_joint',
+      annualIncome: '50000',
+      expectedSalePrice: 800000,
+    });
+
+    // Gain: $800k - $48k - $645k = $107k; MAGI $157k is below $250k
+    expect(property.netInvestmentIncomeTaxCalculation.threshold).toBe(250000);
+    expect(property.netInvestmentIncomeTax).toBe(0);
+  });
+
+  it('should include NIIT in total tax and reduce after-tax proceeds', () => {
+    const property = createProperty();
+
+    expect(property.totalTaxAmount).toBeCloseTo(
+      property.federalTaxAmount + property.netInvestmentIncomeTax,
+      2
+    );
+    expect(property.netAfterTaxProceeds).toBeCloseTo(
+      property.netSaleProceeds - property.totalTaxAmount,
+      2
+    );
+  });
+
+  it('should be zero when the property is not planned for sale', () => {
+    const property = createProperty({ isPlannedForSale: false });
+
+    expect(property.netInvestmentIncomeTax).toBe(0);
+  });
+});
@@ -0,0 +1,115 @@
+import { Property } from '@/features/property/stores/Property';
+
+describe('Property - Property Tax, Insurance and HOA', () => {
+  const baseInputs = {
+    purchasePrice: '500000',
+    downPaymentPercentage: '20',
+    interestRate: '6',
+    loanTerm: '30',
+    yearsBought: '0',
+    propertyGrowthRate: '5',
+    monthlyPayment: ''
+  };
+
+  const createProperty = (inputs = {}) => {
+    const property = new Property('Home', { ...baseInputs, ...inputs });
+    property.portfolioStore = { years: '5' };
+    return property;
+  };
+
+  it('should have no ownership costs by default', () => {
+    const result = createProperty().results[1];
+
+    expect(result.propertyTaxExpense).toBe(0);
+    expect(result.insuranceExpense).toBe(0);
+    expect(result.hoaExpense).toBe(0);
+  });
+
+  it('should tax the assessed value, growing with the property when uncapped', () => {
+    const property = createProperty({ propertyTaxRate: '1.2' });
+
+    expect(property.results[1].propertyTaxExpense).toBeCloseTo(500000 * 1.05 * 0.012, 2);
+    expect(property.results[3].propertyTaxExpense).toBeCloseTo(500000 * Math.pow(1.05, 3) * 0.012, 2);
+  });
+
+  it('should limit assessed value growth to the cap', () => {
+    const property = createProperty({ propertyTaxRate: '1', assessedValueGrowthCap: '2' });
+
+    expect(property.results[1].propertyTaxExpense).toBeCloseTo(500000 * 1.02 * 0.01, 2);
+    expect(property.results[4].propertyTaxExpense).toBeCloseTo(500000 * Math.pow(1.02, 4) * 0.01, 2);
+  });
+
+  it('should grow an entered assessed value from today', () => {
+    const property = createProperty({
+      yearsBought: '10',
+      propertyTaxRate: '1',
+      assessedValue: '400000',
+      assessedValueGrowthCap: '2'
+    });
+
+    expect(property.results[1].propertyTaxExpense).toBeCloseTo(400000 * 1.02 * 0.01, 2);
+  });
+
+  it('should never assess above market value', () => {
+    const property = createProperty({ propertyTaxRate: '1', assessedValue: '900000', propertyGrowthRate: '0' });
+
+    expect(property.results[1].propertyTaxExpense).toBeCloseTo(5000, 2);
+  });
+
+  it('should inflate insurance and escalate HOA dues at their own rates', () => {
+    const property = createProperty({
+      annualInsurance: '1800',
+      insuranceInflationRate: '6',
+      monthlyHoa: '300',
+      hoaEscalationRate: '4'
+    });
+
+    expect(property.results[1].insuranceExpense).toBeCloseTo(1800 * 1.06, 2);
+    expect(property.results[2].insuranceExpense).toBeCloseTo(1800 * Math.pow(1.06, 2), 2);
+    expect(property.results[1].hoaExpense).toBeCloseTo(3600 * 1.04, 2);
+  });
+
+  it('should reduce cash flow for non-rental homes', () => {
+    const base = createProperty();
+    const property = createProperty({ propertyTaxRate: '1', annualInsurance: '1200', monthlyHoa: '100' });
+    const result = property.results[1];
+    const ownershipCosts = result.propertyTaxExpense + result.insuranceExpense + result.hoaExpense;
+
+    expect(result.annualCashFlow).toBeCloseTo(base.results[1].annualCashFlow - ownershipCosts, 1);
+    // Tracked separately from the mortgage payment
+    expect(result.otherFeesPayment).toBe(0);
+  });
+
+  it('should reduce rental cash flow without changing rental operating expenses', () => {
+    const rental = { isRentalProperty: true, monthlyRent: '3500' };
+    const base = createProperty(rental);
+    const property = createProperty({ ...rental, annualInsurance: '2400' });
+
+    expect(property.results[1].totalRentalExpenses).toBe(base.results[1].totalRentalExpenses);
+    expect(property.results[1].annualCashFlow).toBeCloseTo(base.results[1].annualCashFlow - 2400 * 1.03, 1);
+  });
+
+  it('should prorate costs in the sale year and stop after the sale', () => {
+    const property = createProperty({ monthlyHoa: '200', hoaEscalationRate: '0' });
+    property.setSaleEnabled(true);
+    property.updateSaleConfig('saleYear', 3);
+    property.updateSaleConfig('saleMonth', 6);
+
+    expect(property.results[3].hoaExpense).toBe(1200);
+    expect(property.results[4].hoaExpense).toBe(0);
+  });
+
+  it('should default ownership cost fields when loading older saved properties', () => {
+    const property = Property.fromJSON({
+      id: 'old',
+      name: 'Old Property',
+      type: 'property',
+      enabled: true,
+      inputs: { purchasePrice: '300000' }
+    });
+
+    expect(property.inputs.propertyTaxRate).toBe('');
+    expect(property.inputs.insuranceInflationRate).toBe('3');
+    expect(property.inputs.hoaEscalationRate).toBe('3');
+  });
+});
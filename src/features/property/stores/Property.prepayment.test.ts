@@ -0,0 +1,129 @@
+import { Property } from '@/features/property/stores/Property';
+
+describe('Property - Extra Principal Payments', () => {
+  const baseInputs = {
+    purchasePrice: '400000',
+    downPaymentPercentage: '20',
+    interestRate: '6',
+    loanTerm: '30',
+    yearsBought: '0',
+    monthlyPayment: ''
+  };
+
+  const createProperty = (inputs = {}) => {
+    const property = new Property('Home', { ...baseInputs, ...inputs });
+    property.portfolioStore = { years: '10' };
+    return property;
+  };
+
+  it('should report no savings without prepayments', () => {
+    const property = createProperty();
+
+    expect(property.prepaymentSavings).toBeNull();
+    expect(property.mortgageSchedule).toEqual(property.baseMortgageSchedule);
+    expect(property.results[1].extraPrincipalPaid).toBe(0);
+  });
+
+  it('should apply monthly extra principal and reduce the balance faster', () => {
+    const base = createProperty();
+    const prepaid = createProperty({ extraPrincipalAmount: '500' });
+
+    expect(prepaid.results[1].extraPrincipalPaid).toBe(6000);
+    // Lower interest also shifts more of each scheduled payment to principal
+    expect(prepaid.results[1].principalPaid).toBeGreaterThan(base.results[1].principalPaid + 6000);
+    expect(prepaid.results[1].mortgageBalance).toBeLessThan(base.results[1].mortgageBalance - 6000);
+    expect(prepaid.results[1].interestPaid).toBeLessThan(base.results[1].interestPaid);
+  });
+
+  it('should treat extra principal as a cash outflow, not as other fees', () => {
+    const base = createProperty();
+    const prepaid = createProperty({ extraPrincipalAmount: '500' });
+
+    expect(prepaid.results[1].otherFeesPayment).toBe(0);
+    expect(prepaid.results[1].annualCashFlow).toBeCloseTo(base.results[1].annualCashFlow - 6000, 2);
+  });
+
+  it('should apply annual extra principal once per year', () => {
+    const property = createProperty({ extraPrincipalAmount: '5000', extraPrincipalFrequency: 'annual' });
+
+    expect(property.results[1].extraPrincipalPaid).toBe(5000);
+    expect(property.results[2].extraPrincipalPaid).toBe(5000);
+  });
+
+  it('should apply lump sums only in their projection year', () => {
+    const property = createProperty();
+    property.addLumpSumPayment();
+    const lumpSum = property.inputs.lumpSumPayments[0];
+    property.updateLumpSumPayment(lumpSum.id, 'year', '3');
+    property.updateLumpSumPayment(lumpSum.id, 'amount', '50000');
+
+    expect(property.results[2].extraPrincipalPaid).toBe(0);
+    expect(property.results[3].extraPrincipalPaid).toBe(50000);
+    expect(property.results[4].extraPrincipalPaid).toBe(0);
+    // Paid from outside funds, so the property cash flow is unaffected
+    expect(property.results[3].annualCashFlow).toBe(property.results[2].annualCashFlow);
+  });
+
+  it('should draw linked-investment lump sums through the annual cash flow', () => {
+    const property = createProperty({
+      lumpSumPayments: [{ id: 'a', year: '2', amount: '20000', fromLinkedInvestment: true }]
+    });
+
+    expect(property.results[2].annualCashFlow).toBeCloseTo(property.results[1].annualCashFlow - 20000, 2);
+  });
+
+  it('should report months and interest saved against the base schedule', () => {
+    const property = createProperty({ extraPrincipalAmount: '300' });
+    const savings = property.prepaymentSavings!;
+
+    expect(savings.basePayoffMonth).toBe(360);
+    expect(savings.payoffMonth).toBeLessThan(360);
+    expect(savings.monthsSaved).toBe(savings.basePayoffMonth - savings.payoffMonth);
+    expect(savings.interestSaved).toBeGreaterThan(0);
+    expect(property.summaryData!.totalInterest).toBeCloseTo(
+      property.baseMortgageSchedule.reduce((sum, m) => sum + m.interest, 0) - savings.interestSaved,
+      2
+    );
+  });
+
+  it('should stop payments once prepayments pay off the loan', () => {
+    const property = createProperty({
+      lumpSumPayments: [{ id: 'a', year: '1', amount: '400000', fromLinkedInvestment: false }]
+    });
+
+    expect(property.results[1].mortgageBalance).toBe(0);
+    expect(property.results[2].principalInterestPayment).toBe(0);
+    expect(property.results[2].monthlyPayment).toBe(0);
+  });
+
+  it('should start prepayments after the years already owned', () => {
+    const property = createProperty({ yearsBought: '5', extraPrincipalAmount: '100' });
+
+    expect(property.results[0].mortgageBalance).toBe(createProperty({ yearsBought: '5' }).results[0].mortgageBalance);
+    expect(property.results[1].extraPrincipalPaid).toBe(1200);
+  });
+
+  it('should remove lump sums', () => {
+    const property = createProperty();
+    property.addLumpSumPayment();
+    property.addLumpSumPayment();
+
+    expect(property.inputs.lumpSumPayments.map(p => p.year)).toEqual(['1', '2']);
+    property.removeLumpSumPayment(property.inputs.lumpSumPayments[0].id);
+    expect(property.inputs.lumpSumPayments).toHaveLength(1);
+  });
+
+  it('should default prepayment fields when loading older saved properties', () => {
+    const property = Property.fromJSON({
+      id: 'old',
+      name: 'Old Property',
+      type: 'property',
+      enabled: true,
+      inputs: { purchasePrice: '300000' }
+    });
+
+    expect(property.inputs.extraPrincipalAmount).toBe('');
+    expect(property.inputs.extraPrincipalFrequency).toBe('monthly');
+    expect(property.inputs.lumpSumPayments).toEqual([]);
+  });
+});
@@ -0,0 +1,123 @@
+import { Property } from '@/features/property/stores/Property';
+
+describe('Property - Refinancing', () => {
+  const baseInputs = {
+    purchasePrice: '500000',
+    downPaymentPercentage: '20',
+    interestRate: '7',
+    loanTerm: '30',
+    yearsBought: '0',
+    monthlyPayment: ''
+  };
+
+  const createProperty = (refinance: Partial<{ year: string; interestRate: string; loanTerm: string; closingCosts: string; cashOutAmount: string }> = {}) => {
+    const property = new Property('Home', {
+      ...baseInputs,
+      refinances: [{
+        id: 'refi-1',
+        year: '3',
+        interestRate: '5',
+        loanTerm: '30',
+        closingCosts: '6000',
+        cashOutAmount: '',
+        ...refinance
+      }]
+    });
+    property.portfolioStore = { years: '10' };
+    return property;
+  };
+
+  const createUnrefinanced = () => {
+    const property = new Property('Home', baseInputs);
+    property.portfolioStore = { years: '10' };
+    return property;
+  };
+
+  it('should mark the refinance year and switch to the new rate and payment', () => {
+    const property = createProperty();
+    const results = property.results;
+
+    expect(results[2].interestRate).toBe(7);
+    expect(results[3].interestRate).toBe(5);
+    expect(results[3].isRefinanceYear).toBe(true);
+    expect(results[4].isRefinanceYear).toBeUndefined();
+    expect(results[3].principalInterestPayment).toBeLessThan(results[2].principalInterestPayment);
+    expect(results[3].refinanceClosingCosts).toBe(6000);
+  });
+
+  it('should match the original loan before the refinance year', () => {
+    const property = createProperty();
+    const original = createUnrefinanced();
+
+    expect(property.results[2].mortgageBalance).toBe(original.results[2].mortgageBalance);
+    expect(property.results[2].annualCashFlow).toBe(original.results[2].annualCashFlow);
+  });
+
+  it('should pay closing costs out of the refinance year cash flow', () => {
+    const property = createProperty();
+    const paymentSavings = (property.results[2].principalInterestPayment - property.results[3].principalInterestPayment) * 12;
+
+    expect(property.results[3].annualCashFlow).toBeCloseTo(property.results[2].annualCashFlow + paymentSavings - 6000, 0);
+  });
+
+  it('should send cash-out proceeds into the cash flow and raise the balance', () => {
+    const property = createProperty({ cashOutAmount: '50000' });
+    const withoutCashOut = createProperty();
+
+    expect(property.results[3].refinanceCashOut).toBe(50000);
+    expect(property.results[3].mortgageBalance).toBeGreaterThan(withoutCashOut.results[3].mortgageBalance + 49000);
+    expect(property.results[3].annualCashFlow).toBeGreaterThan(withoutCashOut.results[3].annualCashFlow + 40000);
+  });
+
+  it('should use the refinanced balance when selling', () => {
+    const property = createProperty({ cashOutAmount: '50000' });
+    property.setSaleEnabled(true);
+    property.updateSaleConfig('saleYear', 5);
+
+    const withoutCashOut = createProperty();
+    withoutCashOut.setSaleEnabled(true);
+    withoutCashOut.updateSaleConfig('saleYear', 5);
+
+    expect(property.results[5].preSaleMortgageBalance).toBeGreaterThan(withoutCashOut.results[5].preSaleMortgageBalance! + 45000);
+    expect(property.netSaleProceeds).toBeLessThan(withoutCashOut.netSaleProceeds - 45000);
+  });
+
+  it('should provide a break-even analysis for each refinance', () => {
+    const property = createProperty();
+    const [analysis] = property.refinanceAnalyses;
+
+    expect(analysis.year).toBe(3);
+    expect(analysis.closingCosts).toBe(6000);
+    expect(analysis.monthlySavings).toBeGreaterThan(0);
+    expect(analysis.breakEvenMonths).toBe(Math.ceil(6000 / analysis.monthlySavings));
+    expect(analysis.netSavings).toBeGreaterThan(0);
+  });
+
+  it('should manage refinance events through actions', () => {
+    const property = createUnrefinanced();
+    property.addRefinance();
+    property.addRefinance();
+
+    expect(property.inputs.refinances.map(r => r.year)).toEqual(['5', '10']);
+    expect(property.inputs.refinances[0].interestRate).toBe('7');
+
+    property.updateRefinance(property.inputs.refinances[0].id, 'interestRate', '4.5');
+    expect(property.results[5].interestRate).toBe(4.5);
+
+    property.removeRefinance(property.inputs.refinances[0].id);
+    expect(property.inputs.refinances).toHaveLength(1);
+  });
+
+  it('should default refinances when loading older saved properties', () => {
+    const property = Property.fromJSON({
+      id: 'old',
+      name: 'Old Property',
+      type: 'property',
+      enabled: true,
+      inputs: { purchasePrice: '300000' }
+    });
+
+    expect(property.inputs.refinances).toEqual([]);
+    expect(property.refinanceAnalyses).toEqual([]);
+  });
+});
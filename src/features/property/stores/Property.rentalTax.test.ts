@@ -0,0 +1,107 @@
+import { Property } from '@/features/property/stores/Property';
+
+describe('Property - Rental Income Tax', () => {
+  const baseInputs = {
+    purchasePrice: '300000',
+    downPaymentPercentage: '100',
+    interestRate: '6',
+    loanTerm: '30',
+    yearsBought: '0',
+    propertyGrowthRate: '3',
+    monthlyPayment: '',
+    isRentalProperty: true,
+    monthlyRent: '3000',
+    rentGrowthRate: '0',
+    vacancyRate: '0',
+    maintenanceRate: '0',
+    purchaseMonth: '1',
+    marginalTaxRate: '24'
+  };
+
+  const createProperty = (inputs = {}) => {
+    const property = new Property('Rental', { ...baseInputs, ...inputs });
+    property.portfolioStore = { years: '5' };
+    return property;
+  };
+
+  const annualDepreciation = 300000 * 0.8 / 27.5;
+
+  it('should leave cash flow pre-tax when disabled', () => {
+    const result = createProperty().results[2];
+
+    expect(result.rentalIncomeTax).toBe(0);
+    expect(result.annualCashFlow).toBeCloseTo(36000, 2);
+  });
+
+  it('should deduct tax on rental profit from cash flow', () => {
+    const result = createProperty({ rentalIncomeTaxEnabled: true }).results[2];
+    const taxable = 36000 - annualDepreciation;
+
+    expect(result.taxableRentalIncome).toBeCloseTo(taxable, 1);
+    expect(result.rentalIncomeTax).toBeCloseTo(taxable * 0.24, 1);
+    expect(result.annualCashFlow).toBeCloseTo(36000 - taxable * 0.24, 1);
+  });
+
+  it('should deduct mortgage interest', () => {
+    const property = createProperty({ rentalIncomeTaxEnabled: true, downPaymentPercentage: '20' });
+    const result = property.results[2];
+
+    expect(result.taxableRentalIncome).toBeCloseTo(36000 - result.interestPaid - result.depreciationExpense, 1);
+  });
+
+  it('should carry forward losses above the allowance and use them later', () => {
+    const property = createProperty({
+      rentalIncomeTaxEnabled: true,
+      monthlyRent: '250',
+      rentGrowthRate: '100',
+      activeParticipation: false
+    });
+    const results = property.results;
+
+    expect(results[1].taxableRentalIncome).toBeLessThan(0);
+    expect(results[1].rentalIncomeTax).toBe(0);
+    expect(results[1].suspendedPassiveLoss).toBeCloseTo(-results[1].taxableRentalIncome, 1);
+
+    // Rent doubles each year until income absorbs the suspended losses
+    const firstProfitableYear = results.findIndex(result => result.year > 0 && result.taxableRentalIncome > 0);
+    const profitable = results[firstProfitableYear];
+    const carried = results[firstProfitableYear - 1].suspendedPassiveLoss;
+    expect(profitable.rentalIncomeTax).toBeCloseTo(Math.max(0, profitable.taxableRentalIncome - carried) * 0.24, 1);
+  });
+
+  it('should derive the marginal rate from income and filing status when blank', () => {
+    const property = createProperty({ marginalTaxRate: '' });
+    property.updateSaleConfig('annualIncome', '150000');
+    property.updateSaleConfig('filingStatus', 'married_joint');
+
+    expect(property.rentalMarginalTaxRate).toBe(0.22);
+  });
+
+  it('should use each projection year\'s inflation-indexed brackets for the derived rate', () => {
+    const property = createProperty({ marginalTaxRate: '', rentalIncomeTaxEnabled: true, inflationRate: '3' });
+    property.portfolioStore = { years: '5', startingYear: '2025' };
+    property.updateSaleConfig('annualIncome', '100000');
+    property.updateSaleConfig('filingStatus', 'married_joint');
+
+    // $100k sits just above the 2025 22% threshold, which indexing passes within a few years
+    expect(property.getRentalMarginalTaxRate(0)).toBe(0.22);
+    expect(property.getRentalMarginalTaxRate(5)).toBe(0.12);
+
+    const result = property.results[5];
+    expect(result.rentalIncomeTax).toBeCloseTo(result.taxableRentalIncome * 0.12, 1);
+  });
+
+  it('should default new fields when loading older data', () => {
+    const property = Property.fromJSON({
+      id: 'old',
+      name: 'Old Rental',
+      type: 'property',
+      enabled: true,
+      inputs: { purchasePrice: '300000', isRentalProperty: true }
+    });
+
+    expect(property.inputs.rentalIncomeTaxEnabled).toBe(false);
+    expect(property.inputs.marginalTaxRate).toBe('');
+    expect(property.inputs.activeParticipation).toBe(true);
+  });
+});
@@ -57,7 +57,8 @@ describe('Property - Tax Integration', () => {
           carryoverLosses: '2000'
         })
       });
-      property.portfolioStore = { years: '12' };
+      // Sale lands in 2024 so the published 2024 brackets apply
+      property.portfolioStore = { years: '12', startingYear: '2016' };
     });
 
     it('should use property tax profile for federalTaxCalculation computed property', () => {
@@ -65,7 +66,7 @@ describe('Property - Tax Integration', () => {
       
       expect(taxResult.taxRate).toBe(0.15); // Should be in 15% bracket for $85k income
       expect(taxResult.taxAmount).toBeGreaterThan(0);
-      expect(taxResult.bracketInfo.rate).toBe(0.15);
+      expect(taxResult.bracketBreakdown.map(b => b.rate)).toEqual([0.15]);
     });
 
     it('should calculate federalTaxAmount using property tax profile', () => {
@@ -81,7 +82,7 @@ describe('Property - Tax Integration', () => {
       const federalTax = property.federalTaxAmount;
       const netAfterTax = property.netAfterTaxProceeds;
       
-      expect(netAfterTax).toBe(netProceeds - federalTax);
+      expect(netAfterTax).toBeCloseTo(netProceeds - federalTax - property.netInvestmentIncomeTax, 2);
       expect(netAfterTax).toBeLessThan(netProceeds);
     });
 
@@ -102,9 +103,10 @@ describe('Property - Tax Integration', () => {
       // Start with middle income (15% bracket)
       expect(property.federalTaxCalculation.taxRate).toBe(0.15);
       
-      // Change to low income (0% bracket)
+      // Change to low income (part of the gain falls in the 0% bracket)
       property.updateSaleConfig('annualIncome', '30000');
-      expect(property.federalTaxCalculation.taxRate).toBe(0.00);
+      expect(property.federalTaxCalculation.bracketBreakdown[0].rate).toBe(0.00);
+      expect(property.federalTaxCalculation.taxRate).toBeLessThan(0.15);
       
       // Change to high income (20% bracket)
       property.updateSaleConfig('annualIncome', '600000');
@@ -149,7 +151,7 @@ describe('Property - Tax Integration', () => {
       
       // Verify the waterfall: Sale Price -> Selling Costs -> Mortgage -> Net Proceeds -> Tax -> After-Tax
       expect(netProceeds).toBeLessThan(salePrice); // Net proceeds less than gross
-      expect(netAfterTax).toBe(netProceeds - federalTax); // After-tax is net minus taxes
+      expect(netAfterTax).toBeCloseTo(netProceeds - federalTax - property.netInvestmentIncomeTax, 2); // After-tax is net minus taxes
       expect(netAfterTax).toBeLessThan(netProceeds); // After-tax less than pre-tax
     });
   });
@@ -173,15 +175,17 @@ describe('Property - Tax Integration', () => {
           originalBuyingCosts: '10000'
         })
       });
-      property.portfolioStore = { years: '15' };
+      // Sale lands in 2024 so the published 2024 brackets apply
+      property.portfolioStore = { years: '15', startingYear: '2014' };
     });
 
-    it('should calculate federal tax with 0% rate for low income', () => {
+    it('should calculate federal tax with 0% rate on the first tier for low income', () => {
       const taxResult = property.calculateFederalTax(40000, 'single');
       
-      expect(taxResult.taxRate).toBe(0.00);
-      expect(taxResult.taxAmount).toBe(0);
-      expect(taxResult.bracketInfo.rate).toBe(0.00);
+      // Only $7,025 of the gain fits under the $47,025 0% threshold
+      expect(taxResult.bracketBreakdown.map(b => b.rate)).toEqual([0.00, 0.15]);
+      expect(taxResult.bracketBreakdown[0].taxableAmount).toBe(7025);
+      expect(taxResult.taxAmount).toBeCloseTo((taxResult.taxableGain - 7025) * 0.15, 2);
     });
 
     it('should calculate federal tax with 15% rate for middle income', () => {
@@ -189,7 +193,7 @@ describe('Property - Tax Integration', () => {
       
       expect(taxResult.taxRate).toBe(0.15);
       expect(taxResult.taxAmount).toBeGreaterThan(0);
-      expect(taxResult.bracketInfo.rate).toBe(0.15);
+      expect(taxResult.bracketBreakdown.map(b => b.rate)).toEqual([0.15]);
       
       // Verify calculation: taxable gain * 15%
       const expectedTax = taxResult.taxableGain * 0.15;
@@ -201,7 +205,7 @@ describe('Property - Tax Integration', () => {
       
       expect(taxResult.taxRate).toBe(0.20);
       expect(taxResult.taxAmount).toBeGreaterThan(0);
-      expect(taxResult.bracketInfo.rate).toBe(0.20);
+      expect(taxResult.bracketBreakdown.map(b => b.rate)).toEqual([0.20]);
     });
 
     it('should handle different filing statuses correctly', () => {
@@ -352,11 +356,13 @@ describe('Property - Tax Integration', () => {
       expect(netAfterTax).toBe(netProceeds - federalTax);
     });
 
-    it('should handle zero tax scenarios', () => {
+    it('should handle low tax scenarios', () => {
       const netProceeds = property.netSaleProceeds;
-      const netAfterTax = property.calculateNetAfterTaxProceeds(30000, 'single'); // 0% bracket
+      const capitalGain = property.capitalGain;
+      const netAfterTax = property.calculateNetAfterTaxProceeds(30000, 'single'); // Partly in 0% bracket
       
-      expect(netAfterTax).toBe(netProceeds); // No tax deduction
+      expect(netAfterTax).toBeLessThan(netProceeds);
+      expect(netAfterTax).toBeGreaterThan(netProceeds - capitalGain * 0.15); // 0% tier is untaxed
     });
 
     it('should handle high tax scenarios', () => {
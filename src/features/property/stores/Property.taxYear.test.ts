@@ -0,0 +1,65 @@
+import { Property } from './Property';
+import type { PropertySaleConfig } from './Property';
+
+const createSaleConfig = (overrides: Partial<PropertySaleConfig> = {}): PropertySaleConfig => ({
+  isPlannedForSale: true,
+  saleYear: 14,
+  expectedSalePrice: 1100000,
+  useProjectedValue: false,
+  sellingCostsPercentage: 6,
+  reinvestProceeds: false,
+  targetInvestmentId: null,
+  saleMonth: 6,
+  capitalImprovements: '30000',
+  originalBuyingCosts: '15000',
+  filingStatus: 'single',
+  annualIncome: '150000',
+  state: 'CA',
+  enableStateTax: true,
+  otherCapitalGains: '',
+  carryoverLosses: '',
+  isPrimaryResidence: false,
+  yearsOwned: '14',
+  yearsLived: '0',
+  hasUsedExclusionInLastTwoYears: false,
+  enableSection121: false,
+  enableDepreciationRecapture: false,
+  totalDepreciationTaken: '',
+  landValuePercentage: '20',
+  ...overrides,
+});
+
+const createProperty = (startingYear: string, inflationRate = '2.5'): Property => {
+  const property = new Property('Tax Year Property', {
+    purchasePrice: '600000',
+    inflationRate,
+    saleConfig: createSaleConfig(),
+  });
+  property.portfolioStore = { years: '20', startingYear };
+  return property;
+};
+
+describe('Property - Tax Year', () => {
+  it('should derive the sale tax year from the starting year and sale year', () => {
+    expect(createProperty('2024').saleTaxYear).toBe(2038);
+  });
+
+  it('should tax a far-future sale with inflation-indexed brackets', () => {
+    // Same $389k gain on $150k income, sold in 2024 vs 2038
+    const saleIn2024 = createProperty('2010');
+    const saleIn2038 = createProperty('2024');
+
+    expect(saleIn2038.capitalGain).toBeCloseTo(saleIn2024.capitalGain, 2);
+    // 2024: $539k of income + gain crosses the $518,900 20% threshold
+    expect(saleIn2024.federalTaxCalculation.bracketBreakdown.map(b => b.rate)).toEqual([0.15, 0.20]);
+    expect(saleIn2038.federalTaxCalculation.bracketBreakdown.map(b => b.rate)).toEqual([0.15]);
+    expect(saleIn2038.federalTaxAmount).toBeLessThan(saleIn2024.federalTaxAmount);
+    expect(saleIn2038.stateTaxAmount).toBeLessThan(saleIn2024.stateTaxAmount);
+  });
+
+  it('should use the latest published brackets when inflation is zero', () => {
+    const property = createProperty('2024', '0');
+
+    expect(property.federalTaxCalculation.bracketBreakdown[0].max).toBe(533400);
+  });
+});
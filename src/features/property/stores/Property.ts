@@ -1,17 +1,61 @@
 import { makeAutoObservable, computed } from 'mobx';
 import { v4 as uuidv4 } from 'uuid';
 import { type BaseAsset, type BaseCalculationResult } from '@/features/shared/types/BaseAsset';
-import { FederalTaxCalculator } from '@/features/tax/calculators/FederalTaxCalculator';
+import { FederalTaxCalculator, type FederalTaxCalculation, type NetInvestmentIncomeTaxCalculation } from '@/features/tax/calculators/FederalTaxCalculator';
 import { Section121Calculator } from '@/features/tax/calculators/Section121Calculator';
 import { StateTaxCalculator } from '@/features/tax/calculators/StateTaxCalculator';
 import { DepreciationRecaptureCalculator } from '@/features/tax/calculators/DepreciationRecaptureCalculator';
+import type { CapitalGainsLedgerSale, CapitalGainsLedgerYear } from '@/features/tax/calculators/CapitalLossCarryforwardCalculator';
+import { RentalIncomeTaxCalculator } from '@/features/tax/calculators/RentalIncomeTaxCalculator';
+import { Section1031Calculator, type Section1031Exchange } from '@/features/tax/calculators/Section1031Calculator';
 import type { FilingStatus } from '@/features/tax/types';
+import type { Household, LifeEventReference } from '@/features/household/stores/Household';
+import {
+  LoanScheduleCalculator,
+  type ArmTerms,
+  type LoanScheduleMonth,
+  type LoanRefinance,
+  type MortgageType,
+  type PrepaymentSavings,
+  type RefinanceComparison
+} from '@/features/property/calculators/LoanScheduleCalculator';
 
 export type PropertyGrowthModel = 'purchase_price' | 'current_value';
 
+export type ExtraPrincipalFrequency = 'monthly' | 'annual';
+
+// Residential rentals depreciate over 27.5 years, commercial property over 39
+export type DepreciationPropertyClass = 'residential' | 'commercial';
+
+// One-time principal paydown in a projection year
+export interface LumpSumPayment {
+  id: string;
+  year: string;  // Projection year (1 = first projected year)
+  amount: string;
+  fromLinkedInvestment: boolean;  // Withdraw the lump sum from the linked investment
+}
+
+// Refinance into a new fixed-rate loan at the start of a projection year
+export interface RefinanceEvent {
+  id: string;
+  year: string;  // Projection year (1 = first projected year)
+  interestRate: string;
+  loanTerm: string;
+  closingCosts: string;
+  cashOutAmount: string;  // Equity taken out, paid into the linked investment
+}
+
+export interface RefinanceAnalysis extends RefinanceComparison {
+  refinanceId: string;
+  year: number;
+  closingCosts: number;
+  cashOutAmount: number;
+}
+
 export interface PropertySaleConfig {
   isPlannedForSale: boolean;
   saleYear: number | null;
+  saleEvent?: LifeEventReference | null;  // Household life event used instead of saleYear
   expectedSalePrice: number | null;  // null = use projected value
   useProjectedValue: boolean;
   sellingCostsPercentage: number;
@@ -38,6 +82,15 @@ export interface PropertySaleConfig {
   enableDepreciationRecapture: boolean;  // Whether to apply depreciation recapture
   totalDepreciationTaken: string;  // Total depreciation claimed over ownership period
   landValuePercentage: string;  // Estimated land value as % of property value (default 20%)
+  // Section 1031 Like-Kind Exchange fields
+  is1031Exchange?: boolean;  // Exchange into another property instead of a taxable sale
+  replacementPropertyId?: string | null;  // Property in the portfolio bought with the proceeds
+}
+
+export interface ExchangeCarryover {
+  deferredCapitalGain: number;  // Lowers this property's cost basis
+  deferredRecapture: number;  // Added to depreciation subject to recapture at sale
+  sourcePropertyNames: string[];
 }
 
 export interface PropertyInputs {
@@ -45,6 +98,21 @@ export interface PropertyInputs {
   downPaymentPercentage: string;
   interestRate: string;
   loanTerm: string;
+  // Adjustable-rate mortgage fields
+  mortgageType: MortgageType; // Fixed rate or ARM
+  armInitialFixedYears: string; // Years before the first reset (5 for a 5/1 ARM)
+  armAdjustmentIntervalYears: string; // Years between resets after the fixed period
+  armIndexRate: string; // Index rate at origination (%)
+  armIndexRateChange: string; // Assumed index change per year (percentage points)
+  armMargin: string; // Margin added to the index (%)
+  armInitialAdjustmentCap: string; // Max change at the first reset (percentage points)
+  armPeriodicAdjustmentCap: string; // Max change at later resets (percentage points)
+  armLifetimeCap: string; // Max increase over the initial rate (percentage points)
+  // Mortgage prepayment fields
+  extraPrincipalAmount: string; // Recurring extra principal payment
+  extraPrincipalFrequency: ExtraPrincipalFrequency; // Paid every month or once a year
+  lumpSumPayments: LumpSumPayment[]; // One-time paydowns
+  refinances: RefinanceEvent[]; // Refinance events replacing the current loan
   inflationRate: string;
   yearsBought: string;
   propertyGrowthRate: string;
@@ -62,6 +130,21 @@ export interface PropertyInputs {
   propertyManagementEnabled: boolean; // Toggle for property management
   listingFeeRate: string; // % of monthly rent per listing
   monthlyManagementFeeRate: string; // % of monthly rent per month
+  // Depreciation (rental properties)
+  propertyClass: DepreciationPropertyClass; // Sets the recovery period
+  purchaseMonth: string; // Month placed in service (1-12), for the mid-month convention
+  // Rental income tax (rental properties)
+  rentalIncomeTaxEnabled: boolean; // Deduct yearly income tax on rental profit from cash flow
+  marginalTaxRate: string; // Owner's marginal rate % (empty = from sale config income and filing status)
+  activeParticipation: boolean; // Qualifies for the $25,000 passive loss allowance
+  // Ownership costs (apply to rental and non-rental properties)
+  propertyTaxRate: string; // % of assessed value per year
+  assessedValue: string; // Current assessed value (empty = purchase price grown at the capped rate)
+  assessedValueGrowthCap: string; // Max annual assessed value growth % (empty = no cap)
+  annualInsurance: string; // Homeowners insurance premium per year
+  insuranceInflationRate: string; // Annual premium increase %
+  monthlyHoa: string; // HOA dues per month
+  hoaEscalationRate: string; // Annual HOA dues increase %
   // Sale configuration
   saleConfig: PropertySaleConfig;
 }
@@ -71,8 +154,14 @@ export interface PropertyResult extends BaseCalculationResult {
   monthlyPayment: number; // Total monthly payment
   principalInterestPayment: number; // Calculated P+I portion
   otherFeesPayment: number; // Taxes, insurance, maintenance (monthly payment - P+I)
+  interestRate: number; // Mortgage rate in effect this year (changes at ARM resets)
+  isRateResetYear?: boolean; // ARM rate reset happened this year
   principalPaid: number;
   interestPaid: number;
+  extraPrincipalPaid: number; // Prepaid principal this year (included in principalPaid)
+  isRefinanceYear?: boolean; // Loan was refinanced at the start of this year
+  refinanceCashOut?: number; // Cash-out proceeds (only in refinance years)
+  refinanceClosingCosts?: number; // Closing costs paid (only in refinance years)
   annualCashFlow: number; // Annual net cash flow (can be positive or negative)
   // Rental property fields
   annualRentalIncome: number; // Annual rental income (after vacancy)
@@ -81,6 +170,14 @@ export interface PropertyResult extends BaseCalculationResult {
   listingExpenses: number; // Annual listing costs (vacancy-based)
   monthlyManagementExpenses: number; // Annual management fees
   totalRentalExpenses: number; // Sum of all expense components
+  // Ownership costs
+  propertyTaxExpense: number; // Annual property tax
+  insuranceExpense: number; // Annual insurance premium
+  hoaExpense: number; // Annual HOA dues
+  depreciationExpense: number; // Straight-line depreciation deduction (rental only)
+  taxableRentalIncome: number; // NOI - mortgage interest - depreciation (negative = loss)
+  rentalIncomeTax: number; // Income tax on rental profit (negative = tax saved by an allowed loss)
+  suspendedPassiveLoss: number; // Passive losses carried forward at year end
   
   // Sale-specific fields
   saleProceeds?: number;         // Net proceeds from sale (only in sale year)
@@ -100,6 +197,9 @@ export class Property implements BaseAsset {
   portfolioStore?: {
     startingYear?: string;
     years?: string;
+    properties?: Property[];
+    capitalGainsLedger?: CapitalGainsLedgerYear[];
+    household?: Household;
   }; // Will be injected by PortfolioStore
 
   // UI state
@@ -121,6 +221,21 @@ export class Property implements BaseAsset {
       downPaymentPercentage: '20',
       interestRate: '7',
       loanTerm: '30',
+      // Adjustable-rate mortgage defaults (5/1 ARM with 2/2/5 caps)
+      mortgageType: 'fixed',
+      armInitialFixedYears: '5',
+      armAdjustmentIntervalYears: '1',
+      armIndexRate: '4.5',
+      armIndexRateChange: '0',
+      armMargin: '2.75',
+      armInitialAdjustmentCap: '2',
+      armPeriodicAdjustmentCap: '2',
+      armLifetimeCap: '5',
+      // Mortgage prepayment defaults
+      extraPrincipalAmount: '',
+      extraPrincipalFrequency: 'monthly',
+      lumpSumPayments: [],
+      refinances: [],
       inflationRate: '2.5',
       yearsBought: '0',
       propertyGrowthRate: '3',
@@ -138,6 +253,21 @@ export class Property implements BaseAsset {
       propertyManagementEnabled: false, // Disabled by default
       listingFeeRate: '100', // 100% of monthly rent per placement
       monthlyManagementFeeRate: '10', // 10% of collected rent
+      // Depreciation defaults
+      propertyClass: 'residential',
+      purchaseMonth: '1',
+      // Rental income tax defaults (pre-tax cash flow until enabled)
+      rentalIncomeTaxEnabled: false,
+      marginalTaxRate: '',
+      activeParticipation: true,
+      // Ownership cost defaults (off until entered)
+      propertyTaxRate: '',
+      assessedValue: '',
+      assessedValueGrowthCap: '',
+      annualInsurance: '',
+      insuranceInflationRate: '3',
+      monthlyHoa: '',
+      hoaEscalationRate: '3',
       // Sale configuration defaults
       saleConfig: {
         isPlannedForSale: false,
@@ -166,7 +296,11 @@ export class Property implements BaseAsset {
         // Depreciation Recapture defaults
         enableDepreciationRecapture: false,  // Disabled by default (advanced feature)
         totalDepreciationTaken: '',  // No default depreciation
-        landValuePercentage: '20'  // Default 20% land value
+        landValuePercentage: '20',  // Default 20% land value
+        // Section 1031 Exchange defaults
+        is1031Exchange: false,
+        replacementPropertyId: null,
+        saleEvent: null
       },
       ...initialInputs
     };
@@ -174,6 +308,12 @@ export class Property implements BaseAsset {
     makeAutoObservable(this, {
       results: computed,
       startingYear: computed,
+      saleTaxYear: computed,
+      capitalGainOrLoss: computed,
+      reportableCapitalGain: computed,
+      capitalGainsLedgerSale: computed,
+      portfolioLossOffset: computed,
+      priorSameYearGains: computed,
       summaryData: computed,
       isPlannedForSale: computed,
       saleYear: computed,
@@ -190,9 +330,26 @@ export class Property implements BaseAsset {
       depreciationRecaptureTax: computed,
       stateTaxCalculation: computed,
       stateTaxAmount: computed,
+      netInvestmentIncomeTaxCalculation: computed,
+      netInvestmentIncomeTax: computed,
       totalTaxAmount: computed,
       netAfterTaxProceeds: computed,
-      parsedInputs: computed
+      replacementProperty: computed,
+      isExchange: computed,
+      depreciationTakenAtSale: computed,
+      exchangeCalculation: computed,
+      exchangeCarryover: computed,
+      taxableCapitalGain: computed,
+      depreciableBasis: computed,
+      depreciationSchedule: computed,
+      calculatedDepreciationTaken: computed,
+      rentalMarginalTaxRate: computed,
+      parsedInputs: computed,
+      armTerms: computed,
+      baseMortgageSchedule: computed,
+      mortgageSchedule: computed,
+      prepaymentSavings: computed,
+      refinanceAnalyses: computed
     });
   }
 
@@ -209,6 +366,56 @@ export class Property implements BaseAsset {
     this.inputs[key] = value;
   }
 
+  // Lump-sum prepayment actions
+  addLumpSumPayment = () => {
+    const year = this.inputs.lumpSumPayments.length > 0
+      ? String((parseInt(this.inputs.lumpSumPayments[this.inputs.lumpSumPayments.length - 1].year) || 0) + 1)
+      : '1';
+    this.inputs.lumpSumPayments.push({
+      id: uuidv4(),
+      year,
+      amount: '10000',
+      fromLinkedInvestment: false
+    });
+  }
+
+  updateLumpSumPayment = <K extends keyof LumpSumPayment>(id: string, key: K, value: LumpSumPayment[K]) => {
+    const payment = this.inputs.lumpSumPayments.find(p => p.id === id);
+    if (payment) {
+      payment[key] = value;
+    }
+  }
+
+  removeLumpSumPayment = (id: string) => {
+    this.inputs.lumpSumPayments = this.inputs.lumpSumPayments.filter(p => p.id !== id);
+  }
+
+  // Refinance actions
+  addRefinance = () => {
+    const lastYear = this.inputs.refinances.length > 0
+      ? parseInt(this.inputs.refinances[this.inputs.refinances.length - 1].year) || 0
+      : 0;
+    this.inputs.refinances.push({
+      id: uuidv4(),
+      year: String(lastYear + 5),
+      interestRate: this.inputs.interestRate,
+      loanTerm: '30',
+      closingCosts: '5000',
+      cashOutAmount: ''
+    });
+  }
+
+  updateRefinance = <K extends keyof RefinanceEvent>(id: string, key: K, value: RefinanceEvent[K]) => {
+    const refinance = this.inputs.refinances.find(r => r.id === id);
+    if (refinance) {
+      refinance[key] = value;
+    }
+  }
+
+  removeRefinance = (id: string) => {
+    this.inputs.refinances = this.inputs.refinances.filter(r => r.id !== id);
+  }
+
   setShowBalance = (value: boolean) => {
     this.showBalance = value;
   }
@@ -251,10 +458,28 @@ export class Property implements BaseAsset {
     return this.inputs.saleConfig.isPlannedForSale;
   }
 
+  /**
+   * Projection year of the sale. A life event sale happens in the projection
+   * year the event falls in; events before the first projected year (or that
+   * cannot be resolved) mean no sale.
+   */
   get saleYear(): number | null {
+    const saleEvent = this.inputs.saleConfig.saleEvent;
+    if (saleEvent) {
+      const eventYear = this.portfolioStore?.household?.resolveLifeEvent(saleEvent) ?? null;
+      if (eventYear === null || eventYear <= this.startingYear) return null;
+      return eventYear - this.startingYear;
+    }
     return this.inputs.saleConfig.saleYear;
   }
 
+  /**
+   * Calendar year of the sale, used to pick (or project) the tax tables
+   */
+  get saleTaxYear(): number {
+    return this.startingYear + (this.saleYear || 0);
+  }
+
   get projectedSalePrice(): number {
     if (!this.saleYear) return 0;
     
@@ -297,10 +522,21 @@ export class Property implements BaseAsset {
 
   get adjustedCostBasis(): number {
     const parsed = this.parsedInputs;
-    return parsed.purchasePrice + parsed.capitalImprovements + parsed.originalBuyingCosts;
+    // Gain deferred by 1031 exchanges into this property carries over as a lower basis
+    return Math.max(
+      0,
+      parsed.purchasePrice + parsed.capitalImprovements + parsed.originalBuyingCosts - this.exchangeCarryover.deferredCapitalGain
+    );
   }
 
   get capitalGain(): number {
+    return Math.max(0, this.capitalGainOrLoss);
+  }
+
+  /**
+   * Realized gain on the sale, negative when sold at a loss
+   */
+  get capitalGainOrLoss(): number {
     if (!this.saleYear) return 0;
     
     const salePrice = this.effectiveSalePrice;
@@ -310,24 +546,146 @@ export class Property implements BaseAsset {
     // Capital gain = Sale price - selling costs - cost basis
     // Mortgage payoff does NOT affect capital gains calculation
     const grossProceeds = salePrice - sellingCosts;
-    return Math.max(0, grossProceeds - adjustedBasis);
+    return grossProceeds - adjustedBasis;
+  }
+
+  /**
+   * Replacement property for a 1031 exchange, if it is still in the portfolio
+   */
+  get replacementProperty(): Property | null {
+    const replacementId = this.inputs.saleConfig.replacementPropertyId;
+    if (!replacementId || replacementId === this.id) return null;
+
+    return this.portfolioStore?.properties?.find(
+      property => property.id === replacementId && property.enabled
+    ) ?? null;
+  }
+
+  get isExchange(): boolean {
+    return !!this.saleYear &&
+      this.inputs.saleConfig.isPlannedForSale &&
+      !!this.inputs.saleConfig.is1031Exchange &&
+      this.replacementProperty !== null;
+  }
+
+  /**
+   * Depreciation subject to recapture at sale: the manual total (or calculated schedule)
+   * plus recapture deferred by exchanges into this property
+   */
+  get depreciationTakenAtSale(): number {
+    const depreciationTaken = this.inputs.saleConfig.totalDepreciationTaken
+      ? parseFloat(this.inputs.saleConfig.totalDepreciationTaken) || 0
+      : this.calculatedDepreciationTaken;
+    return depreciationTaken + this.exchangeCarryover.deferredRecapture;
+  }
+
+  /**
+   * Boot, recognized gain and deferred gain when the sale is a 1031 exchange
+   */
+  get exchangeCalculation(): Section1031Exchange | null {
+    const replacement = this.replacementProperty;
+    if (!this.isExchange || !replacement || !this.saleYear) return null;
+
+    const replacementInputs = replacement.parsedInputs;
+    const replacementDebt = replacementInputs.purchasePrice * (1 - replacementInputs.downPaymentPercentage / 100);
+
+    return Section1031Calculator.calculateExchange({
+      amountRealized: this.effectiveSalePrice - this.sellingCosts,
+      mortgageRelieved: this.calculateMortgageBalanceAtYear(this.saleYear),
+      capitalGain: this.capitalGain,
+      depreciationTaken: this.inputs.saleConfig.enableDepreciationRecapture ? this.depreciationTakenAtSale : 0,
+      replacementPrice: replacementInputs.purchasePrice,
+      replacementDebt
+    });
+  }
+
+  /**
+   * Gain deferred by other properties' 1031 exchanges into this one
+   */
+  get exchangeCarryover(): ExchangeCarryover {
+    const carryover: ExchangeCarryover = { deferredCapitalGain: 0, deferredRecapture: 0, sourcePropertyNames: [] };
+    const properties = this.portfolioStore?.properties || [];
+
+    for (const property of properties) {
+      if (property === this || !property.enabled) continue;
+      if (property.inputs.saleConfig.replacementPropertyId !== this.id) continue;
+      // Two properties exchanging into each other would make their bases depend on each other
+      if (this.inputs.saleConfig.is1031Exchange && this.inputs.saleConfig.replacementPropertyId === property.id) continue;
+
+      const exchange = property.exchangeCalculation;
+      if (!exchange) continue;
+
+      carryover.deferredCapitalGain += exchange.deferredCapitalGain;
+      carryover.deferredRecapture += exchange.deferredRecapture;
+      carryover.sourcePropertyNames.push(property.name);
+    }
+
+    return carryover;
+  }
+
+  /**
+   * Capital gain taxed in the sale year (only the boot-recognized part of an exchange)
+   */
+  get taxableCapitalGain(): number {
+    return this.exchangeCalculation?.recognizedCapitalGain ?? this.capitalGain;
+  }
+
+  /**
+   * Gain reported to the portfolio tax ledger: the recognized gain after any
+   * Section 121 exclusion, or the realized loss. A loss on a personal residence
+   * is not deductible and a loss in an exchange is deferred.
+   */
+  get reportableCapitalGain(): number {
+    const gainOrLoss = this.capitalGainOrLoss;
+    if (gainOrLoss >= 0) return this.section121Exclusion.remainingGain;
+
+    const isPersonalResidence = this.inputs.saleConfig.isPrimaryResidence && !this.inputs.isRentalProperty;
+    return isPersonalResidence || this.isExchange ? 0 : gainOrLoss;
+  }
+
+  /**
+   * This sale's entry in the portfolio capital gains ledger
+   */
+  get capitalGainsLedgerSale(): CapitalGainsLedgerSale | null {
+    const ledger = this.portfolioStore?.capitalGainsLedger || [];
+    for (const year of ledger) {
+      const sale = year.sales.find(entry => entry.id === this.id);
+      if (sale) return sale;
+    }
+    return null;
+  }
+
+  /**
+   * Losses from other portfolio sales (same year or carried forward) applied to this gain
+   */
+  get portfolioLossOffset(): number {
+    return this.capitalGainsLedgerSale?.lossOffset ?? 0;
+  }
+
+  /**
+   * Net gains of earlier portfolio sales in the same tax year, stacked below this gain
+   */
+  get priorSameYearGains(): number {
+    return this.capitalGainsLedgerSale?.priorSameYearGains ?? 0;
   }
 
   /**
-   * Calculate federal capital gains tax using property's tax profile
+   * Calculate federal capital gains tax using property's tax profile.
+   * The gain left after any Section 121 exclusion and portfolio losses is
+   * stacked on annual income and earlier same-year sales.
    */
-  get federalTaxCalculation() {
+  get federalTaxCalculation(): FederalTaxCalculation {
     if (!this.saleYear || !this.inputs.saleConfig.isPlannedForSale) {
       return {
         taxableGain: 0,
         taxRate: 0,
         taxAmount: 0,
-        bracketInfo: { min: 0, max: 0, rate: 0 },
+        bracketBreakdown: [],
       };
     }
 
-    const capitalGain = this.capitalGain;
-    const annualIncome = parseFloat(this.inputs.saleConfig.annualIncome || '0') || 0;
+    const capitalGain = this.section121Exclusion.remainingGain - this.portfolioLossOffset;
+    const annualIncome = (parseFloat(this.inputs.saleConfig.annualIncome || '0') || 0) + this.priorSameYearGains;
     const otherCapitalGains = parseFloat(this.inputs.saleConfig.otherCapitalGains || '0') || 0;
     const carryoverLosses = parseFloat(this.inputs.saleConfig.carryoverLosses || '0') || 0;
     
@@ -336,7 +694,9 @@ export class Property implements BaseAsset {
       annualIncome,
       this.inputs.saleConfig.filingStatus,
       otherCapitalGains,
-      carryoverLosses
+      carryoverLosses,
+      this.saleTaxYear,
+      this.parsedInputs.inflationRate
     );
   }
 
@@ -349,12 +709,12 @@ export class Property implements BaseAsset {
         isEligible: false,
         maxExclusion: 0,
         appliedExclusion: 0,
-        remainingGain: this.capitalGain,
+        remainingGain: this.taxableCapitalGain,
         reason: 'Sale not configured or Section 121 disabled',
       };
     }
 
-    const capitalGain = this.capitalGain;
+    const capitalGain = this.taxableCapitalGain;
     const filingStatus = this.inputs.saleConfig.filingStatus;
     const yearsOwned = parseFloat(this.inputs.saleConfig.yearsOwned || '0') || 0;
     const yearsLived = parseFloat(this.inputs.saleConfig.yearsLived || '0') || 0;
@@ -366,7 +726,7 @@ export class Property implements BaseAsset {
       hasUsedExclusionInLastTwoYears: this.inputs.saleConfig.hasUsedExclusionInLastTwoYears,
     };
 
-    return Section121Calculator.calculateExclusion(capitalGain, filingStatus, requirements);
+    return Section121Calculator.calculateExclusion(capitalGain, filingStatus, requirements, this.saleTaxYear);
   }
 
   /**
@@ -383,54 +743,125 @@ export class Property implements BaseAsset {
       };
     }
 
-    const totalDepreciationTaken = parseFloat(this.inputs.saleConfig.totalDepreciationTaken || '0') || 0;
+    // An exchange defers all recapture not triggered by boot
+    const totalDepreciationTaken = this.exchangeCalculation
+      ? this.exchangeCalculation.recognizedRecapture
+      : this.depreciationTakenAtSale;
     const annualIncome = parseFloat(this.inputs.saleConfig.annualIncome || '0') || 0;
     const filingStatus = this.inputs.saleConfig.filingStatus;
 
     return DepreciationRecaptureCalculator.calculateRecapture({
       totalDepreciationTaken,
       annualIncome,
-      filingStatus
+      filingStatus,
+      taxYear: this.saleTaxYear,
+      inflationRate: this.parsedInputs.inflationRate
     });
   }
 
   /**
-   * Get the depreciation recapture tax amount
+   * Depreciable basis: building share of purchase price and buying costs, plus capital improvements
    */
-  get depreciationRecaptureTax(): number {
-    return this.depreciationRecaptureCalculation.recaptureTax;
+  get depreciableBasis(): number {
+    if (!this.inputs.isRentalProperty) return 0;
+
+    const parsed = this.parsedInputs;
+    const landValuePercentage = parseFloat(this.inputs.saleConfig.landValuePercentage || '20') || 0;
+    const buildingShare = 1 - Math.min(100, Math.max(0, landValuePercentage)) / 100;
+    // Gain deferred by exchanges into this property reduces the carried-over basis
+    const carryover = this.exchangeCarryover;
+    const purchaseBasis = Math.max(
+      0,
+      parsed.purchasePrice + parsed.originalBuyingCosts - carryover.deferredCapitalGain - carryover.deferredRecapture
+    );
+    return purchaseBasis * buildingShare + parsed.capitalImprovements;
   }
 
   /**
-   * Get the federal capital gains tax amount after Section 121 exclusion
+   * Depreciation deduction per projection year (index = projection year).
+   * Ownership year k (0 = purchase year) is projection year k - yearsBought + 1.
    */
-  get federalTaxAmount(): number {
-    if (!this.inputs.saleConfig.enableSection121) {
-      return this.federalTaxCalculation.taxAmount;
-    }
+  get depreciationSchedule(): number[] {
+    const parsed = this.parsedInputs;
+    const schedule = new Array(parsed.years + 1).fill(0);
+    if (this.depreciableBasis <= 0) return schedule;
+
+    const taxYears = DepreciationRecaptureCalculator.calculateStraightLineSchedule(
+      this.depreciableBasis,
+      parseInt(this.inputs.purchaseMonth || '1') || 1,
+      parsed.yearsBought + parsed.years,
+      this.inputs.propertyClass !== 'commercial'
+    );
 
-    // Calculate tax on remaining gain after Section 121 exclusion plus other gains/losses
-    const exclusion = this.section121Exclusion;
-    const remainingPropertyGain = exclusion.remainingGain;
-    
-    const annualIncome = parseFloat(this.inputs.saleConfig.annualIncome || '0') || 0;
-    const otherCapitalGains = parseFloat(this.inputs.saleConfig.otherCapitalGains || '0') || 0;
-    const carryoverLosses = parseFloat(this.inputs.saleConfig.carryoverLosses || '0') || 0;
-    
-    // Total taxable gain = remaining property gain + other gains - losses
-    const totalTaxableGain = remainingPropertyGain + otherCapitalGains - carryoverLosses;
-    
-    if (totalTaxableGain <= 0) {
-      return 0;
+    for (let year = 1; year <= parsed.years; year++) {
+      if (this.isPlannedForSale && this.saleYear && year > this.saleYear) break;
+
+      const fullYear = taxYears[parsed.yearsBought + year - 1] || 0;
+      schedule[year] = this.isPlannedForSale && this.saleYear === year
+        ? DepreciationRecaptureCalculator.calculateDispositionYearDepreciation(fullYear, this.inputs.saleConfig.saleMonth || 6)
+        : fullYear;
     }
 
-    const taxCalculation = FederalTaxCalculator.calculateFederalTax(
-      totalTaxableGain,
+    return schedule;
+  }
+
+  /**
+   * Depreciation taken before the projection plus projected deductions through the sale
+   * (or the end of the projection when no sale is planned)
+   */
+  get calculatedDepreciationTaken(): number {
+    const parsed = this.parsedInputs;
+    if (this.depreciableBasis <= 0) return 0;
+
+    const priorYears = DepreciationRecaptureCalculator.calculateStraightLineSchedule(
+      this.depreciableBasis,
+      parseInt(this.inputs.purchaseMonth || '1') || 1,
+      parsed.yearsBought,
+      this.inputs.propertyClass !== 'commercial'
+    );
+    const priorDepreciation = priorYears.reduce((sum, amount) => sum + amount, 0);
+    const projectedDepreciation = this.depreciationSchedule.reduce((sum, amount) => sum + amount, 0);
+
+    return priorDepreciation + projectedDepreciation;
+  }
+
+  /**
+   * Owner's marginal rate (decimal) applied to rental income this year
+   */
+  get rentalMarginalTaxRate(): number {
+    return this.getRentalMarginalTaxRate(0);
+  }
+
+  /**
+   * Marginal rate (decimal) for a projection year: the entered rate, or the
+   * ordinary bracket for the sale config income and filing status in that
+   * year's tax table
+   */
+  getRentalMarginalTaxRate(year: number): number {
+    const parsed = this.parsedInputs;
+    if (parsed.marginalTaxRate !== null) return parsed.marginalTaxRate / 100;
+
+    const annualIncome = parseFloat(this.inputs.saleConfig.annualIncome || '0') || 0;
+    return DepreciationRecaptureCalculator.getOrdinaryIncomeRate(
       annualIncome,
-      this.inputs.saleConfig.filingStatus
+      this.inputs.saleConfig.filingStatus,
+      this.startingYear + year,
+      parsed.inflationRate
     );
+  }
 
-    return taxCalculation.taxAmount;
+  /**
+   * Get the depreciation recapture tax amount
+   */
+  get depreciationRecaptureTax(): number {
+    return this.depreciationRecaptureCalculation.recaptureTax;
+  }
+
+  /**
+   * Get the federal capital gains tax amount after Section 121 exclusion
+   */
+  get federalTaxAmount(): number {
+    return this.federalTaxCalculation.taxAmount;
   }
 
   /**
@@ -445,24 +876,33 @@ export class Property implements BaseAsset {
         taxableGain: 0,
         taxRate: 0,
         taxAmount: 0,
+        bracketBreakdown: [],
         notes: 'State tax disabled or sale not configured',
       };
     }
 
     // Calculate state tax on remaining gain after Section 121 exclusion
-    let taxableGain = this.capitalGain;
+    let taxableGain = this.taxableCapitalGain;
     
     if (this.inputs.saleConfig.enableSection121) {
       const exclusion = this.section121Exclusion;
       taxableGain = exclusion.remainingGain;
     }
 
-    // Add other capital gains and subtract carryover losses
+    // Add other capital gains and subtract carryover and portfolio losses
     const otherCapitalGains = parseFloat(this.inputs.saleConfig.otherCapitalGains || '0') || 0;
     const carryoverLosses = parseFloat(this.inputs.saleConfig.carryoverLosses || '0') || 0;
-    const totalTaxableGain = taxableGain + otherCapitalGains - carryoverLosses;
+    const totalTaxableGain = taxableGain + otherCapitalGains - carryoverLosses - this.portfolioLossOffset;
 
-    return StateTaxCalculator.calculateStateTax(totalTaxableGain, this.inputs.saleConfig.state);
+    const annualIncome = (parseFloat(this.inputs.saleConfig.annualIncome || '0') || 0) + this.priorSameYearGains;
+    return StateTaxCalculator.calculateStateTax(
+      totalTaxableGain,
+      this.inputs.saleConfig.state,
+      annualIncome,
+      this.inputs.saleConfig.filingStatus,
+      this.saleTaxYear,
+      this.parsedInputs.inflationRate
+    );
   }
 
   /**
@@ -473,13 +913,48 @@ export class Property implements BaseAsset {
   }
 
   /**
-   * Get total tax amount (federal + state + depreciation recapture)
+   * Calculate the 3.8% Net Investment Income Tax on the sale.
+   * The Section 121 excluded gain is not investment income and is left out of MAGI.
+   */
+  get netInvestmentIncomeTaxCalculation(): NetInvestmentIncomeTaxCalculation {
+    const filingStatus = this.inputs.saleConfig.filingStatus;
+    const annualIncome = parseFloat(this.inputs.saleConfig.annualIncome || '0') || 0;
+
+    if (!this.saleYear || !this.inputs.saleConfig.isPlannedForSale) {
+      return FederalTaxCalculator.calculateNetInvestmentIncomeTax(0, annualIncome, filingStatus);
+    }
+
+    const propertyGain = this.inputs.saleConfig.enableSection121
+      ? this.section121Exclusion.remainingGain
+      : this.taxableCapitalGain;
+    const otherCapitalGains = parseFloat(this.inputs.saleConfig.otherCapitalGains || '0') || 0;
+    const carryoverLosses = parseFloat(this.inputs.saleConfig.carryoverLosses || '0') || 0;
+    const netInvestmentIncome = Math.max(0, propertyGain + otherCapitalGains - carryoverLosses - this.portfolioLossOffset) +
+      this.depreciationRecaptureCalculation.recaptureAmount;
+
+    return FederalTaxCalculator.calculateNetInvestmentIncomeTax(
+      netInvestmentIncome,
+      annualIncome + this.priorSameYearGains + netInvestmentIncome,
+      filingStatus
+    );
+  }
+
+  /**
+   * Get the Net Investment Income Tax amount
+   */
+  get netInvestmentIncomeTax(): number {
+    return this.netInvestmentIncomeTaxCalculation.taxAmount;
+  }
+
+  /**
+   * Get total tax amount (federal + NIIT + state + depreciation recapture)
    */
   get totalTaxAmount(): number {
     const federalTax = this.federalTaxAmount;
+    const netInvestmentIncomeTax = this.netInvestmentIncomeTax;
     const stateTax = this.stateTaxAmount;
     const depreciationRecapture = this.depreciationRecaptureTax;
-    return federalTax + stateTax + depreciationRecapture;
+    return federalTax + netInvestmentIncomeTax + stateTax + depreciationRecapture;
   }
 
   /**
@@ -488,7 +963,8 @@ export class Property implements BaseAsset {
   get netAfterTaxProceeds(): number {
     if (!this.saleYear || !this.inputs.saleConfig.isPlannedForSale) return 0;
     
-    const netProceeds = this.netSaleProceeds;
+    // In an exchange only the cash boot is paid out; the rest buys the replacement
+    const netProceeds = this.exchangeCalculation ? this.exchangeCalculation.cashBoot : this.netSaleProceeds;
     const totalTax = this.totalTaxAmount;
     
     return netProceeds - totalTax;
@@ -509,7 +985,7 @@ export class Property implements BaseAsset {
         taxableGain: 0,
         taxRate: 0,
         taxAmount: 0,
-        bracketInfo: { min: 0, max: 0, rate: 0 },
+        bracketBreakdown: [],
       };
     }
 
@@ -520,7 +996,9 @@ export class Property implements BaseAsset {
       annualIncome,
       filingStatus,
       otherCapitalGains,
-      carryoverLosses
+      carryoverLosses,
+      this.saleTaxYear,
+      this.parsedInputs.inflationRate
     );
   }
 
@@ -572,6 +1050,35 @@ export class Property implements BaseAsset {
       userMonthlyPayment: this.inputs.monthlyPayment && this.inputs.monthlyPayment !== '' ? 
         parseFloat(this.inputs.monthlyPayment) : 0,
       
+      // Adjustable-rate mortgage inputs
+      armInitialFixedYears: parseFloat(this.inputs.armInitialFixedYears || '5') || 0,
+      armAdjustmentIntervalYears: parseFloat(this.inputs.armAdjustmentIntervalYears || '1') || 1,
+      armIndexRate: parseFloat(this.inputs.armIndexRate || '0') || 0,
+      armIndexRateChange: parseFloat(this.inputs.armIndexRateChange || '0') || 0,
+      armMargin: parseFloat(this.inputs.armMargin || '0') || 0,
+      armInitialAdjustmentCap: parseFloat(this.inputs.armInitialAdjustmentCap || '0') || 0,
+      armPeriodicAdjustmentCap: parseFloat(this.inputs.armPeriodicAdjustmentCap || '0') || 0,
+      armLifetimeCap: parseFloat(this.inputs.armLifetimeCap || '0') || 0,
+      
+      // Mortgage prepayment inputs
+      extraPrincipalAmount: Math.max(0, parseFloat(this.inputs.extraPrincipalAmount || '0') || 0),
+      lumpSumPayments: this.inputs.lumpSumPayments.map(payment => ({
+        year: parseInt(payment.year || '0') || 0,
+        amount: Math.max(0, parseFloat(payment.amount || '0') || 0),
+        fromLinkedInvestment: payment.fromLinkedInvestment
+      })),
+      refinances: this.inputs.refinances
+        .map(refinance => ({
+          id: refinance.id,
+          year: parseInt(refinance.year || '0') || 0,
+          interestRate: parseFloat(refinance.interestRate || '0') || 0,
+          loanTerm: parseInt(refinance.loanTerm || '30') || 30,
+          closingCosts: Math.max(0, parseFloat(refinance.closingCosts || '0') || 0),
+          cashOutAmount: Math.max(0, parseFloat(refinance.cashOutAmount || '0') || 0)
+        }))
+        .filter(refinance => refinance.year > 0)
+        .sort((a, b) => a.year - b.year),
+      
       // Rental property inputs
       monthlyRent: parseFloat(this.inputs.monthlyRent || '0') || 0,
       rentGrowthRate: parseFloat(this.inputs.rentGrowthRate || '0') || 0,
@@ -580,6 +1087,20 @@ export class Property implements BaseAsset {
       maintenanceRate: parseFloat(this.inputs.maintenanceRate || '0') || 0,
       listingFeeRate: parseFloat(this.inputs.listingFeeRate || '0') || 0,
       monthlyManagementFeeRate: parseFloat(this.inputs.monthlyManagementFeeRate || '0') || 0,
+      // Ownership cost inputs
+      propertyTaxRate: parseFloat(this.inputs.propertyTaxRate || '0') || 0,
+      assessedValue: parseFloat(this.inputs.assessedValue || '0') || 0,
+      assessedValueGrowthCap: this.inputs.assessedValueGrowthCap !== ''
+        ? parseFloat(this.inputs.assessedValueGrowthCap) || 0
+        : null,
+      annualInsurance: parseFloat(this.inputs.annualInsurance || '0') || 0,
+      insuranceInflationRate: parseFloat(this.inputs.insuranceInflationRate || '0') || 0,
+      monthlyHoa: parseFloat(this.inputs.monthlyHoa || '0') || 0,
+      hoaEscalationRate: parseFloat(this.inputs.hoaEscalationRate || '0') || 0,
+      // Rental income tax inputs
+      marginalTaxRate: this.inputs.marginalTaxRate !== ''
+        ? Math.min(100, Math.max(0, parseFloat(this.inputs.marginalTaxRate) || 0))
+        : null,
       
       // Cost basis inputs for tax calculations
       capitalImprovements: parseFloat(this.inputs.saleConfig.capitalImprovements || '0') || 0,
@@ -616,93 +1137,159 @@ export class Property implements BaseAsset {
     }
   }
 
-  private calculateMortgageBalanceAtYear(targetYear: number): number {
+  // ARM terms, or null for a fixed-rate mortgage
+  get armTerms(): ArmTerms | null {
+    if (this.inputs.mortgageType !== 'arm') return null;
+
+    const parsed = this.parsedInputs;
+    return {
+      initialFixedYears: parsed.armInitialFixedYears,
+      adjustmentIntervalYears: parsed.armAdjustmentIntervalYears,
+      indexRate: parsed.armIndexRate,
+      indexRateChange: parsed.armIndexRateChange,
+      margin: parsed.armMargin,
+      initialAdjustmentCap: parsed.armInitialAdjustmentCap,
+      periodicAdjustmentCap: parsed.armPeriodicAdjustmentCap,
+      lifetimeCap: parsed.armLifetimeCap
+    };
+  }
+
+  private get loanAmount(): number {
     const parsed = this.parsedInputs;
-    
     const downPaymentAmount = parsed.purchasePrice * (parsed.downPaymentPercentage / 100);
-    const loanAmount = parsed.purchasePrice - downPaymentAmount;
-    const monthlyRate = parsed.interestRate / 100 / 12;
-    
-    // Calculate P+I payment
-    const numPayments = parsed.loanTerm * 12;
-    const calculatedPIPayment = loanAmount > 0 ?
-      loanAmount * (monthlyRate * Math.pow(1 + monthlyRate, numPayments)) /
-      (Math.pow(1 + monthlyRate, numPayments) - 1) : 0;
-
-    // Calculate balance after all payments up to target year
-    let remainingBalance = loanAmount;
-    const totalYears = parsed.yearsBought + targetYear;
-    
-    for (let year = 1; year <= totalYears && remainingBalance > 0; year++) {
-      for (let month = 1; month <= 12 && remainingBalance > 0; month++) {
-        const interestPayment = remainingBalance * monthlyRate;
-        const principalPayment = Math.min(calculatedPIPayment - interestPayment, remainingBalance);
-        remainingBalance -= principalPayment;
-      }
-    }
-    
-    return remainingBalance;
+    return parsed.purchasePrice - downPaymentAmount;
   }
 
-  // Mortgage calculation helpers
-  private calculateMortgagePayment(principal: number, annualRate: number, termYears: number): number {
-    if (principal <= 0) return 0;
-    
-    const monthlyRate = annualRate / 100 / 12;
-    const numPayments = termYears * 12;
-    
-    return principal * (monthlyRate * Math.pow(1 + monthlyRate, numPayments)) /
-      (Math.pow(1 + monthlyRate, numPayments) - 1);
+  // Month-by-month amortization from loan origination (before yearsBought), without prepayments
+  get baseMortgageSchedule(): LoanScheduleMonth[] {
+    const parsed = this.parsedInputs;
+    return LoanScheduleCalculator.buildSchedule({
+      principal: this.loanAmount,
+      annualRate: parsed.interestRate,
+      termYears: parsed.loanTerm,
+      arm: this.armTerms,
+      refinances: this.loanRefinances
+    });
   }
 
-  private calculateInitialMortgageBalance(): number {
+  // Actual schedule including extra principal payments
+  get mortgageSchedule(): LoanScheduleMonth[] {
+    if (!this.hasPrepayments) return this.baseMortgageSchedule;
+
     const parsed = this.parsedInputs;
-    
-    const downPaymentAmount = parsed.purchasePrice * (parsed.downPaymentPercentage / 100);
-    const loanAmount = parsed.purchasePrice - downPaymentAmount;
-    
-    if (parsed.yearsBought === 0) return loanAmount;
-    
-    // Calculate remaining balance after yearsBought
-    const monthlyRate = parsed.interestRate / 100 / 12;
-    const piPayment = this.calculateMortgagePayment(loanAmount, parsed.interestRate, parsed.loanTerm);
-    
-    let balance = loanAmount;
-    for (let year = 1; year <= parsed.yearsBought && balance > 0; year++) {
-      for (let month = 1; month <= 12 && balance > 0; month++) {
-        const interestPayment = balance * monthlyRate;
-        const principalPayment = Math.min(piPayment - interestPayment, balance);
-        balance -= principalPayment;
-      }
-    }
-    
-    return balance;
+    return LoanScheduleCalculator.buildSchedule({
+      principal: this.loanAmount,
+      annualRate: parsed.interestRate,
+      termYears: parsed.loanTerm,
+      arm: this.armTerms,
+      extraPrincipal: this.getExtraPrincipalForMonth,
+      refinances: this.loanRefinances
+    });
   }
 
-  private amortizeMortgageYear(
-    startingBalance: number, 
-    monthlyRate: number, 
-    piPayment: number, 
-    monthsToCalculate: number = 12
-  ): { endingBalance: number; totalPrincipal: number; totalInterest: number } {
-    let balance = startingBalance;
-    let totalPrincipal = 0;
-    let totalInterest = 0;
-    
-    for (let month = 1; month <= monthsToCalculate && balance > 0; month++) {
-      const interestPayment = balance * monthlyRate;
-      const principalPayment = Math.min(piPayment - interestPayment, balance);
-      
-      totalInterest += interestPayment;
-      totalPrincipal += principalPayment;
-      balance -= principalPayment;
+  // Refinance events mapped to loan months
+  private get loanRefinances(): LoanRefinance[] {
+    return this.parsedInputs.refinances.map(refinance => ({
+      month: this.getLoanMonthForYear(refinance.year),
+      annualRate: refinance.interestRate,
+      termYears: refinance.loanTerm,
+      cashOut: refinance.cashOutAmount
+    }));
+  }
+
+  // Break-even comparison of each refinance against keeping the loan in effect before it
+  get refinanceAnalyses(): RefinanceAnalysis[] {
+    const parsed = this.parsedInputs;
+    const loanRefinances = this.loanRefinances;
+    const buildWith = (refinances: LoanRefinance[]) => LoanScheduleCalculator.buildSchedule({
+      principal: this.loanAmount,
+      annualRate: parsed.interestRate,
+      termYears: parsed.loanTerm,
+      arm: this.armTerms,
+      extraPrincipal: this.hasPrepayments ? this.getExtraPrincipalForMonth : undefined,
+      refinances
+    });
+
+    return parsed.refinances.map((refinance, index) => {
+      const comparison = LoanScheduleCalculator.compareRefinance(
+        buildWith(loanRefinances.slice(0, index)),
+        buildWith(loanRefinances.slice(0, index + 1)),
+        loanRefinances[index].month,
+        refinance.closingCosts
+      );
+
+      return {
+        ...comparison,
+        refinanceId: refinance.id,
+        year: refinance.year,
+        closingCosts: refinance.closingCosts,
+        cashOutAmount: refinance.cashOutAmount
+      };
+    });
+  }
+
+  private getRefinanceForYear(year: number) {
+    return this.parsedInputs.refinances.find(refinance => refinance.year === year) || null;
+  }
+
+  // Months and interest saved by prepayments, or null when there are none
+  get prepaymentSavings(): PrepaymentSavings | null {
+    if (!this.hasPrepayments) return null;
+    return LoanScheduleCalculator.calculatePrepaymentSavings(this.baseMortgageSchedule, this.mortgageSchedule);
+  }
+
+  private get hasPrepayments(): boolean {
+    const parsed = this.parsedInputs;
+    return parsed.extraPrincipalAmount > 0 || parsed.lumpSumPayments.some(p => p.amount > 0 && p.year > 0);
+  }
+
+  // Prepayments start with the first projected year; annual and lump-sum
+  // payments are made in the first month of their projection year
+  private getExtraPrincipalForMonth = (month: number): number => {
+    const parsed = this.parsedInputs;
+    const monthsSinceStart = month - parsed.yearsBought * 12 - 1;
+    if (monthsSinceStart < 0) return 0;
+
+    const projectionYear = Math.floor(monthsSinceStart / 12) + 1;
+    const isFirstMonthOfYear = monthsSinceStart % 12 === 0;
+
+    let extra = 0;
+    if (this.inputs.extraPrincipalFrequency === 'annual') {
+      if (isFirstMonthOfYear) extra += parsed.extraPrincipalAmount;
+    } else {
+      extra += parsed.extraPrincipalAmount;
     }
-    
-    return {
-      endingBalance: balance,
-      totalPrincipal,
-      totalInterest
-    };
+
+    if (isFirstMonthOfYear) {
+      extra += this.getLumpSumTotal(projectionYear);
+    }
+
+    return extra;
+  }
+
+  private getLumpSumTotal(year: number, fromLinkedInvestment?: boolean): number {
+    return this.parsedInputs.lumpSumPayments
+      .filter(p => p.year === year && (fromLinkedInvestment === undefined || p.fromLinkedInvestment === fromLinkedInvestment))
+      .reduce((sum, p) => sum + p.amount, 0);
+  }
+
+  // Loan month (1-based) at the start of a projection year
+  private getLoanMonthForYear(year: number): number {
+    return (this.parsedInputs.yearsBought + year - 1) * 12 + 1;
+  }
+
+  private calculateMortgageBalanceAtYear(targetYear: number): number {
+    const totalMonths = (this.parsedInputs.yearsBought + targetYear) * 12;
+    return LoanScheduleCalculator.balanceAfterMonths(this.mortgageSchedule, this.loanAmount, totalMonths);
+  }
+
+  // Mortgage calculation helpers
+  private calculateMortgagePayment(principal: number, annualRate: number, termYears: number): number {
+    return LoanScheduleCalculator.calculatePayment(principal, annualRate, termYears * 12);
+  }
+
+  private calculateInitialMortgageBalance(): number {
+    return this.calculateMortgageBalanceAtYear(0);
   }
 
   // Property value calculation helpers
@@ -782,11 +1369,42 @@ export class Property implements BaseAsset {
     return effectiveRentalIncome * (parsed.monthlyManagementFeeRate / 100);
   }
 
+  // Ownership cost methods (property tax, insurance, HOA)
+  // Assessed value grows with the property, limited by the assessment cap, and never exceeds market value
+  private calculateAssessedValue(year: number): number {
+    const parsed = this.parsedInputs;
+    const growthRate = parsed.assessedValueGrowthCap !== null
+      ? Math.min(parsed.propertyGrowthRate, parsed.assessedValueGrowthCap)
+      : parsed.propertyGrowthRate;
+
+    const assessedValue = parsed.assessedValue > 0
+      ? parsed.assessedValue * Math.pow(1 + growthRate / 100, year)
+      : parsed.purchasePrice * Math.pow(1 + growthRate / 100, parsed.yearsBought + year);
+
+    return Math.min(assessedValue, this.calculatePropertyValue(year));
+  }
+
+  private calculatePropertyTaxExpense(year: number, monthsOwned: number = 12): number {
+    const parsed = this.parsedInputs;
+    if (parsed.propertyTaxRate <= 0) return 0;
+    return this.calculateAssessedValue(year) * (parsed.propertyTaxRate / 100) * (monthsOwned / 12);
+  }
+
+  private calculateInsuranceExpense(year: number, monthsOwned: number = 12): number {
+    const parsed = this.parsedInputs;
+    return parsed.annualInsurance * Math.pow(1 + parsed.insuranceInflationRate / 100, year) * (monthsOwned / 12);
+  }
+
+  private calculateHoaExpense(year: number, monthsOwned: number = 12): number {
+    const parsed = this.parsedInputs;
+    return parsed.monthlyHoa * Math.pow(1 + parsed.hoaEscalationRate / 100, year) * monthsOwned;
+  }
 
   // Cash flow calculation helpers
   private calculateAnnualCashFlow(
     rentalIncome: number,
     rentalExpenses: number,
+    ownershipExpenses: number,
     monthlyPayment: number,
     monthsOwned: number,
     saleProceeds: number = 0,
@@ -795,13 +1413,13 @@ export class Property implements BaseAsset {
     const mortgagePayments = monthlyPayment * monthsOwned;
     
     if (this.inputs.isRentalProperty) {
-      let cashFlow = rentalIncome - rentalExpenses - mortgagePayments;
+      let cashFlow = rentalIncome - rentalExpenses - ownershipExpenses - mortgagePayments;
       if (reinvestInLinked) {
         cashFlow += saleProceeds;
       }
       return cashFlow;
     } else {
-      let cashFlow = -mortgagePayments;
+      let cashFlow = -mortgagePayments - ownershipExpenses;
       if (reinvestInLinked) {
         cashFlow += saleProceeds;
       }
@@ -825,13 +1443,18 @@ export class Property implements BaseAsset {
     const loanAmount = parsed.purchasePrice - downPaymentAmount;
     const calculatedPIPayment = this.calculateMortgagePayment(loanAmount, parsed.interestRate, parsed.loanTerm);
     
+    // P+I and rate in effect now (an ARM may already have reset when yearsBought > 0)
+    const currentTerms = LoanScheduleCalculator.summarizePeriod(
+      this.mortgageSchedule, loanAmount, this.getLoanMonthForYear(1), 1
+    );
+    
     // Determine payments
     const totalMonthlyPayment = parsed.userMonthlyPayment > 0 ? parsed.userMonthlyPayment : calculatedPIPayment;
     const otherFeesPayment = Math.max(0, totalMonthlyPayment - calculatedPIPayment);
     
     // Adjust for paid-off mortgage
-    let year0TotalPayment = totalMonthlyPayment;
-    let year0PIPayment = calculatedPIPayment;
+    let year0TotalPayment = totalMonthlyPayment + (currentTerms.payment - calculatedPIPayment);
+    let year0PIPayment = currentTerms.payment;
     let year0OtherFees = otherFeesPayment;
     
     if (initialBalance <= 0) {
@@ -855,15 +1478,24 @@ export class Property implements BaseAsset {
       monthlyPayment: Math.round(year0TotalPayment * 100) / 100,
       principalInterestPayment: Math.round(year0PIPayment * 100) / 100,
       otherFeesPayment: Math.round(year0OtherFees * 100) / 100,
+      interestRate: initialBalance > 0 ? currentTerms.rate : 0,
       principalPaid: 0,
       interestPaid: 0,
+      extraPrincipalPaid: 0,
       annualCashFlow: 0,
       annualRentalIncome: 0,
       // Enhanced expense breakdown
       maintenanceExpenses: 0,
       listingExpenses: 0,
       monthlyManagementExpenses: 0,
-      totalRentalExpenses: 0
+      totalRentalExpenses: 0,
+      propertyTaxExpense: 0,
+      insuranceExpense: 0,
+      hoaExpense: 0,
+      depreciationExpense: 0,
+      taxableRentalIncome: 0,
+      rentalIncomeTax: 0,
+      suspendedPassiveLoss: 0
     };
   }
 
@@ -877,8 +1509,10 @@ export class Property implements BaseAsset {
       monthlyPayment: 0,
       principalInterestPayment: 0,
       otherFeesPayment: 0,
+      interestRate: 0,
       principalPaid: 0,
       interestPaid: 0,
+      extraPrincipalPaid: 0,
       annualCashFlow: 0,
       annualRentalIncome: 0,
       // Enhanced expense breakdown
@@ -886,6 +1520,13 @@ export class Property implements BaseAsset {
       listingExpenses: 0,
       monthlyManagementExpenses: 0,
       totalRentalExpenses: 0,
+      propertyTaxExpense: 0,
+      insuranceExpense: 0,
+      hoaExpense: 0,
+      depreciationExpense: 0,
+      taxableRentalIncome: 0,
+      rentalIncomeTax: 0,
+      suspendedPassiveLoss: 0,
       isSaleYear: false,
       isPostSale: true
     };
@@ -904,13 +1545,15 @@ export class Property implements BaseAsset {
     
     const calculatedPIPayment = this.calculateMortgagePayment(loanAmount, parsed.interestRate, parsed.loanTerm);
     const totalMonthlyPayment = parsed.userMonthlyPayment > 0 ? parsed.userMonthlyPayment : calculatedPIPayment;
-    const monthlyRate = parsed.interestRate / 100 / 12;
+    const mortgageSchedule = this.mortgageSchedule;
     
     // Add Year 0
     projections.push(this.createYear0Result(baseYear));
     
     // Track mortgage balance
     let remainingBalance = this.calculateInitialMortgageBalance();
+    // Passive losses suspended from earlier years
+    let suspendedPassiveLoss = 0;
 
     // Calculate year-by-year mortgage amortization for the investment period
     for (let year = 1; year <= parsed.years; year++) {
@@ -927,14 +1570,17 @@ export class Property implements BaseAsset {
       // Calculate months owned (partial year for sale)
       const monthsOwned = isSaleYear ? (this.inputs.saleConfig.saleMonth || 6) : 12;
       
-      // Amortize mortgage for the year
+      // Amortize mortgage for the year (rate and payment may change on ARM resets)
       const preSaleMortgageBalance = remainingBalance;
-      const amortization = this.amortizeMortgageYear(remainingBalance, monthlyRate, calculatedPIPayment, monthsOwned);
+      const amortization = LoanScheduleCalculator.summarizePeriod(
+        mortgageSchedule, loanAmount, this.getLoanMonthForYear(year), monthsOwned
+      );
       remainingBalance = amortization.endingBalance;
       
       // Determine actual payments after mortgage payoff
-      let actualTotalPayment = totalMonthlyPayment;
-      let actualPIPayment = calculatedPIPayment;
+      // Total payment moves with P+I when an ARM reset changes the payment
+      let actualPIPayment = amortization.payment;
+      let actualTotalPayment = totalMonthlyPayment + (actualPIPayment - calculatedPIPayment);
       
       if (remainingBalance <= 0 && !isSaleYear) {
         if (parsed.userMonthlyPayment > 0) {
@@ -953,6 +1599,9 @@ export class Property implements BaseAsset {
       // Calculate rental income and expenses
       const annualRentalIncome = this.calculateRentalIncome(year, monthsOwned);
       const annualRentalExpenses = this.calculateRentalExpenses(year, monthsOwned);
+      const propertyTaxExpense = this.calculatePropertyTaxExpense(year, monthsOwned);
+      const insuranceExpense = this.calculateInsuranceExpense(year, monthsOwned);
+      const hoaExpense = this.calculateHoaExpense(year, monthsOwned);
       
       // Handle sale calculations
       let saleProceeds = 0;
@@ -974,14 +1623,42 @@ export class Property implements BaseAsset {
       }
 
       // Calculate annual cash flow
-      const annualCashFlow = this.calculateAnnualCashFlow(
+      // Prepayments are paid out of pocket, except lump sums funded from outside the linked investment
+      const externallyFundedPrincipal = Math.min(amortization.totalExtraPrincipal, this.getLumpSumTotal(year, false));
+      // Refinance cash-out flows in, closing costs flow out
+      const refinance = amortization.hasRefinance ? this.getRefinanceForYear(year) : null;
+      const refinanceCashFlow = refinance ? refinance.cashOutAmount - refinance.closingCosts : 0;
+      const preTaxCashFlow = this.calculateAnnualCashFlow(
         annualRentalIncome,
         annualRentalExpenses,
+        propertyTaxExpense + insuranceExpense + hoaExpense,
         actualTotalPayment,
         monthsOwned,
         saleProceeds,
         reinvestInLinked
-      );
+      ) - (amortization.totalExtraPrincipal - externallyFundedPrincipal) + refinanceCashFlow;
+
+      // Income tax on rental profit; the after-tax cash flow reaches the linked investment
+      const depreciationExpense = this.depreciationSchedule[year] || 0;
+      let taxableRentalIncome = 0;
+      let rentalIncomeTax = 0;
+      if (this.inputs.isRentalProperty && this.inputs.rentalIncomeTaxEnabled) {
+        const rentalTax = RentalIncomeTaxCalculator.calculateYear({
+          netOperatingIncome: annualRentalIncome - annualRentalExpenses - propertyTaxExpense - insuranceExpense - hoaExpense,
+          mortgageInterest: amortization.totalInterest,
+          depreciation: depreciationExpense,
+          marginalRate: this.getRentalMarginalTaxRate(year),
+          modifiedAGI: parseFloat(this.inputs.saleConfig.annualIncome || '0') || 0,
+          filingStatus: this.inputs.saleConfig.filingStatus,
+          activeParticipation: this.inputs.activeParticipation,
+          suspendedLossCarryforward: suspendedPassiveLoss,
+          isDisposition: isSaleYear
+        });
+        taxableRentalIncome = rentalTax.taxableRentalIncome;
+        rentalIncomeTax = rentalTax.incomeTax;
+        suspendedPassiveLoss = rentalTax.suspendedLoss;
+      }
+      const annualCashFlow = preTaxCashFlow - rentalIncomeTax;
 
       // Create result
       const result: PropertyResult = {
@@ -993,8 +1670,11 @@ export class Property implements BaseAsset {
         monthlyPayment: isSaleYear ? 0 : Math.round(actualTotalPayment * 100) / 100,
         principalInterestPayment: isSaleYear ? 0 : Math.round(actualPIPayment * 100) / 100,
         otherFeesPayment: isSaleYear ? 0 : Math.round(Math.max(0, actualTotalPayment - actualPIPayment) * 100) / 100,
+        interestRate: amortization.rate,
+        isRateResetYear: amortization.hasRateReset,
         principalPaid: Math.round(amortization.totalPrincipal * 100) / 100,
         interestPaid: Math.round(amortization.totalInterest * 100) / 100,
+        extraPrincipalPaid: Math.round(amortization.totalExtraPrincipal * 100) / 100,
         annualCashFlow: Math.round(annualCashFlow * 100) / 100,
         annualRentalIncome: Math.round(annualRentalIncome * 100) / 100,
         // Enhanced expense breakdown
@@ -1002,10 +1682,23 @@ export class Property implements BaseAsset {
         listingExpenses: Math.round(this.calculateListingExpenses(this.calculateEffectiveValues(year), monthsOwned) * 100) / 100,
         monthlyManagementExpenses: Math.round(this.calculateMonthlyManagementExpenses(this.calculateEffectiveValues(year), monthsOwned) * 100) / 100,
         totalRentalExpenses: Math.round(annualRentalExpenses * 100) / 100,
+        propertyTaxExpense: Math.round(propertyTaxExpense * 100) / 100,
+        insuranceExpense: Math.round(insuranceExpense * 100) / 100,
+        hoaExpense: Math.round(hoaExpense * 100) / 100,
+        depreciationExpense: Math.round(depreciationExpense * 100) / 100,
+        taxableRentalIncome: Math.round(taxableRentalIncome * 100) / 100,
+        rentalIncomeTax: Math.round(rentalIncomeTax * 100) / 100,
+        suspendedPassiveLoss: Math.round(suspendedPassiveLoss * 100) / 100,
         isSaleYear,
         isPostSale: false
       };
 
+      if (refinance) {
+        result.isRefinanceYear = true;
+        result.refinanceCashOut = Math.round(refinance.cashOutAmount * 100) / 100;
+        result.refinanceClosingCosts = Math.round(refinance.closingCosts * 100) / 100;
+      }
+
       // Add sale-specific fields
       if (isSaleYear) {
         result.saleProceeds = Math.round(saleProceeds * 100) / 100;
@@ -1108,16 +1801,21 @@ export class Property implements BaseAsset {
   private validateSaleConfiguration(): string[] {
     const errors: string[] = [];
     const years = parseInt(this.portfolioStore?.years || '10') || 10;
-    const saleYear = this.inputs.saleConfig.saleYear;
+    const saleEvent = this.inputs.saleConfig.saleEvent;
+    const saleYear = this.saleYear;
     const saleMonth = this.inputs.saleConfig.saleMonth;
     const expectedSalePrice = this.inputs.saleConfig.expectedSalePrice;
     const sellingCostsPercentage = this.inputs.saleConfig.sellingCostsPercentage;
     
     // Validate sale year
-    if (!saleYear || saleYear <= 0) {
+    if (saleEvent && !saleYear) {
+      errors.push('Sale life event must fall within the projection (check the household member and birth year)');
+    } else if (!saleYear || saleYear <= 0) {
       errors.push('Sale year must be specified and greater than 0');
     } else if (saleYear > years) {
-      errors.push('Sale year must be between 1 and projection years');
+      errors.push(saleEvent
+        ? 'Sale life event falls after the projection period'
+        : 'Sale year must be between 1 and projection years');
     }
     
     // Validate sale month
@@ -1139,6 +1837,12 @@ export class Property implements BaseAsset {
       errors.push('Selling costs must be between 0% and 20%');
     }
     
+ 
+    // Validate 1031 exchange replacement
+    if (this.inputs.saleConfig.is1031Exchange && !this.replacementProperty) {
+      errors.push('Replacement property must be selected for a 1031 exchange');
+    }
+    
     // Validate reinvestment target
     if (this.inputs.saleConfig.reinvestProceeds && 
         !this.inputs.saleConfig.targetInvestmentId && 
@@ -1261,8 +1965,13 @@ export class Property implements BaseAsset {
     const loanAmount = purchasePrice - downPaymentAmount;
     const monthlyPayment = finalResult.monthlyPayment || this.calculatedPrincipalInterestPayment;
     const remainingBalance = finalResult.mortgageBalance || 0;
-    const totalPaid = monthlyPayment * 12 * loanTerm;
-    const totalInterest = totalPaid - loanAmount;
+    let totalPaid = monthlyPayment * 12 * loanTerm;
+    let totalInterest = totalPaid - loanAmount;
+    if (this.armTerms || this.hasPrepayments || this.inputs.refinances.length > 0) {
+      // ARM resets, prepayments and refinances change the payoff, so total the actual schedule
+      totalInterest = this.mortgageSchedule.reduce((sum, month) => sum + month.interest, 0);
+      totalPaid = this.mortgageSchedule.reduce((sum, month) => sum + month.principal + month.extraPrincipal + month.interest, 0);
+    }
     const paidOff = remainingBalance === 0;
     
     // Get current year's cash flow
@@ -1327,6 +2036,37 @@ export class Property implements BaseAsset {
       propertyManagementEnabled: data.inputs.propertyManagementEnabled ?? false,
       listingFeeRate: data.inputs.listingFeeRate || '100',
       monthlyManagementFeeRate: data.inputs.monthlyManagementFeeRate || '10',
+      // Depreciation backward compatibility
+      propertyClass: data.inputs.propertyClass || 'residential',
+      purchaseMonth: data.inputs.purchaseMonth || '1',
+      // Rental income tax backward compatibility
+      rentalIncomeTaxEnabled: data.inputs.rentalIncomeTaxEnabled ?? false,
+      marginalTaxRate: data.inputs.marginalTaxRate ?? '',
+      activeParticipation: data.inputs.activeParticipation ?? true,
+      // Ownership costs backward compatibility
+      propertyTaxRate: data.inputs.propertyTaxRate ?? '',
+      assessedValue: data.inputs.assessedValue ?? '',
+      assessedValueGrowthCap: data.inputs.assessedValueGrowthCap ?? '',
+      annualInsurance: data.inputs.annualInsurance ?? '',
+      insuranceInflationRate: data.inputs.insuranceInflationRate ?? '3',
+      monthlyHoa: data.inputs.monthlyHoa ?? '',
+      hoaEscalationRate: data.inputs.hoaEscalationRate ?? '3',
+      // Adjustable-rate mortgage backward compatibility
+      mortgageType: data.inputs.mortgageType || 'fixed',
+      armInitialFixedYears: data.inputs.armInitialFixedYears || '5',
+      armAdjustmentIntervalYears: data.inputs.armAdjustmentIntervalYears || '1',
+      armIndexRate: data.inputs.armIndexRate || '4.5',
+      armIndexRateChange: data.inputs.armIndexRateChange || '0',
+      armMargin: data.inputs.armMargin || '2.75',
+      armInitialAdjustmentCap: data.inputs.armInitialAdjustmentCap || '2',
+      armPeriodicAdjustmentCap: data.inputs.armPeriodicAdjustmentCap || '2',
+      armLifetimeCap: data.inputs.armLifetimeCap || '5',
+      // Mortgage prepayment backward compatibility
+      extraPrincipalAmount: data.inputs.extraPrincipalAmount || '',
+      extraPrincipalFrequency: data.inputs.extraPrincipalFrequency || 'monthly',
+      lumpSumPayments: (data.inputs.lumpSumPayments || []).map(payment => ({ ...payment })),
+      // Refinance events backward compatibility
+      refinances: (data.inputs.refinances || []).map(refinance => ({ ...refinance })),
       // Sale configuration backward compatibility
       saleConfig: {
         isPlannedForSale: false,
@@ -1356,6 +2096,10 @@ export class Property implements BaseAsset {
         enableDepreciationRecapture: false,
         totalDepreciationTaken: '',
         landValuePercentage: '20',
+        // Section 1031 Exchange defaults
+        is1031Exchange: false,
+        replacementPropertyId: null,
+        saleEvent: null,
         ...data.inputs.saleConfig
       } as PropertySaleConfig
     };
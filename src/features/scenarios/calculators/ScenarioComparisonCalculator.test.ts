@@ -0,0 +1,77 @@
+import type { CombinedResult } from '@/features/portfolio/stores/PortfolioStore';
+import { ScenarioComparisonCalculator, type ScenarioSeries } from './ScenarioComparisonCalculator';
+
+const createSeries = (id: string, rows: [number, number, number][]): ScenarioSeries => ({
+  id,
+  name: id,
+  startingYear: 2025,
+  results: rows.map(([totalBalance, totalPropertyEquity, totalTaxesPaid], year) => ({
+    year,
+    totalBalance,
+    totalPropertyEquity,
+    totalTaxesPaid
+  }) as CombinedResult)
+});
+
+describe('ScenarioComparisonCalculator', () => {
+  it('returns nothing without scenarios', () => {
+    expect(ScenarioComparisonCalculator.compare([])).toEqual({ years: [], summaries: [] });
+  });
+
+  it('aligns scenarios by year with deltas from the baseline', () => {
+    const comparison = ScenarioComparisonCalculator.compare([
+      createSeries('sell 2030', [[100, 50, 0], [120, 60, 10], [150, 0, 40]]),
+      createSeries('sell 2035', [[100, 50, 0], [125, 65, 5], [160, 70, 5]])
+    ]);
+
+    expect(comparison.years.map(year => year.actualYear)).toEqual([2025, 2026, 2027]);
+    expect(comparison.years[2].values[1]).toEqual({
+      totalBalance: 160,
+      totalPropertyEquity: 70,
+      taxesPaid: 5,
+      cumulativeTaxesPaid: 10
+    });
+    expect(comparison.years[2].deltas[1]).toEqual({
+      totalBalance: 10,
+      totalPropertyEquity: 70,
+      taxesPaid: -35,
+      cumulativeTaxesPaid: -40
+    });
+    expect(comparison.years[2].deltas[0]).toEqual({
+      totalBalance: 0,
+      totalPropertyEquity: 0,
+      taxesPaid: 0,
+      cumulativeTaxesPaid: 0
+    });
+  });
+
+  it('summarizes final net worth, equity and total taxes', () => {
+    const { summaries } = ScenarioComparisonCalculator.compare([
+      createSeries('base', [[100, 50, 0], [150, 0, 40]]),
+      createSeries('alt', [[100, 50, 0], [140, 70, 5]])
+    ]);
+
+    expect(summaries[1]).toEqual({
+      id: 'alt',
+      name: 'alt',
+      finalNetWorth: 140,
+      finalPropertyEquity: 70,
+      totalTaxesPaid: 5,
+      finalNetWorthDelta: -10,
+      finalPropertyEquityDelta: 70,
+      totalTaxesPaidDelta: -35
+    });
+  });
+
+  it('leaves gaps where a projection is shorter', () => {
+    const comparison = ScenarioComparisonCalculator.compare([
+      createSeries('short', [[100, 0, 0], [110, 0, 0]]),
+      createSeries('long', [[100, 0, 0], [110, 0, 0], [121, 0, 0]])
+    ]);
+
+    expect(comparison.years).toHaveLength(3);
+    expect(comparison.years[2].values[0]).toBeNull();
+    expect(comparison.years[2].deltas[1]).toBeNull();
+    expect(comparison.summaries[1].finalNetWorthDelta).toBe(11);
+  });
+});
@@ -0,0 +1,120 @@
+import type { CombinedResult } from '@/features/portfolio/stores/PortfolioStore';
+
+export interface ScenarioSeries {
+  id: string;
+  name: string;
+  startingYear: number;
+  results: CombinedResult[];
+}
+
+export interface ScenarioComparisonValues {
+  /** Net worth: investments, property equity and cash, less debts */
+  totalBalance: number;
+  totalPropertyEquity: number;
+  taxesPaid: number;
+  /** Taxes paid from the first projected year through this year */
+  cumulativeTaxesPaid: number;
+}
+
+export interface ScenarioComparisonYear {
+  /** Projection year (0 = starting balances) */
+  year: number;
+  /** Calendar year of the baseline scenario */
+  actualYear: number;
+  /** One entry per scenario, null when its projection is shorter */
+  values: (ScenarioComparisonValues | null)[];
+  /** Difference from the baseline, null when either scenario lacks the year */
+  deltas: (ScenarioComparisonValues | null)[];
+}
+
+export interface ScenarioComparisonSummary {
+  id: string;
+  name: string;
+  finalNetWorth: number;
+  finalPropertyEquity: number;
+  totalTaxesPaid: number;
+  /** Differences from the baseline's final values */
+  finalNetWorthDelta: number;
+  finalPropertyEquityDelta: number;
+  totalTaxesPaidDelta: number;
+}
+
+export interface ScenarioComparison {
+  years: ScenarioComparisonYear[];
+  summaries: ScenarioComparisonSummary[];
+}
+
+/**
+ * Scenario Comparison Calculator
+ *
+ * Lines up the combined results of several portfolios by projection year.
+ * The first scenario is the baseline; every other scenario is reported as
+ * a difference from it, so a positive delta means the scenario ends ahead.
+ */
+export class ScenarioComparisonCalculator {
+  static compare(series: ScenarioSeries[]): ScenarioComparison {
+    if (series.length === 0) return { years: [], summaries: [] };
+
+    const valuesByScenario = series.map(scenario => this.getValues(scenario.results));
+    const yearCount = Math.max(...valuesByScenario.map(values => values.length));
+    const baseline = valuesByScenario[0];
+
+    const years: ScenarioComparisonYear[] = [];
+    for (let year = 0; year < yearCount; year++) {
+      const values = valuesByScenario.map(scenarioValues => scenarioValues[year] ?? null);
+      years.push({
+        year,
+        actualYear: series[0].startingYear + year,
+        values,
+        deltas: values.map(value => value && baseline[year] ? this.subtract(value, baseline[year]) : null)
+      });
+    }
+
+    const finals = valuesByScenario.map(values => values[values.length - 1] ?? null);
+    const summaries = series.map((scenario, index) => {
+      const final = finals[index];
+      const finalNetWorth = final?.totalBalance ?? 0;
+      const finalPropertyEquity = final?.totalPropertyEquity ?? 0;
+      const totalTaxesPaid = final?.cumulativeTaxesPaid ?? 0;
+
+      return {
+        id: scenario.id,
+        name: scenario.name,
+        finalNetWorth,
+        finalPropertyEquity,
+        totalTaxesPaid,
+        finalNetWorthDelta: this.round(finalNetWorth - (finals[0]?.totalBalance ?? 0)),
+        finalPropertyEquityDelta: this.round(finalPropertyEquity - (finals[0]?.totalPropertyEquity ?? 0)),
+        totalTaxesPaidDelta: this.round(totalTaxesPaid - (finals[0]?.cumulativeTaxesPaid ?? 0))
+      };
+    });
+
+    return { years, summaries };
+  }
+
+  private static getValues(results: CombinedResult[]): ScenarioComparisonValues[] {
+    let cumulativeTaxesPaid = 0;
+    return results.map(result => {
+      cumulativeTaxesPaid += result.totalTaxesPaid;
+      return {
+        totalBalance: result.totalBalance,
+        totalPropertyEquity: result.totalPropertyEquity,
+        taxesPaid: result.totalTaxesPaid,
+        cumulativeTaxesPaid: this.round(cumulativeTaxesPaid)
+      };
+    });
+  }
+
+  private static subtract(value: ScenarioComparisonValues, baseline: ScenarioComparisonValues): ScenarioComparisonValues {
+    return {
+      totalBalance: this.round(value.totalBalance - baseline.totalBalance),
+      totalPropertyEquity: this.round(value.totalPropertyEquity - baseline.totalPropertyEquity),
+      taxesPaid: this.round(value.taxesPaid - baseline.taxesPaid),
+      cumulativeTaxesPaid: this.round(value.cumulativeTaxesPaid - baseline.cumulativeTaxesPaid)
+    };
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,103 @@
+import { observer } from 'mobx-react-lite';
+import React from 'react';
+import { themeStore } from '@/features/core/theme/ThemeStore';
+import type { ScenarioComparison, ScenarioComparisonValues } from '@/features/scenarios/calculators/ScenarioComparisonCalculator';
+
+// Line colors by scenario position (light, dark)
+const SCENARIO_COLORS: [string, string][] = [
+  ['rgb(59, 130, 246)', 'rgb(147, 197, 253)'],
+  ['rgb(234, 88, 12)', 'rgb(253, 186, 116)'],
+  ['rgb(22, 163, 74)', 'rgb(134, 239, 172)'],
+  ['rgb(147, 51, 234)', 'rgb(216, 180, 254)'],
+  ['rgb(219, 39, 119)', 'rgb(249, 168, 212)']
+];
+
+const formatAxisValue = (value: number) => {
+  const absValue = Math.abs(value);
+  const sign = value < 0 ? '-' : '';
+  if (absValue >= 1000000) return `${sign}$${(absValue / 1000000).toFixed(absValue >= 10000000 ? 0 : 1)}M`;
+  if (absValue >= 1000) return `${sign}$${(absValue / 1000).toFixed(absValue >= 10000 ? 0 : 1)}k`;
+  return `${sign}$${absValue.toFixed(0)}`;
+};
+
+interface ScenarioComparisonChartProps {
+  comparison: ScenarioComparison;
+  metric: keyof ScenarioComparisonValues;
+}
+
+export const ScenarioComparisonChart: React.FC<ScenarioComparisonChartProps> = observer(({ comparison, metric }) => {
+  const isDark = themeStore.theme === 'dark';
+  const { years, summaries } = comparison;
+  if (years.length < 2) return null;
+
+  const allValues = years.flatMap(year => year.values.map(value => value?.[metric] ?? 0));
+  const actualMin = Math.min(0, ...allValues);
+  const actualMax = Math.max(0, ...allValues);
+  const range = actualMax - actualMin || 1;
+
+  const chartHeight = 300;
+  const chartWidth = 600;
+  const padding = 50;
+
+  const xScale = (index: number) => padding + (index * (chartWidth - 2 * padding)) / (years.length - 1);
+  const yScale = (value: number) => chartHeight - padding - ((value - actualMin) / range * (chartHeight - 2 * padding));
+
+  // Each line stops where its projection ends
+  const linePath = (scenarioIndex: number) => years
+    .filter(year => year.values[scenarioIndex] !== null)
+    .map((year, i) => `${i === 0 ? 'M' : 'L'} ${xScale(year.year)} ${yScale(year.values[scenarioIndex]![metric])}`)
+    .join(' ');
+
+  const colorOf = (index: number) => SCENARIO_COLORS[index % SCENARIO_COLORS.length][isDark ? 1 : 0];
+
+  return (
+    <div className="relative overflow-x-auto">
+      <svg viewBox={`0 0 ${chartWidth} ${chartHeight}`} className="w-full max-w-2xl">
+        {[0, 0.25, 0.5, 0.75, 1].map((tick) => {
+          const y = padding + tick * (chartHeight - 2 * padding);
+          return (
+            <g key={tick}>
+              <line x1={padding} y1={y} x2={chartWidth - padding} y2={y} stroke={isDark ? '#374151' : '#e5e7eb'} strokeWidth="1" />
+              <text x={padding - 5} y={y + 5} textAnchor="end" className="text-xs fill-gray-600 dark:fill-gray-400">
+                {formatAxisValue(actualMax - tick * range)}
+              </text>
+            </g>
+          );
+        })}
+
+        {years.map((year, i) => {
+          if (i % Math.ceil(years.length / 10) === 0 || i === years.length - 1) {
+            return (
+              <text key={i} x={xScale(i)} y={chartHeight - padding + 20} textAnchor="middle" className="text-xs fill-gray-600 dark:fill-gray-400">
+                {year.actualYear}
+              </text>
+            );
+          }
+          return null;
+        })}
+
+        {summaries.map((summary, index) => (
+          <path
+            key={summary.id}
+            d={linePath(index)}
+            fill="none"
+            stroke={colorOf(index)}
+            strokeWidth={index === 0 ? 3 : 2}
+            strokeDasharray={index === 0 ? undefined : '6,4'}
+          >
+            <title>{summary.name}</title>
+          </path>
+        ))}
+      </svg>
+
+      <div className="flex flex-wrap gap-4 mt-2 text-sm text-gray-700 dark:text-gray-300">
+        {summaries.map((summary, index) => (
+          <div key={summary.id} className="flex items-center gap-2">
+            <span className="inline-block w-4 h-1 rounded" style={{ backgroundColor: colorOf(index) }} />
+            {summary.name}{index === 0 ? ' (baseline)' : ''}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,159 @@
+import { observer } from 'mobx-react-lite';
+import React, { useState } from 'react';
+import { useScenarioStore } from '@/features/core/stores/hooks';
+import type { ScenarioComparisonValues } from '@/features/scenarios/calculators/ScenarioComparisonCalculator';
+import { CollapsibleSection } from '@/features/shared/components/CollapsibleSection';
+import { CurrencyDisplay } from '@/features/shared/components/CurrencyDisplay';
+import { ValidatedSelectInput } from '@/features/shared/components/forms';
+import { formatCurrency } from '@/features/shared/utils/formatCurrency';
+import { ScenarioComparisonChart } from './ScenarioComparisonChart';
+
+const METRIC_LABELS: Record<keyof ScenarioComparisonValues, string> = {
+  totalBalance: 'Net Worth',
+  totalPropertyEquity: 'Property Equity',
+  taxesPaid: 'Taxes Paid',
+  cumulativeTaxesPaid: 'Cumulative Taxes Paid'
+};
+
+const METRIC_OPTIONS = (Object.keys(METRIC_LABELS) as (keyof ScenarioComparisonValues)[]).map(metric => ({
+  value: metric,
+  label: METRIC_LABELS[metric]
+}));
+
+// Paying more tax than the baseline is shown as a loss
+const deltaClass = (delta: number, lowerIsBetter = false) => {
+  if (delta === 0) return 'text-gray-500 dark:text-gray-400';
+  return (delta > 0) !== lowerIsBetter ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400';
+};
+
+const Delta: React.FC<{ value: number; lowerIsBetter?: boolean }> = ({ value, lowerIsBetter }) => (
+  <span className={`block text-xs ${deltaClass(value, lowerIsBetter)}`}>
+    {formatCurrency(value, { showPositiveSign: true })}
+  </span>
+);
+
+export const ScenarioComparisonView: React.FC = observer(() => {
+  const scenarioStore = useScenarioStore();
+  const [metric, setMetric] = useState<keyof ScenarioComparisonValues>('totalBalance');
+  const { comparison } = scenarioStore;
+
+  if (scenarioStore.scenarios.length < 2) {
+    return null;
+  }
+
+  const lowerIsBetter = metric === 'taxesPaid' || metric === 'cumulativeTaxesPaid';
+
+  const icon = (
+    <svg className="w-6 h-6 text-primary-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+    </svg>
+  );
+
+  return (
+    <CollapsibleSection title="Compare Scenarios" icon={icon} defaultExpanded={false}>
+      <div className="space-y-6">
+        <div>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+            Pick two or more scenarios. The first one picked is the baseline; the others show their difference from it.
+            Other scenarios are compared as last saved.
+          </p>
+          <div className="flex flex-wrap gap-4">
+            {scenarioStore.scenarios.map(scenario => {
+              const position = scenarioStore.comparedScenarioIds.indexOf(scenario.id);
+              return (
+                <label key={scenario.id} className="flex items-center gap-2 text-sm text-gray-900 dark:text-white">
+                  <input
+                    type="checkbox"
+                    checked={position >= 0}
+                    onChange={() => scenarioStore.toggleCompared(scenario.id)}
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  {scenario.name}
+                  {position === 0 && <span className="text-xs text-gray-500 dark:text-gray-400">(baseline)</span>}
+                </label>
+              );
+            })}
+          </div>
+        </div>
+
+        {comparison && (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 dark:text-gray-400">
+                    <th className="py-2 pr-4 font-semibold">Scenario</th>
+                    <th className="py-2 pr-4 font-semibold text-right">Final Net Worth</th>
+                    <th className="py-2 pr-4 font-semibold text-right">Final Property Equity</th>
+                    <th className="py-2 font-semibold text-right">Total Taxes Paid</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-900 dark:text-white">
+                  {comparison.summaries.map((summary, index) => (
+                    <tr key={summary.id} className="border-t border-gray-200 dark:border-gray-700 align-top">
+                      <td className="py-2 pr-4">{summary.name}</td>
+                      <td className="py-2 pr-4 text-right">
+                        <CurrencyDisplay amount={summary.finalNetWorth} />
+                        {index > 0 && <Delta value={summary.finalNetWorthDelta} />}
+                      </td>
+                      <td className="py-2 pr-4 text-right">
+                        <CurrencyDisplay amount={summary.finalPropertyEquity} />
+                        {index > 0 && <Delta value={summary.finalPropertyEquityDelta} />}
+                      </td>
+                      <td className="py-2 text-right">
+                        <CurrencyDisplay amount={summary.totalTaxesPaid} />
+                        {index > 0 && <Delta value={summary.totalTaxesPaidDelta} lowerIsBetter={true} />}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="max-w-xs">
+              <ValidatedSelectInput
+                label="Chart"
+                value={metric}
+                onChange={(value) => setMetric(value as keyof ScenarioComparisonValues)}
+                options={METRIC_OPTIONS}
+                fieldName="scenarioComparisonMetric"
+              />
+            </div>
+
+            <ScenarioComparisonChart comparison={comparison} metric={metric} />
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 dark:text-gray-400">
+                    <th className="py-2 pr-4 font-semibold">Year</th>
+                    {comparison.summaries.map((summary, index) => (
+                      <th key={summary.id} className="py-2 pr-4 font-semibold text-right">
+                        {summary.name}{index > 0 ? ' (vs baseline)' : ''}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="text-gray-900 dark:text-white">
+                  {comparison.years.map(year => (
+                    <tr key={year.year} className="border-t border-gray-200 dark:border-gray-700 align-top">
+                      <td className="py-2 pr-4">{year.actualYear}</td>
+                      {year.values.map((value, index) => (
+                        <td key={index} className="py-2 pr-4 text-right">
+                          {value ? <CurrencyDisplay amount={value[metric]} /> : '—'}
+                          {index > 0 && year.deltas[index] && (
+                            <Delta value={year.deltas[index]![metric]} lowerIsBetter={lowerIsBetter} />
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </CollapsibleSection>
+  );
+});
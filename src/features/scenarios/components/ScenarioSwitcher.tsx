@@ -0,0 +1,90 @@
+import { observer } from 'mobx-react-lite';
+import React from 'react';
+import { usePortfolioStore, useScenarioStore } from '@/features/core/stores/hooks';
+
+export const ScenarioSwitcher: React.FC = observer(() => {
+  const scenarioStore = useScenarioStore();
+  const portfolioStore = usePortfolioStore();
+  const { activeScenario } = scenarioStore;
+
+  // Switching, creating and duplicating replace the portfolio on screen
+  const confirmDiscardChanges = () => {
+    return !portfolioStore.hasUnsavedChanges ||
+      window.confirm(`"${activeScenario.name}" has unsaved changes that will be lost. Continue?`);
+  };
+
+  const handleSwitch = (id: string) => {
+    if (confirmDiscardChanges()) {
+      scenarioStore.switchScenario(id);
+    }
+  };
+
+  const handleCreate = () => {
+    if (!confirmDiscardChanges()) return;
+    const name = window.prompt('Name the new scenario', `Scenario ${scenarioStore.scenarios.length + 1}`);
+    if (name !== null) {
+      scenarioStore.createScenario(name);
+    }
+  };
+
+  const handleRename = () => {
+    const name = window.prompt('Rename scenario', activeScenario.name);
+    if (name !== null) {
+      scenarioStore.renameScenario(activeScenario.id, name);
+    }
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete the scenario "${activeScenario.name}"? Its saved portfolio will be removed.`)) {
+      scenarioStore.deleteScenario(activeScenario.id);
+    }
+  };
+
+  const buttonClass = 'p-1.5 rounded-lg text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="flex items-center gap-1">
+      <select
+        value={scenarioStore.activeScenarioId}
+        onChange={(e) => handleSwitch(e.target.value)}
+        className="max-w-32 sm:max-w-48 truncate text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white px-2 py-1 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+        aria-label="Scenario"
+      >
+        {scenarioStore.scenarios.map(scenario => (
+          <option key={scenario.id} value={scenario.id}>{scenario.name}</option>
+        ))}
+      </select>
+      <button onClick={handleCreate} className={buttonClass} title="New scenario" aria-label="New scenario">
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+        </svg>
+      </button>
+      <button
+        onClick={() => scenarioStore.duplicateScenario()}
+        className={`hidden sm:block ${buttonClass}`}
+        title="Duplicate scenario"
+        aria-label="Duplicate scenario"
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+        </svg>
+      </button>
+      <button onClick={handleRename} className={`hidden sm:block ${buttonClass}`} title="Rename scenario" aria-label="Rename scenario">
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+        </svg>
+      </button>
+      <button
+        onClick={handleDelete}
+        disabled={!scenarioStore.canDelete}
+        className={`hidden sm:block ${buttonClass}`}
+        title={scenarioStore.canDelete ? 'Delete scenario' : 'The only scenario cannot be deleted'}
+        aria-label="Delete scenario"
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+        </svg>
+      </button>
+    </div>
+  );
+});
@@ -0,0 +1,260 @@
+import { RootStore } from '@/features/core/stores/RootStore';
+import { FirestoreService } from '@/services/firestore';
+import { createSimpleMockAuth } from '@/test-utils/mockAuthFactory';
+import { Investment } from '@/features/investment/stores/Investment';
+import { Property } from '@/features/property/stores/Property';
+import { DEFAULT_SCENARIO_ID, ScenarioStore, type ScenarioIndex } from './ScenarioStore';
+
+describe('ScenarioStore', () => {
+  let rootStore: RootStore;
+  let scenarioStore: ScenarioStore;
+
+  const assetNames = () => rootStore.portfolioStore.assetsList.map(asset => asset.name);
+
+  beforeEach(() => {
+    localStorage.clear();
+    rootStore = new RootStore();
+    scenarioStore = rootStore.scenarioStore;
+    rootStore.portfolioStore.assets.clear();
+    rootStore.portfolioStore.addInvestment('Brokerage');
+    rootStore.portfolioStore.saveToLocalStorage();
+  });
+
+  it('starts with the default scenario stored under the original key', () => {
+    expect(scenarioStore.scenarios).toHaveLength(1);
+    expect(scenarioStore.activeScenarioId).toBe(DEFAULT_SCENARIO_ID);
+    expect(scenarioStore.canDelete).toBe(false);
+    expect(JSON.parse(localStorage.getItem('portfolioData')!).assets[0].name).toBe('Brokerage');
+  });
+
+  it('creates a scenario from the default portfolio and switches to it', async () => {
+    const id = await scenarioStore.createScenario('Stay renting');
+
+    expect(scenarioStore.activeScenario).toMatchObject({ id, name: 'Stay renting' });
+    expect(assetNames()).not.toContain('Brokerage');
+    expect(rootStore.portfolioStore.hasUnsavedChanges).toBe(false);
+    expect(localStorage.getItem(`portfolioData:${id}`)).not.toBeNull();
+  });
+
+  it('duplicates the active scenario including unsaved edits', async () => {
+    rootStore.portfolioStore.addInvestment('Roth IRA');
+    const id = await scenarioStore.duplicateScenario();
+
+    expect(scenarioStore.activeScenario.name).toBe('My Plan (copy)');
+    expect(scenarioStore.activeScenarioId).toBe(id);
+    expect(assetNames()).toEqual(['Brokerage', 'Roth IRA']);
+    expect(rootStore.portfolioStore.hasUnsavedChanges).toBe(false);
+  });
+
+  it('keeps each scenario portfolio separate when switching', async () => {
+    const id = await scenarioStore.duplicateScenario();
+    rootStore.portfolioStore.addInvestment('House fund');
+    await rootStore.portfolioStore.save();
+
+    await scenarioStore.switchScenario(DEFAULT_SCENARIO_ID);
+    expect(assetNames()).toEqual(['Brokerage']);
+
+    await scenarioStore.switchScenario(id!);
+    expect(assetNames()).toEqual(['Brokerage', 'House fund']);
+  });
+
+  it('discards unsaved edits when switching away', async () => {
+    const id = await scenarioStore.duplicateScenario();
+    await scenarioStore.switchScenario(DEFAULT_SCENARIO_ID);
+    rootStore.portfolioStore.addInvestment('Unsaved');
+
+    await scenarioStore.switchScenario(id!);
+    await scenarioStore.switchScenario(DEFAULT_SCENARIO_ID);
+    expect(assetNames()).toEqual(['Brokerage']);
+  });
+
+  it('renames scenarios and ignores blank names', () => {
+    scenarioStore.renameScenario(DEFAULT_SCENARIO_ID, '  Buy in 2027 ');
+    expect(scenarioStore.activeScenario.name).toBe('Buy in 2027');
+
+    scenarioStore.renameScenario(DEFAULT_SCENARIO_ID, '   ');
+    expect(scenarioStore.activeScenario.name).toBe('Buy in 2027');
+  });
+
+  it('deletes a scenario and its data, switching away when it is active', async () => {
+    const id = await scenarioStore.duplicateScenario();
+    await scenarioStore.deleteScenario(id!);
+
+    expect(scenarioStore.scenarios.map(scenario => scenario.id)).toEqual([DEFAULT_SCENARIO_ID]);
+    expect(scenarioStore.activeScenarioId).toBe(DEFAULT_SCENARIO_ID);
+    expect(localStorage.getItem(`portfolioData:${id}`)).toBeNull();
+    expect(assetNames()).toEqual(['Brokerage']);
+  });
+
+  it('does not delete the last scenario', async () => {
+    await scenarioStore.deleteScenario(DEFAULT_SCENARIO_ID);
+    expect(scenarioStore.scenarios).toHaveLength(1);
+    expect(localStorage.getItem('portfolioData')).not.toBeNull();
+  });
+
+  it('restores the scenario list and active scenario on reload', async () => {
+    const id = await scenarioStore.createScenario('Early retirement');
+    rootStore.portfolioStore.assets.clear();
+    rootStore.portfolioStore.addInvestment('Taxable');
+    rootStore.portfolioStore.saveToLocalStorage();
+
+    const reloaded = new RootStore();
+    expect(reloaded.scenarioStore.scenarios.map(scenario => scenario.name)).toEqual(['My Plan', 'Early retirement']);
+    expect(reloaded.scenarioStore.activeScenarioId).toBe(id);
+    expect(reloaded.portfolioStore.assetsList.map(asset => asset.name)).toEqual(['Taxable']);
+  });
+
+  it('repairs damaged scenario lists', () => {
+    localStorage.setItem('portfolioScenarios', JSON.stringify({
+      scenarios: [{ name: 'No id' }, { id: 'a', name: '' }],
+      activeScenarioId: 'missing'
+    }));
+
+    const reloaded = new RootStore().scenarioStore;
+    expect(reloaded.scenarios).toEqual([{ id: 'a', name: 'Untitled', createdAt: '' }]);
+    expect(reloaded.activeScenarioId).toBe('a');
+  });
+
+  describe('comparison', () => {
+    const setSaleYear = (saleYear: number) => {
+      const property = rootStore.portfolioStore.properties.find(asset => asset.name === 'Rental') as Property;
+      property.updateSaleConfig('saleYear', saleYear);
+    };
+
+    beforeEach(() => {
+      rootStore.portfolioStore.setYears('10');
+      const id = rootStore.portfolioStore.addProperty('Rental', { purchasePrice: '500000', propertyGrowthRate: '5' });
+      const property = rootStore.portfolioStore.assets.get(id) as Property;
+      property.updateSaleConfig('isPlannedForSale', true);
+      setSaleYear(3);
+      rootStore.portfolioStore.saveToLocalStorage();
+    });
+
+    it('needs at least two scenarios', async () => {
+      await scenarioStore.toggleCompared(DEFAULT_SCENARIO_ID);
+      expect(scenarioStore.comparison).toBeNull();
+    });
+
+    it('compares the live active scenario with another saved scenario', async () => {
+      const id = await scenarioStore.duplicateScenario();
+      scenarioStore.renameScenario(id!, 'Sell later');
+      setSaleYear(8);
+      await rootStore.portfolioStore.save();
+
+      await scenarioStore.toggleCompared(DEFAULT_SCENARIO_ID);
+      await scenarioStore.toggleCompared(id!);
+
+      const comparison = scenarioStore.comparison!;
+      expect(comparison.summaries.map(summary => summary.name)).toEqual(['My Plan', 'Sell later']);
+      expect(comparison.years).toHaveLength(11);
+
+      // The earlier sale pays its taxes in year 3, the later one in year 8
+      const taxesIn = (year: number) => comparison.years[year].values.map(value => value!.taxesPaid);
+      expect(taxesIn(3)[0]).toBeGreaterThan(0);
+      expect(taxesIn(3)[1]).toBe(0);
+      expect(taxesIn(8)[1]).toBeGreaterThan(0);
+      expect(comparison.years[5].deltas[1]!.totalPropertyEquity).toBeGreaterThan(0);
+
+      // Edits to the active scenario show up without saving
+      setSaleYear(9);
+      expect(scenarioStore.comparison!.years[8].values[1]!.taxesPaid).toBe(0);
+    });
+
+    it('drops deleted scenarios from the comparison', async () => {
+      const id = await scenarioStore.duplicateScenario();
+      await scenarioStore.toggleCompared(DEFAULT_SCENARIO_ID);
+      await scenarioStore.toggleCompared(id!);
+      expect(scenarioStore.comparison).not.toBeNull();
+
+      await scenarioStore.deleteScenario(id!);
+      expect(scenarioStore.comparedScenarioIds).toEqual([DEFAULT_SCENARIO_ID]);
+      expect(scenarioStore.comparison).toBeNull();
+    });
+  });
+
+  describe('cloud', () => {
+    let mockAuth: ReturnType<typeof createSimpleMockAuth>;
+    let cloudPortfolios: Map<string, unknown>;
+    let cloudIndex: ScenarioIndex | null;
+
+    beforeEach(() => {
+      // Keep cloud documents in memory, keyed by scenario ('default' for the original document)
+      cloudPortfolios = new Map();
+      cloudIndex = null;
+      jest.spyOn(FirestoreService, 'savePortfolio').mockImplementation(async (_uid, data, scenarioId) => {
+        cloudPortfolios.set(scenarioId ?? 'default', data);
+      });
+      jest.spyOn(FirestoreService, 'loadPortfolio').mockImplementation(async (_uid, scenarioId) => {
+        return cloudPortfolios.get(scenarioId ?? 'default') ?? null;
+      });
+      jest.spyOn(FirestoreService, 'deletePortfolio').mockImplementation(async (_uid, scenarioId) => {
+        cloudPortfolios.delete(scenarioId ?? 'default');
+      });
+      jest.spyOn(FirestoreService, 'saveScenarioIndex').mockImplementation(async (_uid, index) => {
+        cloudIndex = index as ScenarioIndex;
+      });
+      jest.spyOn(FirestoreService, 'loadScenarioIndex').mockImplementation(async () => cloudIndex);
+
+      mockAuth = createSimpleMockAuth();
+      rootStore = new RootStore(mockAuth);
+      scenarioStore = rootStore.scenarioStore;
+      mockAuth.setCurrentUser({ uid: 'user-1', email: 'test@example.com', displayName: 'Test User' });
+    });
+
+    afterEach(() => {
+      mockAuth.reset();
+      jest.restoreAllMocks();
+    });
+
+    it('saves each scenario to its own document and the list alongside', async () => {
+      const id = await scenarioStore.createScenario('Stay renting');
+      await scenarioStore.switchScenario(DEFAULT_SCENARIO_ID);
+      await rootStore.portfolioStore.save();
+
+      expect(cloudPortfolios.has(id)).toBe(true);
+      expect(cloudPortfolios.has('default')).toBe(true);
+      expect(cloudIndex).toMatchObject({
+        activeScenarioId: DEFAULT_SCENARIO_ID,
+        scenarios: [{ id: DEFAULT_SCENARIO_ID }, { id, name: 'Stay renting' }]
+      });
+    });
+
+    it('loads the cloud scenario list and removes deleted scenarios from the cloud', async () => {
+      cloudIndex = {
+        scenarios: [{ id: DEFAULT_SCENARIO_ID, name: 'My Plan', createdAt: '' }, { id: 'rent', name: 'Stay renting', createdAt: '' }],
+        activeScenarioId: 'rent'
+      };
+      cloudPortfolios.set('rent', { assets: [new Investment('Rent savings').toJSON()] });
+
+      await scenarioStore.loadFromCloud();
+      await rootStore.portfolioStore.loadFromStorage();
+      expect(scenarioStore.activeScenario.name).toBe('Stay renting');
+      expect(assetNames()).toEqual(['Rent savings']);
+
+      await scenarioStore.deleteScenario('rent');
+      expect(cloudPortfolios.has('rent')).toBe(false);
+      expect(cloudIndex?.scenarios.map(scenario => scenario.id)).toEqual([DEFAULT_SCENARIO_ID]);
+    });
+
+    it('writes a duplicate made while a save is still running', async () => {
+      rootStore.portfolioStore.addInvestment('Savings');
+      let finishSave = () => {};
+      jest.mocked(FirestoreService.savePortfolio).mockImplementationOnce(async (_uid, data, scenarioId) => {
+        await new Promise<void>(resolve => { finishSave = resolve; });
+        cloudPortfolios.set(scenarioId ?? 'default', data);
+      });
+
+      const save = rootStore.portfolioStore.save();
+      const duplicate = scenarioStore.duplicateScenario();
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(rootStore.storageStore.isSaving).toBe(true);
+      finishSave();
+      const [, id] = await Promise.all([save, duplicate]);
+
+      expect(scenarioStore.activeScenarioId).toBe(id);
+      expect(cloudPortfolios.has(id!)).toBe(true);
+      expect(localStorage.getItem(`portfolioData:${id}`)).not.toBeNull();
+      expect(assetNames()).toContain('Savings');
+    });
+  });
+});
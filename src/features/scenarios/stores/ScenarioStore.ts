@@ -0,0 +1,249 @@
+import { makeAutoObservable, computed, runInAction } from 'mobx';
+import { v4 as uuidv4 } from 'uuid';
+import { FirestoreService } from '@/services/firestore';
+import { PortfolioStore } from '@/features/portfolio/stores/PortfolioStore';
+import { ScenarioComparisonCalculator, type ScenarioComparison } from '@/features/scenarios/calculators/ScenarioComparisonCalculator';
+import type { RootStore } from '@/features/core/stores/RootStore';
+
+export interface Scenario {
+  id: string;
+  name: string;
+  createdAt: string;  // ISO timestamp
+}
+
+export interface ScenarioIndex {
+  scenarios: Scenario[];
+  activeScenarioId: string;
+}
+
+// Scenario whose portfolio lives under the original storage key and cloud document
+export const DEFAULT_SCENARIO_ID = 'default';
+
+// Storage key of the per-scenario portfolio data
+export const SCENARIO_DATA_KEY = 'portfolioData';
+
+const SCENARIO_INDEX_KEY = 'portfolioScenarios';
+
+const createDefaultIndex = (): ScenarioIndex => ({
+  scenarios: [{ id: DEFAULT_SCENARIO_ID, name: 'My Plan', createdAt: new Date().toISOString() }],
+  activeScenarioId: DEFAULT_SCENARIO_ID
+});
+
+/**
+ * Named portfolio scenarios ("buy in 2027", "stay renting"). Each scenario
+ * keeps its own portfolio in storage; the active one is what PortfolioStore
+ * edits and what StorageStore saves and loads.
+ */
+export class ScenarioStore {
+  scenarios: Scenario[] = [];
+  activeScenarioId: string = DEFAULT_SCENARIO_ID;
+
+  // Scenarios shown in the comparison view, in order; the first is the baseline
+  comparedScenarioIds: string[] = [];
+
+  // Saved portfolios of compared scenarios other than the active one
+  private comparedPortfolios: Map<string, PortfolioStore> = new Map();
+
+  private rootStore: RootStore;
+
+  constructor(rootStore: RootStore) {
+    this.rootStore = rootStore;
+    this.applyIndex(this.loadLocalIndex());
+    makeAutoObservable(this, {
+      activeScenario: computed,
+      canDelete: computed,
+      comparison: computed
+    });
+  }
+
+  get activeScenario(): Scenario {
+    return this.scenarios.find(scenario => scenario.id === this.activeScenarioId) ?? this.scenarios[0];
+  }
+
+  get canDelete(): boolean {
+    return this.scenarios.length > 1;
+  }
+
+  getScenario = (id: string): Scenario | undefined => {
+    return this.scenarios.find(scenario => scenario.id === id);
+  }
+
+  // Start a new scenario from the default portfolio and switch to it
+  createScenario = async (name?: string): Promise<string> => {
+    const id = this.addScenario(name?.trim() || `Scenario ${this.scenarios.length + 1}`);
+    await this.switchScenario(id);
+    await this.rootStore.portfolioStore.save();
+    return id;
+  }
+
+  // Copy a scenario, including unsaved edits when it is the active one, and switch to the copy
+  duplicateScenario = async (id: string = this.activeScenarioId): Promise<string | null> => {
+    const source = this.getScenario(id);
+    if (!source) return null;
+
+    const { storageStore, portfolioStore } = this.rootStore;
+    const data = id === this.activeScenarioId
+      ? portfolioStore.getPortfolioSnapshot()
+      : await storageStore.load(SCENARIO_DATA_KEY, id);
+
+    const copyId = this.addScenario(`${source.name} (copy)`);
+    if (data) {
+      await storageStore.saveWhenIdle(SCENARIO_DATA_KEY, data, copyId);
+    }
+    await this.switchScenario(copyId);
+    return copyId;
+  }
+
+  renameScenario = (id: string, name: string) => {
+    const scenario = this.getScenario(id);
+    const trimmed = name.trim();
+    if (!scenario || !trimmed) return;
+
+    scenario.name = trimmed;
+    this.persistIndex();
+  }
+
+  // Delete a scenario and its data; the last remaining scenario cannot be deleted
+  deleteScenario = async (id: string) => {
+    if (!this.canDelete || !this.getScenario(id)) return;
+
+    if (id === this.activeScenarioId) {
+      const next = this.scenarios.find(scenario => scenario.id !== id)!;
+      await this.switchScenario(next.id);
+    }
+
+    runInAction(() => {
+      this.scenarios = this.scenarios.filter(scenario => scenario.id !== id);
+      this.comparedScenarioIds = this.comparedScenarioIds.filter(comparedId => comparedId !== id);
+      this.comparedPortfolios.delete(id);
+    });
+    this.persistIndex();
+    await this.rootStore.storageStore.deleteScenario(id);
+  }
+
+  // Make another scenario active and load its portfolio. Unsaved edits to the current one are discarded.
+  switchScenario = async (id: string) => {
+    if (id === this.activeScenarioId || !this.getScenario(id)) return;
+
+    this.activeScenarioId = id;
+    this.persistIndex();
+
+    const data = await this.rootStore.storageStore.load(SCENARIO_DATA_KEY, id);
+    this.rootStore.portfolioStore.replacePortfolioData(data);
+    await this.loadComparedPortfolios();
+  }
+
+  // Add or remove a scenario from the comparison
+  toggleCompared = async (id: string) => {
+    if (this.comparedScenarioIds.includes(id)) {
+      this.comparedScenarioIds = this.comparedScenarioIds.filter(comparedId => comparedId !== id);
+      return;
+    }
+    if (!this.getScenario(id)) return;
+
+    this.comparedScenarioIds.push(id);
+    await this.loadComparedPortfolios();
+  }
+
+  // Load the saved portfolio of every compared scenario; the active one uses the live portfolio
+  loadComparedPortfolios = async () => {
+    const portfolios = new Map<string, PortfolioStore>();
+    for (const id of this.comparedScenarioIds) {
+      if (id === this.activeScenarioId) continue;
+      const data = await this.rootStore.storageStore.load(SCENARIO_DATA_KEY, id);
+      portfolios.set(id, new PortfolioStore(this.rootStore, data ?? null));
+    }
+
+    runInAction(() => {
+      this.comparedPortfolios = portfolios;
+    });
+  }
+
+  // Compared scenarios lined up by year, null until at least two are loaded
+  get comparison(): ScenarioComparison | null {
+    const series = this.comparedScenarioIds.flatMap(id => {
+      const scenario = this.getScenario(id);
+      const portfolio = id === this.activeScenarioId ? this.rootStore.portfolioStore : this.comparedPortfolios.get(id);
+      if (!scenario || !portfolio) return [];
+
+      return [{
+        id,
+        name: scenario.name,
+        startingYear: parseInt(portfolio.startingYear) || new Date().getFullYear(),
+        results: portfolio.combinedResults
+      }];
+    });
+
+    return series.length >= 2 ? ScenarioComparisonCalculator.compare(series) : null;
+  }
+
+  // Replace the local scenario list with the signed-in user's cloud copy, when there is one
+  loadFromCloud = async () => {
+    const { authStore } = this.rootStore;
+    if (!authStore.isSignedIn || !authStore.user) return;
+
+    try {
+      const cloudIndex = await FirestoreService.loadScenarioIndex(authStore.user.uid);
+      if (cloudIndex) {
+        this.applyIndex(cloudIndex);
+        localStorage.setItem(SCENARIO_INDEX_KEY, JSON.stringify(this.index));
+      }
+    } catch (error) {
+      console.warn('Cloud scenario list load failed, using local scenarios:', error);
+    }
+  }
+
+  private get index(): ScenarioIndex {
+    return {
+      scenarios: this.scenarios.map(scenario => ({ ...scenario })),
+      activeScenarioId: this.activeScenarioId
+    };
+  }
+
+  private addScenario = (name: string): string => {
+    const id = uuidv4();
+    this.scenarios.push({ id, name, createdAt: new Date().toISOString() });
+    this.persistIndex();
+    return id;
+  }
+
+  // Save the scenario list locally, and to the cloud when signed in
+  private persistIndex = () => {
+    const index = this.index;
+    localStorage.setItem(SCENARIO_INDEX_KEY, JSON.stringify(index));
+
+    const { authStore } = this.rootStore;
+    if (authStore.isSignedIn && authStore.user) {
+      FirestoreService.saveScenarioIndex(authStore.user.uid, index).catch(error => {
+        console.warn('Cloud scenario list save failed, saved locally only:', error);
+      });
+    }
+  }
+
+  private loadLocalIndex(): Partial<ScenarioIndex> | null {
+    try {
+      const stored = localStorage.getItem(SCENARIO_INDEX_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.warn('Failed to load scenario list, starting with the default scenario:', error);
+      return null;
+    }
+  }
+
+  // Accept stored lists from older or damaged saves: keep valid entries and an existing active scenario
+  private applyIndex = (data: Partial<ScenarioIndex> | null) => {
+    const scenarios = (Array.isArray(data?.scenarios) ? data.scenarios : [])
+      .filter(scenario => typeof scenario?.id === 'string' && scenario.id !== '')
+      .map(scenario => ({
+        id: scenario.id,
+        name: scenario.name || 'Untitled',
+        createdAt: scenario.createdAt || ''
+      }));
+    const index = scenarios.length > 0 ? { scenarios, activeScenarioId: data?.activeScenarioId } : createDefaultIndex();
+
+    this.scenarios = index.scenarios;
+    this.activeScenarioId = index.scenarios.some(scenario => scenario.id === index.activeScenarioId)
+      ? index.activeScenarioId!
+      : index.scenarios[0].id;
+  }
+}
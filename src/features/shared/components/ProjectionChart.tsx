@@ -3,6 +3,15 @@ import React from 'react';
 import { themeStore } from '@/features/core/theme/ThemeStore';
 import { CollapsibleSection } from './CollapsibleSection';
 
+interface ChartPercentileBand {
+  p10: number;
+  p50: number;
+  p90: number;
+  realP10: number;
+  realP50: number;
+  realP90: number;
+}
+
 interface ChartData {
   year: number;
   actualYear?: number;
@@ -12,29 +21,43 @@ interface ChartData {
   realAnnualContribution: number;
   yearlyGain: number;
   realYearlyGain: number;
+  monteCarlo?: ChartPercentileBand; // When present, bands replace the single balance path
 }
 
 interface ProjectionChartProps {
   data: ChartData[];
   showNominal?: boolean;
   showReal?: boolean;
+  getAgeLabel?: (actualYear: number) => string; // Household ages shown under each year, e.g. "45 / 43"
 }
 
-export const ProjectionChart: React.FC<ProjectionChartProps> = observer(({ data, showNominal = true, showReal = true }) => {
+export const ProjectionChart: React.FC<ProjectionChartProps> = observer(({ data, showNominal = true, showReal = true, getAgeLabel }) => {
   const isDark = themeStore.theme === 'dark';
   if (data.length === 0) return null;
 
+  const hasBands = data.every(d => d.monteCarlo);
+
+  // With Monte Carlo bands the median is drawn as the main line
+  const nominalValue = (d: ChartData) => hasBands ? d.monteCarlo!.p50 : d.balance;
+  const realValue = (d: ChartData) => hasBands ? d.monteCarlo!.realP50 : d.realBalance;
+
+  const ageLabel = (d: ChartData) => d.actualYear && getAgeLabel ? getAgeLabel(d.actualYear) : '';
+  const yearLabel = (d: ChartData) => {
+    const age = ageLabel(d);
+    return age ? `${d.actualYear} (age ${age})` : `${d.actualYear || d.year}`;
+  };
+
   const maxBalance = Math.max(...data.map(d => {
     const values = [];
-    if (showNominal) values.push(d.balance);
-    if (showReal) values.push(d.realBalance);
+    if (showNominal) values.push(nominalValue(d), hasBands ? d.monteCarlo!.p90 : d.balance);
+    if (showReal) values.push(realValue(d), hasBands ? d.monteCarlo!.realP90 : d.realBalance);
     return Math.max(...values);
   }));
   
   const minBalance = Math.min(...data.map(d => {
     const values = [];
-    if (showNominal) values.push(d.balance);
-    if (showReal) values.push(d.realBalance);
+    if (showNominal) values.push(nominalValue(d), hasBands ? d.monteCarlo!.p10 : d.balance);
+    if (showReal) values.push(realValue(d), hasBands ? d.monteCarlo!.realP10 : d.realBalance);
     return Math.min(...values);
   }));
   
@@ -56,13 +79,26 @@ export const ProjectionChart: React.FC<ProjectionChartProps> = observer(({ data,
   };
 
   const nominalPath = data
-    .map((d, i) => `${i === 0 ? 'M' : 'L'} ${xScale(i)} ${yScale(d.balance)}`)
+    .map((d, i) => `${i === 0 ? 'M' : 'L'} ${xScale(i)} ${yScale(nominalValue(d))}`)
     .join(' ');
 
   const realPath = data
-    .map((d, i) => `${i === 0 ? 'M' : 'L'} ${xScale(i)} ${yScale(d.realBalance)}`)
+    .map((d, i) => `${i === 0 ? 'M' : 'L'} ${xScale(i)} ${yScale(realValue(d))}`)
     .join(' ');
 
+  // Closed area between the 90th percentile (forward) and the 10th percentile (backward)
+  const bandPath = (upper: (band: ChartPercentileBand) => number, lower: (band: ChartPercentileBand) => number) => {
+    if (!hasBands) return '';
+    const top = data.map((d, i) => `${i === 0 ? 'M' : 'L'} ${xScale(i)} ${yScale(upper(d.monteCarlo!))}`);
+    const bottom = data
+      .map((d, i) => `L ${xScale(i)} ${yScale(lower(d.monteCarlo!))}`)
+      .reverse();
+    return `${top.join(' ')} ${bottom.join(' ')} Z`;
+  };
+
+  const nominalBandPath = bandPath(band => band.p90, band => band.p10);
+  const realBandPath = bandPath(band => band.realP90, band => band.realP10);
+
 
   const icon = (
     <svg className="w-6 h-6 text-primary-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -141,18 +177,39 @@ export const ProjectionChart: React.FC<ProjectionChartProps> = observer(({ data,
                   className="text-xs fill-gray-600 dark:fill-gray-400"
                 >
                   {d.actualYear || d.year}
+                  {ageLabel(d) && (
+                    <tspan x={xScale(i)} dy="14">{ageLabel(d)}</tspan>
+                  )}
                 </text>
               );
             }
             return null;
           })}
 
+          {hasBands && showReal && (
+            <path
+              d={realBandPath}
+              fill={isDark ? "rgb(74, 222, 128)" : "rgb(34, 197, 94)"}
+              fillOpacity={isDark ? 0.2 : 0.15}
+            />
+          )}
+
+          {hasBands && showNominal && (
+            <path
+              d={nominalBandPath}
+              fill={isDark ? "rgb(147, 197, 253)" : "rgb(59, 130, 246)"}
+              fillOpacity={isDark ? 0.25 : 0.2}
+            />
+          )}
+
           {showReal && (
             <>
-              <path
-                d={`${realPath} L ${xScale(data.length - 1)} ${yScale(0)} L ${xScale(0)} ${yScale(0)} Z`}
-                fill="url(#realGradient)"
-              />
+              {!hasBands && (
+                <path
+                  d={`${realPath} L ${xScale(data.length - 1)} ${yScale(0)} L ${xScale(0)} ${yScale(0)} Z`}
+                  fill="url(#realGradient)"
+                />
+              )}
               <path
                 d={realPath}
                 fill="none"
@@ -165,10 +222,12 @@ export const ProjectionChart: React.FC<ProjectionChartProps> = observer(({ data,
 
           {showNominal && (
             <>
-              <path
-                d={`${nominalPath} L ${xScale(data.length - 1)} ${yScale(0)} L ${xScale(0)} ${yScale(0)} Z`}
-                fill="url(#nominalGradient)"
-              />
+              {!hasBands && (
+                <path
+                  d={`${nominalPath} L ${xScale(data.length - 1)} ${yScale(0)} L ${xScale(0)} ${yScale(0)} Z`}
+                  fill="url(#nominalGradient)"
+                />
+              )}
               <path
                 d={nominalPath}
                 fill="none"
@@ -183,26 +242,30 @@ export const ProjectionChart: React.FC<ProjectionChartProps> = observer(({ data,
               {showNominal && (
                 <circle
                   cx={xScale(i)}
-                  cy={yScale(d.balance)}
+                  cy={yScale(nominalValue(d))}
                   r="3"
                   fill={isDark ? "rgb(147, 197, 253)" : "rgb(59, 130, 246)"}
                   className="hover:r-5 transition-all cursor-pointer"
                 >
                   <title>
-                    Year {d.actualYear || d.year}: Nominal ${d.balance.toLocaleString()}
+                    {hasBands
+                      ? `Year ${yearLabel(d)}: Nominal median $${d.monteCarlo!.p50.toLocaleString()} (10th-90th: $${d.monteCarlo!.p10.toLocaleString()} - $${d.monteCarlo!.p90.toLocaleString()})`
+                      : `Year ${yearLabel(d)}: Nominal $${d.balance.toLocaleString()}`}
                   </title>
                 </circle>
               )}
               {showReal && (
                 <circle
                   cx={xScale(i)}
-                  cy={yScale(d.realBalance)}
+                  cy={yScale(realValue(d))}
                   r="3"
                   fill={isDark ? "rgb(74, 222, 128)" : "rgb(34, 197, 94)"}
                   className="hover:r-5 transition-all cursor-pointer"
                 >
                   <title>
-                    Year {d.actualYear || d.year}: Real ${d.realBalance.toLocaleString()}
+                    {hasBands
+                      ? `Year ${yearLabel(d)}: Real median $${d.monteCarlo!.realP50.toLocaleString()} (10th-90th: $${d.monteCarlo!.realP10.toLocaleString()} - $${d.monteCarlo!.realP90.toLocaleString()})`
+                      : `Year ${yearLabel(d)}: Real $${d.realBalance.toLocaleString()}`}
                   </title>
                 </circle>
               )}
@@ -215,7 +278,7 @@ export const ProjectionChart: React.FC<ProjectionChartProps> = observer(({ data,
           {showNominal && (
             <div className="flex items-center bg-gray-100 dark:bg-gray-700 rounded-lg px-4 py-2">
               <div className="w-4 h-4 bg-primary-500 dark:bg-primary-400 rounded mr-3 shadow-sm"></div>
-              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Nominal Balance</span>
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">{hasBands ? 'Nominal Median' : 'Nominal Balance'}</span>
             </div>
           )}
           {showReal && (
@@ -225,7 +288,13 @@ export const ProjectionChart: React.FC<ProjectionChartProps> = observer(({ data,
                   ? 'repeating-linear-gradient(90deg, rgb(74, 222, 128) 0px, rgb(74, 222, 128) 5px, transparent 5px, transparent 10px)'
                   : 'repeating-linear-gradient(90deg, rgb(34, 197, 94) 0px, rgb(34, 197, 94) 5px, transparent 5px, transparent 10px)'
               }}></div>
-              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Real Balance (Inflation-Adjusted)</span>
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">{hasBands ? 'Real Median (Inflation-Adjusted)' : 'Real Balance (Inflation-Adjusted)'}</span>
+            </div>
+          )}
+          {hasBands && (
+            <div className="flex items-center bg-gray-100 dark:bg-gray-700 rounded-lg px-4 py-2">
+              <div className="w-4 h-4 bg-primary-500/30 dark:bg-primary-400/30 rounded mr-3"></div>
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">10th-90th Percentile</span>
             </div>
           )}
         </div>
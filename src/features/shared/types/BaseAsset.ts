@@ -2,7 +2,7 @@ export interface BaseAsset {
   id: string;
   name: string;
   enabled: boolean;
-  readonly type: 'investment' | 'property';
+  readonly type: 'investment' | 'property' | 'budget' | 'debt';
 
   // UI state
   showBalance: boolean;
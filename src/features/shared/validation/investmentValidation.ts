@@ -65,6 +65,29 @@ export function createInvestmentValidationConfig(): FormValidationConfig {
       ]
     },
     
+    dividendYield: {
+      rules: [
+        rules.numeric,
+        rules.range(0, 20),
+        rules.highPercentageWarning(8, 'Dividend yield above 8% is unusually high')
+      ]
+    },
+
+    capitalGainsTaxRate: {
+      rules: [
+        rules.numeric,
+        rules.range(0, 60)
+      ]
+    },
+
+    withdrawalTaxRate: {
+      rules: [
+        rules.numeric,
+        rules.range(0, 60),
+        rules.highPercentageWarning(40, 'Tax rate above 40% is very high')
+      ]
+    },
+    
     inflationRate: {
       rules: [
         rules.numeric,
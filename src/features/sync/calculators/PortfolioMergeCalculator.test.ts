@@ -0,0 +1,69 @@
+import { PortfolioMergeCalculator } from './PortfolioMergeCalculator';
+
+const asset = (id: string, initialAmount: string, name = id) => ({
+  id,
+  name,
+  type: 'investment',
+  enabled: true,
+  inputs: { initialAmount }
+});
+
+const local = {
+  schemaVersion: 3,
+  revision: 4,
+  updatedAt: '2026-01-02T00:00:00.000Z',
+  years: '10',
+  assets: [asset('a', '100'), asset('b', '200'), asset('c', '300')]
+};
+
+const cloud = {
+  schemaVersion: 2,
+  revision: 5,
+  updatedAt: '2026-01-03T00:00:00.000Z',
+  years: '20',
+  assets: [asset('a', '100'), asset('b', '250'), asset('d', '400')]
+};
+
+describe('PortfolioMergeCalculator', () => {
+  it('lists assets that differ between the two copies', () => {
+    expect(PortfolioMergeCalculator.diff(local, cloud)).toEqual({
+      assets: [
+        { id: 'b', name: 'b', difference: 'changed' },
+        { id: 'c', name: 'c', difference: 'localOnly' },
+        { id: 'd', name: 'd', difference: 'cloudOnly' }
+      ],
+      settingsDiffer: true
+    });
+  });
+
+  it('ignores sync metadata and key order', () => {
+    const reordered = {
+      assets: [{ inputs: { initialAmount: '100' }, enabled: true, type: 'investment', name: 'a', id: 'a' }],
+      years: '10',
+      revision: 9
+    };
+    expect(PortfolioMergeCalculator.isSame({ years: '10', revision: 1, assets: [asset('a', '100')] }, reordered)).toBe(true);
+    expect(PortfolioMergeCalculator.isSame(local, cloud)).toBe(false);
+  });
+
+  it('takes differing assets from this device by default', () => {
+    const merged = PortfolioMergeCalculator.merge(local, cloud, { assets: {}, settings: 'local' });
+
+    expect(merged.assets).toEqual(local.assets);
+    expect(merged.years).toBe('10');
+    expect(merged).not.toHaveProperty('revision');
+  });
+
+  it('combines the chosen side of each asset and the settings', () => {
+    const merged = PortfolioMergeCalculator.merge(local, cloud, {
+      assets: { b: 'cloud', c: 'cloud', d: 'cloud' },
+      settings: 'cloud'
+    });
+
+    expect(merged).toEqual({
+      years: '20',
+      schemaVersion: 2,
+      assets: [asset('a', '100'), asset('b', '250'), asset('d', '400')]
+    });
+  });
+});
@@ -0,0 +1,116 @@
+type PortfolioDocument = Record<string, unknown>;
+
+export type MergeSource = 'local' | 'cloud';
+
+export type AssetDifference = 'changed' | 'localOnly' | 'cloudOnly';
+
+export interface AssetDiff {
+  id: string;
+  name: string;
+  difference: AssetDifference;
+}
+
+export interface PortfolioDiff {
+  assets: AssetDiff[];
+  settingsDiffer: boolean;
+}
+
+export interface MergeChoices {
+  // Source of each differing asset; assets not listed come from this device
+  assets: Record<string, MergeSource>;
+  settings: MergeSource;
+}
+
+export class PortfolioMergeCalculator {
+  // Bookkeeping fields that don't make two portfolios different
+  static readonly METADATA_FIELDS = ['schemaVersion', 'revision', 'updatedAt', 'baseRevision'];
+
+  /**
+   * Compare two saved portfolios asset by asset.
+   * Assets are matched by id; settings are every other top-level field.
+   */
+  static diff(local: PortfolioDocument, cloud: PortfolioDocument): PortfolioDiff {
+    const localAssets = this.assetsById(local);
+    const cloudAssets = this.assetsById(cloud);
+    const assets: AssetDiff[] = [];
+
+    for (const [id, asset] of localAssets) {
+      const cloudAsset = cloudAssets.get(id);
+      if (!cloudAsset) {
+        assets.push({ id, name: this.nameOf(asset), difference: 'localOnly' });
+      } else if (this.canonicalJSON(asset) !== this.canonicalJSON(cloudAsset)) {
+        assets.push({ id, name: this.nameOf(asset), difference: 'changed' });
+      }
+    }
+    for (const [id, asset] of cloudAssets) {
+      if (!localAssets.has(id)) {
+        assets.push({ id, name: this.nameOf(asset), difference: 'cloudOnly' });
+      }
+    }
+
+    return {
+      assets,
+      settingsDiffer: this.canonicalJSON(this.settingsOf(local)) !== this.canonicalJSON(this.settingsOf(cloud))
+    };
+  }
+
+  static isSame(local: PortfolioDocument, cloud: PortfolioDocument): boolean {
+    const { assets, settingsDiffer } = this.diff(local, cloud);
+    return assets.length === 0 && !settingsDiffer;
+  }
+
+  /**
+   * Build a portfolio from the chosen side of each difference.
+   * Local asset order is kept and cloud-only assets are appended.
+   */
+  static merge(local: PortfolioDocument, cloud: PortfolioDocument, choices: MergeChoices): PortfolioDocument {
+    const localAssets = this.assetsById(local);
+    const cloudAssets = this.assetsById(cloud);
+    const sourceOf = (id: string) => choices.assets[id] ?? 'local';
+
+    const assets = [
+      ...[...localAssets].flatMap(([id, asset]) => {
+        if (sourceOf(id) === 'local') return [asset];
+        const cloudAsset = cloudAssets.get(id);
+        return cloudAsset ? [cloudAsset] : [];
+      }),
+      ...[...cloudAssets]
+        .filter(([id]) => !localAssets.has(id) && sourceOf(id) === 'cloud')
+        .map(([, asset]) => asset)
+    ];
+
+    // Migrations are safe to re-run, so the older version makes sure assets
+    // taken from an older save still get upgraded when loaded
+    const schemaVersion = Math.min(Number(local.schemaVersion ?? 0), Number(cloud.schemaVersion ?? 0));
+
+    return {
+      ...this.settingsOf(choices.settings === 'local' ? local : cloud),
+      schemaVersion,
+      assets
+    };
+  }
+
+  private static assetsById(portfolio: PortfolioDocument): Map<string, PortfolioDocument> {
+    const assets: PortfolioDocument[] = Array.isArray(portfolio.assets) ? portfolio.assets : [];
+    return new Map(assets.map(asset => [String(asset.id), asset]));
+  }
+
+  private static nameOf(asset: PortfolioDocument): string {
+    return typeof asset.name === 'string' ? asset.name : String(asset.id);
+  }
+
+  private static settingsOf(portfolio: PortfolioDocument): PortfolioDocument {
+    return Object.fromEntries(
+      Object.entries(portfolio).filter(([key]) => key !== 'assets' && !this.METADATA_FIELDS.includes(key))
+    );
+  }
+
+  // Cloud documents don't keep key order, so compare with sorted keys
+  private static canonicalJSON(value: unknown): string {
+    return JSON.stringify(value, (_key, nested) =>
+      nested && typeof nested === 'object' && !Array.isArray(nested)
+        ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)))
+        : nested
+    );
+  }
+}
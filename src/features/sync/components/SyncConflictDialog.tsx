@@ -0,0 +1,148 @@
+import { observer } from 'mobx-react-lite';
+import React, { useState } from 'react';
+import { useScenarioStore, useStorageStore } from '@/features/core/stores/hooks';
+import type { SyncedDocument } from '@/features/core/stores/StorageStore';
+import { PortfolioMergeCalculator, type MergeSource, type AssetDifference } from '@/features/sync/calculators/PortfolioMergeCalculator';
+
+const DIFFERENCE_LABELS: Record<AssetDifference, string> = {
+  changed: 'Changed on both',
+  localOnly: 'Only on this device',
+  cloudOnly: 'Only in the cloud'
+};
+
+const formatUpdatedAt = (data: { updatedAt?: string } | null) =>
+  data?.updatedAt ? new Date(data.updatedAt).toLocaleString() : 'unknown time';
+
+const SourceChoice: React.FC<{
+  name: string;
+  value: MergeSource;
+  onChange: (value: MergeSource) => void;
+}> = ({ name, value, onChange }) => (
+  <div className="flex gap-4">
+    {(['local', 'cloud'] as MergeSource[]).map(source => (
+      <label key={source} className="flex items-center gap-1">
+        <input
+          type="radio"
+          name={name}
+          checked={value === source}
+          onChange={() => onChange(source)}
+          className="text-primary-600 focus:ring-primary-500"
+        />
+        {source === 'local' ? 'This device' : 'Cloud'}
+      </label>
+    ))}
+  </div>
+);
+
+export const SyncConflictDialog: React.FC = observer(() => {
+  const storageStore = useStorageStore();
+  const scenarioStore = useScenarioStore();
+  const [isMerging, setIsMerging] = useState(false);
+  const [assetChoices, setAssetChoices] = useState<Record<string, MergeSource>>({});
+  const [settingsChoice, setSettingsChoice] = useState<MergeSource>('local');
+
+  const { conflict } = storageStore;
+  if (!conflict) return null;
+
+  const cloud = conflict.cloud ?? {};
+  const diff = PortfolioMergeCalculator.diff(conflict.local, cloud);
+  const scenarioName = scenarioStore.getScenario(conflict.scenarioId)?.name ?? 'your portfolio';
+
+  const resolve = (data: SyncedDocument) => {
+    setIsMerging(false);
+    setAssetChoices({});
+    setSettingsChoice('local');
+    storageStore.resolveConflict(data);
+  };
+
+  const handleMerge = () => {
+    resolve(PortfolioMergeCalculator.merge(conflict.local, cloud, { assets: assetChoices, settings: settingsChoice }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center pt-20 pb-8 px-4 z-[9999]">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-2xl p-6 max-w-lg w-full max-h-[calc(100vh-10rem)] overflow-y-auto">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Sync Conflict</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+          {scenarioName} was changed on this device (saved {formatUpdatedAt(conflict.local)}) and
+          elsewhere (saved to the cloud {formatUpdatedAt(conflict.cloud)}). Choose which changes to keep.
+        </p>
+
+        {isMerging ? (
+          <div className="space-y-4 mb-6">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 dark:text-gray-400">
+                  <th className="py-2 pr-4 font-semibold">Asset</th>
+                  <th className="py-2 font-semibold">Keep from</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-900 dark:text-white">
+                {diff.assets.map(asset => (
+                  <tr key={asset.id} className="border-t border-gray-200 dark:border-gray-700">
+                    <td className="py-2 pr-4">
+                      {asset.name}
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">{DIFFERENCE_LABELS[asset.difference]}</span>
+                    </td>
+                    <td className="py-2">
+                      <SourceChoice
+                        name={`asset-${asset.id}`}
+                        value={assetChoices[asset.id] ?? 'local'}
+                        onChange={(source) => setAssetChoices({ ...assetChoices, [asset.id]: source })}
+                      />
+                    </td>
+                  </tr>
+                ))}
+                {diff.settingsDiffer && (
+                  <tr className="border-t border-gray-200 dark:border-gray-700">
+                    <td className="py-2 pr-4">Portfolio settings</td>
+                    <td className="py-2">
+                      <SourceChoice name="settings" value={settingsChoice} onChange={setSettingsChoice} />
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+            <div className="flex gap-3">
+              <button
+                onClick={handleMerge}
+                className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Apply Merge
+              </button>
+              <button
+                onClick={() => setIsMerging(false)}
+                className="flex-1 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 px-4 py-2 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-500 transition-colors"
+              >
+                Back
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-3">
+            <button
+              onClick={() => resolve(conflict.local)}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Keep This Device's Version
+            </button>
+            <button
+              onClick={() => resolve(cloud)}
+              disabled={!conflict.cloud}
+              className="bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 px-4 py-2 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-500 disabled:opacity-50 transition-colors"
+            >
+              Use Cloud Version
+            </button>
+            <button
+              onClick={() => setIsMerging(true)}
+              disabled={!conflict.cloud}
+              className="bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 px-4 py-2 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-500 disabled:opacity-50 transition-colors"
+            >
+              Merge Asset by Asset
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
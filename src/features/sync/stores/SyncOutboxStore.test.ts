@@ -0,0 +1,184 @@
+import { RootStore } from '@/features/core/stores/RootStore';
+import { FirestoreService } from '@/services/firestore';
+import { createSimpleMockAuth } from '@/test-utils/mockAuthFactory';
+import { OUTBOX_STORAGE_KEY, SyncOutboxStore } from './SyncOutboxStore';
+
+const localDoc = () => JSON.parse(localStorage.getItem('portfolioData')!);
+
+describe('SyncOutboxStore', () => {
+  let rootStore: RootStore;
+  let mockAuth: ReturnType<typeof createSimpleMockAuth>;
+  let userCount = 0;
+  // Cloud data persists across tests, so each test gets its own user
+  let userId: string;
+
+  const cloudDoc = () => FirestoreService.loadPortfolio(userId);
+  const goOffline = () => jest.spyOn(FirestoreService, 'savePortfolio')
+    .mockRejectedValue(new Error('Firestore service unavailable. Check your internet connection.'));
+
+  beforeEach(async () => {
+    localStorage.clear();
+    userId = `outbox-user-${++userCount}`;
+    mockAuth = createSimpleMockAuth();
+    rootStore = new RootStore(mockAuth);
+
+    mockAuth.setCurrentUser({ uid: userId, email: 'outbox@example.com', displayName: 'Outbox User' });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    await rootStore.portfolioStore.save();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    mockAuth.reset();
+  });
+
+  it('doubles the retry delay up to a maximum', () => {
+    expect([1, 2, 3, 4].map(SyncOutboxStore.getRetryDelay)).toEqual([2000, 4000, 8000, 16000]);
+    expect(SyncOutboxStore.getRetryDelay(20)).toBe(SyncOutboxStore.MAX_RETRY_DELAY_MS);
+  });
+
+  it('queues failed cloud saves and keeps only the latest snapshot', async () => {
+    goOffline();
+    rootStore.portfolioStore.setYears('25');
+    await rootStore.portfolioStore.save();
+    rootStore.portfolioStore.setYears('30');
+    await rootStore.portfolioStore.save();
+
+    const outbox = rootStore.syncOutboxStore;
+    expect(outbox.pendingCount).toBe(1);
+    expect(outbox.entries[0]).toMatchObject({ userId, scenarioId: 'default', baseRevision: 1, attempts: 0 });
+    expect(outbox.entries[0].document).toMatchObject({ years: '30', revision: 3 });
+    expect(outbox.lastError).toContain('unavailable');
+    expect(JSON.parse(localStorage.getItem(OUTBOX_STORAGE_KEY)!)).toHaveLength(1);
+    expect(localDoc().years).toBe('30');
+  });
+
+  it('pushes the queued snapshot when the browser comes back online', async () => {
+    const savePortfolio = goOffline();
+    rootStore.portfolioStore.setYears('25');
+    await rootStore.portfolioStore.save();
+
+    savePortfolio.mockRestore();
+    window.dispatchEvent(new Event('online'));
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(rootStore.syncOutboxStore.entries).toEqual([]);
+    expect(localStorage.getItem(OUTBOX_STORAGE_KEY)).toBeNull();
+    expect(await cloudDoc()).toMatchObject({ years: '25', revision: 2 });
+    expect(localDoc()).toMatchObject({ revision: 2, baseRevision: 2 });
+
+    // Later saves build on the pushed revision instead of conflicting with it
+    rootStore.portfolioStore.setYears('35');
+    await rootStore.portfolioStore.save();
+    expect(rootStore.storageStore.conflict).toBeNull();
+    expect(await cloudDoc()).toMatchObject({ years: '35', revision: 3 });
+  });
+
+  it('retries with exponential backoff and gives up after the maximum retries', async () => {
+    const savePortfolio = goOffline();
+    await rootStore.portfolioStore.save();
+    expect(savePortfolio).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(savePortfolio).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(savePortfolio).toHaveBeenCalledTimes(2);
+    expect(rootStore.syncOutboxStore.entries[0].attempts).toBe(1);
+
+    // The next retry waits twice as long
+    await jest.advanceTimersByTimeAsync(3999);
+    expect(savePortfolio).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(savePortfolio).toHaveBeenCalledTimes(3);
+
+    await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(savePortfolio).toHaveBeenCalledTimes(1 + SyncOutboxStore.MAX_RETRIES);
+    expect(rootStore.syncOutboxStore.failedCount).toBe(1);
+    expect(rootStore.syncOutboxStore.pendingCount).toBe(0);
+
+    savePortfolio.mockRestore();
+    await rootStore.syncOutboxStore.retryAll();
+    expect(rootStore.syncOutboxStore.failedCount).toBe(0);
+    expect(await cloudDoc()).toMatchObject({ revision: 2 });
+  });
+
+  it('treats a retry of a write that went through before timing out as synced', async () => {
+    const savePortfolio = FirestoreService.savePortfolio.bind(FirestoreService);
+    const spy = jest.spyOn(FirestoreService, 'savePortfolio').mockImplementationOnce(async (...args) => {
+      await savePortfolio(...args);
+      throw new Error('Save operation timed out. Check your internet connection and try again.');
+    });
+    rootStore.portfolioStore.setYears('25');
+    await rootStore.portfolioStore.save();
+    expect(rootStore.syncOutboxStore.pendingCount).toBe(1);
+    expect(await cloudDoc()).toMatchObject({ years: '25', revision: 2 });
+
+    await jest.advanceTimersByTimeAsync(SyncOutboxStore.getRetryDelay(1));
+
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(rootStore.storageStore.conflict).toBeNull();
+    expect(rootStore.syncOutboxStore.entries).toEqual([]);
+    expect(localDoc()).toMatchObject({ revision: 2, baseRevision: 2 });
+  });
+
+  it('drops a queued snapshot once a newer save reaches the cloud', async () => {
+    const savePortfolio = goOffline();
+    rootStore.portfolioStore.setYears('25');
+    await rootStore.portfolioStore.save();
+
+    savePortfolio.mockRestore();
+    rootStore.portfolioStore.setYears('30');
+    await rootStore.portfolioStore.save();
+
+    expect(rootStore.syncOutboxStore.entries).toEqual([]);
+    expect(await cloudDoc()).toMatchObject({ years: '30', revision: 3 });
+  });
+
+  it('does not re-create a deleted scenario from its queued snapshot', async () => {
+    const savePortfolio = goOffline();
+    const scenarioId = await rootStore.scenarioStore.createScenario('Stay renting');
+    expect(rootStore.syncOutboxStore.entries.map(entry => entry.scenarioId)).toContain(scenarioId);
+
+    await rootStore.scenarioStore.deleteScenario(scenarioId);
+    savePortfolio.mockRestore();
+    window.dispatchEvent(new Event('online'));
+    await jest.advanceTimersByTimeAsync(SyncOutboxStore.MAX_RETRY_DELAY_MS);
+
+    expect(rootStore.syncOutboxStore.entries.map(entry => entry.scenarioId)).not.toContain(scenarioId);
+    expect(await FirestoreService.loadPortfolio(userId, scenarioId)).toBeNull();
+  });
+
+  it('drops queued snapshots of scenarios that no longer exist', async () => {
+    rootStore.syncOutboxStore.enqueue(userId, 'removed-elsewhere', { years: '25', revision: 1 }, 0, 'offline');
+
+    await jest.advanceTimersByTimeAsync(SyncOutboxStore.getRetryDelay(1));
+
+    expect(rootStore.syncOutboxStore.entries).toEqual([]);
+    expect(await FirestoreService.loadPortfolio(userId, 'removed-elsewhere')).toBeNull();
+  });
+
+  it('keeps queued snapshots across reloads and pushes them on sign-in', async () => {
+    const savePortfolio = goOffline();
+    rootStore.portfolioStore.setYears('25');
+    await rootStore.portfolioStore.save();
+    savePortfolio.mockRestore();
+    jest.useRealTimers();
+
+    mockAuth.reset();
+    const reloadedAuth = createSimpleMockAuth();
+    const reloaded = new RootStore(reloadedAuth);
+    expect(reloaded.syncOutboxStore.entries).toHaveLength(1);
+    // Entries of other users are not shown or pushed
+    expect(reloaded.syncOutboxStore.pendingCount).toBe(0);
+
+    reloadedAuth.setCurrentUser({ uid: userId, email: 'outbox@example.com', displayName: 'Outbox User' });
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(reloaded.portfolioStore.years).toBe('25');
+    expect(reloaded.syncOutboxStore.entries).toEqual([]);
+    expect(await cloudDoc()).toMatchObject({ years: '25', revision: 2 });
+    reloadedAuth.reset();
+  });
+});
@@ -0,0 +1,211 @@
+import { makeAutoObservable, observable, runInAction } from 'mobx';
+import type { RootStore } from '@/features/core/stores/RootStore';
+import type { SyncedDocument } from '@/features/core/stores/StorageStore';
+
+// A cloud write that hasn't gone through yet. Only the latest snapshot per
+// user and scenario is kept, so a retry always pushes the newest data.
+export interface OutboxEntry {
+  userId: string;
+  scenarioId: string;
+  document: SyncedDocument;
+  baseRevision: number;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: number;
+}
+
+export const OUTBOX_STORAGE_KEY = 'cloudSyncOutbox';
+
+export class SyncOutboxStore {
+  // Retry delays double from the base delay up to the max; after MAX_RETRIES
+  // failed retries an entry waits for a manual retry or the browser coming online
+  static readonly BASE_RETRY_DELAY_MS = 2000;
+  static readonly MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+  static readonly MAX_RETRIES = 5;
+
+  entries: OutboxEntry[] = [];
+  isFlushing = false;
+
+  private rootStore: RootStore;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(rootStore: RootStore) {
+    this.rootStore = rootStore;
+    this.entries = this.loadEntries();
+    // Entries are replaced, never mutated, so snapshots don't need to be deeply observable
+    makeAutoObservable<this, 'rootStore' | 'retryTimer'>(this, {
+      entries: observable.ref,
+      rootStore: false,
+      retryTimer: false
+    });
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+    }
+  }
+
+  static getRetryDelay(attempts: number): number {
+    return Math.min(
+      SyncOutboxStore.BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1),
+      SyncOutboxStore.MAX_RETRY_DELAY_MS
+    );
+  }
+
+  // Entries of the signed-in user
+  get userEntries(): OutboxEntry[] {
+    const userId = this.rootStore.authStore.uid;
+    return this.entries.filter(entry => entry.userId === userId);
+  }
+
+  get failedEntries(): OutboxEntry[] {
+    return this.userEntries.filter(entry => entry.attempts >= SyncOutboxStore.MAX_RETRIES);
+  }
+
+  get pendingCount(): number {
+    return this.userEntries.length - this.failedEntries.length;
+  }
+
+  get failedCount(): number {
+    return this.failedEntries.length;
+  }
+
+  get lastError(): string | null {
+    return this.userEntries.find(entry => entry.lastError)?.lastError ?? null;
+  }
+
+  // Queue a snapshot that failed to reach the cloud, replacing any older one
+  enqueue = (userId: string, scenarioId: string, document: SyncedDocument, baseRevision: number, error: string) => {
+    this.entries = [
+      ...this.entries.filter(entry => !this.isSameTarget(entry, userId, scenarioId)),
+      {
+        userId,
+        scenarioId,
+        document,
+        baseRevision,
+        attempts: 0,
+        lastError: error,
+        nextAttemptAt: Date.now() + SyncOutboxStore.getRetryDelay(1)
+      }
+    ];
+    this.persist();
+    this.scheduleRetry();
+  }
+
+  // Drop a queued snapshot, e.g. once a newer one reached the cloud
+  remove = (userId: string, scenarioId: string) => {
+    if (!this.entries.some(entry => this.isSameTarget(entry, userId, scenarioId))) return;
+    this.entries = this.entries.filter(entry => !this.isSameTarget(entry, userId, scenarioId));
+    this.persist();
+  }
+
+  /**
+   * Push the signed-in user's queued snapshots. Only entries that are due are
+   * pushed unless forced; failures are rescheduled with a longer delay.
+   */
+  flush = async (force = false): Promise<void> => {
+    const userId = this.rootStore.authStore.uid;
+    if (this.isFlushing || !userId) return;
+
+    const now = Date.now();
+    const due = this.userEntries.filter(entry =>
+      force || (entry.attempts < SyncOutboxStore.MAX_RETRIES && entry.nextAttemptAt <= now)
+    );
+    if (due.length === 0) {
+      this.scheduleRetry();
+      return;
+    }
+
+    this.isFlushing = true;
+    const storageStore = this.rootStore.storageStore;
+    for (const entry of due) {
+      // A pending conflict replaces the queued write; resolving it saves again.
+      // Writes for deleted scenarios are dropped so they don't re-create the document.
+      if (storageStore.conflict?.scenarioId === entry.scenarioId || !this.rootStore.scenarioStore.getScenario(entry.scenarioId)) {
+        this.remove(userId, entry.scenarioId);
+        continue;
+      }
+
+      try {
+        await storageStore.pushToCloud(userId, entry.scenarioId, entry.document, entry.baseRevision);
+        this.removeEntry(entry);
+      } catch (error) {
+        this.recordFailure(entry, error instanceof Error ? error.message : String(error));
+      }
+    }
+    runInAction(() => {
+      this.isFlushing = false;
+    });
+    this.scheduleRetry();
+  }
+
+  // Retry everything now, including entries that gave up, with the backoff starting over
+  retryAll = () => {
+    this.entries = this.entries.map(entry => ({ ...entry, attempts: 0, nextAttemptAt: Date.now() }));
+    this.persist();
+    return this.flush(true);
+  }
+
+  private handleOnline = () => {
+    console.log('Back online, pushing pending cloud saves');
+    this.retryAll();
+  }
+
+  // Entries replaced by a newer snapshot while being pushed are left alone
+  private removeEntry(entry: OutboxEntry) {
+    if (!this.entries.includes(entry)) return;
+    this.entries = this.entries.filter(candidate => candidate !== entry);
+    this.persist();
+  }
+
+  private recordFailure(entry: OutboxEntry, error: string) {
+    if (!this.entries.includes(entry)) return;
+
+    const attempts = entry.attempts + 1;
+    console.warn(`Cloud sync retry ${attempts} failed:`, error);
+    this.entries = this.entries.map(candidate => candidate === entry
+      ? { ...entry, attempts, lastError: error, nextAttemptAt: Date.now() + SyncOutboxStore.getRetryDelay(attempts + 1) }
+      : candidate
+    );
+    this.persist();
+  }
+
+  // Wake up for the earliest entry that still retries on its own
+  private scheduleRetry() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const waiting = this.userEntries.filter(entry => entry.attempts < SyncOutboxStore.MAX_RETRIES);
+    if (waiting.length === 0) return;
+
+    const nextAttemptAt = Math.min(...waiting.map(entry => entry.nextAttemptAt));
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, Math.max(0, nextAttemptAt - Date.now()));
+  }
+
+  private isSameTarget(entry: OutboxEntry, userId: string, scenarioId: string): boolean {
+    return entry.userId === userId && entry.scenarioId === scenarioId;
+  }
+
+  private persist() {
+    if (this.entries.length === 0) {
+      localStorage.removeItem(OUTBOX_STORAGE_KEY);
+    } else {
+      localStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(this.entries));
+    }
+  }
+
+  private loadEntries(): OutboxEntry[] {
+    try {
+      const stored = localStorage.getItem(OUTBOX_STORAGE_KEY);
+      const entries = stored ? JSON.parse(stored) : [];
+      return Array.isArray(entries) ? entries : [];
+    } catch (error) {
+      console.warn('Failed to load pending cloud saves:', error);
+      return [];
+    }
+  }
+}
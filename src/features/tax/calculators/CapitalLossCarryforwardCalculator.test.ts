@@ -0,0 +1,92 @@
+import { CapitalLossCarryforwardCalculator, type CapitalGainSale } from './CapitalLossCarryforwardCalculator';
+
+const sale = (id: string, taxYear: number, gain: number, overrides: Partial<CapitalGainSale> = {}): CapitalGainSale => ({
+  id,
+  name: `Sale ${id}`,
+  taxYear,
+  gain,
+  filingStatus: 'single',
+  ...overrides,
+});
+
+describe('CapitalLossCarryforwardCalculator', () => {
+  describe('buildLedger', () => {
+    it('should return an empty ledger without sales', () => {
+      expect(CapitalLossCarryforwardCalculator.buildLedger([], 2030)).toEqual([]);
+    });
+
+    it('should net gains and losses realized in the same year', () => {
+      const ledger = CapitalLossCarryforwardCalculator.buildLedger(
+        [sale('a', 2026, 100000), sale('b', 2026, -40000)],
+        2030
+      );
+
+      expect(ledger).toHaveLength(1);
+      expect(ledger[0].totalGains).toBe(100000);
+      expect(ledger[0].totalLosses).toBe(40000);
+      expect(ledger[0].netCapitalGain).toBe(60000);
+      expect(ledger[0].carryforwardOut).toBe(0);
+      expect(ledger[0].sales[0].lossOffset).toBe(40000);
+      expect(ledger[0].sales[1].lossOffset).toBe(0);
+    });
+
+    it('should offset $3,000 of ordinary income per year and carry the rest forward', () => {
+      const ledger = CapitalLossCarryforwardCalculator.buildLedger(
+        [sale('loss', 2026, -50000), sale('gain', 2028, 100000)],
+        2030
+      );
+
+      expect(ledger.map(year => year.taxYear)).toEqual([2026, 2027, 2028]);
+      expect(ledger[0].ordinaryIncomeOffset).toBe(3000);
+      expect(ledger[0].carryforwardOut).toBe(47000);
+      expect(ledger[1].sales).toEqual([]);
+      expect(ledger[1].carryforwardIn).toBe(47000);
+      expect(ledger[1].carryforwardOut).toBe(44000);
+      expect(ledger[2].sales[0].lossOffset).toBe(44000);
+      expect(ledger[2].netCapitalGain).toBe(56000);
+      expect(ledger[2].ordinaryIncomeOffset).toBe(0);
+      expect(ledger[2].carryforwardOut).toBe(0);
+    });
+
+    it('should keep using the offset through the end year while losses remain', () => {
+      const ledger = CapitalLossCarryforwardCalculator.buildLedger([sale('loss', 2026, -5000)], 2030);
+
+      expect(ledger.map(year => year.ordinaryIncomeOffset)).toEqual([3000, 2000]);
+      expect(ledger[1].carryforwardOut).toBe(0);
+    });
+
+    it('should limit the ordinary income offset to $1,500 for married filing separately', () => {
+      const ledger = CapitalLossCarryforwardCalculator.buildLedger(
+        [sale('loss', 2026, -10000, { filingStatus: 'married_separate' })],
+        2026
+      );
+
+      expect(ledger[0].ordinaryIncomeOffset).toBe(1500);
+      expect(ledger[0].carryforwardOut).toBe(8500);
+    });
+
+    it('should share losses across gains and stack later gains on earlier ones', () => {
+      const ledger = CapitalLossCarryforwardCalculator.buildLedger(
+        [sale('loss', 2025, -23000), sale('a', 2026, 60000), sale('b', 2026, 40000)],
+        2026
+      );
+      const [first, second] = ledger[1].sales;
+
+      // $20k carried in from 2025 is split 60/40
+      expect(ledger[1].carryforwardIn).toBe(20000);
+      expect(first.lossOffset).toBeCloseTo(12000, 2);
+      expect(second.lossOffset).toBeCloseTo(8000, 2);
+      expect(first.priorSameYearGains).toBe(0);
+      expect(second.priorSameYearGains).toBeCloseTo(48000, 2);
+      expect(ledger[1].netCapitalGain).toBe(80000);
+    });
+  });
+
+  describe('getOrdinaryIncomeOffsetLimit', () => {
+    it('should return the limit by filing status', () => {
+      expect(CapitalLossCarryforwardCalculator.getOrdinaryIncomeOffsetLimit('single')).toBe(3000);
+      expect(CapitalLossCarryforwardCalculator.getOrdinaryIncomeOffsetLimit('married_joint')).toBe(3000);
+      expect(CapitalLossCarryforwardCalculator.getOrdinaryIncomeOffsetLimit('married_separate')).toBe(1500);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import type { FilingStatus } from '../types';
+
+/**
+ * Capital Loss Carryforward Calculator
+ *
+ * Builds a tax-year ledger of capital gains and losses across all sales in
+ * a portfolio (IRC §1211 and §1212).
+ *
+ * Key concepts:
+ * - Gains and losses realized in the same tax year are netted first
+ * - Losses carried forward from earlier years offset the year's net gain
+ * - Applied losses are shared across the year's gains in proportion to each gain
+ * - A net loss offsets up to $3,000 of ordinary income ($1,500 married filing
+ *   separately); the rest carries forward indefinitely
+ * - Each gain is stacked on the net gains of earlier sales in the same year,
+ *   so sales taxed one by one add up to the tax on the year's total gain
+ */
+
+export interface CapitalGainSale {
+  id: string;
+  name: string;
+  /** Calendar year of the sale */
+  taxYear: number;
+  /** Recognized capital gain (negative = deductible loss) */
+  gain: number;
+  filingStatus: FilingStatus;
+}
+
+export interface CapitalGainsLedgerSale extends CapitalGainSale {
+  /** Same-year and carried-forward losses applied to this gain */
+  lossOffset: number;
+  /** Net gains of earlier sales in the same year, taxed below this gain */
+  priorSameYearGains: number;
+}
+
+export interface CapitalGainsLedgerYear {
+  taxYear: number;
+  sales: CapitalGainsLedgerSale[];
+  /** Sum of the year's gains */
+  totalGains: number;
+  /** Sum of the year's losses (positive) */
+  totalLosses: number;
+  /** Unused losses carried in from the prior year */
+  carryforwardIn: number;
+  /** Gains left taxable after all losses */
+  netCapitalGain: number;
+  /** Net loss deducted against ordinary income this year */
+  ordinaryIncomeOffset: number;
+  /** Unused losses carried to the next year */
+  carryforwardOut: number;
+}
+
+export class CapitalLossCarryforwardCalculator {
+  static readonly ORDINARY_INCOME_OFFSET_LIMIT = 3000;
+  static readonly ORDINARY_INCOME_OFFSET_LIMIT_MFS = 1500;
+
+  /**
+   * Build the ledger from the first sale year through the end year.
+   * Years without sales are included while a carryforward remains.
+   */
+  static buildLedger(sales: CapitalGainSale[], endYear: number): CapitalGainsLedgerYear[] {
+    if (sales.length === 0) return [];
+
+    const firstYear = Math.min(...sales.map(sale => sale.taxYear));
+    const lastYear = Math.max(endYear, ...sales.map(sale => sale.taxYear));
+    const ledger: CapitalGainsLedgerYear[] = [];
+    let carryforward = 0;
+    let filingStatus: FilingStatus = 'single';
+
+    for (let taxYear = firstYear; taxYear <= lastYear; taxYear++) {
+      const yearSales = sales.filter(sale => sale.taxYear === taxYear);
+      if (yearSales.length === 0 && carryforward <= 0) continue;
+      if (yearSales.length > 0) {
+        filingStatus = yearSales[yearSales.length - 1].filingStatus;
+      }
+
+      const year = this.calculateYear(taxYear, yearSales, carryforward, filingStatus);
+      ledger.push(year);
+      carryforward = year.carryforwardOut;
+    }
+
+    return ledger;
+  }
+
+  /**
+   * Net one tax year's sales against each other and the carryforward
+   */
+  static calculateYear(
+    taxYear: number,
+    sales: CapitalGainSale[],
+    carryforwardIn: number,
+    filingStatus: FilingStatus
+  ): CapitalGainsLedgerYear {
+    const totalGains = sales.reduce((sum, sale) => sum + Math.max(0, sale.gain), 0);
+    const totalLosses = sales.reduce((sum, sale) => sum + Math.max(0, -sale.gain), 0);
+    const availableLosses = totalLosses + Math.max(0, carryforwardIn);
+    const appliedLosses = Math.min(totalGains, availableLosses);
+
+    let priorSameYearGains = 0;
+    const ledgerSales = sales.map(sale => {
+      if (sale.gain <= 0) {
+        return { ...sale, lossOffset: 0, priorSameYearGains: 0 };
+      }
+
+      const lossOffset = appliedLosses * (sale.gain / totalGains);
+      const ledgerSale = { ...sale, lossOffset, priorSameYearGains };
+      priorSameYearGains += sale.gain - lossOffset;
+      return ledgerSale;
+    });
+
+    const netLoss = availableLosses - appliedLosses;
+    const ordinaryIncomeOffset = Math.min(netLoss, this.getOrdinaryIncomeOffsetLimit(filingStatus));
+
+    return {
+      taxYear,
+      sales: ledgerSales,
+      totalGains,
+      totalLosses,
+      carryforwardIn: Math.max(0, carryforwardIn),
+      netCapitalGain: totalGains - appliedLosses,
+      ordinaryIncomeOffset,
+      carryforwardOut: netLoss - ordinaryIncomeOffset,
+    };
+  }
+
+  /**
+   * Net capital loss deductible against ordinary income per year
+   */
+  static getOrdinaryIncomeOffsetLimit(filingStatus: FilingStatus): number {
+    return filingStatus === 'married_separate'
+      ? this.ORDINARY_INCOME_OFFSET_LIMIT_MFS
+      : this.ORDINARY_INCOME_OFFSET_LIMIT;
+  }
+}
@@ -219,4 +219,52 @@ describe('DepreciationRecaptureCalculator', () => {
       expect(result.recaptureTax).toBe(6600); // $30k * 22%
     });
   });
-});
\ No newline at end of file
+
+  describe('calculateStraightLineSchedule', () => {
+    it('should prorate the first year with the mid-month convention', () => {
+      const schedule = DepreciationRecaptureCalculator.calculateStraightLineSchedule(275000, 4, 3);
+
+      expect(schedule[0]).toBeCloseTo(10000 * 8.5 / 12, 2);
+      expect(schedule[1]).toBeCloseTo(10000, 2);
+      expect(schedule[2]).toBeCloseTo(10000, 2);
+    });
+
+    it('should use a 39-year recovery period for commercial property', () => {
+      const schedule = DepreciationRecaptureCalculator.calculateStraightLineSchedule(390000, 1, 2, false);
+
+      expect(schedule[0]).toBeCloseTo(10000 * 11.5 / 12, 2);
+      expect(schedule[1]).toBeCloseTo(10000, 2);
+    });
+
+    it('should never depreciate more than the basis', () => {
+      const schedule = DepreciationRecaptureCalculator.calculateStraightLineSchedule(275000, 1, 40);
+      const total = schedule.reduce((sum, amount) => sum + amount, 0);
+
+      expect(total).toBeCloseTo(275000, 2);
+      expect(schedule[39]).toBe(0);
+    });
+
+    it('should return zeros when there is no basis', () => {
+      expect(DepreciationRecaptureCalculator.calculateStraightLineSchedule(0, 1, 3)).toEqual([0, 0, 0]);
+    });
+  });
+
+  describe('calculateDispositionYearDepreciation', () => {
+    it('should allow half of the month of sale', () => {
+      expect(DepreciationRecaptureCalculator.calculateDispositionYearDepreciation(12000, 6)).toBeCloseTo(5500, 2);
+      expect(DepreciationRecaptureCalculator.calculateDispositionYearDepreciation(12000, 1)).toBeCloseTo(500, 2);
+    });
+  });
+
+  describe('getOrdinaryIncomeRate', () => {
+    it('should use the brackets of the tax year', () => {
+      expect(DepreciationRecaptureCalculator.getOrdinaryIncomeRate(105000, 'single')).toBe(0.24);
+      expect(DepreciationRecaptureCalculator.getOrdinaryIncomeRate(48000, 'single', 2024)).toBe(0.22);
+      expect(DepreciationRecaptureCalculator.getOrdinaryIncomeRate(48000, 'single', 2025)).toBe(0.12);
+    });
+
+    it('should index brackets for far-future years', () => {
+      expect(DepreciationRecaptureCalculator.getOrdinaryIncomeRate(105000, 'single', 2040, 3)).toBe(0.22);
+    });
+  });
+});
@@ -11,6 +11,8 @@
  * - Section 121 exclusion does NOT apply to depreciation recapture
  */
 
+import { DEFAULT_TAX_YEAR, getTaxTable } from '../data/TaxTables';
+
 export interface DepreciationRecaptureInputs {
   /** Total depreciation taken over ownership period */
   totalDepreciationTaken: number;
@@ -18,6 +20,10 @@ export interface DepreciationRecaptureInputs {
   annualIncome: number;
   /** Filing status for tax calculations */
   filingStatus: 'single' | 'married_joint' | 'married_separate' | 'head_of_household';
+  /** Tax year of the sale (defaults to the base tax table year) */
+  taxYear?: number;
+  /** Annual inflation rate (percent) for projecting future brackets */
+  inflationRate?: number;
 }
 
 export interface DepreciationRecaptureResult {
@@ -38,7 +44,7 @@ export class DepreciationRecaptureCalculator {
    * Calculate depreciation recapture tax
    */
   static calculateRecapture(inputs: DepreciationRecaptureInputs): DepreciationRecaptureResult {
-    const { totalDepreciationTaken, annualIncome, filingStatus } = inputs;
+    const { totalDepreciationTaken, annualIncome, filingStatus, taxYear, inflationRate } = inputs;
 
     // No recapture if no depreciation was taken
     if (totalDepreciationTaken <= 0) {
@@ -52,7 +58,7 @@ export class DepreciationRecaptureCalculator {
     }
 
     // Determine ordinary income tax rate for comparison
-    const ordinaryRate = this.getOrdinaryIncomeRate(annualIncome, filingStatus);
+    const ordinaryRate = this.getOrdinaryIncomeRate(annualIncome, filingStatus, taxYear, inflationRate);
     
     // Depreciation recapture is taxed at ordinary income rates, capped at 25%
     const recaptureRate = Math.min(ordinaryRate, 0.25);
@@ -97,50 +103,53 @@ export class DepreciationRecaptureCalculator {
   }
 
   /**
-   * Get ordinary income tax rate for depreciation recapture calculation
-   * Simplified brackets for 2024
+   * Straight-line depreciation by tax year using the mid-month convention.
+   * Index 0 is the year the property was placed in service: it earns
+   * (12 - month + 0.5) months of depreciation; the final year takes the remainder.
    */
-  private static getOrdinaryIncomeRate(income: number, filingStatus: string): number {
-    // 2024 tax brackets (simplified)
-    const brackets = {
-      single: [
-        { min: 0, max: 11600, rate: 0.10 },
-        { min: 11600, max: 47150, rate: 0.12 },
-        { min: 47150, max: 100525, rate: 0.22 },
-        { min: 100525, max: 191950, rate: 0.24 },
-        { min: 191950, max: 243725, rate: 0.32 },
-        { min: 243725, max: 609350, rate: 0.35 },
-        { min: 609350, max: Infinity, rate: 0.37 }
-      ],
-      married_joint: [
-        { min: 0, max: 23200, rate: 0.10 },
-        { min: 23200, max: 94300, rate: 0.12 },
-        { min: 94300, max: 201050, rate: 0.22 },
-        { min: 201050, max: 383900, rate: 0.24 },
-        { min: 383900, max: 487450, rate: 0.32 },
-        { min: 487450, max: 731200, rate: 0.35 },
-        { min: 731200, max: Infinity, rate: 0.37 }
-      ],
-      married_separate: [
-        { min: 0, max: 11600, rate: 0.10 },
-        { min: 11600, max: 47150, rate: 0.12 },
-        { min: 47150, max: 100525, rate: 0.22 },
-        { min: 100525, max: 191950, rate: 0.24 },
-        { min: 191950, max: 243725, rate: 0.32 },
-        { min: 243725, max: 365600, rate: 0.35 },
-        { min: 365600, max: Infinity, rate: 0.37 }
-      ],
-      head_of_household: [
-        { min: 0, max: 16550, rate: 0.10 },
-        { min: 16550, max: 63100, rate: 0.12 },
-        { min: 63100, max: 100500, rate: 0.22 },
-        { min: 100500, max: 191950, rate: 0.24 },
-        { min: 191950, max: 243700, rate: 0.32 },
-        { min: 243700, max: 609350, rate: 0.35 },
-        { min: 609350, max: Infinity, rate: 0.37 }
-      ]
-    };
+  static calculateStraightLineSchedule(
+    depreciableBasis: number,
+    placedInServiceMonth: number,
+    yearCount: number,
+    isResidential: boolean = true
+  ): number[] {
+    const schedule: number[] = [];
+    if (depreciableBasis <= 0) return new Array(Math.max(0, yearCount)).fill(0);
+
+    const annualDepreciation = this.calculateAnnualDepreciation(depreciableBasis, 0, isResidential);
+    const month = Math.min(12, Math.max(1, Math.round(placedInServiceMonth)));
+    let remainingBasis = depreciableBasis;
+
+    for (let year = 0; year < yearCount; year++) {
+      const fraction = year === 0 ? (12 - month + 0.5) / 12 : 1;
+      const amount = Math.min(annualDepreciation * fraction, remainingBasis);
+      schedule.push(amount);
+      remainingBasis -= amount;
+    }
+
+    return schedule;
+  }
 
+  /**
+   * Depreciation allowed in the year of sale under the mid-month convention
+   * (the month of sale counts as half a month)
+   */
+  static calculateDispositionYearDepreciation(fullYearDepreciation: number, saleMonth: number): number {
+    const month = Math.min(12, Math.max(1, Math.round(saleMonth)));
+    return fullYearDepreciation * (month - 0.5) / 12;
+  }
+
+  /**
+   * Get the marginal ordinary income tax rate (also used for rental income)
+   * Uses the tax year's brackets, inflation-indexed past the latest published table
+   */
+  static getOrdinaryIncomeRate(
+    income: number,
+    filingStatus: string,
+    taxYear: number = DEFAULT_TAX_YEAR,
+    inflationRate: number = 0
+  ): number {
+    const brackets = getTaxTable(taxYear, inflationRate).ordinaryIncomeBrackets;
     const applicableBrackets = brackets[filingStatus as keyof typeof brackets] || brackets.single;
     
     // Find the marginal tax rate
@@ -93,12 +93,12 @@ describe('FederalTaxCalculator', () => {
 
   describe('calculateFederalTax', () => {
     it('should calculate tax correctly for 0% bracket', () => {
-      const result = FederalTaxCalculator.calculateFederalTax(50000, 30000, 'single');
+      const result = FederalTaxCalculator.calculateFederalTax(15000, 30000, 'single');
       
-      expect(result.taxableGain).toBe(50000);
+      expect(result.taxableGain).toBe(15000);
       expect(result.taxRate).toBe(0.00);
       expect(result.taxAmount).toBe(0);
-      expect(result.bracketInfo.rate).toBe(0.00);
+      expect(result.bracketBreakdown.map(b => b.rate)).toEqual([0.00]);
     });
 
     it('should calculate tax correctly for 15% bracket', () => {
@@ -107,7 +107,7 @@ describe('FederalTaxCalculator', () => {
       expect(result.taxableGain).toBe(100000);
       expect(result.taxRate).toBe(0.15);
       expect(result.taxAmount).toBe(15000);
-      expect(result.bracketInfo.rate).toBe(0.15);
+      expect(result.bracketBreakdown.map(b => b.rate)).toEqual([0.15]);
     });
 
     it('should calculate tax correctly for 20% bracket', () => {
@@ -116,7 +116,7 @@ describe('FederalTaxCalculator', () => {
       expect(result.taxableGain).toBe(200000);
       expect(result.taxRate).toBe(0.20);
       expect(result.taxAmount).toBe(40000);
-      expect(result.bracketInfo.rate).toBe(0.20);
+      expect(result.bracketBreakdown.map(b => b.rate)).toEqual([0.20]);
     });
 
     it('should handle zero capital gain', () => {
@@ -142,6 +142,33 @@ describe('FederalTaxCalculator', () => {
       expect(result.taxRate).toBe(0.15);
       expect(result.taxAmount).toBe(12000);
     });
+
+    it('should stack the gain on income and spill into the 20% bracket', () => {
+      // $75k income: the gain fills 15% up to $518,900, the rest is taxed at 20%
+      const result = FederalTaxCalculator.calculateFederalTax(500000, 75000, 'single');
+
+      expect(result.bracketBreakdown.map(b => b.rate)).toEqual([0.15, 0.20]);
+      expect(result.bracketBreakdown[0].taxableAmount).toBe(443900);
+      expect(result.bracketBreakdown[1].taxableAmount).toBe(56100);
+      expect(result.taxAmount).toBeCloseTo(77805, 2); // $66,585 + $11,220
+      expect(result.taxRate).toBeCloseTo(0.15561, 5);
+    });
+
+    it('should split a gain across all three tiers', () => {
+      const result = FederalTaxCalculator.calculateFederalTax(600000, 30000, 'single');
+
+      expect(result.bracketBreakdown.map(b => b.taxableAmount)).toEqual([17025, 471875, 111100]);
+      expect(result.taxAmount).toBeCloseTo(93001.25, 2); // $70,781.25 + $22,220
+    });
+
+    it('should tax only the gain above the 0% threshold', () => {
+      // $30k income leaves $17,025 of room in the 0% bracket
+      const result = FederalTaxCalculator.calculateFederalTax(50000, 30000, 'single');
+
+      expect(result.bracketBreakdown[0].taxableAmount).toBe(17025);
+      expect(result.bracketBreakdown[0].taxAmount).toBe(0);
+      expect(result.taxAmount).toBeCloseTo(4946.25, 2); // $32,975 * 15%
+    });
   });
 
   describe('calculateFederalTaxWithAdjustments', () => {
@@ -261,8 +288,8 @@ describe('FederalTaxCalculator', () => {
       const result1 = FederalTaxCalculator.calculateFederalTax(10000, 47025, 'single');
       expect(result1.taxRate).toBe(0.15);
 
-      // Test one dollar below boundary
-      const result2 = FederalTaxCalculator.calculateFederalTax(10000, 47024, 'single');
+      // Test a gain that exactly fills the 0% bracket
+      const result2 = FederalTaxCalculator.calculateFederalTax(10000, 37025, 'single');
       expect(result2.taxRate).toBe(0.00);
     });
 
@@ -281,7 +308,67 @@ describe('FederalTaxCalculator', () => {
       const result = FederalTaxCalculator.calculateFederalTax(0.01, 100000, 'single');
       
       expect(result.taxableGain).toBe(0.01);
-      expect(result.taxAmount).toBe(0.0015); // 0.01 * 0.15
+      expect(result.taxAmount).toBeCloseTo(0.0015, 10); // 0.01 * 0.15
+    });
+  });
+
+  describe('calculateNetInvestmentIncomeTax', () => {
+    it('should use statutory MAGI thresholds by filing status', () => {
+      expect(FederalTaxCalculator.getNiitThreshold('single')).toBe(200000);
+      expect(FederalTaxCalculator.getNiitThreshold('married_joint')).toBe(250000);
+      expect(FederalTaxCalculator.getNiitThreshold('married_separate')).toBe(125000);
+      expect(FederalTaxCalculator.getNiitThreshold('head_of_household')).toBe(200000);
+    });
+
+    it('should not apply when MAGI is at or below the threshold', () => {
+      const result = FederalTaxCalculator.calculateNetInvestmentIncomeTax(50000, 200000, 'single');
+
+      expect(result.taxableAmount).toBe(0);
+      expect(result.taxAmount).toBe(0);
+    });
+
+    it('should tax MAGI over the threshold when it is less than investment income', () => {
+      const result = FederalTaxCalculator.calculateNetInvestmentIncomeTax(100000, 230000, 'single');
+
+      expect(result.taxableAmount).toBe(30000);
+      expect(result.taxAmount).toBeCloseTo(1140, 2); // $30k * 3.8%
+    });
+
+    it('should tax all investment income when it is less than MAGI over the threshold', () => {
+      const result = FederalTaxCalculator.calculateNetInvestmentIncomeTax(100000, 500000, 'married_joint');
+
+      expect(result.threshold).toBe(250000);
+      expect(result.taxableAmount).toBe(100000);
+      expect(result.taxAmount).toBeCloseTo(3800, 2);
+    });
+
+    it('should treat negative investment income as zero', () => {
+      const result = FederalTaxCalculator.calculateNetInvestmentIncomeTax(-20000, 300000, 'single');
+
+      expect(result.netInvestmentIncome).toBe(0);
+      expect(result.taxAmount).toBe(0);
+    });
+  });
+
+  describe('tax year', () => {
+    it('should use published brackets for the tax year', () => {
+      expect(FederalTaxCalculator.getTaxBrackets('single', 2025)[0].max).toBe(48350);
+      expect(FederalTaxCalculator.getCapitalGainsRate(48000, 'single', 2024)).toBe(0.15);
+      expect(FederalTaxCalculator.getCapitalGainsRate(48000, 'single', 2025)).toBe(0.00);
+    });
+
+    it('should not push a far-future sale into the 20% bracket', () => {
+      // 2024 brackets would tax $56,100 of this gain at 20%
+      const result = FederalTaxCalculator.calculateFederalTax(500000, 75000, 'single', 2040, 2.5);
+
+      expect(result.bracketBreakdown.map(b => b.rate)).toEqual([0.15]);
+      expect(result.taxAmount).toBeCloseTo(75000, 2);
+    });
+
+    it('should pass the tax year through adjustments', () => {
+      const result = FederalTaxCalculator.calculateFederalTaxWithAdjustments(500000, 75000, 'single', 0, 0, 2040, 2.5);
+
+      expect(result.taxAmount).toBeCloseTo(75000, 2);
     });
   });
-});
\ No newline at end of file
+});
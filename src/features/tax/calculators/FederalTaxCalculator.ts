@@ -1,4 +1,5 @@
 import type { FilingStatus } from '../types';
+import { DEFAULT_TAX_YEAR, getTaxTable } from '../data/TaxTables';
 
 export interface CapitalGainsTaxBracket {
   min: number;
@@ -6,46 +7,53 @@ export interface CapitalGainsTaxBracket {
   rate: number;
 }
 
+export interface CapitalGainsTaxBracketBreakdown extends CapitalGainsTaxBracket {
+  /** Portion of the gain taxed in this bracket */
+  taxableAmount: number;
+  taxAmount: number;
+}
+
 export interface FederalTaxCalculation {
   taxableGain: number;
+  /** Effective rate on the gain across all brackets */
+  taxRate: number;
+  taxAmount: number;
+  /** Gain split across the 0/15/20% tiers after stacking on ordinary income */
+  bracketBreakdown: CapitalGainsTaxBracketBreakdown[];
+}
+
+export interface NetInvestmentIncomeTaxCalculation {
+  netInvestmentIncome: number;
+  modifiedAGI: number;
+  threshold: number;
+  /** Lesser of net investment income and MAGI over the threshold */
+  taxableAmount: number;
   taxRate: number;
   taxAmount: number;
-  bracketInfo: {
-    min: number;
-    max: number;
-    rate: number;
-  };
 }
 
 export class FederalTaxCalculator {
-  private static readonly TAX_BRACKETS_2024: Record<FilingStatus, CapitalGainsTaxBracket[]> = {
-    single: [
-      { min: 0, max: 47025, rate: 0.00 },
-      { min: 47025, max: 518900, rate: 0.15 },
-      { min: 518900, max: Infinity, rate: 0.20 },
-    ],
-    married_joint: [
-      { min: 0, max: 94050, rate: 0.00 },
-      { min: 94050, max: 583750, rate: 0.15 },
-      { min: 583750, max: Infinity, rate: 0.20 },
-    ],
-    married_separate: [
-      { min: 0, max: 47025, rate: 0.00 },
-      { min: 47025, max: 291875, rate: 0.15 },
-      { min: 291875, max: Infinity, rate: 0.20 },
-    ],
-    head_of_household: [
-      { min: 0, max: 63000, rate: 0.00 },
-      { min: 63000, max: 551350, rate: 0.15 },
-      { min: 551350, max: Infinity, rate: 0.20 },
-    ],
+  /** Net Investment Income Tax rate (IRC §1411) */
+  static readonly NIIT_RATE = 0.038;
+
+  // NIIT MAGI thresholds are set by statute and not indexed for inflation
+  private static readonly NIIT_THRESHOLDS: Record<FilingStatus, number> = {
+    single: 200000,
+    married_joint: 250000,
+    married_separate: 125000,
+    head_of_household: 200000,
   };
 
   /**
    * Determine the federal capital gains tax rate based on annual income and filing status
    */
-  static getCapitalGainsRate(annualIncome: number, filingStatus: FilingStatus): number {
-    const brackets = this.TAX_BRACKETS_2024[filingStatus];
+  static getCapitalGainsRate(
+    annualIncome: number,
+    filingStatus: FilingStatus,
+    taxYear: number = DEFAULT_TAX_YEAR,
+    inflationRate: number = 0
+  ): number {
+    const brackets = this.getTaxBrackets(filingStatus, taxYear, inflationRate);
     
     for (const bracket of brackets) {
       if (annualIncome >= bracket.min && annualIncome < bracket.max) {
@@ -60,8 +68,13 @@ export class FederalTaxCalculator {
   /**
    * Get the tax bracket information for a given income and filing status
    */
-  static getTaxBracket(annualIncome: number, filingStatus: FilingStatus): CapitalGainsTaxBracket {
-    const brackets = this.TAX_BRACKETS_2024[filingStatus];
+  static getTaxBracket(
+    annualIncome: number,
+    filingStatus: FilingStatus,
+    taxYear: number = DEFAULT_TAX_YEAR,
+    inflationRate: number = 0
+  ): CapitalGainsTaxBracket {
+    const brackets = this.getTaxBrackets(filingStatus, taxYear, inflationRate);
     
     for (const bracket of brackets) {
       if (annualIncome >= bracket.min && annualIncome < bracket.max) {
@@ -74,12 +87,17 @@ export class FederalTaxCalculator {
   }
 
   /**
-   * Calculate federal capital gains tax
+   * Calculate federal capital gains tax.
+   * Ordinary income fills the brackets first; the gain is stacked on top and
+   * taxed at the rate of each bracket it spans. Brackets are those of the
+   * tax year, inflation-indexed past the latest published table.
    */
   static calculateFederalTax(
     capitalGain: number,
     annualIncome: number,
-    filingStatus: FilingStatus
+    filingStatus: FilingStatus,
+    taxYear: number = DEFAULT_TAX_YEAR,
+    inflationRate: number = 0
   ): FederalTaxCalculation {
     // Ensure we're working with positive numbers
     const taxableGain = Math.max(0, capitalGain);
@@ -89,24 +107,51 @@ export class FederalTaxCalculator {
         taxableGain: 0,
         taxRate: 0,
         taxAmount: 0,
-        bracketInfo: { min: 0, max: 0, rate: 0 },
+        bracketBreakdown: [],
       };
     }
 
-    const taxRate = this.getCapitalGainsRate(annualIncome, filingStatus);
-    const bracket = this.getTaxBracket(annualIncome, filingStatus);
-    const taxAmount = taxableGain * taxRate;
+    const bracketBreakdown = this.calculateBracketBreakdown(
+      taxableGain,
+      Math.max(0, annualIncome),
+      this.getTaxBrackets(filingStatus, taxYear, inflationRate)
+    );
+    const taxAmount = bracketBreakdown.reduce((sum, bracket) => sum + bracket.taxAmount, 0);
 
     return {
       taxableGain,
-      taxRate,
+      taxRate: taxAmount / taxableGain,
       taxAmount,
-      bracketInfo: {
+      bracketBreakdown,
+    };
+  }
+
+  /**
+   * Split a gain stacked on top of annual income across the capital gains brackets
+   */
+  static calculateBracketBreakdown(
+    gain: number,
+    annualIncome: number,
+    brackets: CapitalGainsTaxBracket[]
+  ): CapitalGainsTaxBracketBreakdown[] {
+    const breakdown: CapitalGainsTaxBracketBreakdown[] = [];
+    const gainStart = annualIncome;
+    const gainEnd = annualIncome + gain;
+
+    for (const bracket of brackets) {
+      const taxableAmount = Math.max(0, Math.min(gainEnd, bracket.max) - Math.max(gainStart, bracket.min));
+      if (taxableAmount <= 0) continue;
+
+      breakdown.push({
         min: bracket.min,
         max: bracket.max === Infinity ? Number.MAX_SAFE_INTEGER : bracket.max,
         rate: bracket.rate,
-      },
-    };
+        taxableAmount,
+        taxAmount: taxableAmount * bracket.rate,
+      });
+    }
+
+    return breakdown;
   }
 
   /**
@@ -117,7 +162,9 @@ export class FederalTaxCalculator {
     annualIncome: number,
     filingStatus: FilingStatus,
     otherCapitalGains: number = 0,
-    carryoverLosses: number = 0
+    carryoverLosses: number = 0,
+    taxYear: number = DEFAULT_TAX_YEAR,
+    inflationRate: number = 0
   ): FederalTaxCalculation {
     // Apply carryover losses first (reduces gain)
     let adjustedGain = capitalGain - Math.abs(carryoverLosses);
@@ -126,14 +173,48 @@ export class FederalTaxCalculator {
     adjustedGain += otherCapitalGains;
     
     // Calculate tax on the adjusted gain
-    return this.calculateFederalTax(adjustedGain, annualIncome, filingStatus);
+    return this.calculateFederalTax(adjustedGain, annualIncome, filingStatus, taxYear, inflationRate);
+  }
+
+  /**
+   * Calculate the 3.8% Net Investment Income Tax.
+   * MAGI must include the investment income; excluded gain (e.g. Section 121) belongs in neither.
+   */
+  static calculateNetInvestmentIncomeTax(
+    netInvestmentIncome: number,
+    modifiedAGI: number,
+    filingStatus: FilingStatus
+  ): NetInvestmentIncomeTaxCalculation {
+    const investmentIncome = Math.max(0, netInvestmentIncome);
+    const threshold = this.NIIT_THRESHOLDS[filingStatus];
+    const taxableAmount = Math.min(investmentIncome, Math.max(0, modifiedAGI - threshold));
+
+    return {
+      netInvestmentIncome: investmentIncome,
+      modifiedAGI,
+      threshold,
+      taxableAmount,
+      taxRate: this.NIIT_RATE,
+      taxAmount: taxableAmount * this.NIIT_RATE,
+    };
   }
 
   /**
-   * Get all available tax brackets for a filing status
+   * Get the NIIT MAGI threshold for a filing status
    */
-  static getTaxBrackets(filingStatus: FilingStatus): CapitalGainsTaxBracket[] {
-    return [...this.TAX_BRACKETS_2024[filingStatus]];
+  static getNiitThreshold(filingStatus: FilingStatus): number {
+    return this.NIIT_THRESHOLDS[filingStatus];
+  }
+
+  /**
+   * Get all available tax brackets for a filing status and tax year
+   */
+  static getTaxBrackets(
+    filingStatus: FilingStatus,
+    taxYear: number = DEFAULT_TAX_YEAR,
+    inflationRate: number = 0
+  ): CapitalGainsTaxBracket[] {
+    return getTaxTable(taxYear, inflationRate).capitalGainsBrackets[filingStatus];
   }
 
   /**
@@ -0,0 +1,90 @@
+import { RentalIncomeTaxCalculator, type RentalIncomeTaxInputs } from './RentalIncomeTaxCalculator';
+
+describe('RentalIncomeTaxCalculator', () => {
+  const baseInputs: RentalIncomeTaxInputs = {
+    netOperatingIncome: 30000,
+    mortgageInterest: 10000,
+    depreciation: 5000,
+    marginalRate: 0.24,
+    modifiedAGI: 90000,
+    filingStatus: 'single',
+    activeParticipation: true,
+    suspendedLossCarryforward: 0,
+    isDisposition: false
+  };
+
+  describe('calculateYear', () => {
+    it('should tax net rental income at the marginal rate', () => {
+      const result = RentalIncomeTaxCalculator.calculateYear(baseInputs);
+
+      expect(result.taxableRentalIncome).toBe(15000);
+      expect(result.incomeTax).toBeCloseTo(3600, 2);
+      expect(result.suspendedLoss).toBe(0);
+    });
+
+    it('should deduct a loss within the special allowance', () => {
+      const result = RentalIncomeTaxCalculator.calculateYear({ ...baseInputs, netOperatingIncome: 5000 });
+
+      expect(result.taxableRentalIncome).toBe(-10000);
+      expect(result.allowedLoss).toBe(10000);
+      expect(result.incomeTax).toBeCloseTo(-2400, 2);
+      expect(result.suspendedLoss).toBe(0);
+    });
+
+    it('should suspend losses above a phased-out allowance', () => {
+      const result = RentalIncomeTaxCalculator.calculateYear({
+        ...baseInputs,
+        netOperatingIncome: 5000,
+        modifiedAGI: 130000 // Allowance reduced to $10,000
+      });
+
+      expect(result.allowedLoss).toBe(10000);
+      expect(result.suspendedLoss).toBe(0);
+
+      const highIncome = RentalIncomeTaxCalculator.calculateYear({
+        ...baseInputs,
+        netOperatingIncome: 5000,
+        modifiedAGI: 150000
+      });
+
+      expect(highIncome.allowedLoss).toBe(0);
+      expect(highIncome.suspendedLoss).toBe(10000);
+      expect(highIncome.incomeTax).toBe(0);
+    });
+
+    it('should use suspended losses against later rental income', () => {
+      const result = RentalIncomeTaxCalculator.calculateYear({ ...baseInputs, suspendedLossCarryforward: 6000 });
+
+      expect(result.carryforwardUsed).toBe(6000);
+      expect(result.incomeTax).toBeCloseTo(9000 * 0.24, 2);
+      expect(result.suspendedLoss).toBe(0);
+    });
+
+    it('should release all suspended losses on disposition', () => {
+      const result = RentalIncomeTaxCalculator.calculateYear({
+        ...baseInputs,
+        modifiedAGI: 200000,
+        suspendedLossCarryforward: 40000,
+        isDisposition: true
+      });
+
+      expect(result.carryforwardUsed).toBe(15000);
+      expect(result.allowedLoss).toBe(25000);
+      expect(result.suspendedLoss).toBe(0);
+      expect(result.incomeTax).toBeCloseTo(-25000 * 0.24, 2);
+    });
+  });
+
+  describe('getSpecialAllowance', () => {
+    it('should phase out between $100,000 and $150,000 of MAGI', () => {
+      expect(RentalIncomeTaxCalculator.getSpecialAllowance(100000, 'single', true)).toBe(25000);
+      expect(RentalIncomeTaxCalculator.getSpecialAllowance(120000, 'married_joint', true)).toBe(15000);
+      expect(RentalIncomeTaxCalculator.getSpecialAllowance(160000, 'single', true)).toBe(0);
+    });
+
+    it('should allow nothing without active participation or when married filing separately', () => {
+      expect(RentalIncomeTaxCalculator.getSpecialAllowance(50000, 'single', false)).toBe(0);
+      expect(RentalIncomeTaxCalculator.getSpecialAllowance(50000, 'married_separate', true)).toBe(0);
+    });
+  });
+});
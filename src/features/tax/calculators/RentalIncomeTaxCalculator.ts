@@ -0,0 +1,111 @@
+import type { FilingStatus } from '../types';
+
+/**
+ * Rental Income Tax Calculator
+ *
+ * Computes the yearly income tax on a rental property under the passive
+ * activity loss rules (IRC §469).
+ *
+ * Key concepts:
+ * - Taxable rental income = net operating income - mortgage interest - depreciation
+ * - Net income is taxed at the owner's marginal rate after absorbing suspended losses
+ * - Losses offset other income only up to the $25,000 special allowance for active
+ *   participants, phased out by 50% of MAGI over $100,000 (none for married filing separately)
+ * - Disallowed losses are suspended and carried forward; all suspended losses are
+ *   released when the property is sold
+ * - A negative tax is the tax saved on other income by an allowed loss
+ */
+
+export interface RentalIncomeTaxInputs {
+  /** Rental income minus operating expenses (before debt service) */
+  netOperatingIncome: number;
+  /** Mortgage interest paid this year */
+  mortgageInterest: number;
+  /** Depreciation deduction this year */
+  depreciation: number;
+  /** Owner's marginal tax rate as a decimal */
+  marginalRate: number;
+  /** Modified adjusted gross income for the special allowance phase-out */
+  modifiedAGI: number;
+  /** Filing status for the special allowance */
+  filingStatus: FilingStatus;
+  /** Whether the owner actively participates in managing the rental */
+  activeParticipation: boolean;
+  /** Passive losses suspended from prior years */
+  suspendedLossCarryforward: number;
+  /** Whether the property is disposed of this year (releases suspended losses) */
+  isDisposition: boolean;
+}
+
+export interface RentalIncomeTaxResult {
+  /** NOI minus interest and depreciation (negative = loss) */
+  taxableRentalIncome: number;
+  /** Suspended losses absorbed by this year's income */
+  carryforwardUsed: number;
+  /** Loss deducted against other income this year */
+  allowedLoss: number;
+  /** Losses suspended and carried to next year */
+  suspendedLoss: number;
+  /** Tax owed on rental income (negative = tax savings from an allowed loss) */
+  incomeTax: number;
+}
+
+export class RentalIncomeTaxCalculator {
+  static readonly SPECIAL_ALLOWANCE = 25000;
+  static readonly PHASE_OUT_START = 100000;
+
+  /**
+   * Calculate one year of rental income tax and the carryforward to the next year
+   */
+  static calculateYear(inputs: RentalIncomeTaxInputs): RentalIncomeTaxResult {
+    const taxableRentalIncome = inputs.netOperatingIncome - inputs.mortgageInterest - inputs.depreciation;
+    const carryforward = Math.max(0, inputs.suspendedLossCarryforward);
+
+    if (taxableRentalIncome >= 0) {
+      const carryforwardUsed = Math.min(carryforward, taxableRentalIncome);
+      let remainingLoss = carryforward - carryforwardUsed;
+      let allowedLoss = 0;
+
+      if (inputs.isDisposition) {
+        allowedLoss = remainingLoss;
+        remainingLoss = 0;
+      }
+
+      return {
+        taxableRentalIncome,
+        carryforwardUsed,
+        allowedLoss,
+        suspendedLoss: remainingLoss,
+        incomeTax: (taxableRentalIncome - carryforwardUsed - allowedLoss) * inputs.marginalRate
+      };
+    }
+
+    // Prior suspended losses compete with this year's loss for the same allowance
+    const totalLoss = -taxableRentalIncome + carryforward;
+    const allowedLoss = inputs.isDisposition
+      ? totalLoss
+      : Math.min(totalLoss, this.getSpecialAllowance(inputs.modifiedAGI, inputs.filingStatus, inputs.activeParticipation));
+
+    return {
+      taxableRentalIncome,
+      carryforwardUsed: 0,
+      allowedLoss,
+      suspendedLoss: totalLoss - allowedLoss,
+      incomeTax: allowedLoss > 0 ? -allowedLoss * inputs.marginalRate : 0
+    };
+  }
+
+  /**
+   * Passive loss deductible against other income for an active participant
+   */
+  static getSpecialAllowance(
+    modifiedAGI: number,
+    filingStatus: FilingStatus,
+    activeParticipation: boolean
+  ): number {
+    if (!activeParticipation || filingStatus === 'married_separate') return 0;
+
+    const reduction = Math.max(0, modifiedAGI - this.PHASE_OUT_START) * 0.5;
+    return Math.max(0, this.SPECIAL_ALLOWANCE - reduction);
+  }
+}
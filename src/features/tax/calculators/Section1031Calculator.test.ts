@@ -0,0 +1,77 @@
+import { Section1031Calculator, type Section1031ExchangeInputs } from './Section1031Calculator';
+
+describe('Section1031Calculator', () => {
+  const baseInputs: Section1031ExchangeInputs = {
+    amountRealized: 600000,
+    mortgageRelieved: 200000,
+    capitalGain: 150000,
+    depreciationTaken: 50000,
+    replacementPrice: 800000,
+    replacementDebt: 400000
+  };
+
+  it('should defer all gain when equity and debt are fully replaced', () => {
+    const result = Section1031Calculator.calculateExchange(baseInputs);
+
+    expect(result.totalBoot).toBe(0);
+    expect(result.exchangedEquity).toBe(400000);
+    expect(result.deferredCapitalGain).toBe(150000);
+    expect(result.deferredRecapture).toBe(50000);
+    expect(result.recognizedCapitalGain).toBe(0);
+    expect(result.notes).toContain('Full deferral');
+  });
+
+  it('should tax cash boot as recapture first, then capital gain', () => {
+    const result = Section1031Calculator.calculateExchange({
+      ...baseInputs,
+      replacementPrice: 720000,
+      replacementDebt: 400000 // $320k down payment leaves $80k of cash
+    });
+
+    expect(result.cashBoot).toBe(80000);
+    expect(result.recognizedRecapture).toBe(50000);
+    expect(result.recognizedCapitalGain).toBe(30000);
+    expect(result.deferredRecapture).toBe(0);
+    expect(result.deferredCapitalGain).toBe(120000);
+    expect(result.notes).toContain('Partial deferral');
+  });
+
+  it('should tax debt relief not offset by added cash', () => {
+    const result = Section1031Calculator.calculateExchange({
+      ...baseInputs,
+      replacementPrice: 500000,
+      replacementDebt: 100000 // Debt drops $100k and equity exactly covers the down payment
+    });
+
+    expect(result.cashBoot).toBe(0);
+    expect(result.mortgageBoot).toBe(100000);
+    expect(result.recognizedRecapture).toBe(50000);
+    expect(result.recognizedCapitalGain).toBe(50000);
+  });
+
+  it('should let added cash offset mortgage boot', () => {
+    const result = Section1031Calculator.calculateExchange({
+      ...baseInputs,
+      replacementPrice: 550000,
+      replacementDebt: 100000 // $50k of extra cash offsets half the debt relief
+    });
+
+    expect(result.mortgageBoot).toBe(50000);
+    expect(result.totalBoot).toBe(50000);
+  });
+
+  it('should never recognize more than the realized gain', () => {
+    const result = Section1031Calculator.calculateExchange({
+      ...baseInputs,
+      capitalGain: 10000,
+      depreciationTaken: 0,
+      replacementPrice: 300000,
+      replacementDebt: 0
+    });
+
+    expect(result.totalBoot).toBe(300000);
+    expect(result.recognizedCapitalGain).toBe(10000);
+    expect(result.deferredCapitalGain).toBe(0);
+    expect(result.notes).toContain('No deferral');
+  });
+});
@@ -0,0 +1,93 @@
+export interface Section1031ExchangeInputs {
+  /** Sale price minus selling costs of the relinquished property */
+  amountRealized: number;
+  /** Mortgage paid off at the sale of the relinquished property */
+  mortgageRelieved: number;
+  /** Capital gain on the relinquished property (excluding depreciation) */
+  capitalGain: number;
+  /** Depreciation taken on the relinquished property (unrecaptured §1250 gain) */
+  depreciationTaken: number;
+  /** Purchase price of the replacement property */
+  replacementPrice: number;
+  /** Mortgage taken on to buy the replacement property */
+  replacementDebt: number;
+}
+
+export interface Section1031Exchange {
+  /** Equity from the sale not needed for the replacement down payment */
+  cashBoot: number;
+  /** Net debt relief (old mortgage minus new mortgage) */
+  mortgageBoot: number;
+  /** Total boot taxed in the year of the exchange */
+  totalBoot: number;
+  /** Equity rolled into the replacement property */
+  exchangedEquity: number;
+  /** Depreciation recapture recognized because of boot */
+  recognizedRecapture: number;
+  /** Capital gain recognized because of boot */
+  recognizedCapitalGain: number;
+  /** Depreciation recapture carried to the replacement property */
+  deferredRecapture: number;
+  /** Capital gain carried to the replacement property */
+  deferredCapitalGain: number;
+  notes: string;
+}
+
+/**
+ * Section 1031 Like-Kind Exchange Calculator
+ *
+ * Under Section 1031 of the Internal Revenue Code, gain on the sale of
+ * investment real estate is deferred when the proceeds buy a replacement
+ * property. Gain is recognized only to the extent of boot received.
+ *
+ * Key concepts:
+ * - Cash boot: sale equity not reinvested in the replacement down payment
+ * - Mortgage boot: debt relieved in excess of new debt; cash added to the
+ *   exchange offsets mortgage boot, but new debt never offsets cash boot
+ * - Recognized gain is characterized as depreciation recapture first
+ * - Deferred gain lowers the replacement property's basis and is taxed
+ *   when the replacement is sold
+ */
+export class Section1031Calculator {
+  /**
+   * Calculate boot, recognized gain and deferred gain for an exchange
+   */
+  static calculateExchange(inputs: Section1031ExchangeInputs): Section1031Exchange {
+    const saleEquity = inputs.amountRealized - inputs.mortgageRelieved;
+    const replacementDownPayment = Math.max(0, inputs.replacementPrice - inputs.replacementDebt);
+    const netCash = saleEquity - replacementDownPayment;
+    const netDebtRelief = inputs.mortgageRelieved - inputs.replacementDebt;
+
+    const cashBoot = Math.max(0, netCash);
+    const cashAdded = Math.max(0, -netCash);
+    const mortgageBoot = Math.max(0, netDebtRelief - cashAdded);
+    const totalBoot = cashBoot + mortgageBoot;
+
+    const capitalGain = Math.max(0, inputs.capitalGain);
+    const depreciationTaken = Math.max(0, inputs.depreciationTaken);
+    const recognizedRecapture = Math.min(depreciationTaken, totalBoot);
+    const recognizedCapitalGain = Math.min(capitalGain, totalBoot - recognizedRecapture);
+
+    const deferredRecapture = depreciationTaken - recognizedRecapture;
+    const deferredCapitalGain = capitalGain - recognizedCapitalGain;
+
+    let notes = 'Full deferral - all equity and debt replaced';
+    if (totalBoot > 0 && deferredRecapture + deferredCapitalGain > 0) {
+      notes = `Partial deferral - $${Math.round(totalBoot).toLocaleString()} of boot is taxable`;
+    } else if (totalBoot > 0) {
+      notes = 'No deferral - boot exceeds the realized gain';
+    }
+
+    return {
+      cashBoot,
+      mortgageBoot,
+      totalBoot,
+      exchangedEquity: Math.max(0, saleEquity - cashBoot),
+      recognizedRecapture,
+      recognizedCapitalGain,
+      deferredRecapture,
+      deferredCapitalGain,
+      notes
+    };
+  }
+}
@@ -389,4 +389,11 @@ describe('Section121Calculator', () => {
       expect(summary.exclusionAmounts.head_of_household).toBe('$250,000');
     });
   });
-});
\ No newline at end of file
+
+  describe('tax year', () => {
+    it('should not index the exclusion for future tax years', () => {
+      expect(Section121Calculator.getMaxExclusion('single', 2040)).toBe(250000);
+      expect(Section121Calculator.getMaxExclusion('married_joint', 2040)).toBe(500000);
+    });
+  });
+});
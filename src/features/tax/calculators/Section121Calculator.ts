@@ -1,4 +1,5 @@
 import type { FilingStatus } from '../types';
+import { DEFAULT_TAX_YEAR, getTaxTable, SECTION_121_EXCLUSION_AMOUNTS } from '../data/TaxTables';
 
 export interface Section121Exclusion {
   isEligible: boolean;
@@ -24,14 +25,6 @@ export interface Section121Requirements {
  * and use requirements.
  */
 export class Section121Calculator {
-  // Exclusion amounts by filing status (2024)
-  private static readonly EXCLUSION_AMOUNTS: Record<FilingStatus, number> = {
-    single: 250000,
-    married_joint: 500000,
-    married_separate: 250000,
-    head_of_household: 250000,
-  };
-
   // Ownership and use requirements
   private static readonly OWNERSHIP_REQUIREMENT_YEARS = 2;
   private static readonly USE_REQUIREMENT_YEARS = 2;
@@ -43,7 +36,8 @@ export class Section121Calculator {
   static calculateExclusion(
     capitalGain: number,
     filingStatus: FilingStatus,
-    requirements: Section121Requirements
+    requirements: Section121Requirements,
+    taxYear: number = DEFAULT_TAX_YEAR
   ): Section121Exclusion {
     // Check if property qualifies as primary residence
     if (!requirements.isPrimaryResidence) {
@@ -90,7 +84,7 @@ export class Section121Calculator {
     }
 
     // Calculate exclusion
-    const maxExclusion = this.EXCLUSION_AMOUNTS[filingStatus];
+    const maxExclusion = this.getMaxExclusion(filingStatus, taxYear);
     const appliedExclusion = Math.min(Math.max(0, capitalGain), maxExclusion);
     const remainingGain = capitalGain - appliedExclusion;
 
@@ -103,10 +97,10 @@ export class Section121Calculator {
   }
 
   /**
-   * Get maximum exclusion amount for filing status
+   * Get maximum exclusion amount for filing status (fixed by statute, not inflation-indexed)
    */
-  static getMaxExclusion(filingStatus: FilingStatus): number {
-    return this.EXCLUSION_AMOUNTS[filingStatus];
+  static getMaxExclusion(filingStatus: FilingStatus, taxYear: number = DEFAULT_TAX_YEAR): number {
+    return getTaxTable(taxYear).section121Exclusion[filingStatus];
   }
 
   /**
@@ -177,10 +171,11 @@ export class Section121Calculator {
       monthsOwned?: number;
       monthsLived?: number;
       reasonCode?: 'military' | 'health' | 'work' | 'other';
-    }
+    },
+    taxYear: number = DEFAULT_TAX_YEAR
   ): Section121Exclusion {
     if (!qualifyingCircumstances.hasQualifyingCircumstances) {
-      return this.calculateExclusion(capitalGain, filingStatus, requirements);
+      return this.calculateExclusion(capitalGain, filingStatus, requirements, taxYear);
     }
 
     if (!requirements.isPrimaryResidence) {
@@ -202,7 +197,7 @@ export class Section121Calculator {
     const qualifyingMonths = Math.min(monthsOwned, monthsLived);
     const partialRatio = Math.min(1, qualifyingMonths / requiredMonths);
     
-    const fullExclusion = this.EXCLUSION_AMOUNTS[filingStatus];
+    const fullExclusion = this.getMaxExclusion(filingStatus, taxYear);
     const maxExclusion = Math.floor(fullExclusion * partialRatio);
     const appliedExclusion = Math.min(Math.max(0, capitalGain), maxExclusion);
     const remainingGain = capitalGain - appliedExclusion;
@@ -241,7 +236,7 @@ export class Section121Calculator {
       ownership: `Must own the home for at least ${this.OWNERSHIP_REQUIREMENT_YEARS} years`,
       use: `Must live in the home as your primary residence for at least ${this.USE_REQUIREMENT_YEARS} years`,
       waitingPeriod: `Cannot use exclusion if used within the last ${this.EXCLUSION_WAITING_PERIOD_YEARS} years`,
-      exclusionAmounts: Object.entries(this.EXCLUSION_AMOUNTS).reduce((acc, [status, amount]) => {
+      exclusionAmounts: Object.entries(SECTION_121_EXCLUSION_AMOUNTS).reduce((acc, [status, amount]) => {
         acc[status as FilingStatus] = this.formatExclusion(amount);
         return acc;
       }, {} as Record<FilingStatus, string>),
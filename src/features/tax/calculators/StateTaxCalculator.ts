@@ -1,12 +1,24 @@
 import { getStateTaxInfo, hasCapitalGainsTax, getStateTaxRate } from '../data/StateTaxRates';
+import { getStateTaxBrackets, type StateTaxBracket } from '../data/StateTaxBrackets';
+import { DEFAULT_TAX_YEAR, getTaxTable } from '../data/TaxTables';
+import type { FilingStatus } from '../types';
+
+export interface StateTaxBracketBreakdown extends StateTaxBracket {
+  /** Portion of the gain taxed in this bracket */
+  taxableAmount: number;
+  taxAmount: number;
+}
 
 export interface StateTaxCalculation {
   stateCode: string;
   stateName: string;
   hasCapitalGainsTax: boolean;
   taxableGain: number;
+  /** Effective rate on the gain (the flat rate for simplified states) */
   taxRate: number;
   taxAmount: number;
+  /** Gain taxed in each bracket, stacked on top of annual income */
+  bracketBreakdown: StateTaxBracketBreakdown[];
   notes?: string;
   isSimplified?: boolean;
 }
@@ -14,11 +26,13 @@ export interface StateTaxCalculation {
 /**
  * State Capital Gains Tax Calculator
  * 
- * Calculates state capital gains taxes using simplified tax rates.
- * This is a simplified calculator that uses flat rates per state.
+ * Calculates state capital gains taxes. States with bracket tables (CA, NY,
+ * NJ, OR, MN) tax the gain progressively, stacked on top of annual income;
+ * other states use a simplified flat rate. Brackets are those of the tax
+ * year, inflation-indexed past the latest published table.
  * 
  * Important Notes:
- * - Many states have progressive tax brackets similar to federal taxes
+ * - Flat-rate states are approximations of progressive brackets
  * - Some states have special rules for capital gains (exclusions, deductions)
  * - Local taxes may apply in some jurisdictions
  * - This calculator provides estimates only
@@ -29,7 +43,11 @@ export class StateTaxCalculator {
    */
   static calculateStateTax(
     capitalGain: number,
-    stateCode: string
+    stateCode: string,
+    annualIncome: number = 0,
+    filingStatus: FilingStatus = 'single',
+    taxYear: number = DEFAULT_TAX_YEAR,
+    inflationRate: number = 0
   ): StateTaxCalculation {
     const stateInfo = getStateTaxInfo(stateCode);
     
@@ -41,6 +59,7 @@ export class StateTaxCalculator {
         taxableGain: 0,
         taxRate: 0,
         taxAmount: 0,
+        bracketBreakdown: [],
         notes: 'State not found in tax database',
       };
     }
@@ -56,11 +75,30 @@ export class StateTaxCalculator {
         taxableGain,
         taxRate: 0,
         taxAmount: 0,
+        bracketBreakdown: [],
         notes: stateInfo.notes,
         isSimplified: stateInfo.isSimplified,
       };
     }
 
+    const brackets = getStateTaxBrackets(stateInfo.code, filingStatus, getTaxTable(taxYear, inflationRate).stateBrackets);
+    if (brackets) {
+      const bracketBreakdown = this.calculateBracketBreakdown(taxableGain, Math.max(0, annualIncome), brackets);
+      const taxAmount = bracketBreakdown.reduce((sum, bracket) => sum + bracket.taxAmount, 0);
+
+      return {
+        stateCode: stateInfo.code,
+        stateName: stateInfo.name,
+        hasCapitalGainsTax: stateInfo.hasCapitalGainsTax,
+        taxableGain,
+        taxRate: taxAmount / taxableGain,
+        taxAmount,
+        bracketBreakdown,
+        notes: stateInfo.notes,
+        isSimplified: false,
+      };
+    }
+
     const taxAmount = taxableGain * stateInfo.rate;
 
     return {
@@ -70,21 +108,52 @@ export class StateTaxCalculator {
       taxableGain,
       taxRate: stateInfo.rate,
       taxAmount,
+      bracketBreakdown: [{ min: 0, max: Infinity, rate: stateInfo.rate, taxableAmount: taxableGain, taxAmount }],
       notes: stateInfo.notes,
       isSimplified: stateInfo.isSimplified,
     };
   }
 
+  /**
+   * Split a gain across brackets, starting where annual income leaves off
+   */
+  static calculateBracketBreakdown(
+    gain: number,
+    annualIncome: number,
+    brackets: StateTaxBracket[]
+  ): StateTaxBracketBreakdown[] {
+    const breakdown: StateTaxBracketBreakdown[] = [];
+    const gainStart = annualIncome;
+    const gainEnd = annualIncome + gain;
+
+    for (const bracket of brackets) {
+      const taxableAmount = Math.max(0, Math.min(gainEnd, bracket.max) - Math.max(gainStart, bracket.min));
+      if (taxableAmount <= 0) continue;
+
+      breakdown.push({
+        ...bracket,
+        taxableAmount,
+        taxAmount: taxableAmount * bracket.rate
+      });
+    }
+
+    return breakdown;
+  }
+
   /**
    * Calculate state tax after Section 121 exclusion
    */
   static calculateStateTaxAfterExclusion(
     totalCapitalGain: number,
     section121ExcludedAmount: number,
-    stateCode: string
+    stateCode: string,
+    annualIncome: number = 0,
+    filingStatus: FilingStatus = 'single',
+    taxYear: number = DEFAULT_TAX_YEAR,
+    inflationRate: number = 0
   ): StateTaxCalculation {
     const remainingGain = Math.max(0, totalCapitalGain - section121ExcludedAmount);
-    return this.calculateStateTax(remainingGain, stateCode);
+    return this.calculateStateTax(remainingGain, stateCode, annualIncome, filingStatus, taxYear, inflationRate);
   }
 
   /**
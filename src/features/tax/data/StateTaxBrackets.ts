@@ -0,0 +1,204 @@
+/**
+ * State Income Tax Brackets
+ *
+ * Progressive income tax brackets (2024 tax year) for states where a flat
+ * rate badly misstates capital gains tax. These states tax capital gains as
+ * ordinary income, so the gain is stacked on top of other income.
+ *
+ * Sources:
+ * - California Franchise Tax Board (includes the 1% Mental Health Services
+ *   Tax on income over $1,000,000 for every filing status)
+ * - New York State Department of Taxation and Finance
+ * - New Jersey Division of Taxation
+ * - Oregon Department of Revenue
+ * - Minnesota Department of Revenue
+ *
+ * Note: Brackets are applied to annual income as entered (no state
+ * deductions, exemptions or credits), and NY's benefit recapture for high
+ * earners is not modelled.
+ *
+ * Projected years index thresholds with inflation, except those fixed by
+ * law: California's $1,000,000 Mental Health Services Tax threshold and all
+ * New Jersey brackets.
+ */
+
+import type { FilingStatus } from '../types';
+
+export interface StateTaxBracket {
+  min: number;
+  max: number;
+  /** Marginal rate as decimal */
+  rate: number;
+  /** False when the lower threshold is fixed by law instead of indexed to inflation */
+  indexed?: boolean;
+}
+
+const notIndexed = (brackets: StateTaxBracket[]): StateTaxBracket[] =>
+  brackets.map(bracket => ({ ...bracket, indexed: false }));
+
+const CA_SINGLE: StateTaxBracket[] = [
+  { min: 0, max: 10756, rate: 0.01 },
+  { min: 10756, max: 25499, rate: 0.02 },
+  { min: 25499, max: 40245, rate: 0.04 },
+  { min: 40245, max: 55866, rate: 0.06 },
+  { min: 55866, max: 70606, rate: 0.08 },
+  { min: 70606, max: 360659, rate: 0.093 },
+  { min: 360659, max: 432787, rate: 0.103 },
+  { min: 432787, max: 721314, rate: 0.113 },
+  { min: 721314, max: 1000000, rate: 0.123 },
+  { min: 1000000, max: Infinity, rate: 0.133, indexed: false }
+];
+
+const NY_SINGLE: StateTaxBracket[] = [
+  { min: 0, max: 8500, rate: 0.04 },
+  { min: 8500, max: 11700, rate: 0.045 },
+  { min: 11700, max: 13900, rate: 0.0525 },
+  { min: 13900, max: 80650, rate: 0.055 },
+  { min: 80650, max: 215400, rate: 0.06 },
+  { min: 215400, max: 1077550, rate: 0.0685 },
+  { min: 1077550, max: 5000000, rate: 0.0965 },
+  { min: 5000000, max: 25000000, rate: 0.103 },
+  { min: 25000000, max: Infinity, rate: 0.109 }
+];
+
+const NJ_SINGLE: StateTaxBracket[] = notIndexed([
+  { min: 0, max: 20000, rate: 0.014 },
+  { min: 20000, max: 35000, rate: 0.0175 },
+  { min: 35000, max: 40000, rate: 0.035 },
+  { min: 40000, max: 75000, rate: 0.05525 },
+  { min: 75000, max: 500000, rate: 0.0637 },
+  { min: 500000, max: 1000000, rate: 0.0897 },
+  { min: 1000000, max: Infinity, rate: 0.1075 }
+]);
+
+const NJ_JOINT: StateTaxBracket[] = notIndexed([
+  { min: 0, max: 20000, rate: 0.014 },
+  { min: 20000, max: 50000, rate: 0.0175 },
+  { min: 50000, max: 70000, rate: 0.0245 },
+  { min: 70000, max: 80000, rate: 0.035 },
+  { min: 80000, max: 150000, rate: 0.05525 },
+  { min: 150000, max: 500000, rate: 0.0637 },
+  { min: 500000, max: 1000000, rate: 0.0897 },
+  { min: 1000000, max: Infinity, rate: 0.1075 }
+]);
+
+const OR_SINGLE: StateTaxBracket[] = [
+  { min: 0, max: 4300, rate: 0.0475 },
+  { min: 4300, max: 10750, rate: 0.0675 },
+  { min: 10750, max: 125000, rate: 0.0875 },
+  { min: 125000, max: Infinity, rate: 0.099 }
+];
+
+const OR_JOINT: StateTaxBracket[] = [
+  { min: 0, max: 8600, rate: 0.0475 },
+  { min: 8600, max: 21500, rate: 0.0675 },
+  { min: 21500, max: 250000, rate: 0.0875 },
+  { min: 250000, max: Infinity, rate: 0.099 }
+];
+
+export const STATE_TAX_BRACKETS: Record<string, Record<FilingStatus, StateTaxBracket[]>> = {
+  CA: {
+    single: CA_SINGLE,
+    married_separate: CA_SINGLE,
+    married_joint: [
+      { min: 0, max: 21512, rate: 0.01 },
+      { min: 21512, max: 50998, rate: 0.02 },
+      { min: 50998, max: 80490, rate: 0.04 },
+      { min: 80490, max: 111732, rate: 0.06 },
+      { min: 111732, max: 141212, rate: 0.08 },
+      { min: 141212, max: 721318, rate: 0.093 },
+      { min: 721318, max: 865574, rate: 0.103 },
+      { min: 865574, max: 1000000, rate: 0.113 },
+      { min: 1000000, max: 1442628, rate: 0.123, indexed: false },
+      { min: 1442628, max: Infinity, rate: 0.133 }
+    ],
+    head_of_household: [
+      { min: 0, max: 21527, rate: 0.01 },
+      { min: 21527, max: 51000, rate: 0.02 },
+      { min: 51000, max: 65744, rate: 0.04 },
+      { min: 65744, max: 81364, rate: 0.06 },
+      { min: 81364, max: 96107, rate: 0.08 },
+      { min: 96107, max: 490493, rate: 0.093 },
+      { min: 490493, max: 588593, rate: 0.103 },
+      { min: 588593, max: 980987, rate: 0.113 },
+      { min: 980987, max: 1000000, rate: 0.123 },
+      { min: 1000000, max: Infinity, rate: 0.133, indexed: false }
+    ]
+  },
+  NY: {
+    single: NY_SINGLE,
+    married_separate: NY_SINGLE,
+    married_joint: [
+      { min: 0, max: 17150, rate: 0.04 },
+      { min: 17150, max: 23600, rate: 0.045 },
+      { min: 23600, max: 27900, rate: 0.0525 },
+      { min: 27900, max: 161550, rate: 0.055 },
+      { min: 161550, max: 323200, rate: 0.06 },
+      { min: 323200, max: 2155350, rate: 0.0685 },
+      { min: 2155350, max: 5000000, rate: 0.0965 },
+      { min: 5000000, max: 25000000, rate: 0.103 },
+      { min: 25000000, max: Infinity, rate: 0.109 }
+    ],
+    head_of_household: [
+      { min: 0, max: 12800, rate: 0.04 },
+      { min: 12800, max: 17650, rate: 0.045 },
+      { min: 17650, max: 20900, rate: 0.0525 },
+      { min: 20900, max: 107650, rate: 0.055 },
+      { min: 107650, max: 269300, rate: 0.06 },
+      { min: 269300, max: 1616450, rate: 0.0685 },
+      { min: 1616450, max: 5000000, rate: 0.0965 },
+      { min: 5000000, max: 25000000, rate: 0.103 },
+      { min: 25000000, max: Infinity, rate: 0.109 }
+    ]
+  },
+  NJ: {
+    single: NJ_SINGLE,
+    married_separate: NJ_SINGLE,
+    married_joint: NJ_JOINT,
+    head_of_household: NJ_JOINT
+  },
+  OR: {
+    single: OR_SINGLE,
+    married_separate: OR_SINGLE,
+    married_joint: OR_JOINT,
+    head_of_household: OR_JOINT
+  },
+  MN: {
+    single: [
+      { min: 0, max: 31690, rate: 0.0535 },
+      { min: 31690, max: 104090, rate: 0.068 },
+      { min: 104090, max: 193240, rate: 0.0785 },
+      { min: 193240, max: Infinity, rate: 0.0985 }
+    ],
+    married_joint: [
+      { min: 0, max: 46330, rate: 0.0535 },
+      { min: 46330, max: 184040, rate: 0.068 },
+      { min: 184040, max: 321450, rate: 0.0785 },
+      { min: 321450, max: Infinity, rate: 0.0985 }
+    ],
+    married_separate: [
+      { min: 0, max: 23165, rate: 0.0535 },
+      { min: 23165, max: 92020, rate: 0.068 },
+      { min: 92020, max: 160725, rate: 0.0785 },
+      { min: 160725, max: Infinity, rate: 0.0985 }
+    ],
+    head_of_household: [
+      { min: 0, max: 39010, rate: 0.0535 },
+      { min: 39010, max: 156760, rate: 0.068 },
+      { min: 156760, max: 256880, rate: 0.0785 },
+      { min: 256880, max: Infinity, rate: 0.0985 }
+    ]
+  }
+};
+
+/**
+ * Get progressive brackets for a state and filing status, or null for flat-rate states.
+ * Pass a year's table from the tax table registry to use brackets other than 2024.
+ */
+export function getStateTaxBrackets(
+  stateCode: string,
+  filingStatus: FilingStatus,
+  brackets: Record<string, Record<FilingStatus, StateTaxBracket[]>> = STATE_TAX_BRACKETS
+): StateTaxBracket[] | null {
+  return brackets[stateCode.toUpperCase()]?.[filingStatus] ?? null;
+}
@@ -4,6 +4,8 @@
  * This file contains capital gains tax rates for US states as of 2024.
  * Note: Some states have complex tax structures with multiple brackets,
  * while others have flat rates or no capital gains tax at all.
+ * Flat rates are applied to every tax year; progressive brackets are
+ * year-indexed through the tax table registry (TaxTables.ts).
  */
 
 export interface StateTaxInfo {
@@ -13,7 +15,7 @@ export interface StateTaxInfo {
   name: string;
   /** Whether the state has capital gains tax */
   hasCapitalGainsTax: boolean;
-  /** Tax rate as decimal (e.g., 0.133 for 13.3%) - may be simplified rate */
+  /** Tax rate as decimal (e.g., 0.133 for 13.3%) - top marginal rate for bracketed states */
   rate: number;
   /** Additional information about the tax structure */
   notes?: string;
@@ -107,24 +109,21 @@ export const STATE_TAX_RATES: Record<string, StateTaxInfo> = {
     name: 'California',
     hasCapitalGainsTax: true,
     rate: 0.133,
-    notes: 'Highest marginal rate 13.3% (includes 1% Mental Health Tax)',
-    isSimplified: true
+    notes: 'Progressive brackets from 1% to 13.3% (includes 1% Mental Health Tax)'
   },
   NY: {
     code: 'NY',
     name: 'New York',
     hasCapitalGainsTax: true,
     rate: 0.109,
-    notes: 'Highest marginal rate 10.9% (plus local taxes)',
-    isSimplified: true
+    notes: 'Progressive brackets from 4% to 10.9% (plus local taxes)'
   },
   NJ: {
     code: 'NJ',
     name: 'New Jersey',
     hasCapitalGainsTax: true,
     rate: 0.1075,
-    notes: 'Highest marginal rate 10.75%',
-    isSimplified: true
+    notes: 'Progressive brackets from 1.4% to 10.75%'
   },
   HI: {
     code: 'HI',
@@ -165,16 +164,14 @@ export const STATE_TAX_RATES: Record<string, StateTaxInfo> = {
     name: 'Oregon',
     hasCapitalGainsTax: true,
     rate: 0.099,
-    notes: 'Highest marginal rate 9.9%',
-    isSimplified: true
+    notes: 'Progressive brackets from 4.75% to 9.9%'
   },
   MN: {
     code: 'MN',
     name: 'Minnesota',
     hasCapitalGainsTax: true,
     rate: 0.0985,
-    notes: 'Highest marginal rate 9.85%',
-    isSimplified: true
+    notes: 'Progressive brackets from 5.35% to 9.85%'
   },
 
   // Lower tax states
@@ -0,0 +1,110 @@
+import { STATE_TAX_BRACKETS } from './StateTaxBrackets';
+import { DEFAULT_TAX_YEAR, LATEST_TAX_YEAR, getInflationFactor, getTaxTable } from './TaxTables';
+
+describe('TaxTables', () => {
+  describe('published years', () => {
+    it('should return the published 2024 table by default', () => {
+      const table = getTaxTable();
+
+      expect(table.taxYear).toBe(DEFAULT_TAX_YEAR);
+      expect(table.isProjected).toBe(false);
+      expect(table.capitalGainsBrackets.single[0]).toEqual({ min: 0, max: 47025, rate: 0.00 });
+      expect(table.stateBrackets.CA.single[5]).toEqual({ min: 70606, max: 360659, rate: 0.093 });
+    });
+
+    it('should return published 2025 federal brackets', () => {
+      const table = getTaxTable(2025, 3);
+
+      expect(table.federalSourceYear).toBe(2025);
+      expect(table.capitalGainsBrackets.single[1]).toEqual({ min: 48350, max: 533400, rate: 0.15 });
+      expect(table.ordinaryIncomeBrackets.married_joint[0]).toEqual({ min: 0, max: 23850, rate: 0.10 });
+    });
+
+    it('should project state brackets from their latest published year', () => {
+      const table = getTaxTable(2025, 3);
+
+      expect(table.isProjected).toBe(true);
+      expect(table.stateBrackets.OR.single[3].min).toBe(128750); // $125,000 * 1.03
+    });
+
+    it('should use the earliest table for years before it', () => {
+      const table = getTaxTable(2015, 3);
+
+      expect(table.capitalGainsBrackets.single[0].max).toBe(47025);
+      expect(table.isProjected).toBe(false);
+    });
+  });
+
+  describe('projected years', () => {
+    it('should index federal thresholds with inflation and round down to $50', () => {
+      const table = getTaxTable(2035, 2.5);
+      const factor = getInflationFactor(LATEST_TAX_YEAR, 2035, 2.5);
+
+      expect(table.isProjected).toBe(true);
+      expect(table.federalSourceYear).toBe(LATEST_TAX_YEAR);
+      expect(table.capitalGainsBrackets.single[0].max).toBe(Math.floor((48350 * factor) / 50) * 50);
+      expect(table.capitalGainsBrackets.single[0].max % 50).toBe(0);
+      expect(table.capitalGainsBrackets.single[2].max).toBe(Infinity);
+    });
+
+    it('should keep brackets contiguous after indexing', () => {
+      const brackets = getTaxTable(2040, 3.1).ordinaryIncomeBrackets.head_of_household;
+
+      for (let i = 1; i < brackets.length; i++) {
+        expect(brackets[i].min).toBe(brackets[i - 1].max);
+      }
+    });
+
+    it('should use the latest published table unchanged with zero inflation', () => {
+      const table = getTaxTable(2040, 0);
+
+      expect(table.capitalGainsBrackets.married_joint).toEqual(getTaxTable(LATEST_TAX_YEAR).capitalGainsBrackets.married_joint);
+    });
+
+    it('should keep state thresholds that are not indexed by law', () => {
+      const table = getTaxTable(2030, 3);
+      const thresholds = (brackets: { min: number; max: number; rate: number }[]) =>
+        brackets.map(({ min, max, rate }) => ({ min, max, rate }));
+
+      expect(thresholds(table.stateBrackets.NJ.single)).toEqual(thresholds(STATE_TAX_BRACKETS.NJ.single));
+      expect(thresholds(table.stateBrackets.NJ.married_joint)).toEqual(thresholds(STATE_TAX_BRACKETS.NJ.married_joint));
+
+      const california = table.stateBrackets.CA.married_joint;
+      expect(california.map(bracket => bracket.min)).toContain(1000000);
+      expect(california[california.length - 1].min).toBe(Math.floor(1442628 * getInflationFactor(2024, 2030, 3)));
+    });
+
+    it('should keep the California surcharge once indexed thresholds pass it', () => {
+      const factor = getInflationFactor(2024, 2040, 3);
+      const single = getTaxTable(2040, 3).stateBrackets.CA.single;
+      const rateAt = (income: number) => single.find(bracket => income >= bracket.min && income < bracket.max)!.rate;
+
+      // The 12.3% threshold is indexed past $1M, so income just over $1M is at 11.3% plus the 1% surcharge
+      expect(721314 * factor).toBeGreaterThan(1000000);
+      expect(rateAt(999999)).toBe(0.113);
+      expect(rateAt(1000000)).toBe(0.123);
+      expect(rateAt(721314 * factor + 1)).toBe(0.133);
+      for (let i = 1; i < single.length; i++) {
+        expect(single[i].min).toBe(single[i - 1].max);
+      }
+    });
+
+    it('should not index Section 121 exclusion amounts', () => {
+      const table = getTaxTable(2040, 3);
+
+      expect(table.section121Exclusion.single).toBe(250000);
+      expect(table.section121Exclusion.married_joint).toBe(500000);
+    });
+  });
+
+  describe('getInflationFactor', () => {
+    it('should compound the rate over the years past the source year', () => {
+      expect(getInflationFactor(2025, 2027, 10)).toBeCloseTo(1.21, 10);
+    });
+
+    it('should be 1 for years at or before the source year', () => {
+      expect(getInflationFactor(2025, 2025, 3)).toBe(1);
+      expect(getInflationFactor(2025, 2020, 3)).toBe(1);
+    });
+  });
+});
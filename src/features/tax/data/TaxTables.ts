@@ -0,0 +1,309 @@
+/**
+ * Year-Indexed Tax Table Registry
+ *
+ * Published tax tables keyed by tax year. Each table may hold only some
+ * parts (federal brackets are usually published before state brackets);
+ * a missing part falls back to the latest earlier year that has it.
+ *
+ * Key concepts:
+ * - Years after the latest published table are projected by indexing the
+ *   bracket thresholds with CPI, using the portfolio inflation rate
+ * - Federal thresholds are rounded down to a multiple of $50, state
+ *   thresholds to the nearest dollar
+ * - Years before the earliest published table use the earliest table
+ * - Section 121 exclusion amounts are fixed by statute and never indexed
+ *
+ * Sources:
+ * - IRS Rev. Proc. 2023-34 (2024) and Rev. Proc. 2024-40 (2025)
+ * - State brackets: see StateTaxBrackets.ts
+ */
+
+import type { FilingStatus } from '../types';
+import { STATE_TAX_BRACKETS, type StateTaxBracket } from './StateTaxBrackets';
+
+export interface FederalTaxBracket {
+  min: number;
+  max: number;
+  /** Marginal rate as decimal */
+  rate: number;
+}
+
+export type StateBracketTable = Record<string, Record<FilingStatus, StateTaxBracket[]>>;
+
+export interface PublishedTaxTable {
+  capitalGainsBrackets?: Record<FilingStatus, FederalTaxBracket[]>;
+  ordinaryIncomeBrackets?: Record<FilingStatus, FederalTaxBracket[]>;
+  stateBrackets?: StateBracketTable;
+}
+
+export interface TaxTable {
+  taxYear: number;
+  /** Whether any part was projected past its latest published year */
+  isProjected: boolean;
+  /** Latest published year used for the federal brackets */
+  federalSourceYear: number;
+  capitalGainsBrackets: Record<FilingStatus, FederalTaxBracket[]>;
+  ordinaryIncomeBrackets: Record<FilingStatus, FederalTaxBracket[]>;
+  stateBrackets: StateBracketTable;
+  section121Exclusion: Record<FilingStatus, number>;
+}
+
+/** Tax year assumed when a calculator is not given one */
+export const DEFAULT_TAX_YEAR = 2024;
+
+// Exclusion amounts have been fixed since 1997 and are not inflation-indexed
+export const SECTION_121_EXCLUSION_AMOUNTS: Record<FilingStatus, number> = {
+  single: 250000,
+  married_joint: 500000,
+  married_separate: 250000,
+  head_of_household: 250000,
+};
+
+export const TAX_TABLES: Record<number, PublishedTaxTable> = {
+  2024: {
+    capitalGainsBrackets: {
+      single: [
+        { min: 0, max: 47025, rate: 0.00 },
+        { min: 47025, max: 518900, rate: 0.15 },
+        { min: 518900, max: Infinity, rate: 0.20 },
+      ],
+      married_joint: [
+        { min: 0, max: 94050, rate: 0.00 },
+        { min: 94050, max: 583750, rate: 0.15 },
+        { min: 583750, max: Infinity, rate: 0.20 },
+      ],
+      married_separate: [
+        { min: 0, max: 47025, rate: 0.00 },
+        { min: 47025, max: 291875, rate: 0.15 },
+        { min: 291875, max: Infinity, rate: 0.20 },
+      ],
+      head_of_household: [
+        { min: 0, max: 63000, rate: 0.00 },
+        { min: 63000, max: 551350, rate: 0.15 },
+        { min: 551350, max: Infinity, rate: 0.20 },
+      ],
+    },
+    ordinaryIncomeBrackets: {
+      single: [
+        { min: 0, max: 11600, rate: 0.10 },
+        { min: 11600, max: 47150, rate: 0.12 },
+        { min: 47150, max: 100525, rate: 0.22 },
+        { min: 100525, max: 191950, rate: 0.24 },
+        { min: 191950, max: 243725, rate: 0.32 },
+        { min: 243725, max: 609350, rate: 0.35 },
+        { min: 609350, max: Infinity, rate: 0.37 },
+      ],
+      married_joint: [
+        { min: 0, max: 23200, rate: 0.10 },
+        { min: 23200, max: 94300, rate: 0.12 },
+        { min: 94300, max: 201050, rate: 0.22 },
+        { min: 201050, max: 383900, rate: 0.24 },
+        { min: 383900, max: 487450, rate: 0.32 },
+        { min: 487450, max: 731200, rate: 0.35 },
+        { min: 731200, max: Infinity, rate: 0.37 },
+      ],
+      married_separate: [
+        { min: 0, max: 11600, rate: 0.10 },
+        { min: 11600, max: 47150, rate: 0.12 },
+        { min: 47150, max: 100525, rate: 0.22 },
+        { min: 100525, max: 191950, rate: 0.24 },
+        { min: 191950, max: 243725, rate: 0.32 },
+        { min: 243725, max: 365600, rate: 0.35 },
+        { min: 365600, max: Infinity, rate: 0.37 },
+      ],
+      head_of_household: [
+        { min: 0, max: 16550, rate: 0.10 },
+        { min: 16550, max: 63100, rate: 0.12 },
+        { min: 63100, max: 100500, rate: 0.22 },
+        { min: 100500, max: 191950, rate: 0.24 },
+        { min: 191950, max: 243700, rate: 0.32 },
+        { min: 243700, max: 609350, rate: 0.35 },
+        { min: 609350, max: Infinity, rate: 0.37 },
+      ],
+    },
+    stateBrackets: STATE_TAX_BRACKETS,
+  },
+  2025: {
+    capitalGainsBrackets: {
+      single: [
+        { min: 0, max: 48350, rate: 0.00 },
+        { min: 48350, max: 533400, rate: 0.15 },
+        { min: 533400, max: Infinity, rate: 0.20 },
+      ],
+      married_joint: [
+        { min: 0, max: 96700, rate: 0.00 },
+        { min: 96700, max: 600050, rate: 0.15 },
+        { min: 600050, max: Infinity, rate: 0.20 },
+      ],
+      married_separate: [
+        { min: 0, max: 48350, rate: 0.00 },
+        { min: 48350, max: 300000, rate: 0.15 },
+        { min: 300000, max: Infinity, rate: 0.20 },
+      ],
+      head_of_household: [
+        { min: 0, max: 64750, rate: 0.00 },
+        { min: 64750, max: 566700, rate: 0.15 },
+        { min: 566700, max: Infinity, rate: 0.20 },
+      ],
+    },
+    ordinaryIncomeBrackets: {
+      single: [
+        { min: 0, max: 11925, rate: 0.10 },
+        { min: 11925, max: 48475, rate: 0.12 },
+        { min: 48475, max: 103350, rate: 0.22 },
+        { min: 103350, max: 197300, rate: 0.24 },
+        { min: 197300, max: 250525, rate: 0.32 },
+        { min: 250525, max: 626350, rate: 0.35 },
+        { min: 626350, max: Infinity, rate: 0.37 },
+      ],
+      married_joint: [
+        { min: 0, max: 23850, rate: 0.10 },
+        { min: 23850, max: 96950, rate: 0.12 },
+        { min: 96950, max: 206700, rate: 0.22 },
+        { min: 206700, max: 394600, rate: 0.24 },
+        { min: 394600, max: 501050, rate: 0.32 },
+        { min: 501050, max: 751600, rate: 0.35 },
+        { min: 751600, max: Infinity, rate: 0.37 },
+      ],
+      married_separate: [
+        { min: 0, max: 11925, rate: 0.10 },
+        { min: 11925, max: 48475, rate: 0.12 },
+        { min: 48475, max: 103350, rate: 0.22 },
+        { min: 103350, max: 197300, rate: 0.24 },
+        { min: 197300, max: 250525, rate: 0.32 },
+        { min: 250525, max: 375800, rate: 0.35 },
+        { min: 375800, max: Infinity, rate: 0.37 },
+      ],
+      head_of_household: [
+        { min: 0, max: 17000, rate: 0.10 },
+        { min: 17000, max: 64850, rate: 0.12 },
+        { min: 64850, max: 103350, rate: 0.22 },
+        { min: 103350, max: 197300, rate: 0.24 },
+        { min: 197300, max: 250500, rate: 0.32 },
+        { min: 250500, max: 626350, rate: 0.35 },
+        { min: 626350, max: Infinity, rate: 0.37 },
+      ],
+    },
+  },
+};
+
+const PUBLISHED_YEARS = Object.keys(TAX_TABLES).map(Number).sort((a, b) => a - b);
+
+/** Latest tax year with a published table; later years are projected */
+export const LATEST_TAX_YEAR = PUBLISHED_YEARS[PUBLISHED_YEARS.length - 1];
+
+/**
+ * Find the latest published year at or before the tax year that has a table part
+ */
+function findSourceYear(taxYear: number, part: keyof PublishedTaxTable): number {
+  const yearsWithPart = PUBLISHED_YEARS.filter(year => TAX_TABLES[year][part]);
+  const earlierYears = yearsWithPart.filter(year => year <= taxYear);
+  return earlierYears.length > 0 ? earlierYears[earlierYears.length - 1] : yearsWithPart[0];
+}
+
+function indexThreshold(amount: number, factor: number, roundTo: number): number {
+  if (amount === Infinity || factor === 1) return amount;
+  return Math.floor((amount * factor) / roundTo) * roundTo;
+}
+
+function indexBrackets<T extends { min: number; max: number }>(brackets: T[], factor: number, roundTo: number): T[] {
+  return brackets.map(bracket => ({
+    ...bracket,
+    min: indexThreshold(bracket.min, factor, roundTo),
+    max: indexThreshold(bracket.max, factor, roundTo),
+  }));
+}
+
+/**
+ * Index state brackets, keeping thresholds that are fixed by law. Each fixed
+ * threshold is split off as a surcharge on top of the indexed schedule, so
+ * indexed thresholds can move past it without dropping the surcharge.
+ */
+function indexStateBrackets(brackets: StateTaxBracket[], factor: number): StateTaxBracket[] {
+  if (factor === 1) return brackets;
+
+  const surcharges: { threshold: number; rate: number }[] = [];
+  const base: StateTaxBracket[] = [];
+  brackets.forEach((bracket, index) => {
+    if (index > 0 && bracket.indexed === false) {
+      surcharges.push({ threshold: bracket.min, rate: bracket.rate - brackets[index - 1].rate });
+      base[base.length - 1] = { ...base[base.length - 1], max: bracket.max };
+      return;
+    }
+    const surchargeRate = surcharges.reduce((sum, surcharge) => sum + surcharge.rate, 0);
+    base.push({ min: bracket.min, max: bracket.max, rate: bracket.rate - surchargeRate });
+  });
+
+  const indexedBase = indexBrackets(base, factor, 1);
+  const thresholds = [...new Set([...indexedBase.map(bracket => bracket.min), ...surcharges.map(surcharge => surcharge.threshold)])]
+    .sort((a, b) => a - b);
+
+  return thresholds.map((min, index) => {
+    const baseRate = indexedBase.find(bracket => min >= bracket.min && min < bracket.max)!.rate;
+    const surchargeRate = surcharges
+      .filter(surcharge => surcharge.threshold <= min)
+      .reduce((sum, surcharge) => sum + surcharge.rate, 0);
+    const isFixed = surcharges.some(surcharge => surcharge.threshold === min);
+    return {
+      min,
+      max: thresholds[index + 1] ?? Infinity,
+      rate: Math.round((baseRate + surchargeRate) * 1e6) / 1e6,
+      ...(isFixed ? { indexed: false } : {})
+    };
+  });
+}
+
+function indexByFilingStatus<T extends { min: number; max: number }>(
+  table: Record<FilingStatus, T[]>,
+  factor: number,
+  roundTo: number
+): Record<FilingStatus, T[]> {
+  return {
+    single: indexBrackets(table.single, factor, roundTo),
+    married_joint: indexBrackets(table.married_joint, factor, roundTo),
+    married_separate: indexBrackets(table.married_separate, factor, roundTo),
+    head_of_household: indexBrackets(table.head_of_household, factor, roundTo),
+  };
+}
+
+/**
+ * CPI factor from a published year to a later tax year (1 for earlier years)
+ */
+export function getInflationFactor(sourceYear: number, taxYear: number, inflationRate: number): number {
+  return Math.pow(1 + inflationRate / 100, Math.max(0, taxYear - sourceYear));
+}
+
+/**
+ * Get the tax table for a tax year, projecting thresholds past the latest
+ * published table with the given annual inflation rate (percent)
+ */
+export function getTaxTable(taxYear: number = DEFAULT_TAX_YEAR, inflationRate: number = 0): TaxTable {
+  const capitalGainsYear = findSourceYear(taxYear, 'capitalGainsBrackets');
+  const ordinaryIncomeYear = findSourceYear(taxYear, 'ordinaryIncomeBrackets');
+  const stateYear = findSourceYear(taxYear, 'stateBrackets');
+
+  const capitalGainsFactor = getInflationFactor(capitalGainsYear, taxYear, inflationRate);
+  const ordinaryIncomeFactor = getInflationFactor(ordinaryIncomeYear, taxYear, inflationRate);
+  const stateFactor = getInflationFactor(stateYear, taxYear, inflationRate);
+
+  const publishedStateBrackets = TAX_TABLES[stateYear].stateBrackets!;
+  const stateBrackets: StateBracketTable = {};
+  for (const [stateCode, table] of Object.entries(publishedStateBrackets)) {
+    stateBrackets[stateCode] = {
+      single: indexStateBrackets(table.single, stateFactor),
+      married_joint: indexStateBrackets(table.married_joint, stateFactor),
+      married_separate: indexStateBrackets(table.married_separate, stateFactor),
+      head_of_household: indexStateBrackets(table.head_of_household, stateFactor),
+    };
+  }
+
+  return {
+    taxYear,
+    isProjected: [capitalGainsYear, ordinaryIncomeYear, stateYear].some(year => year < taxYear),
+    federalSourceYear: capitalGainsYear,
+    capitalGainsBrackets: indexByFilingStatus(TAX_TABLES[capitalGainsYear].capitalGainsBrackets!, capitalGainsFactor, 50),
+    ordinaryIncomeBrackets: indexByFilingStatus(TAX_TABLES[ordinaryIncomeYear].ordinaryIncomeBrackets!, ordinaryIncomeFactor, 50),
+    stateBrackets,
+    section121Exclusion: { ...SECTION_121_EXCLUSION_AMOUNTS },
+  };
+}
@@ -8,9 +8,11 @@ export interface TaxCalculationResult {
   taxableGain: number;
   taxRate: number;
   taxAmount: number;
-  bracketInfo: {
+  bracketBreakdown: {
     min: number;
     max: number;
     rate: number;
-  };
+    taxableAmount: number;
+    taxAmount: number;
+  }[];
 }
\ No newline at end of file
@@ -1,18 +1,39 @@
 import {
   doc,
   setDoc,
-  getDoc
+  getDoc,
+  deleteDoc,
+  runTransaction,
+  type DocumentData
 } from 'firebase/firestore';
 import { db } from './firebase';
 
+// Raised when the cloud portfolio changed since the revision a save was based on
+export class PortfolioConflictError extends Error {
+  cloudData: DocumentData | null;
+
+  constructor(cloudData: DocumentData | null) {
+    super('Cloud portfolio was changed on another device');
+    this.name = 'PortfolioConflictError';
+    this.cloudData = cloudData;
+  }
+}
+
 export class FirestoreService {
   // Check if Firebase is disabled
   private static isFirebaseDisabled(): boolean {
     return db === null;
   }
 
-  // Save entire portfolio to cloud as a single JSON document
-  static async savePortfolio(userId: string, portfolioData: any) {
+  // Document of a scenario's portfolio; the default scenario (no id) keeps the original document
+  private static getPortfolioPath(userId: string, scenarioId?: string): string {
+    return scenarioId ? `users/${userId}/scenarios/${scenarioId}` : `users/${userId}/data/portfolio`;
+  }
+
+  // Save entire portfolio to cloud as a single JSON document.
+  // With an expected revision the write only happens if the cloud document is still at
+  // that revision (or missing); otherwise a PortfolioConflictError carries the cloud data.
+  static async savePortfolio(userId: string, portfolioData: any, scenarioId?: string, expectedRevision?: number) {
     // Skip if Firebase is disabled
     if (this.isFirebaseDisabled()) {
       console.log('Firebase disabled, skipping cloud save');
@@ -24,10 +45,19 @@ export class FirestoreService {
       console.log('Data size:', JSON.stringify(portfolioData).length, 'characters');
       
       // Use correct Firestore path: collection/document/collection/document
-      const portfolioRef = doc(db, `users/${userId}/data/portfolio`);
+      const portfolioRef = doc(db, this.getPortfolioPath(userId, scenarioId));
       
       // Add timeout to prevent hanging operations
-      const saveOperation = setDoc(portfolioRef, portfolioData);
+      const saveOperation = expectedRevision === undefined
+        ? setDoc(portfolioRef, portfolioData)
+        : runTransaction(db, async (transaction) => {
+            const snapshot = await transaction.get(portfolioRef);
+            const cloudData = snapshot.exists() ? snapshot.data() : null;
+            if (cloudData && (cloudData.revision ?? 0) !== expectedRevision) {
+              throw new PortfolioConflictError(cloudData);
+            }
+            transaction.set(portfolioRef, portfolioData);
+          });
       const timeoutPromise = new Promise((_, reject) => {
         setTimeout(() => reject(new Error('Firestore operation timed out after 10 seconds')), 10000);
       });
@@ -36,6 +66,8 @@ export class FirestoreService {
       
       console.log('Portfolio saved successfully');
     } catch (error: any) {
+      if (error instanceof PortfolioConflictError) throw error;
+
       console.error('FirestoreService.savePortfolio failed:', error);
       
       // Add more context to common Firestore errors
@@ -56,7 +88,7 @@ export class FirestoreService {
   }
 
   // Load entire portfolio from cloud
-  static async loadPortfolio(userId: string) {
+  static async loadPortfolio(userId: string, scenarioId?: string) {
     // Skip if Firebase is disabled
     if (this.isFirebaseDisabled()) {
       console.log('Firebase disabled, skipping cloud load');
@@ -67,7 +99,7 @@ export class FirestoreService {
       console.log('Attempting to load portfolio for user:', userId);
       
       // Use correct Firestore path: collection/document/collection/document
-      const portfolioRef = doc(db, `users/${userId}/data/portfolio`);
+      const portfolioRef = doc(db, this.getPortfolioPath(userId, scenarioId));
       
       // Add timeout to prevent hanging operations
       const loadOperation = getDoc(portfolioRef);
@@ -100,6 +132,43 @@ export class FirestoreService {
     }
   }
 
+  // Delete a scenario's portfolio
+  static async deletePortfolio(userId: string, scenarioId?: string) {
+    // Skip if Firebase is disabled
+    if (this.isFirebaseDisabled()) {
+      console.log('Firebase disabled, skipping cloud delete');
+      return;
+    }
+
+    const portfolioRef = doc(db, this.getPortfolioPath(userId, scenarioId));
+    await deleteDoc(portfolioRef);
+  }
+
+  // Save the list of scenarios and which one is active
+  static async saveScenarioIndex(userId: string, index: object) {
+    // Skip if Firebase is disabled
+    if (this.isFirebaseDisabled()) {
+      console.log('Firebase disabled, skipping scenario list save');
+      return;
+    }
+
+    const indexRef = doc(db, `users/${userId}/data/scenarios`);
+    await setDoc(indexRef, index);
+  }
+
+  // Load the list of scenarios
+  static async loadScenarioIndex(userId: string) {
+    // Skip if Firebase is disabled
+    if (this.isFirebaseDisabled()) {
+      console.log('Firebase disabled, skipping scenario list load');
+      return null;
+    }
+
+    const indexRef = doc(db, `users/${userId}/data/scenarios`);
+    const indexSnap = await getDoc(indexRef);
+    return indexSnap.exists() ? indexSnap.data() : null;
+  }
+
   // Save user profile
   static async saveUserProfile(userId: string, profile: any) {
     // Skip if Firebase is disabled